@@ -6,10 +6,11 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { Button, Card, Input } from "@/components/ui";
 import { footerStyles } from "@/app/ui-styles";
+import { TAX_CLASSES } from "@/lib/tax-rates";
 
 /**
  * Edit Category Page (Admin-only)
- * Admin category editing form : name, slug, icon
+ * Admin category editing form : name, slug, icon, tax class
  * PUT to /api/categories/[id] to update category
  */
 
@@ -18,6 +19,7 @@ interface Category {
   name: string;
   slug: string;
   icon: string | null;
+  taxClass: string;
 }
 
 export default function EditCategoryPage() {
@@ -31,6 +33,7 @@ export default function EditCategoryPage() {
     name: "",
     slug: "",
     icon: "",
+    taxClass: "STANDARD",
   });
 
   const [loading, setLoading] = useState(true);
@@ -73,6 +76,7 @@ export default function EditCategoryPage() {
           name: category.name,
           slug: category.slug,
           icon: category.icon || "",
+          taxClass: category.taxClass,
         });
       } catch (err) {
         setError(
@@ -86,7 +90,9 @@ export default function EditCategoryPage() {
     fetchData();
   }, [isSignedIn, router, categoryId]);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
     const { name, value } = e.target;
     setFormData((prev) => ({
       ...prev,
@@ -194,6 +200,28 @@ export default function EditCategoryPage() {
               </p>
             </div>
 
+            {/* Tax class */}
+            <div>
+              <label className="block text-sm font-semibold mb-2">
+                Tax Class
+              </label>
+              <select
+                name="taxClass"
+                value={formData.taxClass}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {TAX_CLASSES.map((taxClass) => (
+                  <option key={taxClass.value} value={taxClass.value}>
+                    {taxClass.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                How products in this category are taxed
+              </p>
+            </div>
+
             {/* Buttons */}
             <div className="flex gap-4 pt-6">
               <Button
@@ -6,10 +6,11 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { Button, Card, Input } from "@/components/ui";
 import { footerStyles } from "@/app/ui-styles";
+import { TAX_CLASSES } from "@/lib/tax-rates";
 
 /**
  * Create Category Page (Admin-only)
- * Admin category creation form : name, slug, and icon
+ * Admin category creation form : name, slug, icon and tax class
  * POST to /api/categories to create new category
  */
 
@@ -22,6 +23,7 @@ export default function CreateCategoryPage() {
     name: "",
     slug: "",
     icon: "",
+    taxClass: "STANDARD",
   });
 
   const [loading, setLoading] = useState(false);
@@ -56,7 +58,9 @@ export default function CreateCategoryPage() {
     fetchUserRole();
   }, [isSignedIn, router]);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
     const { name, value } = e.target;
     setFormData((prev) => ({
       ...prev,
@@ -161,6 +165,28 @@ export default function CreateCategoryPage() {
             </p>
           </div>
 
+          {/* Tax class */}
+          <div>
+            <label className="block text-sm font-semibold mb-2">
+              Tax Class
+            </label>
+            <select
+              name="taxClass"
+              value={formData.taxClass}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {TAX_CLASSES.map((taxClass) => (
+                <option key={taxClass.value} value={taxClass.value}>
+                  {taxClass.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              How products in this category are taxed
+            </p>
+          </div>
+
           {/* Buttons */}
           <div className="flex gap-4 pt-6">
             <Button
@@ -0,0 +1,282 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Company Accounts Page(Admin Only)
+ * Approve companies for net terms, set their credit limits and record tax
+ * exemption certificates
+ */
+
+interface Company {
+  id: string;
+  name: string;
+  paymentTermsDays: number | null;
+  creditLimitCents: number | null;
+  taxExemptionNumber: string | null;
+  openBalanceCents: number;
+  _count: { members: number };
+}
+
+// Editable copy of a company's terms; empty string = not set
+interface TermsForm {
+  paymentTermsDays: string;
+  creditLimit: string;
+  taxExemptionNumber: string;
+}
+
+const inputClass =
+  "w-28 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const toForm = (company: Company): TermsForm => ({
+  paymentTermsDays: company.paymentTermsDays?.toString() ?? "",
+  creditLimit:
+    company.creditLimitCents === null
+      ? ""
+      : (company.creditLimitCents / 100).toFixed(2),
+  taxExemptionNumber: company.taxExemptionNumber ?? "",
+});
+
+export default function AdminCompaniesPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [forms, setForms] = useState<Record<string, TermsForm>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCompanies = async () => {
+    // GET /api/admin/companies - Companies with terms and open balance
+    const res = await fetch("/api/admin/companies");
+    if (res.ok) {
+      const data = await res.json();
+      const list: Company[] = data.data || [];
+      setCompanies(list);
+      setForms(Object.fromEntries(list.map((c) => [c.id, toForm(c)])));
+    }
+  };
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        // GET /api/auth/me - Verify admin role
+        const authRes = await fetch("/api/auth/me");
+        const authData = authRes.ok ? await authRes.json() : null;
+        const userIsAdmin = authData?.user?.role === "ADMIN";
+        setIsAdmin(userIsAdmin);
+
+        if (!userIsAdmin) {
+          router.push("/");
+          return;
+        }
+
+        await fetchCompanies();
+      } catch (err) {
+        console.error("Error:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [isSignedIn, router]);
+
+  const updateForm = (id: string, changes: Partial<TermsForm>) =>
+    setForms((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+
+  const handleSave = async (id: string) => {
+    const form = forms[id];
+    setSavingId(id);
+    setError(null);
+
+    try {
+      // PUT /api/admin/companies/[id] - Set net terms, credit limit and tax exemption
+      const res = await fetch(`/api/admin/companies/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          paymentTermsDays: form.paymentTermsDays
+            ? parseInt(form.paymentTermsDays, 10)
+            : null,
+          creditLimitCents: form.creditLimit
+            ? Math.round(parseFloat(form.creditLimit) * 100)
+            : null,
+          taxExemptionNumber: form.taxExemptionNumber.trim() || null,
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to update company");
+      }
+
+      await fetchCompanies();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-6xl mx-auto px-4 py-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Company Accounts
+          </h1>
+          <p className="text-gray-600 mb-8">
+            Companies with payment terms can place orders on account; leave the
+            terms empty for card payment only. An empty credit limit means no
+            limit. Companies with a tax exemption certificate number are not
+            charged tax. Open balances are listed under{" "}
+            <Link
+              href="/admin/invoices"
+              className="text-blue-600 hover:underline"
+            >
+              invoices
+            </Link>
+            .
+          </p>
+
+          {error && (
+            <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          <Card className="border border-gray-200 bg-white overflow-x-auto">
+            {loading ? (
+              <div className="text-center py-12 text-gray-600">Loading...</div>
+            ) : companies.length === 0 ? (
+              <div className="text-center py-12 text-gray-600">
+                No companies yet
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-3">Company</th>
+                    <th className="px-4 py-3">Members</th>
+                    <th className="px-4 py-3">Terms (days)</th>
+                    <th className="px-4 py-3">Credit Limit ($)</th>
+                    <th className="px-4 py-3">Tax Exemption #</th>
+                    <th className="px-4 py-3">Open Balance</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {companies.map((company) => {
+                    const form = forms[company.id] ?? toForm(company);
+                    return (
+                      <tr key={company.id} className="border-t">
+                        <td className="px-4 py-3 font-medium">
+                          {company.name}
+                        </td>
+                        <td className="px-4 py-3">{company._count.members}</td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="number"
+                            min="1"
+                            step="1"
+                            value={form.paymentTermsDays}
+                            onChange={(e) =>
+                              updateForm(company.id, {
+                                paymentTermsDays: e.target.value,
+                              })
+                            }
+                            placeholder="Card only"
+                            className={inputClass}
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={form.creditLimit}
+                            onChange={(e) =>
+                              updateForm(company.id, {
+                                creditLimit: e.target.value,
+                              })
+                            }
+                            placeholder="No limit"
+                            className={inputClass}
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="text"
+                            value={form.taxExemptionNumber}
+                            onChange={(e) =>
+                              updateForm(company.id, {
+                                taxExemptionNumber: e.target.value,
+                              })
+                            }
+                            placeholder="Taxed"
+                            className={`${inputClass} w-40`}
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          {formatPrice(company.openBalanceCents)}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <button
+                            onClick={() => handleSave(company.id)}
+                            disabled={savingId === company.id}
+                            className="px-3 py-1 bg-blue-600 text-white hover:bg-blue-700 rounded text-sm font-medium transition-colors disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </Card>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
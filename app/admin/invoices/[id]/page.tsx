@@ -0,0 +1,363 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useParams, useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Invoice Detail Page(Admin Only)
+ * Payment history of an on-account invoice and form to record a payment
+ */
+
+interface Invoice {
+  id: string;
+  status: "OPEN" | "PAID" | "VOID";
+  amountCents: number;
+  paidCents: number;
+  issuedAt: string;
+  dueAt: string;
+  paidAt: string | null;
+  overdue: boolean;
+  company: {
+    id: string;
+    name: string;
+    paymentTermsDays: number | null;
+    creditLimitCents: number | null;
+  };
+  order: {
+    id: string;
+    poNumber: string | null;
+    status: string;
+    createdAt: string;
+    buyer: { email: string | null };
+  };
+  payments: {
+    id: string;
+    amountCents: number;
+    method: string;
+    reference: string | null;
+    receivedAt: string;
+    recordedBy: { email: string | null } | null;
+  }[];
+}
+
+const PAYMENT_METHODS = ["CHEQUE", "WIRE", "EFT", "CARD", "OTHER"];
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export default function AdminInvoiceDetailPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const params = useParams();
+  const invoiceId = params.id as string;
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    amount: "",
+    method: "CHEQUE",
+    reference: "",
+    receivedOn: new Date().toISOString().slice(0, 10),
+  });
+
+  const fetchInvoice = useCallback(async () => {
+    // GET /api/admin/invoices/[id] - Invoice with order and payments
+    const res = await fetch(`/api/admin/invoices/${invoiceId}`);
+    if (!res.ok) {
+      setInvoice(null);
+      return;
+    }
+    const data = await res.json();
+    const inv: Invoice = data.data;
+    setInvoice(inv);
+    // Default to paying off the remaining balance
+    setForm((prev) => ({
+      ...prev,
+      amount: ((inv.amountCents - inv.paidCents) / 100).toFixed(2),
+      reference: "",
+    }));
+  }, [invoiceId]);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        // GET /api/auth/me - Verify admin role
+        const authRes = await fetch("/api/auth/me");
+        const authData = authRes.ok ? await authRes.json() : null;
+        const userIsAdmin = authData?.user?.role === "ADMIN";
+        setIsAdmin(userIsAdmin);
+
+        if (!userIsAdmin) {
+          router.push("/");
+          return;
+        }
+
+        await fetchInvoice();
+      } catch (err) {
+        console.error("Error:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [isSignedIn, router, fetchInvoice]);
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      // POST /api/admin/invoices/[id]/payments - Record payment received
+      const res = await fetch(`/api/admin/invoices/${invoiceId}/payments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amountCents: Math.round(parseFloat(form.amount) * 100),
+          method: form.method,
+          reference: form.reference || undefined,
+          receivedAt: form.receivedOn,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || "Failed to record payment");
+        return;
+      }
+      await fetchInvoice();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-5xl mx-auto px-4 py-8">
+          <div className="mb-6">
+            <Link href="/admin/invoices">
+              <Button variant="secondary">← Back to Invoices</Button>
+            </Link>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-600">Loading...</div>
+          ) : !invoice ? (
+            <div className="text-center py-12 text-gray-600">
+              Invoice not found
+            </div>
+          ) : (
+            <>
+              <h1 className="text-4xl font-bold text-gray-900 mb-2">
+                Invoice #{invoice.id.slice(0, 8)}
+              </h1>
+              <p className="text-gray-600">
+                {invoice.company.name}
+                {invoice.company.paymentTermsDays !== null &&
+                  ` · Net ${invoice.company.paymentTermsDays}`}{" "}
+                · ordered by {invoice.order.buyer.email ?? "—"} ·{" "}
+                <Link
+                  href={`/admin/orders/${invoice.order.id}`}
+                  className="text-blue-600 hover:underline"
+                >
+                  Order #{invoice.order.id.slice(0, 8)} ({invoice.order.status})
+                </Link>
+                {invoice.order.poNumber && ` · PO ${invoice.order.poNumber}`}
+              </p>
+              <p className="text-gray-600 mb-8">
+                Issued {new Date(invoice.issuedAt).toLocaleDateString()} · due{" "}
+                {new Date(invoice.dueAt).toLocaleDateString()} ·{" "}
+                <span
+                  className={`font-semibold ${
+                    invoice.overdue ? "text-red-600" : ""
+                  }`}
+                >
+                  {invoice.overdue ? "OVERDUE" : invoice.status}
+                </span>
+                {invoice.paidAt &&
+                  ` · paid ${new Date(invoice.paidAt).toLocaleDateString()}`}
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                <Card className="p-6 bg-white border border-gray-200">
+                  <h3 className="text-gray-600 text-sm font-medium">Amount</h3>
+                  <p className="text-2xl font-bold text-gray-900 mt-2">
+                    {formatPrice(invoice.amountCents)}
+                  </p>
+                </Card>
+                <Card className="p-6 bg-white border border-gray-200">
+                  <h3 className="text-gray-600 text-sm font-medium">Paid</h3>
+                  <p className="text-2xl font-bold text-gray-900 mt-2">
+                    {formatPrice(invoice.paidCents)}
+                  </p>
+                </Card>
+                <Card className="p-6 bg-white border border-gray-200">
+                  <h3 className="text-gray-600 text-sm font-medium">Balance</h3>
+                  <p
+                    className={`text-2xl font-bold mt-2 ${
+                      invoice.overdue ? "text-red-600" : "text-gray-900"
+                    }`}
+                  >
+                    {formatPrice(invoice.amountCents - invoice.paidCents)}
+                  </p>
+                </Card>
+              </div>
+
+              <Card className="p-6 border border-gray-200 bg-white mb-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                  Payments
+                </h2>
+                {invoice.payments.length === 0 ? (
+                  <p className="text-sm text-gray-600">No payments yet</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-left">
+                      <tr>
+                        <th className="px-4 py-3">Received</th>
+                        <th className="px-4 py-3">Method</th>
+                        <th className="px-4 py-3">Reference</th>
+                        <th className="px-4 py-3">Amount</th>
+                        <th className="px-4 py-3">Recorded by</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {invoice.payments.map((payment) => (
+                        <tr key={payment.id} className="border-t">
+                          <td className="px-4 py-3">
+                            {new Date(payment.receivedAt).toLocaleDateString()}
+                          </td>
+                          <td className="px-4 py-3">{payment.method}</td>
+                          <td className="px-4 py-3 font-mono">
+                            {payment.reference ?? "—"}
+                          </td>
+                          <td className="px-4 py-3">
+                            {formatPrice(payment.amountCents)}
+                          </td>
+                          <td className="px-4 py-3 text-gray-600">
+                            {payment.recordedBy?.email ?? "—"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </Card>
+
+              {invoice.status === "OPEN" && (
+                <Card className="p-6 border border-gray-200 bg-white">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                    Record Payment
+                  </h2>
+                  {error && (
+                    <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+                      {error}
+                    </div>
+                  )}
+                  <form
+                    onSubmit={handleRecordPayment}
+                    className="flex flex-wrap gap-4 items-end"
+                  >
+                    <label className="text-sm text-gray-600">
+                      Amount ($)
+                      <input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        required
+                        value={form.amount}
+                        onChange={(e) =>
+                          setForm({ ...form, amount: e.target.value })
+                        }
+                        className={`block w-32 ${inputClass}`}
+                      />
+                    </label>
+                    <label className="text-sm text-gray-600">
+                      Method
+                      <select
+                        value={form.method}
+                        onChange={(e) =>
+                          setForm({ ...form, method: e.target.value })
+                        }
+                        className={`block ${inputClass}`}
+                      >
+                        {PAYMENT_METHODS.map((method) => (
+                          <option key={method} value={method}>
+                            {method}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="text-sm text-gray-600 flex-1">
+                      Reference
+                      <input
+                        value={form.reference}
+                        onChange={(e) =>
+                          setForm({ ...form, reference: e.target.value })
+                        }
+                        placeholder="Cheque or wire number (optional)"
+                        className={`block w-full ${inputClass}`}
+                      />
+                    </label>
+                    <label className="text-sm text-gray-600">
+                      Received on
+                      <input
+                        type="date"
+                        required
+                        value={form.receivedOn}
+                        onChange={(e) =>
+                          setForm({ ...form, receivedOn: e.target.value })
+                        }
+                        className={`block ${inputClass}`}
+                      />
+                    </label>
+                    <Button type="submit" variant="primary" disabled={saving}>
+                      Record Payment
+                    </Button>
+                  </form>
+                </Card>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
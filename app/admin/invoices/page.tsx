@@ -0,0 +1,236 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Invoices Page(Admin Only)
+ * Invoices for orders placed on net terms, filtered by open/overdue/paid
+ */
+
+type InvoiceFilter = "OPEN" | "OVERDUE" | "PAID" | "VOID";
+
+interface Invoice {
+  id: string;
+  status: "OPEN" | "PAID" | "VOID";
+  amountCents: number;
+  paidCents: number;
+  issuedAt: string;
+  dueAt: string;
+  overdue: boolean;
+  company: { id: string; name: string };
+  order: { id: string; poNumber: string | null };
+}
+
+const FILTERS: { value: InvoiceFilter | ""; label: string }[] = [
+  { value: "OPEN", label: "Open" },
+  { value: "OVERDUE", label: "Overdue" },
+  { value: "PAID", label: "Paid" },
+  { value: "VOID", label: "Void" },
+  { value: "", label: "All invoices" },
+];
+
+const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export default function AdminInvoicesPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [status, setStatus] = useState<InvoiceFilter | "">("OPEN");
+  const [loading, setLoading] = useState(true);
+
+  const fetchInvoices = useCallback(async () => {
+    setLoading(true);
+    try {
+      // GET /api/admin/invoices - Invoices, optionally filtered by status
+      const res = await fetch(
+        `/api/admin/invoices${status ? `?status=${status}` : ""}`
+      );
+      if (res.ok) {
+        const data = await res.json();
+        setInvoices(data.data);
+      }
+    } catch (err) {
+      console.error("Error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifyAdmin = async () => {
+      // GET /api/auth/me - Verify admin role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsAdmin = data?.user?.role === "ADMIN";
+      setIsAdmin(userIsAdmin);
+      if (!userIsAdmin) router.push("/");
+    };
+
+    verifyAdmin();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (isAdmin) fetchInvoices();
+  }, [isAdmin, fetchInvoices]);
+
+  if (!isAdmin) return null;
+
+  const outstandingCents = invoices
+    .filter((invoice) => invoice.status === "OPEN")
+    .reduce((sum, invoice) => sum + invoice.amountCents - invoice.paidCents, 0);
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-6xl mx-auto px-4 py-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Invoices</h1>
+          <p className="text-gray-600 mb-8">
+            Orders placed on account. Record payments as they come in; set net
+            terms and credit limits on{" "}
+            <Link
+              href="/admin/companies"
+              className="text-blue-600 hover:underline"
+            >
+              company accounts
+            </Link>
+            .
+          </p>
+
+          <div className="mb-6 flex items-center justify-between">
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as InvoiceFilter | "")}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {FILTERS.map((f) => (
+                <option key={f.value} value={f.value}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-gray-700">
+              Outstanding:{" "}
+              <span className="font-semibold">
+                {formatPrice(outstandingCents)}
+              </span>
+            </p>
+          </div>
+
+          <Card className="border border-gray-200 bg-white overflow-x-auto">
+            {loading ? (
+              <div className="text-center py-12 text-gray-600">Loading...</div>
+            ) : invoices.length === 0 ? (
+              <div className="text-center py-12 text-gray-600">
+                No invoices found
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-3">Invoice</th>
+                    <th className="px-4 py-3">Company</th>
+                    <th className="px-4 py-3">Order</th>
+                    <th className="px-4 py-3">Issued</th>
+                    <th className="px-4 py-3">Due</th>
+                    <th className="px-4 py-3">Amount</th>
+                    <th className="px-4 py-3">Balance</th>
+                    <th className="px-4 py-3">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {invoices.map((invoice) => (
+                    <tr key={invoice.id} className="border-t hover:bg-gray-50">
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/admin/invoices/${invoice.id}`}
+                          className="text-blue-600 hover:underline font-mono"
+                        >
+                          #{invoice.id.slice(0, 8)}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3">{invoice.company.name}</td>
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/admin/orders/${invoice.order.id}`}
+                          className="text-blue-600 hover:underline font-mono"
+                        >
+                          #{invoice.order.id.slice(0, 8)}
+                        </Link>
+                        {invoice.order.poNumber && (
+                          <p className="text-xs text-gray-500">
+                            PO {invoice.order.poNumber}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-gray-600">
+                        {new Date(invoice.issuedAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-4 py-3 text-gray-600">
+                        {new Date(invoice.dueAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-4 py-3">
+                        {formatPrice(invoice.amountCents)}
+                      </td>
+                      <td className="px-4 py-3 font-medium">
+                        {formatPrice(invoice.amountCents - invoice.paidCents)}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            invoice.overdue
+                              ? "bg-red-100 text-red-800"
+                              : invoice.status === "PAID"
+                                ? "bg-green-100 text-green-800"
+                                : invoice.status === "VOID"
+                                  ? "bg-gray-100 text-gray-800"
+                                  : "bg-yellow-100 text-yellow-800"
+                          }`}
+                        >
+                          {invoice.overdue ? "OVERDUE" : invoice.status}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Card>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,861 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useParams, useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card, Input } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+import { formatTaxLabel } from "@/lib/tax-rates";
+import { formatShippingMethod } from "@/lib/shipping-methods";
+import { OrderAddresses, type OrderAddress } from "@/app/order-addresses";
+
+/**
+ * Admin Order Detail Page (Admin-only)
+ * View any buyer's order, record shipments, move it through fulfillment
+ * statuses, refund it and see its history
+ */
+
+interface StatusChange {
+  id: string;
+  fromStatus: string;
+  toStatus: string;
+  note: string | null;
+  createdAt: string;
+  changedBy: {
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+  } | null;
+}
+
+interface Shipment {
+  id: string;
+  carrier: string;
+  trackingNumber: string | null;
+  shippedAt: string;
+  items: { orderLineId: string; quantity: number }[];
+}
+
+interface AdminOrderDetail {
+  id: string;
+  status: string;
+  paymentMethod: "CARD" | "ON_ACCOUNT";
+  paymentStatus: string | null;
+  invoice: {
+    id: string;
+    status: "OPEN" | "PAID" | "VOID";
+    dueAt: string;
+    paidCents: number;
+  } | null;
+  subtotalCents: number;
+  taxCents: number;
+  taxes: {
+    name: string;
+    jurisdiction: string;
+    rate: number;
+    amountCents: number;
+  }[];
+  shipToCountry: string | null;
+  shipToRegion: string | null;
+  shipTo: OrderAddress | null;
+  billTo: OrderAddress | null;
+  taxExemptionNumber: string | null;
+  shippingMethod: string | null;
+  shippingCents: number;
+  totalCents: number;
+  refundedCents: number;
+  poNumber: string | null;
+  notes: string | null;
+  createdAt: string;
+  paidAt: string | null;
+  allowedTransitions: string[];
+  buyer: {
+    id: string;
+    email: string | null;
+    firstName: string | null;
+    lastName: string | null;
+    company: string | null;
+    phone: string | null;
+    address: string | null;
+  };
+  lines: {
+    id: string;
+    quantity: number;
+    backorderedQuantity: number; // waiting for stock, cannot ship yet
+    dropShipQuantity: number; // shipped by its supplier
+    shippedQuantity: number;
+    refundedQuantity: number; // refunded before shipping, no longer ships
+    refundableQuantity: number;
+    unitPriceCents: number;
+    product: { id: string; name: string; sku: string | null };
+  }[];
+  statusChanges: StatusChange[];
+  shipments: Shipment[];
+  returns: {
+    id: string;
+    number: string;
+    status: "REQUESTED" | "APPROVED" | "RECEIVED" | "REJECTED";
+    reason: string;
+    refundCents: number;
+    createdAt: string;
+  }[];
+  payments: {
+    id: string;
+    status: "PENDING" | "SUCCEEDED" | "FAILED" | "EXPIRED" | "REFUNDED";
+    amountCents: number;
+    failureReason: string | null;
+    createdAt: string;
+    paidAt: string | null;
+  }[];
+  refunds: {
+    id: string;
+    amountCents: number;
+    stripeRefundId: string | null;
+    reason: string | null;
+    createdAt: string;
+    createdBy: { email: string | null } | null;
+  }[];
+}
+
+// Units of a line that can still be shipped
+const readyToShip = (line: AdminOrderDetail["lines"][number]) =>
+  line.quantity -
+  line.backorderedQuantity -
+  line.dropShipQuantity -
+  line.refundedQuantity -
+  line.shippedQuantity;
+
+export default function AdminOrderDetailPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const params = useParams();
+  const orderId = params.id as string;
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [order, setOrder] = useState<AdminOrderDetail | null>(null);
+  const [note, setNote] = useState("");
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [carrier, setCarrier] = useState("");
+  const [trackingNumber, setTrackingNumber] = useState("");
+  const [shipQuantities, setShipQuantities] = useState<Record<string, string>>(
+    {}
+  );
+  const [refundQuantities, setRefundQuantities] = useState<
+    Record<string, string>
+  >({});
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+
+  // GET /api/admin/orders/[id] - Fetch order with buyer and history
+  const fetchOrder = useCallback(async () => {
+    const res = await fetch(`/api/admin/orders/${orderId}`);
+    const json = await res.json();
+    if (json.success) {
+      setOrder(json.data);
+      // Default each line to its remaining allocated, unshipped quantity
+      setShipQuantities(
+        Object.fromEntries(
+          (json.data.lines as AdminOrderDetail["lines"]).map((line) => [
+            line.id,
+            String(readyToShip(line)),
+          ])
+        )
+      );
+      setRefundQuantities({});
+    } else {
+      setError(json.error || "Failed to fetch order");
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        const authRes = await fetch("/api/auth/me");
+        if (!authRes.ok) {
+          router.push("/");
+          return;
+        }
+
+        const authData = await authRes.json();
+        const userIsAdmin = authData.user?.role === "ADMIN";
+        setIsAdmin(userIsAdmin);
+
+        if (!userIsAdmin) {
+          router.push("/");
+          return;
+        }
+
+        await fetchOrder();
+      } catch (err) {
+        console.error("Error:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [isSignedIn, router, fetchOrder]);
+
+  // PUT /api/admin/orders/[id]/status - Move order to the next status
+  const handleStatusChange = async (status: string) => {
+    // A paid order is cancelled by refunding all of it
+    if (status === "CANCELLED" && order?.status === "PAID") {
+      await handleRefund(true);
+      return;
+    }
+    if (!confirm(`Change order status to ${status}?`)) return;
+
+    setUpdating(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/orders/${orderId}/status`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, note: note || undefined }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json.error || "Failed to update status");
+      }
+      setNote("");
+      await fetchOrder();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update status");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  // POST /api/admin/orders/[id]/shipments - Record a full or partial shipment
+  const handleCreateShipment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUpdating(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/orders/${orderId}/shipments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          carrier,
+          trackingNumber: trackingNumber || undefined,
+          items: Object.entries(shipQuantities).map(
+            ([orderLineId, quantity]) => ({
+              orderLineId,
+              quantity: Number(quantity) || 0,
+            })
+          ),
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json.error || "Failed to create shipment");
+      }
+      setCarrier("");
+      setTrackingNumber("");
+      await fetchOrder();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to create shipment"
+      );
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  // POST /api/admin/orders/[id]/refunds - Refund units not shipped yet
+  // and/or an amount, or everything (cancelling the order)
+  const handleRefund = async (cancel = false) => {
+    if (!order) return;
+    const lines = Object.entries(refundQuantities)
+      .map(([orderLineId, quantity]) => ({
+        orderLineId,
+        quantity: Number(quantity) || 0,
+      }))
+      .filter((line) => line.quantity > 0);
+    const amountCents = refundAmount
+      ? Math.round(Number(refundAmount) * 100)
+      : undefined;
+    if (
+      !confirm(
+        cancel
+          ? `Cancel this order and refund $${(
+              (order.totalCents - order.refundedCents) /
+              100
+            ).toFixed(2)}?`
+          : amountCents
+            ? `Refund $${(amountCents / 100).toFixed(2)}?`
+            : lines.length > 0
+              ? "Refund the selected items?"
+              : `Refund the remaining $${(
+                  (order.totalCents - order.refundedCents) /
+                  100
+                ).toFixed(2)}?`
+      )
+    ) {
+      return;
+    }
+
+    setUpdating(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/orders/${orderId}/refunds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          cancel
+            ? { cancel, reason: refundReason || note || undefined }
+            : {
+                lines,
+                amountCents,
+                reason: refundReason || undefined,
+              }
+        ),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json.error || "Failed to refund order");
+      }
+      setRefundAmount("");
+      setRefundReason("");
+      setNote("");
+      await fetchOrder();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to refund order");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="text-center py-12">Loading order...</div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-8">
+        <div className="text-center py-12 text-red-600">
+          {error || "Order not found"}
+        </div>
+      </div>
+    );
+  }
+
+  const buyerName =
+    [order.buyer.firstName, order.buyer.lastName].filter(Boolean).join(" ") ||
+    order.buyer.email ||
+    "Unknown";
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-5xl mx-auto px-4 py-8">
+          <div className="flex items-center gap-4 mb-8">
+            <Link href="/admin/orders">
+              <Button variant="secondary">← Back to Orders</Button>
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">
+              Order <span className="font-mono">{order.id.slice(0, 8)}</span>
+            </h1>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            {/* Status & Actions */}
+            <Card className="p-6 border border-gray-200 bg-white">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                Status
+              </h2>
+              <p className="text-sm text-gray-600">
+                Order: <span className="font-semibold">{order.status}</span>
+              </p>
+              <p className="text-sm text-gray-600 mb-4">
+                Payment:{" "}
+                <span className="font-semibold">
+                  {order.paymentStatus || "PENDING"}
+                </span>
+                {order.invoice && (
+                  <>
+                    {" · "}
+                    <Link
+                      href={`/admin/invoices/${order.invoice.id}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      On account, due{" "}
+                      {new Date(order.invoice.dueAt).toLocaleDateString()}
+                    </Link>
+                  </>
+                )}
+              </p>
+              <p className="text-sm text-gray-600 mb-4">
+                Documents:{" "}
+                {["PAID", "SHIPPED", "DELIVERED"].includes(order.status) && (
+                  <>
+                    <a
+                      href={`/api/orders/${order.id}/invoice.pdf`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                    >
+                      Invoice (PDF)
+                    </a>
+                    {" · "}
+                  </>
+                )}
+                <a
+                  href={`/api/orders/${order.id}/packing-slip.pdf`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline"
+                >
+                  Packing slip (PDF)
+                </a>
+              </p>
+              {order.allowedTransitions.length > 0 ? (
+                <>
+                  <Input
+                    placeholder="Note (optional)"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    className="mb-3"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {order.allowedTransitions.map((status) => (
+                      <Button
+                        key={status}
+                        variant={status === "CANCELLED" ? "danger" : "primary"}
+                        disabled={updating}
+                        onClick={() => handleStatusChange(status)}
+                      >
+                        Mark {status}
+                      </Button>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  No further status changes available
+                </p>
+              )}
+            </Card>
+
+            {/* Buyer */}
+            <Card className="p-6 border border-gray-200 bg-white">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                Buyer
+              </h2>
+              <p className="font-semibold text-gray-900">{buyerName}</p>
+              {order.buyer.company && (
+                <p className="text-sm text-gray-600">{order.buyer.company}</p>
+              )}
+              <p className="text-sm text-gray-600">{order.buyer.email}</p>
+              {order.buyer.phone && (
+                <p className="text-sm text-gray-600">{order.buyer.phone}</p>
+              )}
+              <div className="mt-4">
+                <OrderAddresses shipTo={order.shipTo} billTo={order.billTo} />
+              </div>
+              {/* Orders placed before the address book only have this */}
+              {!order.shipTo && !order.billTo && order.buyer.address && (
+                <p className="text-sm text-gray-600 whitespace-pre-wrap mt-2">
+                  {order.buyer.address}
+                </p>
+              )}
+              {order.poNumber && (
+                <p className="text-sm text-gray-600 mt-2">
+                  PO: <span className="font-semibold">{order.poNumber}</span>
+                </p>
+              )}
+            </Card>
+          </div>
+
+          {/* Lines & Totals */}
+          <Card className="p-6 border border-gray-200 bg-white mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Items</h2>
+            {order.lines.map((line) => (
+              <div
+                key={line.id}
+                className="flex justify-between py-2 border-b last:border-b-0 text-sm"
+              >
+                <span>
+                  {line.product.name}{" "}
+                  <span className="text-gray-500">({line.product.sku})</span> ×{" "}
+                  {line.quantity}
+                  <span className="text-gray-500">
+                    {" "}
+                    · shipped {line.shippedQuantity}
+                  </span>
+                  {line.backorderedQuantity > 0 && (
+                    <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800">
+                      {line.backorderedQuantity} backordered
+                    </span>
+                  )}
+                  {line.dropShipQuantity > 0 && (
+                    <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
+                      {line.dropShipQuantity} drop-ship
+                    </span>
+                  )}
+                  {line.refundedQuantity > 0 && (
+                    <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
+                      {line.refundedQuantity} refunded
+                    </span>
+                  )}
+                </span>
+                <span className="font-medium">
+                  ${((line.unitPriceCents * line.quantity) / 100).toFixed(2)}
+                </span>
+              </div>
+            ))}
+            <div className="mt-4 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Subtotal</span>
+                <span>${(order.subtotalCents / 100).toFixed(2)}</span>
+              </div>
+              {order.taxes.map((tax) => (
+                <div
+                  key={`${tax.jurisdiction}:${tax.name}`}
+                  className="flex justify-between"
+                >
+                  <span className="text-gray-600">{formatTaxLabel(tax)}</span>
+                  <span>${(tax.amountCents / 100).toFixed(2)}</span>
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">
+                {order.taxExemptionNumber
+                  ? `Tax exempt (certificate ${order.taxExemptionNumber})`
+                  : order.shipToCountry &&
+                    `Taxed for ${[order.shipToRegion, order.shipToCountry]
+                      .filter(Boolean)
+                      .join(", ")}`}
+              </p>
+              <div className="flex justify-between">
+                <span className="text-gray-600">
+                  Shipping
+                  {order.shippingMethod &&
+                    ` (${formatShippingMethod(order.shippingMethod)})`}
+                </span>
+                <span>${(order.shippingCents / 100).toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between font-bold text-base pt-2 border-t">
+                <span>Total</span>
+                <span>${(order.totalCents / 100).toFixed(2)}</span>
+              </div>
+              {order.refundedCents > 0 && (
+                <div className="flex justify-between text-red-700">
+                  <span>Refunded</span>
+                  <span>-${(order.refundedCents / 100).toFixed(2)}</span>
+                </div>
+              )}
+            </div>
+          </Card>
+
+          {/* Shipments */}
+          <Card className="p-6 border border-gray-200 bg-white mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Shipments
+            </h2>
+            {order.shipments.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-4">No shipments yet</p>
+            ) : (
+              <div className="mb-4 space-y-3">
+                {order.shipments.map((shipment) => (
+                  <div key={shipment.id} className="text-sm border-b pb-2">
+                    <p className="font-medium text-gray-900">
+                      {shipment.carrier}
+                      {shipment.trackingNumber && (
+                        <span className="font-mono text-gray-600">
+                          {" "}
+                          {shipment.trackingNumber}
+                        </span>
+                      )}
+                      <span className="text-gray-500">
+                        {" "}
+                        — {new Date(shipment.shippedAt).toLocaleDateString()}
+                      </span>
+                      <a
+                        href={`/api/orders/${order.id}/packing-slip.pdf?shipmentId=${shipment.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="ml-2 font-normal text-blue-600 hover:underline"
+                      >
+                        Packing slip
+                      </a>
+                    </p>
+                    <ul className="text-gray-600">
+                      {shipment.items.map((item) => (
+                        <li key={item.orderLineId}>
+                          {order.lines.find((l) => l.id === item.orderLineId)
+                            ?.product.name || "Item"}{" "}
+                          × {item.quantity}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {order.status === "PAID" && (
+              <form onSubmit={handleCreateShipment} className="space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <Input
+                    placeholder="Carrier (e.g. UPS, Purolator)"
+                    value={carrier}
+                    onChange={(e) => setCarrier(e.target.value)}
+                    required
+                  />
+                  <Input
+                    placeholder="Tracking number"
+                    value={trackingNumber}
+                    onChange={(e) => setTrackingNumber(e.target.value)}
+                  />
+                </div>
+                {order.lines.map((line) => (
+                  <div
+                    key={line.id}
+                    className="flex items-center justify-between gap-3 text-sm"
+                  >
+                    <span>
+                      {line.product.name}{" "}
+                      <span className="text-gray-500">
+                        ({readyToShip(line)} ready to ship
+                        {line.backorderedQuantity > 0 &&
+                          `, ${line.backorderedQuantity} backordered`}
+                        {line.dropShipQuantity > 0 &&
+                          `, ${line.dropShipQuantity} drop-ship`}
+                        )
+                      </span>
+                    </span>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={readyToShip(line)}
+                      value={shipQuantities[line.id] ?? "0"}
+                      onChange={(e) =>
+                        setShipQuantities((prev) => ({
+                          ...prev,
+                          [line.id]: e.target.value,
+                        }))
+                      }
+                      className="w-24"
+                    />
+                  </div>
+                ))}
+                <Button type="submit" variant="primary" disabled={updating}>
+                  Record Shipment
+                </Button>
+              </form>
+            )}
+          </Card>
+
+          {/* Returns (RMA) */}
+          {order.returns.length > 0 && (
+            <Card className="p-6 border border-gray-200 bg-white mb-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                Returns
+              </h2>
+              {order.returns.map((returnRequest) => (
+                <div
+                  key={returnRequest.id}
+                  className="text-sm text-gray-600 mb-2"
+                >
+                  <Link
+                    href={`/admin/returns/${returnRequest.id}`}
+                    className="text-blue-600 hover:underline font-mono"
+                  >
+                    {returnRequest.number}
+                  </Link>{" "}
+                  — {returnRequest.status}
+                  {(returnRequest.status === "APPROVED" ||
+                    returnRequest.status === "RECEIVED") &&
+                    `, refund $${(returnRequest.refundCents / 100).toFixed(2)}`}{" "}
+                  <span className="text-gray-500">
+                    ({returnRequest.reason})
+                  </span>
+                </div>
+              ))}
+            </Card>
+          )}
+
+          {/* Card payment attempts */}
+          {order.payments.length > 0 && (
+            <Card className="p-6 border border-gray-200 bg-white mb-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                Payments
+              </h2>
+              {order.payments.map((payment) => (
+                <div key={payment.id} className="text-sm text-gray-600 mb-2">
+                  {new Date(payment.createdAt).toLocaleString()} —{" "}
+                  <span className="font-medium text-gray-900">
+                    ${(payment.amountCents / 100).toFixed(2)}
+                  </span>{" "}
+                  {payment.status}
+                  {payment.paidAt &&
+                    `, paid ${new Date(payment.paidAt).toLocaleString()}`}
+                  {payment.failureReason && (
+                    <span className="text-gray-500">
+                      {" "}
+                      ({payment.failureReason})
+                    </span>
+                  )}
+                </div>
+              ))}
+            </Card>
+          )}
+
+          {/* Refunds */}
+          {(order.paidAt || order.invoice) && (
+            <Card className="p-6 border border-gray-200 bg-white mb-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                Refunds
+              </h2>
+              {order.refunds.length === 0 ? (
+                <p className="text-sm text-gray-500 mb-4">No refunds yet</p>
+              ) : (
+                <div className="mb-4 space-y-2">
+                  {order.refunds.map((refund) => (
+                    <div key={refund.id} className="text-sm text-gray-600">
+                      {new Date(refund.createdAt).toLocaleString()} —{" "}
+                      <span className="font-medium text-gray-900">
+                        ${(refund.amountCents / 100).toFixed(2)}
+                      </span>{" "}
+                      by {refund.createdBy?.email || "Stripe dashboard"}
+                      {refund.reason && (
+                        <span className="text-gray-500">
+                          {" "}
+                          ({refund.reason})
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {order.refundedCents < order.totalCents && (
+                <div className="space-y-3">
+                  {order.lines
+                    .filter((line) => line.refundableQuantity > 0)
+                    .map((line) => (
+                      <div
+                        key={line.id}
+                        className="flex items-center justify-between gap-3 text-sm"
+                      >
+                        <span>
+                          {line.product.name}{" "}
+                          <span className="text-gray-500">
+                            ({line.refundableQuantity} not shipped)
+                          </span>
+                        </span>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={line.refundableQuantity}
+                          value={refundQuantities[line.id] ?? "0"}
+                          onChange={(e) =>
+                            setRefundQuantities((prev) => ({
+                              ...prev,
+                              [line.id]: e.target.value,
+                            }))
+                          }
+                          className="w-24"
+                        />
+                      </div>
+                    ))}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <Input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      placeholder="Amount $ (default: items or balance)"
+                      value={refundAmount}
+                      onChange={(e) => setRefundAmount(e.target.value)}
+                    />
+                    <Input
+                      placeholder="Reason (optional)"
+                      value={refundReason}
+                      onChange={(e) => setRefundReason(e.target.value)}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Refunded items are put back in stock and no longer ship.
+                    Items already shipped are refunded through a return.
+                  </p>
+                  <Button
+                    variant="primary"
+                    disabled={updating}
+                    onClick={() => handleRefund()}
+                  >
+                    Refund
+                  </Button>
+                </div>
+              )}
+            </Card>
+          )}
+
+          {/* Status History */}
+          <Card className="p-6 border border-gray-200 bg-white">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Status History
+            </h2>
+            <p className="text-sm text-gray-600 mb-2">
+              {new Date(order.createdAt).toLocaleString()} — Order created
+            </p>
+            {order.statusChanges.map((change) => (
+              <div key={change.id} className="text-sm text-gray-600 mb-2">
+                {new Date(change.createdAt).toLocaleString()} —{" "}
+                {change.fromStatus} → {change.toStatus} by{" "}
+                {change.changedBy
+                  ? [change.changedBy.firstName, change.changedBy.lastName]
+                      .filter(Boolean)
+                      .join(" ") || change.changedBy.email
+                  : "system"}
+                {change.note && (
+                  <span className="text-gray-500"> ({change.note})</span>
+                )}
+              </div>
+            ))}
+          </Card>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
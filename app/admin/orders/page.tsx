@@ -0,0 +1,581 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card, Input } from "@/components/ui";
+import { footerStyles, adminStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Orders Management Page (Admin-only)
+ * Search and filter every buyer's orders, change status in bulk, export CSV
+ */
+
+interface AdminOrder {
+  id: string;
+  status: string;
+  paymentStatus: string | null;
+  totalCents: number;
+  poNumber: string | null;
+  createdAt: string;
+  buyer: {
+    id: string;
+    email: string | null;
+    firstName: string | null;
+    lastName: string | null;
+    company: string | null;
+  };
+  company: { id: string; name: string } | null;
+  _count: { lines: number };
+}
+
+interface Filters {
+  status: string;
+  paymentStatus: string;
+  buyer: string;
+  poNumber: string;
+  from: string;
+  to: string;
+  minTotal: string;
+  maxTotal: string;
+  sortBy: string;
+  sortOrder: string;
+}
+
+const EMPTY_FILTERS: Filters = {
+  status: "",
+  paymentStatus: "",
+  buyer: "",
+  poNumber: "",
+  from: "",
+  to: "",
+  minTotal: "",
+  maxTotal: "",
+  sortBy: "createdAt",
+  sortOrder: "desc",
+};
+
+const ORDER_STATUSES = [
+  "PENDING_APPROVAL",
+  "CREATED",
+  "PAID",
+  "SHIPPED",
+  "DELIVERED",
+  "CANCELLED",
+];
+const PAYMENT_STATUSES = [
+  "PENDING",
+  "PAID",
+  "PAYMENT_FAILED",
+  "PARTIALLY_REFUNDED",
+  "REFUNDED",
+];
+
+// Build the /api/admin/orders query string from the filter form
+function buildQuery(filters: Filters) {
+  const params = new URLSearchParams();
+  if (filters.status) params.set("status", filters.status);
+  if (filters.paymentStatus) params.set("paymentStatus", filters.paymentStatus);
+  if (filters.buyer) params.set("buyer", filters.buyer);
+  if (filters.poNumber) params.set("poNumber", filters.poNumber);
+  if (filters.from) params.set("from", filters.from);
+  // Include the whole "to" day
+  if (filters.to) params.set("to", `${filters.to}T23:59:59.999`);
+  if (filters.minTotal)
+    params.set(
+      "minTotalCents",
+      String(Math.round(Number(filters.minTotal) * 100))
+    );
+  if (filters.maxTotal)
+    params.set(
+      "maxTotalCents",
+      String(Math.round(Number(filters.maxTotal) * 100))
+    );
+  params.set("sortBy", filters.sortBy);
+  params.set("sortOrder", filters.sortOrder);
+  return params;
+}
+
+export default function AdminOrdersPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [orders, setOrders] = useState<AdminOrder[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkStatus, setBulkStatus] = useState("");
+  const [bulkLoading, setBulkLoading] = useState(false);
+  const [bulkErrors, setBulkErrors] = useState<
+    { orderId: string; reason?: string }[]
+  >([]);
+
+  // GET /api/admin/orders - Fetch a page of orders (append when a cursor is given)
+  const fetchOrders = useCallback(
+    async (activeFilters: Filters, cursor?: string) => {
+      setLoading(true);
+      try {
+        const params = buildQuery(activeFilters);
+        params.set("limit", "25");
+        if (cursor) params.set("cursor", cursor);
+
+        const res = await fetch(`/api/admin/orders?${params.toString()}`);
+        const json = await res.json();
+        if (json.success) {
+          setOrders((prev) => (cursor ? [...prev, ...json.data] : json.data));
+          setTotal(json.pagination.total);
+          setNextCursor(json.pagination.nextCursor);
+        }
+      } catch (err) {
+        console.error("Failed to fetch orders:", err);
+      } finally {
+        setLoading(false);
+      }
+    },
+    []
+  );
+
+  // Verify admin role and fetch first page on mount
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        const authRes = await fetch("/api/auth/me");
+        if (!authRes.ok) {
+          router.push("/");
+          return;
+        }
+
+        const authData = await authRes.json();
+        const userIsAdmin = authData.user?.role === "ADMIN";
+        setIsAdmin(userIsAdmin);
+
+        if (!userIsAdmin) {
+          router.push("/");
+          return;
+        }
+
+        await fetchOrders(EMPTY_FILTERS);
+      } catch (err) {
+        console.error("Error:", err);
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [isSignedIn, router, fetchOrders]);
+
+  const handleFilterChange = (field: keyof Filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilters(filters);
+    setSelected(new Set());
+    fetchOrders(filters);
+  };
+
+  const handleResetFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+    setSelected(new Set());
+    fetchOrders(EMPTY_FILTERS);
+  };
+
+  const toggleSelected = (orderId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(orderId)) next.delete(orderId);
+      else next.add(orderId);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected((prev) =>
+      prev.size === orders.length ? new Set() : new Set(orders.map((o) => o.id))
+    );
+  };
+
+  // POST /api/admin/orders/bulk-status - Apply status to all selected orders
+  const handleBulkStatus = async () => {
+    if (!bulkStatus || selected.size === 0) return;
+    if (
+      !confirm(`Change status of ${selected.size} order(s) to ${bulkStatus}?`)
+    )
+      return;
+
+    setBulkLoading(true);
+    setBulkErrors([]);
+    try {
+      const res = await fetch("/api/admin/orders/bulk-status", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderIds: Array.from(selected),
+          status: bulkStatus,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json.error || "Failed to update orders");
+      }
+      setBulkErrors(json.errors || []);
+      setSelected(new Set());
+      await fetchOrders(appliedFilters);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to update orders");
+    } finally {
+      setBulkLoading(false);
+    }
+  };
+
+  // GET /api/admin/orders?format=csv - Download all matching orders
+  const handleExport = () => {
+    const params = buildQuery(appliedFilters);
+    params.set("format", "csv");
+    window.location.href = `/api/admin/orders?${params.toString()}`;
+  };
+
+  const statusColor = (status: string) => {
+    const colors: Record<string, string> = {
+      PENDING_APPROVAL: "bg-orange-100 text-orange-800",
+      CREATED: "bg-yellow-100 text-yellow-800",
+      PAID: "bg-blue-100 text-blue-800",
+      SHIPPED: "bg-purple-100 text-purple-800",
+      DELIVERED: "bg-green-100 text-green-800",
+      CANCELLED: "bg-red-100 text-red-800",
+    };
+    return colors[status] || "bg-gray-100 text-gray-800";
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <div className="flex justify-between items-center mb-8">
+            <div className="flex items-center gap-4">
+              <Link href="/admin">
+                <Button variant="secondary">← Back to Dashboard</Button>
+              </Link>
+              <h1 className="text-4xl font-bold text-gray-900">
+                Order Management
+              </h1>
+            </div>
+            <Button variant="outline" onClick={handleExport}>
+              Export CSV
+            </Button>
+          </div>
+
+          {/* Filters */}
+          <Card className="p-6 mb-6 border border-gray-200 bg-white">
+            <form onSubmit={handleApplyFilters}>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <select
+                  value={filters.status}
+                  onChange={(e) => handleFilterChange("status", e.target.value)}
+                  className="h-9 rounded border border-gray-200 px-3 text-sm"
+                >
+                  <option value="">All statuses</option>
+                  {ORDER_STATUSES.map((s) => (
+                    <option key={s} value={s}>
+                      {s}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={filters.paymentStatus}
+                  onChange={(e) =>
+                    handleFilterChange("paymentStatus", e.target.value)
+                  }
+                  className="h-9 rounded border border-gray-200 px-3 text-sm"
+                >
+                  <option value="">All payment statuses</option>
+                  {PAYMENT_STATUSES.map((s) => (
+                    <option key={s} value={s}>
+                      {s}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  placeholder="Buyer (email, name, company)"
+                  value={filters.buyer}
+                  onChange={(e) => handleFilterChange("buyer", e.target.value)}
+                />
+                <Input
+                  placeholder="PO number"
+                  value={filters.poNumber}
+                  onChange={(e) =>
+                    handleFilterChange("poNumber", e.target.value)
+                  }
+                />
+                <Input
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => handleFilterChange("from", e.target.value)}
+                />
+                <Input
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => handleFilterChange("to", e.target.value)}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Min total ($)"
+                  value={filters.minTotal}
+                  onChange={(e) =>
+                    handleFilterChange("minTotal", e.target.value)
+                  }
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Max total ($)"
+                  value={filters.maxTotal}
+                  onChange={(e) =>
+                    handleFilterChange("maxTotal", e.target.value)
+                  }
+                />
+                <select
+                  value={filters.sortBy}
+                  onChange={(e) => handleFilterChange("sortBy", e.target.value)}
+                  className="h-9 rounded border border-gray-200 px-3 text-sm"
+                >
+                  <option value="createdAt">Sort by created date</option>
+                  <option value="updatedAt">Sort by last update</option>
+                  <option value="totalCents">Sort by total</option>
+                </select>
+                <select
+                  value={filters.sortOrder}
+                  onChange={(e) =>
+                    handleFilterChange("sortOrder", e.target.value)
+                  }
+                  className="h-9 rounded border border-gray-200 px-3 text-sm"
+                >
+                  <option value="desc">Descending</option>
+                  <option value="asc">Ascending</option>
+                </select>
+                <div className="flex gap-2 md:col-span-2">
+                  <Button type="submit" variant="primary">
+                    Apply Filters
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={handleResetFilters}
+                  >
+                    Reset
+                  </Button>
+                </div>
+              </div>
+            </form>
+          </Card>
+
+          {/* Bulk Actions */}
+          <div className="flex items-center gap-3 mb-4">
+            <span className="text-sm text-gray-600">
+              {selected.size} selected · {total} order(s) found
+            </span>
+            <select
+              value={bulkStatus}
+              onChange={(e) => setBulkStatus(e.target.value)}
+              className="h-9 rounded border border-gray-200 px-3 text-sm"
+            >
+              <option value="">Change status to…</option>
+              {ORDER_STATUSES.filter(
+                (s) => s === "DELIVERED" || s === "CANCELLED"
+              ).map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="primary"
+              disabled={!bulkStatus || selected.size === 0 || bulkLoading}
+              onClick={handleBulkStatus}
+            >
+              {bulkLoading ? "Updating..." : "Apply to Selected"}
+            </Button>
+          </div>
+
+          {bulkErrors.length > 0 && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+              <p className="font-semibold mb-1">
+                {bulkErrors.length} order(s) could not be updated:
+              </p>
+              <ul className="list-disc pl-5">
+                {bulkErrors.map((e) => (
+                  <li key={e.orderId}>
+                    <span className="font-mono">{e.orderId.slice(0, 8)}</span>:{" "}
+                    {e.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {orders.length === 0 && !loading ? (
+            <Card className="p-8 text-center border border-gray-200 bg-white">
+              <p className="text-gray-600">No orders match these filters</p>
+            </Card>
+          ) : (
+            <div className={adminStyles.tableContainer}>
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gray-50 border-b border-gray-200">
+                    <th className="px-4 py-3 text-left">
+                      <input
+                        type="checkbox"
+                        checked={
+                          orders.length > 0 && selected.size === orders.length
+                        }
+                        onChange={toggleAll}
+                      />
+                    </th>
+                    <th className="px-4 py-3 text-left font-semibold text-gray-900">
+                      Order
+                    </th>
+                    <th className="px-4 py-3 text-left font-semibold text-gray-900">
+                      Date
+                    </th>
+                    <th className="px-4 py-3 text-left font-semibold text-gray-900">
+                      Buyer
+                    </th>
+                    <th className="px-4 py-3 text-left font-semibold text-gray-900">
+                      PO Number
+                    </th>
+                    <th className="px-4 py-3 text-left font-semibold text-gray-900">
+                      Status
+                    </th>
+                    <th className="px-4 py-3 text-left font-semibold text-gray-900">
+                      Payment
+                    </th>
+                    <th className="px-4 py-3 text-right font-semibold text-gray-900">
+                      Total
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {orders.map((order) => (
+                    <tr
+                      key={order.id}
+                      className="border-b border-gray-200 hover:bg-gray-50 transition"
+                    >
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(order.id)}
+                          onChange={() => toggleSelected(order.id)}
+                        />
+                      </td>
+                      <td className="px-4 py-3 font-mono text-sm">
+                        <Link
+                          href={`/admin/orders/${order.id}`}
+                          className="hover:underline"
+                        >
+                          {order.id.slice(0, 8)}
+                        </Link>
+                        <div className="text-xs text-gray-500">
+                          {order._count.lines} line(s)
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {new Date(order.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-semibold">
+                          {[order.buyer.firstName, order.buyer.lastName]
+                            .filter(Boolean)
+                            .join(" ") ||
+                            order.buyer.email ||
+                            "Unknown"}
+                        </div>
+                        {order.company && (
+                          <div className="text-gray-500">
+                            {order.company.name}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {order.poNumber || "-"}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`px-3 py-1 rounded-full text-xs font-medium ${statusColor(
+                            order.status
+                          )}`}
+                        >
+                          {order.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {order.paymentStatus || "PENDING"}
+                      </td>
+                      <td className="px-4 py-3 font-semibold text-right">
+                        ${(order.totalCents / 100).toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {loading && (
+            <div className="text-center py-6 text-gray-600">
+              Loading orders...
+            </div>
+          )}
+
+          {nextCursor && !loading && (
+            <div className="text-center mt-6">
+              <Button
+                variant="secondary"
+                onClick={() => fetchOrders(appliedFilters, nextCursor)}
+              >
+                Load More
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ import { adminStyles, footerStyles } from "@/app/ui-styles";
 
 /**
  * Admin Dashboard (Admin-only)
- * Overview stats, quick access to product/category management
+ * Overview stats, quick access to product/category/order management
  */
 
 export default function AdminDashboard() {
@@ -21,6 +21,7 @@ export default function AdminDashboard() {
     totalProducts: 0,
     totalCategories: 0,
     totalOrders: 0,
+    receivables: { openCents: 0, overdueCents: 0, overdueCount: 0 },
   });
 
   // Verify admin role and fetch stats on mount
@@ -101,6 +102,171 @@ export default function AdminDashboard() {
             </Card>
           </Link>
 
+          {/* Orders Management */}
+          <Link href="/admin/orders" className="no-underline">
+            <Card className="p-6 border border-gray-200 bg-white hover:shadow-md transition cursor-pointer h-full">
+              <h2 className="text-2xl font-bold mb-2 text-gray-900">
+                Order Management
+              </h2>
+              <p className="text-gray-600 mb-4">
+                Search all buyer orders, update fulfillment status, export CSV.
+              </p>
+              <Button variant="primary" fullWidth>
+                Manage Orders
+              </Button>
+            </Card>
+          </Link>
+
+          {/* Contract Pricing */}
+          <Link href="/admin/price-lists" className="no-underline">
+            <Card className="p-6 border border-gray-200 bg-white hover:shadow-md transition cursor-pointer h-full">
+              <h2 className="text-2xl font-bold mb-2 text-gray-900">
+                Contract Pricing
+              </h2>
+              <p className="text-gray-600 mb-4">
+                Negotiated price lists per buyer or company, with effective
+                dates.
+              </p>
+              <Button variant="primary" fullWidth>
+                Manage Price Lists
+              </Button>
+            </Card>
+          </Link>
+
+          {/* Quotes */}
+          <Link href="/admin/quotes" className="no-underline">
+            <Card className="p-6 border border-gray-200 bg-white hover:shadow-md transition cursor-pointer h-full">
+              <h2 className="text-2xl font-bold mb-2 text-gray-900">Quotes</h2>
+              <p className="text-gray-600 mb-4">
+                Price buyers&apos; requests for quote and set how long the offer
+                is valid.
+              </p>
+              <Button variant="primary" fullWidth>
+                Manage Quotes
+              </Button>
+            </Card>
+          </Link>
+
+          {/* Invoices & Credit */}
+          <Link href="/admin/invoices" className="no-underline">
+            <Card className="p-6 border border-gray-200 bg-white hover:shadow-md transition cursor-pointer h-full">
+              <h2 className="text-2xl font-bold mb-2 text-gray-900">
+                Invoices &amp; Credit
+              </h2>
+              <p className="text-gray-600 mb-4">
+                Orders placed on net terms, payments received and company credit
+                limits.
+              </p>
+              <Button variant="primary" fullWidth>
+                Manage Invoices
+              </Button>
+            </Card>
+          </Link>
+
+          {/* Shipping */}
+          <Link href="/admin/shipping" className="no-underline">
+            <Card className="p-6 border border-gray-200 bg-white hover:shadow-md transition cursor-pointer h-full">
+              <h2 className="text-2xl font-bold mb-2 text-gray-900">
+                Shipping
+              </h2>
+              <p className="text-gray-600 mb-4">
+                Shipping zones and rate tables by weight band and method.
+              </p>
+              <Button variant="primary" fullWidth>
+                Manage Shipping
+              </Button>
+            </Card>
+          </Link>
+
+          {/* Tax Rates */}
+          <Link href="/admin/tax-rates" className="no-underline">
+            <Card className="p-6 border border-gray-200 bg-white hover:shadow-md transition cursor-pointer h-full">
+              <h2 className="text-2xl font-bold mb-2 text-gray-900">
+                Tax Rates
+              </h2>
+              <p className="text-gray-600 mb-4">
+                Sales taxes by province and state, and which apply to shipping.
+              </p>
+              <Button variant="primary" fullWidth>
+                Manage Tax Rates
+              </Button>
+            </Card>
+          </Link>
+
+          {/* Warehouses */}
+          <Link href="/admin/warehouses" className="no-underline">
+            <Card className="p-6 border border-gray-200 bg-white hover:shadow-md transition cursor-pointer h-full">
+              <h2 className="text-2xl font-bold mb-2 text-gray-900">
+                Warehouses
+              </h2>
+              <p className="text-gray-600 mb-4">
+                Stock locations that orders are allocated to, and their stock on
+                hand.
+              </p>
+              <Button variant="primary" fullWidth>
+                Manage Warehouses
+              </Button>
+            </Card>
+          </Link>
+
+          {/* Suppliers */}
+          <Link href="/admin/suppliers" className="no-underline">
+            <Card className="p-6 border border-gray-200 bg-white hover:shadow-md transition cursor-pointer h-full">
+              <h2 className="text-2xl font-bold mb-2 text-gray-900">
+                Suppliers
+              </h2>
+              <p className="text-gray-600 mb-4">
+                Drop-ship suppliers, their stock and the orders they ship.
+              </p>
+              <Button variant="primary" fullWidth>
+                Manage Suppliers
+              </Button>
+            </Card>
+          </Link>
+
+          {/* Purchase Orders */}
+          <Link href="/admin/purchase-orders" className="no-underline">
+            <Card className="p-6 border border-gray-200 bg-white hover:shadow-md transition cursor-pointer h-full">
+              <h2 className="text-2xl font-bold mb-2 text-gray-900">
+                Purchase Orders
+              </h2>
+              <p className="text-gray-600 mb-4">
+                Reorder low stock from suppliers and receive deliveries.
+              </p>
+              <Button variant="primary" fullWidth>
+                Manage Purchase Orders
+              </Button>
+            </Card>
+          </Link>
+
+          {/* Returns */}
+          <Link href="/admin/returns" className="no-underline">
+            <Card className="p-6 border border-gray-200 bg-white hover:shadow-md transition cursor-pointer h-full">
+              <h2 className="text-2xl font-bold mb-2 text-gray-900">Returns</h2>
+              <p className="text-gray-600 mb-4">
+                Approve return requests, refund them and restock the goods.
+              </p>
+              <Button variant="primary" fullWidth>
+                Manage Returns
+              </Button>
+            </Card>
+          </Link>
+
+          {/* Webhook Events */}
+          <Link href="/admin/webhook-events" className="no-underline">
+            <Card className="p-6 border border-gray-200 bg-white hover:shadow-md transition cursor-pointer h-full">
+              <h2 className="text-2xl font-bold mb-2 text-gray-900">
+                Webhook Events
+              </h2>
+              <p className="text-gray-600 mb-4">
+                Review Stripe webhook events and replay failed ones.
+              </p>
+              <Button variant="primary" fullWidth>
+                View Webhook Events
+              </Button>
+            </Card>
+          </Link>
+
           {/* Categories Management */}
           <Link href="/admin/categories" className="no-underline">
             <Card className="p-6 border border-gray-200 bg-white hover:shadow-md transition cursor-pointer h-full">
@@ -144,7 +310,7 @@ export default function AdminDashboard() {
         </div>
 
         {/* Quick Stats */}
-        <div className="mt-12 grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="mt-12 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <Card className="p-6 bg-white border border-gray-200">
             <h3 className="text-gray-600 text-sm font-medium">
               Total Products
@@ -167,6 +333,32 @@ export default function AdminDashboard() {
               {stats.totalOrders}
             </p>
           </Card>
+          <Link href="/admin/invoices" className="no-underline">
+            <Card
+              className={`p-6 border h-full ${
+                stats.receivables.overdueCount > 0
+                  ? "bg-red-50 border-red-200"
+                  : "bg-white border-gray-200"
+              }`}
+            >
+              <h3 className="text-gray-600 text-sm font-medium">
+                Overdue Invoices
+              </h3>
+              <p
+                className={`text-3xl font-bold mt-2 ${
+                  stats.receivables.overdueCount > 0
+                    ? "text-red-700"
+                    : "text-gray-900"
+                }`}
+              >
+                {stats.receivables.overdueCount}
+              </p>
+              <p className="text-sm text-gray-600 mt-1">
+                ${(stats.receivables.overdueCents / 100).toFixed(2)} overdue of
+                ${(stats.receivables.openCents / 100).toFixed(2)} open
+              </p>
+            </Card>
+          </Link>
         </div>
       </div>
 
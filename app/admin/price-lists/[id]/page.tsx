@@ -0,0 +1,330 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useParams, useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Price List Detail Page(Admin Only)
+ * Edit effective dates and per-product contract prices
+ */
+
+interface PriceListItem {
+  id: string;
+  priceCents: number;
+  product: { id: string; name: string; sku: string | null; priceCents: number };
+}
+
+interface PriceList {
+  id: string;
+  name: string;
+  validFrom: string | null;
+  validTo: string | null;
+  buyer: { email: string } | null;
+  company: { name: string } | null;
+  items: PriceListItem[];
+}
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const toDateInput = (value: string | null) => (value ? value.slice(0, 10) : "");
+
+export default function AdminPriceListDetailPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const params = useParams();
+  const priceListId = params.id as string;
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [priceList, setPriceList] = useState<PriceList | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dates, setDates] = useState({ validFrom: "", validTo: "" });
+  const [newItem, setNewItem] = useState({ sku: "", price: "" });
+
+  const fetchPriceList = useCallback(async () => {
+    // GET /api/admin/price-lists/[id] - Price list with product prices
+    const res = await fetch(`/api/admin/price-lists/${priceListId}`);
+    if (!res.ok) {
+      setPriceList(null);
+      return;
+    }
+    const data = await res.json();
+    setPriceList(data.data);
+    setDates({
+      validFrom: toDateInput(data.data.validFrom),
+      validTo: toDateInput(data.data.validTo),
+    });
+  }, [priceListId]);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        // GET /api/auth/me - Verify admin role
+        const authRes = await fetch("/api/auth/me");
+        const authData = authRes.ok ? await authRes.json() : null;
+        const userIsAdmin = authData?.user?.role === "ADMIN";
+        setIsAdmin(userIsAdmin);
+
+        if (!userIsAdmin) {
+          router.push("/");
+          return;
+        }
+
+        await fetchPriceList();
+      } catch (err) {
+        console.error("Error:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [isSignedIn, router, fetchPriceList]);
+
+  const request = async (url: string, method: string, body: unknown) => {
+    setError(null);
+    const res = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      setError(data.error || "Request failed");
+      return false;
+    }
+    await fetchPriceList();
+    return true;
+  };
+
+  const saveDates = (e: React.FormEvent) => {
+    e.preventDefault();
+    // PUT /api/admin/price-lists/[id] - Update effective dates
+    request(`/api/admin/price-lists/${priceListId}`, "PUT", {
+      validFrom: dates.validFrom || null,
+      validTo: dates.validTo ? `${dates.validTo}T23:59:59.999` : null,
+    });
+  };
+
+  const setPrice = (
+    item: { productId?: string; sku?: string },
+    price: string
+  ) =>
+    // PUT /api/admin/price-lists/[id]/items - Add or update a product price
+    request(`/api/admin/price-lists/${priceListId}/items`, "PUT", {
+      ...item,
+      priceCents: Math.round(parseFloat(price) * 100),
+    });
+
+  const addItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await setPrice({ sku: newItem.sku }, newItem.price)) {
+      setNewItem({ sku: "", price: "" });
+    }
+  };
+
+  const removeItem = (productId: string) =>
+    // DELETE /api/admin/price-lists/[id]/items - Remove a product price
+    request(`/api/admin/price-lists/${priceListId}/items`, "DELETE", {
+      productId,
+    });
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-5xl mx-auto px-4 py-8">
+          <div className="mb-6">
+            <Link href="/admin/price-lists">
+              <Button variant="secondary">← Back to Price Lists</Button>
+            </Link>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-600">Loading...</div>
+          ) : !priceList ? (
+            <div className="text-center py-12 text-gray-600">
+              Price list not found
+            </div>
+          ) : (
+            <>
+              <h1 className="text-4xl font-bold text-gray-900 mb-2">
+                {priceList.name}
+              </h1>
+              <p className="text-gray-600 mb-8">
+                {priceList.company
+                  ? `Company: ${priceList.company.name}`
+                  : `Buyer: ${priceList.buyer?.email ?? "—"}`}
+              </p>
+
+              {error && (
+                <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <Card className="p-6 border border-gray-200 bg-white mb-6">
+                <h2 className="text-xl font-semibold mb-4">Effective Dates</h2>
+                <form
+                  onSubmit={saveDates}
+                  className="flex flex-wrap gap-4 items-end"
+                >
+                  <label className="text-sm text-gray-600">
+                    From
+                    <input
+                      type="date"
+                      value={dates.validFrom}
+                      onChange={(e) =>
+                        setDates({ ...dates, validFrom: e.target.value })
+                      }
+                      className={`block ${inputClass}`}
+                    />
+                  </label>
+                  <label className="text-sm text-gray-600">
+                    Until
+                    <input
+                      type="date"
+                      value={dates.validTo}
+                      onChange={(e) =>
+                        setDates({ ...dates, validTo: e.target.value })
+                      }
+                      className={`block ${inputClass}`}
+                    />
+                  </label>
+                  <Button type="submit" variant="primary">
+                    Save Dates
+                  </Button>
+                </form>
+                <p className="text-xs text-gray-500 mt-2">
+                  Leave empty for no start or end date.
+                </p>
+              </Card>
+
+              <Card className="p-6 border border-gray-200 bg-white">
+                <h2 className="text-xl font-semibold mb-4">Contract Prices</h2>
+                <form onSubmit={addItem} className="flex gap-2 mb-6">
+                  <input
+                    value={newItem.sku}
+                    onChange={(e) =>
+                      setNewItem({ ...newItem, sku: e.target.value })
+                    }
+                    placeholder="Product SKU"
+                    required
+                    className={`flex-1 ${inputClass}`}
+                  />
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={newItem.price}
+                    onChange={(e) =>
+                      setNewItem({ ...newItem, price: e.target.value })
+                    }
+                    placeholder="Price ($)"
+                    required
+                    className={`w-36 ${inputClass}`}
+                  />
+                  <Button type="submit" variant="primary">
+                    Add Price
+                  </Button>
+                </form>
+
+                {priceList.items.length === 0 ? (
+                  <p className="text-gray-600">
+                    No contract prices yet. Products not listed here use their
+                    regular price.
+                  </p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-left">
+                      <tr>
+                        <th className="px-4 py-3">Product</th>
+                        <th className="px-4 py-3">List Price</th>
+                        <th className="px-4 py-3">Contract Price</th>
+                        <th className="px-4 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {priceList.items.map((item) => (
+                        <tr key={item.id} className="border-t">
+                          <td className="px-4 py-3">
+                            <p className="font-medium">{item.product.name}</p>
+                            <p className="text-xs text-gray-500 font-mono">
+                              {item.product.sku}
+                            </p>
+                          </td>
+                          <td className="px-4 py-3 text-gray-500">
+                            ${(item.product.priceCents / 100).toFixed(2)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <input
+                              key={`${item.id}-${item.priceCents}`}
+                              type="number"
+                              min="0.01"
+                              step="0.01"
+                              defaultValue={(item.priceCents / 100).toFixed(2)}
+                              onBlur={(e) =>
+                                e.target.value !==
+                                  (item.priceCents / 100).toFixed(2) &&
+                                setPrice(
+                                  { productId: item.product.id },
+                                  e.target.value
+                                )
+                              }
+                              className={`w-32 ${inputClass}`}
+                            />
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            <button
+                              onClick={() => removeItem(item.product.id)}
+                              className="px-3 py-1 bg-red-600 text-white hover:bg-red-700 rounded text-sm font-medium transition-colors"
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
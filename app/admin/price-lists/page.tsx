@@ -0,0 +1,334 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Price Lists Page(Admin Only)
+ * Contract price lists per buyer or company, create and delete lists
+ */
+
+interface PriceList {
+  id: string;
+  name: string;
+  validFrom: string | null;
+  validTo: string | null;
+  buyer: {
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+  } | null;
+  company: { id: string; name: string } | null;
+  _count: { items: number };
+}
+
+interface Company {
+  id: string;
+  name: string;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const formatValidity = (from: string | null, to: string | null) => {
+  const fmt = (d: string) => new Date(d).toLocaleDateString();
+  if (!from && !to) return "Always";
+  if (!to) return `From ${fmt(from!)}`;
+  if (!from) return `Until ${fmt(to)}`;
+  return `${fmt(from)} – ${fmt(to)}`;
+};
+
+export default function AdminPriceListsPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    name: "",
+    assignTo: "buyer" as "buyer" | "company",
+    buyerEmail: "",
+    companyId: "",
+    validFrom: "",
+    validTo: "",
+  });
+
+  const fetchPriceLists = async () => {
+    // GET /api/admin/price-lists - All contract price lists
+    const res = await fetch("/api/admin/price-lists");
+    if (res.ok) {
+      const data = await res.json();
+      setPriceLists(data.data || []);
+    }
+  };
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        // GET /api/auth/me - Verify admin role
+        const authRes = await fetch("/api/auth/me");
+        if (!authRes.ok) {
+          router.push("/");
+          return;
+        }
+
+        const authData = await authRes.json();
+        const userIsAdmin = authData.user?.role === "ADMIN";
+        setIsAdmin(userIsAdmin);
+
+        if (!userIsAdmin) {
+          router.push("/");
+          return;
+        }
+
+        await fetchPriceLists();
+
+        // GET /api/admin/companies - Companies a list can be assigned to
+        const companiesRes = await fetch("/api/admin/companies");
+        if (companiesRes.ok) {
+          const data = await companiesRes.json();
+          setCompanies(data.data || []);
+        }
+      } catch (err) {
+        console.error("Error:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [isSignedIn, router]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      // POST /api/admin/price-lists - Create price list
+      const res = await fetch("/api/admin/price-lists", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          ...(form.assignTo === "buyer"
+            ? { buyerEmail: form.buyerEmail }
+            : { companyId: form.companyId }),
+          validFrom: form.validFrom || null,
+          validTo: form.validTo ? `${form.validTo}T23:59:59.999` : null,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to create price list");
+      }
+
+      router.push(`/admin/price-lists/${data.data.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this price list and all its prices?")) return;
+
+    try {
+      // DELETE /api/admin/price-lists/[id] - Delete price list
+      const res = await fetch(`/api/admin/price-lists/${id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error("Failed to delete price list");
+      setPriceLists(priceLists.filter((p) => p.id !== id));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to delete");
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-8">
+            Contract Price Lists
+          </h1>
+
+          <Card className="p-6 border border-gray-200 bg-white mb-8">
+            <h2 className="text-xl font-semibold mb-4">New Price List</h2>
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+                {error}
+              </div>
+            )}
+            <form
+              onSubmit={handleCreate}
+              className="grid grid-cols-1 md:grid-cols-3 gap-4"
+            >
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Name (e.g. Acme 2026 contract)"
+                required
+                className={inputClass}
+              />
+              <select
+                value={form.assignTo}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    assignTo: e.target.value as "buyer" | "company",
+                  })
+                }
+                className={inputClass}
+              >
+                <option value="buyer">Assign to buyer</option>
+                <option value="company">Assign to company</option>
+              </select>
+              {form.assignTo === "buyer" ? (
+                <input
+                  type="email"
+                  value={form.buyerEmail}
+                  onChange={(e) =>
+                    setForm({ ...form, buyerEmail: e.target.value })
+                  }
+                  placeholder="buyer@company.com"
+                  required
+                  className={inputClass}
+                />
+              ) : (
+                <select
+                  value={form.companyId}
+                  onChange={(e) =>
+                    setForm({ ...form, companyId: e.target.value })
+                  }
+                  required
+                  className={inputClass}
+                >
+                  <option value="">Select company…</option>
+                  {companies.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <label className="text-sm text-gray-600">
+                Effective from
+                <input
+                  type="date"
+                  value={form.validFrom}
+                  onChange={(e) =>
+                    setForm({ ...form, validFrom: e.target.value })
+                  }
+                  className={inputClass}
+                />
+              </label>
+              <label className="text-sm text-gray-600">
+                Effective until
+                <input
+                  type="date"
+                  value={form.validTo}
+                  onChange={(e) =>
+                    setForm({ ...form, validTo: e.target.value })
+                  }
+                  className={inputClass}
+                />
+              </label>
+              <div className="flex items-end">
+                <Button type="submit" variant="primary" fullWidth>
+                  + Create Price List
+                </Button>
+              </div>
+            </form>
+          </Card>
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-600">
+              Loading price lists...
+            </div>
+          ) : priceLists.length === 0 ? (
+            <Card className="p-8 text-center border border-gray-200 bg-white">
+              <p className="text-gray-600">No price lists yet</p>
+            </Card>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg bg-white">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-3">Name</th>
+                    <th className="px-4 py-3">Assigned to</th>
+                    <th className="px-4 py-3">Effective</th>
+                    <th className="px-4 py-3">Products</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {priceLists.map((list) => (
+                    <tr key={list.id} className="border-t">
+                      <td className="px-4 py-3 font-medium">{list.name}</td>
+                      <td className="px-4 py-3">
+                        {list.company
+                          ? `🏢 ${list.company.name}`
+                          : `👤 ${list.buyer?.email ?? "—"}`}
+                      </td>
+                      <td className="px-4 py-3">
+                        {formatValidity(list.validFrom, list.validTo)}
+                      </td>
+                      <td className="px-4 py-3">{list._count.items}</td>
+                      <td className="px-4 py-3 text-right space-x-2">
+                        <Link href={`/admin/price-lists/${list.id}`}>
+                          <Button variant="secondary">Edit</Button>
+                        </Link>
+                        <button
+                          onClick={() => handleDelete(list.id)}
+                          className="px-3 py-1 bg-red-600 text-white hover:bg-red-700 rounded text-sm font-medium transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
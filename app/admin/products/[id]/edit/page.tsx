@@ -6,6 +6,23 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { Button, Card, Input } from "@/components/ui";
 import { footerStyles } from "@/app/ui-styles";
+import {
+  PriceTierEditor,
+  parseTierRows,
+  type TierRow,
+} from "@/app/admin/products/price-tier-editor";
+import {
+  ShippingDimensionsEditor,
+  emptyShippingDimensions,
+  parseShippingDimensions,
+  toShippingDimensions,
+} from "@/app/admin/products/shipping-dimensions-editor";
+import {
+  WarehouseStockEditor,
+  parseWarehouseStockRows,
+  toWarehouseStockRows,
+  type WarehouseStockRow,
+} from "@/app/admin/products/warehouse-stock-editor";
 
 /**
  * Edit Product Page (Admin-only)
@@ -21,9 +38,23 @@ interface Product {
   priceCents: number;
   unit: string | null;
   lowThreshold: number;
+  allowBackorder: boolean;
+  minOrderQuantity: number;
+  orderMultiple: number;
+  packSize: number;
+  weightGrams: number | null;
+  lengthCm: number | null;
+  widthCm: number | null;
+  heightCm: number | null;
   categoryId: string | null;
   imageUrl: string | null;
-  currentStock?: number;
+  stockByLocation: {
+    warehouseId: string;
+    quantity: number;
+    reserved: number;
+    threshold: number | null;
+  }[];
+  priceTiers: { minQuantity: number; priceCents: number }[];
 }
 
 export default function EditProductPage() {
@@ -45,9 +76,17 @@ export default function EditProductPage() {
     lowThreshold: "0",
     categoryId: "",
     imageUrl: "",
-    currentStock: "0",
+    stockNote: "",
+    minOrderQuantity: "1",
+    orderMultiple: "1",
+    packSize: "1",
   });
 
+  const [allowBackorder, setAllowBackorder] = useState(false);
+  const [tierRows, setTierRows] = useState<TierRow[]>([]);
+  const [dimensions, setDimensions] = useState(emptyShippingDimensions);
+  const [stockRows, setStockRows] = useState<WarehouseStockRow[]>([]);
+
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
@@ -93,6 +132,15 @@ export default function EditProductPage() {
         const data = await res.json();
         const product: Product = data.product;
 
+        // GET /api/admin/warehouses - Every warehouse the product can be stocked at
+        const warehouseRes = await fetch("/api/admin/warehouses");
+        const warehouseData = warehouseRes.ok
+          ? await warehouseRes.json()
+          : { data: [] };
+        setStockRows(
+          toWarehouseStockRows(warehouseData.data, product.stockByLocation)
+        );
+
         setFormData({
           sku: product.sku || "",
           name: product.name,
@@ -102,8 +150,19 @@ export default function EditProductPage() {
           lowThreshold: String(product.lowThreshold),
           categoryId: product.categoryId || "",
           imageUrl: product.imageUrl || "",
-          currentStock: String(product.currentStock || 0),
+          stockNote: "",
+          minOrderQuantity: String(product.minOrderQuantity),
+          orderMultiple: String(product.orderMultiple),
+          packSize: String(product.packSize),
         });
+        setAllowBackorder(product.allowBackorder);
+        setTierRows(
+          product.priceTiers.map((tier) => ({
+            minQuantity: String(tier.minQuantity),
+            priceCents: String(tier.priceCents),
+          }))
+        );
+        setDimensions(toShippingDimensions(product));
 
         // Set image preview if exists
         if (product.imageUrl) {
@@ -193,6 +252,15 @@ export default function EditProductPage() {
     setSaving(true);
 
     try {
+      const orderRules = {
+        minOrderQuantity: parseInt(formData.minOrderQuantity, 10),
+        orderMultiple: parseInt(formData.orderMultiple, 10),
+        packSize: parseInt(formData.packSize, 10),
+      };
+      if (Object.values(orderRules).some((v) => isNaN(v) || v < 1)) {
+        throw new Error("Ordering rules must be at least 1");
+      }
+
       const payload = {
         sku: formData.sku,
         name: formData.name,
@@ -200,9 +268,14 @@ export default function EditProductPage() {
         priceCents: parseInt(formData.priceCents, 10),
         unit: formData.unit || undefined,
         lowThreshold: parseInt(formData.lowThreshold, 10),
-        currentStock: parseInt(formData.currentStock, 10),
+        stockLevels: parseWarehouseStockRows(stockRows),
+        stockNote: formData.stockNote || undefined,
+        allowBackorder,
+        ...orderRules,
+        ...parseShippingDimensions(dimensions),
         categoryId: formData.categoryId || null,
         imageUrl: formData.imageUrl || null,
+        priceTiers: parseTierRows(tierRows),
       };
 
       // PUT /api/products/[id] - Update product details
@@ -415,6 +488,9 @@ export default function EditProductPage() {
               </p>
             </div>
 
+            {/* Volume Pricing */}
+            <PriceTierEditor rows={tierRows} onChange={setTierRows} />
+
             {/* Unit */}
             <div>
               <label className="block text-sm font-semibold mb-2">Unit</label>
@@ -427,6 +503,58 @@ export default function EditProductPage() {
               />
             </div>
 
+            {/* Ordering Rules */}
+            <div>
+              <label className="block text-sm font-semibold mb-2">
+                Ordering Rules
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <p className="text-xs text-gray-600 mb-1">Min order qty</p>
+                  <Input
+                    type="number"
+                    name="minOrderQuantity"
+                    value={formData.minOrderQuantity}
+                    onChange={handleChange}
+                    min="1"
+                    step="1"
+                  />
+                </div>
+                <div>
+                  <p className="text-xs text-gray-600 mb-1">Order multiple</p>
+                  <Input
+                    type="number"
+                    name="orderMultiple"
+                    value={formData.orderMultiple}
+                    onChange={handleChange}
+                    min="1"
+                    step="1"
+                  />
+                </div>
+                <div>
+                  <p className="text-xs text-gray-600 mb-1">Pack size</p>
+                  <Input
+                    type="number"
+                    name="packSize"
+                    value={formData.packSize}
+                    onChange={handleChange}
+                    min="1"
+                    step="1"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Quantities are in units: buyers must order at least the minimum,
+                in steps of the multiple, and only whole packs.
+              </p>
+            </div>
+
+            {/* Shipping */}
+            <ShippingDimensionsEditor
+              value={dimensions}
+              onChange={setDimensions}
+            />
+
             {/* Low Threshold */}
             <div>
               <label className="block text-sm font-semibold mb-2">
@@ -443,23 +571,54 @@ export default function EditProductPage() {
                 Alert when inventory falls below this level
               </p>
             </div>
+            {/* Backorders */}
+            <div>
+              <label className="flex items-center gap-2 text-sm font-semibold">
+                <input
+                  type="checkbox"
+                  checked={allowBackorder}
+                  onChange={(e) => setAllowBackorder(e.target.checked)}
+                />
+                Allow Backorders
+              </label>
+              <p className="text-xs text-gray-500 mt-1">
+                Buyers can order more than is in stock; the rest is allocated
+                when stock is received
+              </p>
+            </div>
+
+            {/* Stock per warehouse */}
+            <div>
+              <label className="block text-sm font-semibold mb-2">
+                Stock by Warehouse
+              </label>
+              <WarehouseStockEditor rows={stockRows} onChange={setStockRows} />
+              <p className="text-xs text-gray-500 mt-1">
+                Update inventory quantity at each warehouse. Set to 0 if out of
+                stock. Units reserved by unpaid orders cannot be removed.{" "}
+                <Link
+                  href={`/admin/products/${productId}/movements`}
+                  className="text-blue-600 hover:underline"
+                >
+                  View stock history
+                </Link>
+              </p>
+            </div>
 
-            {/* Current Stock */}
+            {/* Stock adjustment note */}
             <div>
               <label className="block text-sm font-semibold mb-2">
-                Current Stock (In Stock)
+                Stock Adjustment Note (optional)
               </label>
               <Input
-                type="number"
-                name="currentStock"
-                value={formData.currentStock}
+                type="text"
+                name="stockNote"
+                value={formData.stockNote}
                 onChange={handleChange}
-                placeholder="0"
-                min="0"
-                step="1"
+                placeholder="e.g. Cycle count, damaged units"
               />
               <p className="text-xs text-gray-500 mt-1">
-                Update inventory quantity. Set to 0 if out of stock.
+                Recorded in the stock history when the stock changes.
               </p>
             </div>
 
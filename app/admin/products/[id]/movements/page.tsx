@@ -0,0 +1,404 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useParams, useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Inventory Movements Page(Admin Only)
+ * Every change to a product's stock at warehouses and drop-ship suppliers,
+ * newest first: reservations,
+ * sales, cancellations, manual adjustments, receipts, returns and refunds
+ */
+
+type MovementReason =
+  | "RESERVATION"
+  | "SALE"
+  | "CANCEL"
+  | "ADJUSTMENT"
+  | "RECEIPT"
+  | "RETURN"
+  | "REFUND";
+
+interface Movement {
+  id: string;
+  reason: MovementReason;
+  delta: number;
+  reservedDelta: number;
+  quantityAfter: number;
+  reservedAfter: number;
+  referenceId: string | null;
+  note: string | null;
+  createdAt: string;
+  // a warehouse, or a drop-ship supplier's stock
+  inventory: {
+    warehouse: { id: string; code: string } | null;
+    supplier: { id: string; name: string } | null;
+  };
+  actor: {
+    id: string;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+  } | null;
+}
+
+interface ProductStock {
+  id: string;
+  sku: string;
+  name: string;
+  currentStock: number;
+  reservedStock: number;
+  availableStock: number;
+  stockByLocation: {
+    warehouseId: string;
+    code: string;
+    name: string;
+    quantity: number;
+    reserved: number;
+    available: number;
+  }[];
+}
+
+const REASONS: { value: MovementReason | ""; label: string }[] = [
+  { value: "", label: "All movements" },
+  { value: "RESERVATION", label: "Reservations" },
+  { value: "SALE", label: "Sales" },
+  { value: "CANCEL", label: "Cancellations" },
+  { value: "ADJUSTMENT", label: "Adjustments" },
+  { value: "RECEIPT", label: "Receipts" },
+  { value: "RETURN", label: "Returns" },
+  { value: "REFUND", label: "Refunds" },
+];
+
+const REASON_STYLES: Record<MovementReason, string> = {
+  RESERVATION: "bg-yellow-100 text-yellow-800",
+  SALE: "bg-blue-100 text-blue-800",
+  CANCEL: "bg-gray-100 text-gray-800",
+  ADJUSTMENT: "bg-purple-100 text-purple-800",
+  RECEIPT: "bg-green-100 text-green-800",
+  RETURN: "bg-orange-100 text-orange-800",
+  REFUND: "bg-red-100 text-red-800",
+};
+
+// Movements whose reference is an order
+const ORDER_REASONS: MovementReason[] = [
+  "RESERVATION",
+  "SALE",
+  "CANCEL",
+  "REFUND",
+];
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+export default function AdminProductMovementsPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const params = useParams();
+  const productId = params.id as string;
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [product, setProduct] = useState<ProductStock | null>(null);
+  const [movements, setMovements] = useState<Movement[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [reason, setReason] = useState<MovementReason | "">("");
+  const [warehouseId, setWarehouseId] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // GET /api/admin/products/[id]/movements - Fetch a page of movements
+  // (append when a cursor is given)
+  const fetchMovements = useCallback(
+    async (cursor?: string) => {
+      setLoading(true);
+      try {
+        const query = new URLSearchParams({ limit: "50" });
+        if (reason) query.set("reason", reason);
+        if (warehouseId) query.set("warehouseId", warehouseId);
+        if (cursor) query.set("cursor", cursor);
+
+        const res = await fetch(
+          `/api/admin/products/${productId}/movements?${query.toString()}`
+        );
+        const json = await res.json();
+        if (json.success) {
+          setProduct(json.product);
+          setMovements((prev) =>
+            cursor ? [...prev, ...json.data] : json.data
+          );
+          setTotal(json.pagination.total);
+          setNextCursor(json.pagination.nextCursor);
+          setError(null);
+        } else {
+          setError(json.error || "Failed to load movements");
+        }
+      } catch (err) {
+        console.error("Failed to fetch movements:", err);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [productId, reason, warehouseId]
+  );
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifyAdmin = async () => {
+      // GET /api/auth/me - Verify admin role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsAdmin = data?.user?.role === "ADMIN";
+      setIsAdmin(userIsAdmin);
+      if (!userIsAdmin) router.push("/");
+    };
+
+    verifyAdmin();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (isAdmin) fetchMovements();
+  }, [isAdmin, fetchMovements]);
+
+  if (!isAdmin) return null;
+
+  const actorName = (actor: Movement["actor"]) =>
+    actor
+      ? [actor.firstName, actor.lastName].filter(Boolean).join(" ") ||
+        actor.email
+      : "System";
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-6xl mx-auto px-4 py-8">
+          <Link
+            href="/admin/products"
+            className="text-blue-600 hover:underline text-sm"
+          >
+            ← Back to products
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mt-2 mb-2">
+            Stock Movements
+          </h1>
+          {product && (
+            <p className="text-gray-600 mb-8">
+              {product.name} <span className="font-mono">({product.sku})</span>{" "}
+              · On hand{" "}
+              <span className="font-semibold">{product.currentStock}</span> ·
+              Reserved{" "}
+              <span className="font-semibold">{product.reservedStock}</span> ·
+              Available{" "}
+              <span className="font-semibold">{product.availableStock}</span> ·{" "}
+              <Link
+                href={`/admin/products/${productId}/edit`}
+                className="text-blue-600 hover:underline"
+              >
+                Adjust stock
+              </Link>
+            </p>
+          )}
+
+          {product && product.stockByLocation.length > 1 && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+              {product.stockByLocation.map((location) => (
+                <Card
+                  key={location.warehouseId}
+                  className="p-4 border border-gray-200 bg-white"
+                >
+                  <p className="font-semibold">
+                    {location.name}{" "}
+                    <span className="font-mono text-gray-500">
+                      ({location.code})
+                    </span>
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    On hand {location.quantity} · Reserved {location.reserved} ·
+                    Available {location.available}
+                  </p>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+              ❌ {error}
+            </div>
+          )}
+
+          <div className="mb-6 flex items-center gap-4">
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value as MovementReason | "")}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {REASONS.map((r) => (
+                <option key={r.value} value={r.value}>
+                  {r.label}
+                </option>
+              ))}
+            </select>
+            {product && product.stockByLocation.length > 1 && (
+              <select
+                value={warehouseId}
+                onChange={(e) => setWarehouseId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">All warehouses</option>
+                {product.stockByLocation.map((location) => (
+                  <option
+                    key={location.warehouseId}
+                    value={location.warehouseId}
+                  >
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <p className="ml-auto text-gray-700">
+              {total} movement{total === 1 ? "" : "s"}
+            </p>
+          </div>
+
+          <Card className="border border-gray-200 bg-white overflow-x-auto">
+            {movements.length === 0 && !loading ? (
+              <div className="text-center py-12 text-gray-600">
+                No movements found
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-3">Date</th>
+                    <th className="px-4 py-3">Reason</th>
+                    <th className="px-4 py-3">Location</th>
+                    <th className="px-4 py-3 text-right">On hand</th>
+                    <th className="px-4 py-3 text-right">Reserved</th>
+                    <th className="px-4 py-3">Reference</th>
+                    <th className="px-4 py-3">By</th>
+                    <th className="px-4 py-3">Note</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {movements.map((movement) => (
+                    <tr key={movement.id} className="border-t hover:bg-gray-50">
+                      <td className="px-4 py-3 text-gray-600">
+                        {new Date(movement.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            REASON_STYLES[movement.reason]
+                          }`}
+                        >
+                          {movement.reason}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 font-mono">
+                        {movement.inventory.warehouse?.code ??
+                          movement.inventory.supplier?.name ??
+                          "—"}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {movement.delta !== 0 && (
+                          <span
+                            className={
+                              movement.delta > 0
+                                ? "text-green-700"
+                                : "text-red-700"
+                            }
+                          >
+                            {formatDelta(movement.delta)} →{" "}
+                          </span>
+                        )}
+                        <span className="font-medium">
+                          {movement.quantityAfter}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {movement.reservedDelta !== 0 && (
+                          <span className="text-gray-500">
+                            {formatDelta(movement.reservedDelta)} →{" "}
+                          </span>
+                        )}
+                        <span className="font-medium">
+                          {movement.reservedAfter}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        {movement.referenceId &&
+                          (ORDER_REASONS.includes(movement.reason) ? (
+                            <Link
+                              href={`/admin/orders/${movement.referenceId}`}
+                              className="text-blue-600 hover:underline font-mono"
+                            >
+                              #{movement.referenceId.slice(0, 8)}
+                            </Link>
+                          ) : (
+                            <span className="font-mono">
+                              {movement.referenceId.slice(0, 8)}
+                            </span>
+                          ))}
+                      </td>
+                      <td className="px-4 py-3">{actorName(movement.actor)}</td>
+                      <td className="px-4 py-3 text-gray-600">
+                        {movement.note}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Card>
+
+          {loading && (
+            <div className="text-center py-6 text-gray-600">
+              Loading movements...
+            </div>
+          )}
+
+          {nextCursor && !loading && (
+            <div className="text-center mt-6">
+              <Button
+                variant="secondary"
+                onClick={() => fetchMovements(nextCursor)}
+              >
+                Load More
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -6,6 +6,16 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { Button, Card, Input } from "@/components/ui";
 import { footerStyles } from "@/app/ui-styles";
+import {
+  PriceTierEditor,
+  parseTierRows,
+  type TierRow,
+} from "@/app/admin/products/price-tier-editor";
+import {
+  ShippingDimensionsEditor,
+  emptyShippingDimensions,
+  parseShippingDimensions,
+} from "@/app/admin/products/shipping-dimensions-editor";
 
 /**
  * Create Product Page(Admin-only)
@@ -25,12 +35,23 @@ export default function CreateProductPage() {
     unit: "",
     lowThreshold: "0",
     initialStock: "0",
+    warehouseId: "",
+    minOrderQuantity: "1",
+    orderMultiple: "1",
+    packSize: "1",
     categoryId: "",
     imageUrl: "",
   });
   const [categories, setCategories] = useState<
     Array<{ id: string; name: string }>
   >([]);
+  const [warehouses, setWarehouses] = useState<
+    Array<{ id: string; name: string; isActive: boolean }>
+  >([]);
+
+  const [allowBackorder, setAllowBackorder] = useState(false);
+  const [tierRows, setTierRows] = useState<TierRow[]>([]);
+  const [dimensions, setDimensions] = useState(emptyShippingDimensions);
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -76,8 +97,24 @@ export default function CreateProductPage() {
       }
     };
 
+    // GET /api/admin/warehouses - Fetch warehouses for the initial stock
+    const fetchWarehouses = async () => {
+      try {
+        const res = await fetch("/api/admin/warehouses");
+        if (res.ok) {
+          const data = await res.json();
+          setWarehouses(
+            (data.data || []).filter((w: { isActive: boolean }) => w.isActive)
+          );
+        }
+      } catch (error) {
+        console.error("Failed to fetch warehouses:", error);
+      }
+    };
+
     fetchUserRole();
     fetchCategories();
+    fetchWarehouses();
   }, [isSignedIn, router]);
 
   const handleChange = (
@@ -160,6 +197,15 @@ export default function CreateProductPage() {
         throw new Error("Initial stock cannot be negative");
       }
 
+      const orderRules = {
+        minOrderQuantity: parseInt(formData.minOrderQuantity, 10),
+        orderMultiple: parseInt(formData.orderMultiple, 10),
+        packSize: parseInt(formData.packSize, 10),
+      };
+      if (Object.values(orderRules).some((v) => isNaN(v) || v < 1)) {
+        throw new Error("Ordering rules must be at least 1");
+      }
+
       const payload = {
         sku: formData.sku,
         name: formData.name,
@@ -168,8 +214,13 @@ export default function CreateProductPage() {
         unit: formData.unit || undefined,
         lowThreshold: parseInt(formData.lowThreshold, 10),
         initialStock,
+        warehouseId: formData.warehouseId || undefined,
+        allowBackorder,
+        ...orderRules,
+        ...parseShippingDimensions(dimensions),
         categoryId: formData.categoryId || null,
         imageUrl: formData.imageUrl || null,
+        priceTiers: parseTierRows(tierRows),
       };
 
       // POST /api/products - Create new product
@@ -375,6 +426,9 @@ export default function CreateProductPage() {
             </p>
           </div>
 
+          {/* Volume Pricing */}
+          <PriceTierEditor rows={tierRows} onChange={setTierRows} />
+
           {/* Unit */}
           <div>
             <label className="block text-sm font-semibold mb-2">Unit</label>
@@ -387,6 +441,58 @@ export default function CreateProductPage() {
             />
           </div>
 
+          {/* Ordering Rules */}
+          <div>
+            <label className="block text-sm font-semibold mb-2">
+              Ordering Rules
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <p className="text-xs text-gray-600 mb-1">Min order qty</p>
+                <Input
+                  type="number"
+                  name="minOrderQuantity"
+                  value={formData.minOrderQuantity}
+                  onChange={handleChange}
+                  min="1"
+                  step="1"
+                />
+              </div>
+              <div>
+                <p className="text-xs text-gray-600 mb-1">Order multiple</p>
+                <Input
+                  type="number"
+                  name="orderMultiple"
+                  value={formData.orderMultiple}
+                  onChange={handleChange}
+                  min="1"
+                  step="1"
+                />
+              </div>
+              <div>
+                <p className="text-xs text-gray-600 mb-1">Pack size</p>
+                <Input
+                  type="number"
+                  name="packSize"
+                  value={formData.packSize}
+                  onChange={handleChange}
+                  min="1"
+                  step="1"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Quantities are in units: buyers must order at least the minimum,
+              in steps of the multiple, and only whole packs.
+            </p>
+          </div>
+
+          {/* Shipping */}
+          <ShippingDimensionsEditor
+            value={dimensions}
+            onChange={setDimensions}
+          />
+
           {/* Low Threshold */}
           <div>
             <label className="block text-sm font-semibold mb-2">
@@ -406,6 +512,22 @@ export default function CreateProductPage() {
             </p>
           </div>
 
+          {/* Backorders */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-semibold">
+              <input
+                type="checkbox"
+                checked={allowBackorder}
+                onChange={(e) => setAllowBackorder(e.target.checked)}
+              />
+              Allow Backorders
+            </label>
+            <p className="text-xs text-gray-500 mt-1">
+              Buyers can order more than is in stock; the rest is allocated when
+              stock is received
+            </p>
+          </div>
+
           {/* Initial Stock */}
           <div>
             <label className="block text-sm font-semibold mb-2">
@@ -425,6 +547,30 @@ export default function CreateProductPage() {
             </p>
           </div>
 
+          {/* Initial Stock Warehouse */}
+          {warehouses.length > 1 && (
+            <div>
+              <label className="block text-sm font-semibold mb-2">
+                Initial Stock Warehouse
+              </label>
+              <select
+                name="warehouseId"
+                value={formData.warehouseId}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {warehouses.map((warehouse) => (
+                  <option key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Stock at other warehouses is added when editing the product
+              </p>
+            </div>
+          )}
+
           {/* Buttons */}
           <div className="flex gap-4 pt-6">
             <Button
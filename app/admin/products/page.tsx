@@ -24,6 +24,7 @@ interface Product {
   updatedAt: string;
   categoryId: string | null;
   platformStock?: number;
+  stockByLocation: { code: string; name: string; available: number }[];
   imageUrl: string | null;
 }
 
@@ -210,6 +211,13 @@ export default function AdminProductsPage() {
                         >
                           {product.platformStock ?? 0}
                         </span>
+                        {product.stockByLocation.length > 1 && (
+                          <div className="text-xs text-gray-500 whitespace-nowrap">
+                            {product.stockByLocation
+                              .map((l) => `${l.code} ${l.available}`)
+                              .join(" · ")}
+                          </div>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-center">
                         {product.lowThreshold}
@@ -220,6 +228,11 @@ export default function AdminProductsPage() {
                           <Link href={`/admin/products/${product.id}/edit`}>
                             <Button variant="secondary">Edit</Button>
                           </Link>
+                          <Link
+                            href={`/admin/products/${product.id}/movements`}
+                          >
+                            <Button variant="secondary">Stock History</Button>
+                          </Link>
                           <button
                             onClick={() => handleDelete(product.id)}
                             className="px-3 py-1 bg-red-600 text-white hover:bg-red-700 rounded text-sm font-medium transition-colors"
@@ -0,0 +1,90 @@
+"use client";
+
+import { Button, Input } from "@/components/ui";
+
+/**
+ * Volume pricing editor for the admin product forms
+ * Each row is a minimum quantity and the unit price (in cents) from that quantity
+ */
+
+export type TierRow = { minQuantity: string; priceCents: string };
+
+// Convert form rows into the API payload, skipping blank rows
+export function parseTierRows(rows: TierRow[]) {
+  return rows
+    .filter((row) => row.minQuantity !== "" || row.priceCents !== "")
+    .map((row) => {
+      const minQuantity = parseInt(row.minQuantity, 10);
+      const priceCents = parseInt(row.priceCents, 10);
+      if (isNaN(minQuantity) || minQuantity < 2) {
+        throw new Error("Tier minimum quantity must be at least 2");
+      }
+      if (isNaN(priceCents) || priceCents <= 0) {
+        throw new Error("Tier price must be greater than 0");
+      }
+      return { minQuantity, priceCents };
+    });
+}
+
+export function PriceTierEditor({
+  rows,
+  onChange,
+}: {
+  rows: TierRow[];
+  onChange: (rows: TierRow[]) => void;
+}) {
+  const updateRow = (index: number, field: keyof TierRow, value: string) =>
+    onChange(
+      rows.map((row, i) => (i === index ? { ...row, [field]: value } : row))
+    );
+
+  return (
+    <div>
+      <label className="block text-sm font-semibold mb-2">Volume Pricing</label>
+      {rows.length > 0 && (
+        <div className="space-y-2 mb-2">
+          {rows.map((row, index) => (
+            <div key={index} className="flex gap-2 items-center">
+              <Input
+                type="number"
+                value={row.minQuantity}
+                onChange={(e) =>
+                  updateRow(index, "minQuantity", e.target.value)
+                }
+                placeholder="Min qty (e.g., 10)"
+                min="2"
+                step="1"
+              />
+              <Input
+                type="number"
+                value={row.priceCents}
+                onChange={(e) => updateRow(index, "priceCents", e.target.value)}
+                placeholder="Unit price in cents"
+                min="1"
+                step="1"
+              />
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => onChange(rows.filter((_, i) => i !== index))}
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      <Button
+        type="button"
+        variant="secondary"
+        onClick={() => onChange([...rows, { minQuantity: "", priceCents: "" }])}
+      >
+        Add Tier
+      </Button>
+      <p className="text-xs text-gray-500 mt-1">
+        Unit price applied when a line reaches the minimum quantity. Contract
+        prices from a price list take precedence.
+      </p>
+    </div>
+  );
+}
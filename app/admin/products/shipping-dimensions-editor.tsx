@@ -0,0 +1,98 @@
+"use client";
+
+import { Input } from "@/components/ui";
+
+/**
+ * Shipping weight and dimensions editor for the admin product forms
+ * Weight is entered in kg and stored in grams; blank fields are unset
+ */
+
+export type ShippingDimensions = {
+  weightKg: string;
+  lengthCm: string;
+  widthCm: string;
+  heightCm: string;
+};
+
+export const emptyShippingDimensions: ShippingDimensions = {
+  weightKg: "",
+  lengthCm: "",
+  widthCm: "",
+  heightCm: "",
+};
+
+// Load a product's stored values into the form
+export function toShippingDimensions(product: {
+  weightGrams: number | null;
+  lengthCm: number | null;
+  widthCm: number | null;
+  heightCm: number | null;
+}): ShippingDimensions {
+  const text = (value: number | null) => (value === null ? "" : String(value));
+  return {
+    weightKg:
+      product.weightGrams === null ? "" : String(product.weightGrams / 1000),
+    lengthCm: text(product.lengthCm),
+    widthCm: text(product.widthCm),
+    heightCm: text(product.heightCm),
+  };
+}
+
+// Convert the form into the API payload (null clears a value)
+export function parseShippingDimensions(dimensions: ShippingDimensions) {
+  const parse = (value: string, scale: number) => {
+    if (value.trim() === "") return null;
+    const parsed = Math.round(parseFloat(value) * scale);
+    if (isNaN(parsed) || parsed <= 0) {
+      throw new Error("Weight and dimensions must be greater than 0");
+    }
+    return parsed;
+  };
+  return {
+    weightGrams: parse(dimensions.weightKg, 1000),
+    lengthCm: parse(dimensions.lengthCm, 1),
+    widthCm: parse(dimensions.widthCm, 1),
+    heightCm: parse(dimensions.heightCm, 1),
+  };
+}
+
+export function ShippingDimensionsEditor({
+  value,
+  onChange,
+}: {
+  value: ShippingDimensions;
+  onChange: (value: ShippingDimensions) => void;
+}) {
+  const fields: { key: keyof ShippingDimensions; label: string }[] = [
+    { key: "weightKg", label: "Weight (kg)" },
+    { key: "lengthCm", label: "Length (cm)" },
+    { key: "widthCm", label: "Width (cm)" },
+    { key: "heightCm", label: "Height (cm)" },
+  ];
+
+  return (
+    <div>
+      <label className="block text-sm font-semibold mb-2">Shipping</label>
+      <div className="grid grid-cols-4 gap-2">
+        {fields.map((field) => (
+          <div key={field.key}>
+            <p className="text-xs text-gray-600 mb-1">{field.label}</p>
+            <Input
+              type="number"
+              value={value[field.key]}
+              onChange={(e) =>
+                onChange({ ...value, [field.key]: e.target.value })
+              }
+              min="0"
+              step={field.key === "weightKg" ? "0.001" : "1"}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Per unit. Shipping is priced on the greater of the actual weight and the
+        dimensional weight (L × W × H / 5000).
+      </p>
+    </div>
+  );
+}
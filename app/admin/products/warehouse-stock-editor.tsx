@@ -0,0 +1,142 @@
+"use client";
+
+import { Input } from "@/components/ui";
+
+/**
+ * Per-warehouse stock editor for the admin product form
+ * Stock on hand and an optional low-stock level for every warehouse; a
+ * blank low-stock level uses the product's
+ */
+
+export type WarehouseStockRow = {
+  warehouseId: string;
+  code: string;
+  name: string;
+  isActive: boolean;
+  stocked: boolean; // the product has a stock record at this warehouse
+  quantity: string;
+  reserved: number;
+  threshold: string;
+};
+
+// One row per warehouse, filled with the product's stock where it has some
+export function toWarehouseStockRows(
+  warehouses: { id: string; code: string; name: string; isActive: boolean }[],
+  stockByLocation: {
+    warehouseId: string;
+    quantity: number;
+    reserved: number;
+    threshold: number | null;
+  }[]
+): WarehouseStockRow[] {
+  return warehouses.map((warehouse) => {
+    const stock = stockByLocation.find((s) => s.warehouseId === warehouse.id);
+    return {
+      warehouseId: warehouse.id,
+      code: warehouse.code,
+      name: warehouse.name,
+      isActive: warehouse.isActive,
+      stocked: !!stock,
+      quantity: String(stock?.quantity ?? 0),
+      reserved: stock?.reserved ?? 0,
+      threshold:
+        stock?.threshold === null || stock?.threshold === undefined
+          ? ""
+          : String(stock.threshold),
+    };
+  });
+}
+
+// Convert the rows into the API payload (stockLevels). Warehouses that do
+// not carry the product are left out unless given stock or a level.
+export function parseWarehouseStockRows(rows: WarehouseStockRow[]) {
+  return rows.flatMap((row) => {
+    const quantity = parseInt(row.quantity, 10);
+    const threshold =
+      row.threshold.trim() === "" ? null : parseInt(row.threshold, 10);
+    if (isNaN(quantity) || quantity < 0) {
+      throw new Error(`Stock at ${row.name} must be 0 or more`);
+    }
+    if (threshold !== null && (isNaN(threshold) || threshold < 0)) {
+      throw new Error(`Low-stock level at ${row.name} must be 0 or more`);
+    }
+    if (quantity < row.reserved) {
+      throw new Error(
+        `Stock at ${row.name} cannot be below the ${row.reserved} unit(s) reserved by unpaid orders`
+      );
+    }
+    if (!row.stocked && quantity === 0 && threshold === null) return [];
+    return [{ warehouseId: row.warehouseId, quantity, threshold }];
+  });
+}
+
+export function WarehouseStockEditor({
+  rows,
+  onChange,
+}: {
+  rows: WarehouseStockRow[];
+  onChange: (rows: WarehouseStockRow[]) => void;
+}) {
+  const updateRow = (
+    index: number,
+    field: "quantity" | "threshold",
+    value: string
+  ) =>
+    onChange(
+      rows.map((row, i) => (i === index ? { ...row, [field]: value } : row))
+    );
+
+  if (rows.length === 0) {
+    return (
+      <p className="text-sm text-gray-600">
+        No warehouses yet. Add one under Warehouses to stock this product.
+      </p>
+    );
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead className="text-left text-gray-600">
+        <tr>
+          <th className="py-1">Warehouse</th>
+          <th className="py-1">On hand</th>
+          <th className="py-1">Reserved</th>
+          <th className="py-1">Low-stock level</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, index) => (
+          <tr key={row.warehouseId}>
+            <td className="py-1 pr-2">
+              {row.name}{" "}
+              <span className="font-mono text-gray-500">{row.code}</span>
+              {!row.isActive && (
+                <span className="ml-2 text-xs text-gray-500">(inactive)</span>
+              )}
+            </td>
+            <td className="py-1 pr-2">
+              <Input
+                type="number"
+                value={row.quantity}
+                onChange={(e) => updateRow(index, "quantity", e.target.value)}
+                min={String(row.reserved)}
+                step="1"
+              />
+            </td>
+            <td className="py-1 pr-2 text-gray-600">{row.reserved}</td>
+            <td className="py-1">
+              <Input
+                type="number"
+                value={row.threshold}
+                onChange={(e) => updateRow(index, "threshold", e.target.value)}
+                placeholder="Product level"
+                min="0"
+                step="1"
+              />
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,500 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useParams, useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+import {
+  PurchaseOrderLinesEditor,
+  parseLineRows,
+  toLineRows,
+  type ProductOption,
+  type PurchaseOrderLineRow,
+} from "../purchase-order-lines-editor";
+
+/**
+ * Admin Purchase Order Detail Page(Admin Only)
+ * Edit a draft and send it to the supplier, receive deliveries (in full or
+ * line by line) into the warehouse, or cancel what is still expected
+ */
+
+type PurchaseOrderStatus =
+  "DRAFT" | "ORDERED" | "PARTIALLY_RECEIVED" | "RECEIVED" | "CANCELLED";
+
+interface PurchaseOrder {
+  id: string;
+  number: string;
+  status: PurchaseOrderStatus;
+  notes: string | null;
+  expectedAt: string | null;
+  createdAt: string;
+  orderedAt: string | null;
+  receivedAt: string | null;
+  supplier: { id: string; name: string };
+  warehouse: { id: string; code: string; name: string };
+  createdBy: { email: string } | null;
+  lines: {
+    id: string;
+    productId: string;
+    quantity: number;
+    receivedQuantity: number;
+    unitCostCents: number;
+    product: { id: string; sku: string | null; name: string };
+  }[];
+  receipts: {
+    id: string;
+    delta: number;
+    note: string | null;
+    createdAt: string;
+    product: { sku: string | null; name: string };
+    actor: { email: string } | null;
+  }[];
+  orderedUnits: number;
+  receivedUnits: number;
+  totalCents: number;
+}
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  DRAFT: "bg-gray-100 text-gray-800",
+  ORDERED: "bg-blue-100 text-blue-800",
+  PARTIALLY_RECEIVED: "bg-yellow-100 text-yellow-800",
+  RECEIVED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-red-100 text-red-800",
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function AdminPurchaseOrderPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrder | null>(
+    null
+  );
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [rows, setRows] = useState<PurchaseOrderLineRow[]>([]);
+  // Quantity to receive per line id
+  const [toReceive, setToReceive] = useState<Record<string, string>>({});
+  const [receiptNote, setReceiptNote] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // GET /api/admin/purchase-orders/[id] - Purchase order with its receipts
+  const fetchPurchaseOrder = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/purchase-orders/${id}`);
+      if (res.ok) {
+        const data: PurchaseOrder = (await res.json()).data;
+        setPurchaseOrder(data);
+        setRows(toLineRows(data.lines));
+        setToReceive(
+          Object.fromEntries(
+            data.lines.map((line) => [
+              line.id,
+              String(line.quantity - line.receivedQuantity),
+            ])
+          )
+        );
+      }
+    } catch (err) {
+      console.error("Error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifyAdmin = async () => {
+      // GET /api/auth/me - Verify admin role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsAdmin = data?.user?.role === "ADMIN";
+      setIsAdmin(userIsAdmin);
+      if (!userIsAdmin) router.push("/");
+    };
+
+    verifyAdmin();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (isAdmin) fetchPurchaseOrder();
+  }, [isAdmin, fetchPurchaseOrder]);
+
+  // Products to choose from while the purchase order is a draft
+  useEffect(() => {
+    if (!isAdmin || purchaseOrder?.status !== "DRAFT") return;
+
+    fetch("/api/products?page=1&limit=500")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setProducts(data?.data || []))
+      .catch((err) => console.error("Error:", err));
+  }, [isAdmin, purchaseOrder?.status]);
+
+  const send = async (url: string, method: string, body: object) => {
+    setError(null);
+    setSaving(true);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update purchase order");
+      }
+      await fetchPurchaseOrder();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // PUT /api/admin/purchase-orders/[id] - Replace the draft's lines
+  const saveLines = async () => {
+    try {
+      const lines = parseLineRows(rows);
+      await send(`/api/admin/purchase-orders/${id}`, "PUT", { lines });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid lines");
+    }
+  };
+
+  // PUT /api/admin/purchase-orders/[id]/status - Order or cancel
+  const changeStatus = (status: "ORDERED" | "CANCELLED") => {
+    if (
+      status === "CANCELLED" &&
+      !confirm(
+        "Cancel this purchase order? Anything not yet received will no longer be expected."
+      )
+    ) {
+      return;
+    }
+    send(`/api/admin/purchase-orders/${id}/status`, "PUT", { status });
+  };
+
+  // POST /api/admin/purchase-orders/[id]/receipts - Receive the quantities
+  // entered, or everything still expected
+  const receive = async (all: boolean) => {
+    const items = Object.entries(toReceive).map(([lineId, quantity]) => ({
+      lineId,
+      quantity: parseInt(quantity, 10) || 0,
+    }));
+    const ok = await send(`/api/admin/purchase-orders/${id}/receipts`, "POST", {
+      ...(!all && { items }),
+      note: receiptNote || null,
+    });
+    if (ok) setReceiptNote("");
+  };
+
+  if (!isAdmin) return null;
+
+  if (loading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        <div className="text-center py-12">Loading purchase order...</div>
+      </div>
+    );
+  }
+
+  if (!purchaseOrder) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        <div className="text-center py-12 text-gray-600">
+          Purchase order not found
+        </div>
+      </div>
+    );
+  }
+
+  const isDraft = purchaseOrder.status === "DRAFT";
+  const isReceivable =
+    purchaseOrder.status === "ORDERED" ||
+    purchaseOrder.status === "PARTIALLY_RECEIVED";
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-5xl mx-auto px-4 py-8">
+          <Link
+            href="/admin/purchase-orders"
+            className="text-blue-600 hover:underline text-sm"
+          >
+            ← Back to Purchase Orders
+          </Link>
+          <div className="flex justify-between items-center mt-2 mb-8">
+            <h1 className="text-4xl font-bold text-gray-900 font-mono">
+              {purchaseOrder.number}
+            </h1>
+            <span
+              className={`px-3 py-1 rounded text-sm font-medium ${
+                STATUS_STYLES[purchaseOrder.status]
+              }`}
+            >
+              {purchaseOrder.status.replace("_", " ")}
+            </span>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          <Card className="p-6 border border-gray-200 bg-white mb-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Supplier</p>
+                <Link
+                  href={`/admin/suppliers/${purchaseOrder.supplier.id}`}
+                  className="text-blue-600 hover:underline font-medium"
+                >
+                  {purchaseOrder.supplier.name}
+                </Link>
+              </div>
+              <div>
+                <p className="text-gray-500">Deliver to</p>
+                <p className="font-medium">
+                  {purchaseOrder.warehouse.name} ({purchaseOrder.warehouse.code}
+                  )
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500">Expected</p>
+                <p className="font-medium">
+                  {purchaseOrder.expectedAt
+                    ? new Date(purchaseOrder.expectedAt).toLocaleDateString()
+                    : "-"}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500">Total</p>
+                <p className="font-medium">
+                  ${(purchaseOrder.totalCents / 100).toFixed(2)}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500">Created</p>
+                <p>
+                  {new Date(purchaseOrder.createdAt).toLocaleString()}
+                  {purchaseOrder.createdBy &&
+                    ` by ${purchaseOrder.createdBy.email}`}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500">Ordered</p>
+                <p>
+                  {purchaseOrder.orderedAt
+                    ? new Date(purchaseOrder.orderedAt).toLocaleString()
+                    : "-"}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500">Received</p>
+                <p>
+                  {purchaseOrder.receivedUnits} / {purchaseOrder.orderedUnits}{" "}
+                  units
+                </p>
+              </div>
+            </div>
+            {purchaseOrder.notes && (
+              <p className="mt-4 text-sm text-gray-700 whitespace-pre-line">
+                {purchaseOrder.notes}
+              </p>
+            )}
+            <div className="flex gap-2 mt-6">
+              {isDraft && (
+                <Button
+                  variant="primary"
+                  onClick={() => changeStatus("ORDERED")}
+                  disabled={saving}
+                >
+                  Send to Supplier
+                </Button>
+              )}
+              {(isDraft || isReceivable) && (
+                <Button
+                  variant="danger"
+                  onClick={() => changeStatus("CANCELLED")}
+                  disabled={saving}
+                >
+                  Cancel Purchase Order
+                </Button>
+              )}
+            </div>
+          </Card>
+
+          {isDraft ? (
+            <Card className="p-6 border border-gray-200 bg-white mb-6">
+              <h2 className="text-xl font-semibold mb-4">Lines</h2>
+              <PurchaseOrderLinesEditor
+                rows={rows}
+                products={products}
+                onChange={setRows}
+              />
+              <Button
+                variant="primary"
+                className="mt-4"
+                onClick={saveLines}
+                disabled={saving}
+              >
+                {saving ? "Saving..." : "Save Lines"}
+              </Button>
+            </Card>
+          ) : (
+            <Card className="p-6 border border-gray-200 bg-white mb-6">
+              <h2 className="text-xl font-semibold mb-4">Lines</h2>
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-600">
+                  <tr>
+                    <th className="py-2">Product</th>
+                    <th className="py-2 text-right">Unit cost</th>
+                    <th className="py-2 text-right">Ordered</th>
+                    <th className="py-2 text-right">Received</th>
+                    {isReceivable && (
+                      <th className="py-2 pl-4 w-32">Receive now</th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {purchaseOrder.lines.map((line) => (
+                    <tr key={line.id} className="border-t">
+                      <td className="py-2">
+                        {line.product.name}
+                        {line.product.sku && (
+                          <span className="ml-2 font-mono text-gray-500">
+                            {line.product.sku}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        ${(line.unitCostCents / 100).toFixed(2)}
+                      </td>
+                      <td className="py-2 text-right">{line.quantity}</td>
+                      <td className="py-2 text-right">
+                        {line.receivedQuantity}
+                      </td>
+                      {isReceivable && (
+                        <td className="py-2 pl-4">
+                          <input
+                            type="number"
+                            value={toReceive[line.id] ?? "0"}
+                            onChange={(e) =>
+                              setToReceive({
+                                ...toReceive,
+                                [line.id]: e.target.value,
+                              })
+                            }
+                            min="0"
+                            max={String(line.quantity - line.receivedQuantity)}
+                            step="1"
+                            className={inputClass}
+                          />
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {isReceivable && (
+                <div className="mt-6 flex flex-col md:flex-row gap-2">
+                  <input
+                    value={receiptNote}
+                    onChange={(e) => setReceiptNote(e.target.value)}
+                    placeholder="Note (e.g. packing slip number)"
+                    className={inputClass}
+                  />
+                  <Button
+                    variant="primary"
+                    onClick={() => receive(false)}
+                    disabled={saving}
+                  >
+                    Receive Quantities
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    onClick={() => receive(true)}
+                    disabled={saving}
+                  >
+                    Receive All
+                  </Button>
+                </div>
+              )}
+            </Card>
+          )}
+
+          {purchaseOrder.receipts.length > 0 && (
+            <Card className="p-6 border border-gray-200 bg-white">
+              <h2 className="text-xl font-semibold mb-4">Receipts</h2>
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-600">
+                  <tr>
+                    <th className="py-2">Received</th>
+                    <th className="py-2">Product</th>
+                    <th className="py-2 text-right">Quantity</th>
+                    <th className="py-2 pl-4">By</th>
+                    <th className="py-2 pl-4">Note</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {purchaseOrder.receipts.map((receipt) => (
+                    <tr key={receipt.id} className="border-t">
+                      <td className="py-2 whitespace-nowrap">
+                        {new Date(receipt.createdAt).toLocaleString()}
+                      </td>
+                      <td className="py-2">{receipt.product.name}</td>
+                      <td className="py-2 text-right">{receipt.delta}</td>
+                      <td className="py-2 pl-4">
+                        {receipt.actor?.email ?? "-"}
+                      </td>
+                      <td className="py-2 pl-4 text-gray-600">
+                        {receipt.note}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
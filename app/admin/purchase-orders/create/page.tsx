@@ -0,0 +1,315 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+import {
+  PurchaseOrderLinesEditor,
+  emptyLineRow,
+  parseLineRows,
+  type ProductOption,
+  type PurchaseOrderLineRow,
+} from "../purchase-order-lines-editor";
+
+/**
+ * Admin Create Purchase Order Page(Admin Only)
+ * Draft a purchase order to a supplier, by hand or from the low-stock
+ * products of the destination warehouse (?warehouseId= preselects it)
+ */
+
+interface Option {
+  id: string;
+  name: string;
+  isActive: boolean;
+}
+
+interface Suggestion {
+  productId: string;
+  name: string;
+  currentStock: number;
+  lowThreshold: number;
+  onOrder: number;
+  suggestedQuantity: number;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function AdminCreatePurchaseOrderPage() {
+  // useSearchParams needs a Suspense boundary on statically rendered pages
+  return (
+    <Suspense>
+      <CreatePurchaseOrderForm />
+    </Suspense>
+  );
+}
+
+function CreatePurchaseOrderForm() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [suppliers, setSuppliers] = useState<Option[]>([]);
+  const [warehouses, setWarehouses] = useState<Option[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [supplierId, setSupplierId] = useState("");
+  const [warehouseId, setWarehouseId] = useState(
+    searchParams.get("warehouseId") ?? ""
+  );
+  const [expectedAt, setExpectedAt] = useState("");
+  const [notes, setNotes] = useState("");
+  const [rows, setRows] = useState<PurchaseOrderLineRow[]>([emptyLineRow]);
+  const [suggestions, setSuggestions] = useState<Suggestion[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifyAdmin = async () => {
+      // GET /api/auth/me - Verify admin role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsAdmin = data?.user?.role === "ADMIN";
+      setIsAdmin(userIsAdmin);
+      if (!userIsAdmin) router.push("/");
+    };
+
+    verifyAdmin();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const fetchOptions = async () => {
+      try {
+        // Suppliers, warehouses and products to choose from
+        const [suppliersRes, warehousesRes, productsRes] = await Promise.all([
+          fetch("/api/admin/suppliers"),
+          fetch("/api/admin/warehouses"),
+          fetch("/api/products?page=1&limit=500"),
+        ]);
+        if (suppliersRes.ok) {
+          setSuppliers((await suppliersRes.json()).data || []);
+        }
+        if (warehousesRes.ok) {
+          setWarehouses((await warehousesRes.json()).data || []);
+        }
+        if (productsRes.ok) {
+          setProducts((await productsRes.json()).data || []);
+        }
+      } catch (err) {
+        console.error("Error:", err);
+      }
+    };
+
+    fetchOptions();
+  }, [isAdmin]);
+
+  // GET /api/admin/purchase-orders/suggestions - Low-stock products of the
+  // warehouse, put on the lines with the suggested quantities
+  const suggestFromLowStock = async () => {
+    if (!warehouseId) {
+      setError("Choose the warehouse to restock first");
+      return;
+    }
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/admin/purchase-orders/suggestions?warehouseId=${warehouseId}`
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load suggestions");
+
+      const suggested: Suggestion[] = data.data || [];
+      setSuggestions(suggested);
+      if (suggested.length > 0) {
+        setRows(
+          suggested.map((s) => ({
+            productId: s.productId,
+            quantity: String(s.suggestedQuantity),
+            unitCost: "",
+          }))
+        );
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load");
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    try {
+      const lines = parseLineRows(rows);
+      // POST /api/admin/purchase-orders - Create the draft
+      const res = await fetch("/api/admin/purchase-orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          supplierId,
+          warehouseId,
+          expectedAt: expectedAt || null,
+          notes: notes || null,
+          lines,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to create purchase order");
+      }
+      router.push(`/admin/purchase-orders/${data.data.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+      setSaving(false);
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-5xl mx-auto px-4 py-8">
+          <Link
+            href="/admin/purchase-orders"
+            className="text-blue-600 hover:underline text-sm"
+          >
+            ← Back to Purchase Orders
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mt-2 mb-8">
+            New Purchase Order
+          </h1>
+
+          <Card className="p-6 border border-gray-200 bg-white">
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+                {error}
+              </div>
+            )}
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <label className="text-sm text-gray-700">
+                  Supplier
+                  <select
+                    value={supplierId}
+                    onChange={(e) => setSupplierId(e.target.value)}
+                    required
+                    className={inputClass}
+                  >
+                    <option value="">Select a supplier</option>
+                    {suppliers
+                      .filter((s) => s.isActive)
+                      .map((supplier) => (
+                        <option key={supplier.id} value={supplier.id}>
+                          {supplier.name}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-700">
+                  Deliver to
+                  <select
+                    value={warehouseId}
+                    onChange={(e) => {
+                      setWarehouseId(e.target.value);
+                      setSuggestions(null);
+                    }}
+                    required
+                    className={inputClass}
+                  >
+                    <option value="">Select a warehouse</option>
+                    {warehouses.map((warehouse) => (
+                      <option key={warehouse.id} value={warehouse.id}>
+                        {warehouse.name}
+                        {!warehouse.isActive && " (inactive)"}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-700">
+                  Expected delivery
+                  <input
+                    type="date"
+                    value={expectedAt}
+                    onChange={(e) => setExpectedAt(e.target.value)}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <h2 className="text-xl font-semibold">Lines</h2>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={suggestFromLowStock}
+                  >
+                    Suggest from low stock
+                  </Button>
+                </div>
+                {suggestions && (
+                  <p className="text-sm text-gray-600 mb-2">
+                    {suggestions.length === 0
+                      ? "Nothing to reorder: no product is low at this warehouse, or open purchase orders already cover it."
+                      : `${suggestions.length} low-stock product(s), ordered back up to twice their low-stock level, less what is already on order.`}
+                  </p>
+                )}
+                <PurchaseOrderLinesEditor
+                  rows={rows}
+                  products={products}
+                  onChange={setRows}
+                />
+              </div>
+
+              <label className="block text-sm text-gray-700">
+                Notes
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={3}
+                  className={inputClass}
+                />
+              </label>
+
+              <Button type="submit" variant="primary" disabled={saving}>
+                {saving ? "Saving..." : "Save Draft"}
+              </Button>
+            </form>
+          </Card>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Purchase Orders Page(Admin Only)
+ * Replenishment orders to suppliers: what has been ordered for each
+ * warehouse, and how much of it has been received
+ */
+
+type PurchaseOrderStatus =
+  "DRAFT" | "ORDERED" | "PARTIALLY_RECEIVED" | "RECEIVED" | "CANCELLED";
+
+interface PurchaseOrder {
+  id: string;
+  number: string;
+  status: PurchaseOrderStatus;
+  createdAt: string;
+  expectedAt: string | null;
+  supplier: { id: string; name: string };
+  warehouse: { id: string; code: string; name: string };
+  orderedUnits: number;
+  receivedUnits: number;
+  totalCents: number;
+}
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  DRAFT: "bg-gray-100 text-gray-800",
+  ORDERED: "bg-blue-100 text-blue-800",
+  PARTIALLY_RECEIVED: "bg-yellow-100 text-yellow-800",
+  RECEIVED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-red-100 text-red-800",
+};
+
+export default function AdminPurchaseOrdersPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [status, setStatus] = useState<PurchaseOrderStatus | "">("");
+  const [loading, setLoading] = useState(true);
+
+  // GET /api/admin/purchase-orders - Fetch a page of purchase orders
+  // (append when a cursor is given)
+  const fetchPurchaseOrders = useCallback(
+    async (cursor?: string) => {
+      setLoading(true);
+      try {
+        const query = new URLSearchParams({ limit: "20" });
+        if (status) query.set("status", status);
+        if (cursor) query.set("cursor", cursor);
+
+        const res = await fetch(
+          `/api/admin/purchase-orders?${query.toString()}`
+        );
+        const json = await res.json();
+        if (json.success) {
+          setPurchaseOrders((prev) =>
+            cursor ? [...prev, ...json.data] : json.data
+          );
+          setTotal(json.pagination.total);
+          setNextCursor(json.pagination.nextCursor);
+        }
+      } catch (err) {
+        console.error("Failed to fetch purchase orders:", err);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [status]
+  );
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifyAdmin = async () => {
+      // GET /api/auth/me - Verify admin role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsAdmin = data?.user?.role === "ADMIN";
+      setIsAdmin(userIsAdmin);
+      if (!userIsAdmin) router.push("/");
+    };
+
+    verifyAdmin();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (isAdmin) fetchPurchaseOrders();
+  }, [isAdmin, fetchPurchaseOrders]);
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <div className="flex justify-between items-center mb-8">
+            <h1 className="text-4xl font-bold text-gray-900">
+              Purchase Orders
+            </h1>
+            <div className="flex gap-2">
+              <select
+                value={status}
+                onChange={(e) =>
+                  setStatus(e.target.value as PurchaseOrderStatus | "")
+                }
+                className="px-3 py-2 border border-gray-300 rounded"
+              >
+                <option value="">All statuses</option>
+                <option value="DRAFT">Draft</option>
+                <option value="ORDERED">Ordered</option>
+                <option value="PARTIALLY_RECEIVED">Partially received</option>
+                <option value="RECEIVED">Received</option>
+                <option value="CANCELLED">Cancelled</option>
+              </select>
+              <Link href="/admin/purchase-orders/create">
+                <Button variant="primary">+ New Purchase Order</Button>
+              </Link>
+            </div>
+          </div>
+
+          {!loading && purchaseOrders.length === 0 ? (
+            <Card className="p-8 text-center border border-gray-200 bg-white">
+              <p className="text-gray-600">No purchase orders</p>
+            </Card>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg bg-white">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-3">Number</th>
+                    <th className="px-4 py-3">Created</th>
+                    <th className="px-4 py-3">Supplier</th>
+                    <th className="px-4 py-3">Deliver to</th>
+                    <th className="px-4 py-3 text-right">Received</th>
+                    <th className="px-4 py-3 text-right">Total</th>
+                    <th className="px-4 py-3">Expected</th>
+                    <th className="px-4 py-3">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {purchaseOrders.map((purchaseOrder) => (
+                    <tr key={purchaseOrder.id} className="border-t">
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/admin/purchase-orders/${purchaseOrder.id}`}
+                          className="text-blue-600 hover:underline font-mono"
+                        >
+                          {purchaseOrder.number}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {new Date(purchaseOrder.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/admin/suppliers/${purchaseOrder.supplier.id}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {purchaseOrder.supplier.name}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3">
+                        {purchaseOrder.warehouse.name}{" "}
+                        <span className="font-mono text-gray-500">
+                          {purchaseOrder.warehouse.code}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {purchaseOrder.receivedUnits} /{" "}
+                        {purchaseOrder.orderedUnits}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        ${(purchaseOrder.totalCents / 100).toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {purchaseOrder.expectedAt
+                          ? new Date(
+                              purchaseOrder.expectedAt
+                            ).toLocaleDateString()
+                          : "-"}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            STATUS_STYLES[purchaseOrder.status]
+                          }`}
+                        >
+                          {purchaseOrder.status.replace("_", " ")}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+            <span>
+              Showing {purchaseOrders.length} of {total}
+            </span>
+            {nextCursor && (
+              <Button
+                variant="secondary"
+                onClick={() => fetchPurchaseOrders(nextCursor)}
+                disabled={loading}
+              >
+                {loading ? "Loading..." : "Load More"}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { Button, Input } from "@/components/ui";
+
+/**
+ * Purchase order lines editor for the admin purchase order forms
+ * Product, quantity to order and unit cost (in dollars) per line
+ */
+
+export type PurchaseOrderLineRow = {
+  productId: string;
+  quantity: string;
+  unitCost: string;
+};
+
+export type ProductOption = { id: string; sku: string | null; name: string };
+
+export const emptyLineRow: PurchaseOrderLineRow = {
+  productId: "",
+  quantity: "1",
+  unitCost: "",
+};
+
+// Rows for the lines of an existing purchase order
+export function toLineRows(
+  lines: { productId: string; quantity: number; unitCostCents: number }[]
+): PurchaseOrderLineRow[] {
+  return lines.map((line) => ({
+    productId: line.productId,
+    quantity: String(line.quantity),
+    unitCost: (line.unitCostCents / 100).toFixed(2),
+  }));
+}
+
+// Convert the rows into the API payload (lines); rows without a product are
+// left out
+export function parseLineRows(rows: PurchaseOrderLineRow[]) {
+  const lines = rows
+    .filter((row) => row.productId)
+    .map((row, index) => {
+      const quantity = parseInt(row.quantity, 10);
+      const unitCost = row.unitCost.trim() === "" ? 0 : Number(row.unitCost);
+      if (isNaN(quantity) || quantity < 1) {
+        throw new Error(`Line ${index + 1}: quantity must be at least 1`);
+      }
+      if (isNaN(unitCost) || unitCost < 0) {
+        throw new Error(`Line ${index + 1}: unit cost must be 0 or more`);
+      }
+      return {
+        productId: row.productId,
+        quantity,
+        unitCostCents: Math.round(unitCost * 100),
+      };
+    });
+  if (lines.length === 0) throw new Error("Add at least one product");
+  if (new Set(lines.map((l) => l.productId)).size !== lines.length) {
+    throw new Error("Each product can only appear on one line");
+  }
+  return lines;
+}
+
+export function PurchaseOrderLinesEditor({
+  rows,
+  products,
+  onChange,
+}: {
+  rows: PurchaseOrderLineRow[];
+  products: ProductOption[];
+  onChange: (rows: PurchaseOrderLineRow[]) => void;
+}) {
+  const updateRow = (
+    index: number,
+    field: keyof PurchaseOrderLineRow,
+    value: string
+  ) =>
+    onChange(
+      rows.map((row, i) => (i === index ? { ...row, [field]: value } : row))
+    );
+
+  return (
+    <div>
+      <table className="w-full text-sm">
+        <thead className="text-left text-gray-600">
+          <tr>
+            <th className="py-1">Product</th>
+            <th className="py-1 w-32">Quantity</th>
+            <th className="py-1 w-40">Unit cost ($)</th>
+            <th className="py-1 w-24"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index}>
+              <td className="py-1 pr-2">
+                <select
+                  value={row.productId}
+                  onChange={(e) =>
+                    updateRow(index, "productId", e.target.value)
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                >
+                  <option value="">Select a product</option>
+                  {products.map((product) => (
+                    <option key={product.id} value={product.id}>
+                      {product.name}
+                      {product.sku ? ` (${product.sku})` : ""}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td className="py-1 pr-2">
+                <Input
+                  type="number"
+                  value={row.quantity}
+                  onChange={(e) => updateRow(index, "quantity", e.target.value)}
+                  min="1"
+                  step="1"
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <Input
+                  type="number"
+                  value={row.unitCost}
+                  onChange={(e) => updateRow(index, "unitCost", e.target.value)}
+                  placeholder="0.00"
+                  min="0"
+                  step="0.01"
+                />
+              </td>
+              <td className="py-1 text-right">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                >
+                  Remove
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <Button
+        type="button"
+        variant="secondary"
+        size="sm"
+        className="mt-2"
+        onClick={() => onChange([...rows, emptyLineRow])}
+      >
+        + Add Line
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,380 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useParams, useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Quote Detail Page(Admin Only)
+ * Set a price per line and an expiry date, or decline the request
+ */
+
+interface QuoteLine {
+  id: string;
+  quantity: number;
+  listUnitPriceCents: number;
+  quotedUnitPriceCents: number | null;
+  product: {
+    name: string;
+    sku: string | null;
+    priceCents: number;
+    inventories: { quantity: number }[];
+  };
+}
+
+interface Quote {
+  id: string;
+  status: string;
+  notes: string | null;
+  adminNotes: string | null;
+  expiresAt: string | null;
+  respondedAt: string | null;
+  createdAt: string;
+  buyer: {
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+  };
+  company: { name: string } | null;
+  respondedBy: { email: string } | null;
+  order: { id: string; status: string } | null;
+  lines: QuoteLine[];
+}
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// Default validity offered to the buyer
+const QUOTE_VALID_DAYS = 14;
+
+export default function AdminQuoteDetailPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const params = useParams();
+  const quoteId = params.id as string;
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [prices, setPrices] = useState<Record<string, string>>({});
+  const [expiresOn, setExpiresOn] = useState("");
+  const [adminNotes, setAdminNotes] = useState("");
+
+  const fetchQuote = useCallback(async () => {
+    // GET /api/admin/quotes/[id] - Quote with lines and stock
+    const res = await fetch(`/api/admin/quotes/${quoteId}`);
+    if (!res.ok) {
+      setQuote(null);
+      return;
+    }
+    const data = await res.json();
+    const q: Quote = data.data;
+    setQuote(q);
+    // Start from the previous quote, else from the buyer's current prices
+    setPrices(
+      Object.fromEntries(
+        q.lines.map((line) => [
+          line.id,
+          (
+            (line.quotedUnitPriceCents ?? line.listUnitPriceCents) / 100
+          ).toFixed(2),
+        ])
+      )
+    );
+    const defaultExpiry = new Date();
+    defaultExpiry.setDate(defaultExpiry.getDate() + QUOTE_VALID_DAYS);
+    setExpiresOn((q.expiresAt ?? defaultExpiry.toISOString()).slice(0, 10));
+    setAdminNotes(q.adminNotes ?? "");
+  }, [quoteId]);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        // GET /api/auth/me - Verify admin role
+        const authRes = await fetch("/api/auth/me");
+        const authData = authRes.ok ? await authRes.json() : null;
+        const userIsAdmin = authData?.user?.role === "ADMIN";
+        setIsAdmin(userIsAdmin);
+
+        if (!userIsAdmin) {
+          router.push("/");
+          return;
+        }
+
+        await fetchQuote();
+      } catch (err) {
+        console.error("Error:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [isSignedIn, router, fetchQuote]);
+
+  const respond = async (body: unknown) => {
+    setSaving(true);
+    setError(null);
+    try {
+      // POST /api/admin/quotes/[id]/respond - Send prices or decline
+      const res = await fetch(`/api/admin/quotes/${quoteId}/respond`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || "Request failed");
+        return;
+      }
+      await fetchQuote();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sendQuote = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quote) return;
+    respond({
+      action: "QUOTE",
+      lines: quote.lines.map((line) => ({
+        lineId: line.id,
+        unitPriceCents: Math.round(parseFloat(prices[line.id]) * 100),
+      })),
+      expiresAt: `${expiresOn}T23:59:59.999`,
+      adminNotes: adminNotes || undefined,
+    });
+  };
+
+  const decline = () => {
+    if (!confirm("Decline this quote request?")) return;
+    respond({ action: "DECLINE", adminNotes: adminNotes || undefined });
+  };
+
+  if (!isAdmin) return null;
+
+  const isOpen = quote?.status === "REQUESTED" || quote?.status === "QUOTED";
+  const quotedTotal =
+    quote?.lines.reduce(
+      (sum, line) =>
+        sum +
+        Math.round(parseFloat(prices[line.id] || "0") * 100) * line.quantity,
+      0
+    ) ?? 0;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-5xl mx-auto px-4 py-8">
+          <div className="mb-6">
+            <Link href="/admin/quotes">
+              <Button variant="secondary">← Back to Quotes</Button>
+            </Link>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-600">Loading...</div>
+          ) : !quote ? (
+            <div className="text-center py-12 text-gray-600">
+              Quote not found
+            </div>
+          ) : (
+            <>
+              <h1 className="text-4xl font-bold text-gray-900 mb-2">
+                Quote #{quote.id.slice(0, 8)}
+              </h1>
+              <p className="text-gray-600">
+                {[quote.buyer.firstName, quote.buyer.lastName]
+                  .filter(Boolean)
+                  .join(" ") || quote.buyer.email}
+                {quote.company && ` · ${quote.company.name}`} · requested{" "}
+                {new Date(quote.createdAt).toLocaleString()}
+              </p>
+              <p className="text-gray-600 mb-8">
+                Status: <span className="font-semibold">{quote.status}</span>
+                {quote.respondedBy &&
+                  quote.respondedAt &&
+                  ` · answered by ${quote.respondedBy.email} on ${new Date(
+                    quote.respondedAt
+                  ).toLocaleDateString()}`}
+                {quote.order && (
+                  <>
+                    {" · "}
+                    <Link
+                      href={`/admin/orders/${quote.order.id}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      Order #{quote.order.id.slice(0, 8)} ({quote.order.status})
+                    </Link>
+                  </>
+                )}
+              </p>
+
+              {quote.notes && (
+                <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded text-gray-700">
+                  <span className="font-semibold">Buyer notes:</span>{" "}
+                  {quote.notes}
+                </div>
+              )}
+
+              {error && (
+                <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <Card className="p-6 border border-gray-200 bg-white">
+                <form onSubmit={sendQuote}>
+                  <table className="w-full text-sm mb-6">
+                    <thead className="bg-gray-50 text-left">
+                      <tr>
+                        <th className="px-4 py-3">Product</th>
+                        <th className="px-4 py-3">Qty</th>
+                        <th className="px-4 py-3">In Stock</th>
+                        <th className="px-4 py-3">Buyer&apos;s Price</th>
+                        <th className="px-4 py-3">Quoted Price</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {quote.lines.map((line) => (
+                        <tr key={line.id} className="border-t">
+                          <td className="px-4 py-3">
+                            <p className="font-medium">{line.product.name}</p>
+                            <p className="text-xs text-gray-500 font-mono">
+                              {line.product.sku}
+                            </p>
+                          </td>
+                          <td className="px-4 py-3">{line.quantity}</td>
+                          <td className="px-4 py-3">
+                            {line.product.inventories.reduce(
+                              (sum, inventory) => sum + inventory.quantity,
+                              0
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-gray-500">
+                            {formatPrice(line.listUnitPriceCents)}
+                          </td>
+                          <td className="px-4 py-3">
+                            {isOpen ? (
+                              <input
+                                type="number"
+                                min="0.01"
+                                step="0.01"
+                                required
+                                value={prices[line.id] ?? ""}
+                                onChange={(e) =>
+                                  setPrices({
+                                    ...prices,
+                                    [line.id]: e.target.value,
+                                  })
+                                }
+                                className={`w-32 ${inputClass}`}
+                              />
+                            ) : line.quotedUnitPriceCents !== null ? (
+                              formatPrice(line.quotedUnitPriceCents)
+                            ) : (
+                              "—"
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  {isOpen ? (
+                    <>
+                      <p className="text-right font-semibold mb-6">
+                        Quoted subtotal: {formatPrice(quotedTotal)}
+                      </p>
+                      <div className="flex flex-wrap gap-4 items-end mb-4">
+                        <label className="text-sm text-gray-600">
+                          Valid until
+                          <input
+                            type="date"
+                            required
+                            value={expiresOn}
+                            onChange={(e) => setExpiresOn(e.target.value)}
+                            className={`block ${inputClass}`}
+                          />
+                        </label>
+                        <label className="text-sm text-gray-600 flex-1">
+                          Notes for the buyer
+                          <input
+                            value={adminNotes}
+                            onChange={(e) => setAdminNotes(e.target.value)}
+                            placeholder="Optional"
+                            className={`block w-full ${inputClass}`}
+                          />
+                        </label>
+                      </div>
+                      <div className="flex gap-3">
+                        <Button
+                          type="submit"
+                          variant="primary"
+                          disabled={saving}
+                        >
+                          {quote.status === "QUOTED"
+                            ? "Update Quote"
+                            : "Send Quote"}
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="secondary"
+                          onClick={decline}
+                          disabled={saving}
+                        >
+                          Decline
+                        </Button>
+                      </div>
+                    </>
+                  ) : (
+                    quote.adminNotes && (
+                      <p className="text-sm text-gray-700">
+                        Notes for the buyer: {quote.adminNotes}
+                      </p>
+                    )
+                  )}
+                </form>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
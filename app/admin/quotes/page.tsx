@@ -0,0 +1,227 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Quotes Page(Admin Only)
+ * Requests for quote from buyers, filtered by status
+ */
+
+type QuoteStatus =
+  "REQUESTED" | "QUOTED" | "ACCEPTED" | "DECLINED" | "EXPIRED" | "CANCELLED";
+
+interface Quote {
+  id: string;
+  status: QuoteStatus;
+  expiresAt: string | null;
+  createdAt: string;
+  buyer: {
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+  };
+  company: { id: string; name: string } | null;
+  lines: {
+    quantity: number;
+    listUnitPriceCents: number;
+    quotedUnitPriceCents: number | null;
+  }[];
+}
+
+const STATUSES: QuoteStatus[] = [
+  "REQUESTED",
+  "QUOTED",
+  "ACCEPTED",
+  "DECLINED",
+  "EXPIRED",
+  "CANCELLED",
+];
+
+const statusColors: Record<QuoteStatus, string> = {
+  REQUESTED: "bg-yellow-100 text-yellow-800",
+  QUOTED: "bg-blue-100 text-blue-800",
+  ACCEPTED: "bg-green-100 text-green-800",
+  DECLINED: "bg-red-100 text-red-800",
+  EXPIRED: "bg-gray-100 text-gray-800",
+  CANCELLED: "bg-gray-100 text-gray-800",
+};
+
+export default function AdminQuotesPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [status, setStatus] = useState<QuoteStatus | "">("REQUESTED");
+  const [loading, setLoading] = useState(true);
+
+  const fetchQuotes = useCallback(async () => {
+    setLoading(true);
+    try {
+      // GET /api/admin/quotes - Quotes, optionally filtered by status
+      const res = await fetch(
+        `/api/admin/quotes${status ? `?status=${status}` : ""}`
+      );
+      if (res.ok) {
+        const data = await res.json();
+        setQuotes(data.data);
+      }
+    } catch (err) {
+      console.error("Error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifyAdmin = async () => {
+      // GET /api/auth/me - Verify admin role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsAdmin = data?.user?.role === "ADMIN";
+      setIsAdmin(userIsAdmin);
+      if (!userIsAdmin) router.push("/");
+    };
+
+    verifyAdmin();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (isAdmin) fetchQuotes();
+  }, [isAdmin, fetchQuotes]);
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-6xl mx-auto px-4 py-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Quotes</h1>
+          <p className="text-gray-600 mb-8">
+            Price buyers&apos; requests for quote. Accepted quotes become orders
+            at the quoted prices.
+          </p>
+
+          <div className="mb-6">
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as QuoteStatus | "")}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All statuses</option>
+              {STATUSES.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <Card className="border border-gray-200 bg-white overflow-x-auto">
+            {loading ? (
+              <div className="text-center py-12 text-gray-600">Loading...</div>
+            ) : quotes.length === 0 ? (
+              <div className="text-center py-12 text-gray-600">
+                No quotes found
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-3">Quote</th>
+                    <th className="px-4 py-3">Buyer</th>
+                    <th className="px-4 py-3">Lines</th>
+                    <th className="px-4 py-3">Requested Value</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3">Requested</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {quotes.map((quote) => (
+                    <tr key={quote.id} className="border-t hover:bg-gray-50">
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/admin/quotes/${quote.id}`}
+                          className="text-blue-600 hover:underline font-mono"
+                        >
+                          #{quote.id.slice(0, 8)}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3">
+                        <p>
+                          {[quote.buyer.firstName, quote.buyer.lastName]
+                            .filter(Boolean)
+                            .join(" ") || quote.buyer.email}
+                        </p>
+                        {quote.company && (
+                          <p className="text-xs text-gray-500">
+                            {quote.company.name}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">{quote.lines.length}</td>
+                      <td className="px-4 py-3">
+                        $
+                        {(
+                          quote.lines.reduce(
+                            (sum, line) =>
+                              sum + line.listUnitPriceCents * line.quantity,
+                            0
+                          ) / 100
+                        ).toFixed(2)}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            statusColors[quote.status]
+                          }`}
+                        >
+                          {quote.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-gray-600">
+                        {new Date(quote.createdAt).toLocaleDateString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Card>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -23,8 +23,31 @@ interface LowStockProduct {
   id: string;
   name: string;
   sku: string;
-  currentStock: number;
+  currentStock: number; // on hand
+  availableStock: number; // on hand, less what unpaid orders reserve
   lowThreshold: number;
+  warehouse: { id: string; code: string; name: string };
+  onOrder: number; // still expected from open purchase orders
+}
+
+interface LocationLowStock {
+  id: string;
+  code: string;
+  name: string;
+  lowStockCount: number;
+}
+
+interface OpenPurchaseOrder {
+  id: string;
+  number: string;
+  status: "ORDERED" | "PARTIALLY_RECEIVED";
+  supplier: { id: string; name: string };
+  warehouse: { id: string; code: string; name: string };
+  orderedAt: string | null;
+  expectedAt: string | null;
+  overdue: boolean;
+  orderedUnits: number;
+  receivedUnits: number;
 }
 
 interface TopCustomer {
@@ -49,13 +72,26 @@ interface Stats {
   totalOrders: number;
   lowStockCount: number;
   lowStockProducts: LowStockProduct[];
+  lowStockByLocation: LocationLowStock[];
   orderStats: {
+    PENDING_APPROVAL: number;
     CREATED: number;
     PAID: number;
     SHIPPED: number;
     DELIVERED: number;
     CANCELLED: number;
   };
+  purchasing: {
+    purchaseOrderStats: {
+      DRAFT: number;
+      ORDERED: number;
+      PARTIALLY_RECEIVED: number;
+      RECEIVED: number;
+      CANCELLED: number;
+    };
+    openPurchaseOrders: OpenPurchaseOrder[];
+    overdueCount: number;
+  };
   topCustomers: TopCustomer[];
   popularProducts: PopularProduct[];
 }
@@ -76,6 +112,8 @@ export default function AdminReportsPage() {
   const [isAdmin, setIsAdmin] = useState(false);
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<Stats | null>(null);
+  // Inventory alerts of one warehouse ("" for all)
+  const [locationFilter, setLocationFilter] = useState("");
 
   useEffect(() => {
     if (!isSignedIn) {
@@ -127,6 +165,10 @@ export default function AdminReportsPage() {
     return null;
   }
 
+  const lowStockProducts = locationFilter
+    ? stats.lowStockProducts.filter((p) => p.warehouse.id === locationFilter)
+    : stats.lowStockProducts;
+
   return (
     <div className="min-h-screen bg-white">
       <div className={layoutStyles.pageWrapper}>
@@ -240,18 +282,32 @@ export default function AdminReportsPage() {
                         className="text-sm mt-1"
                         style={{ color: COLORS.description }}
                       >
-                        Products requiring immediate attention
+                        Products requiring immediate attention, per warehouse
                       </p>
+                      {stats.lowStockByLocation.length > 1 && (
+                        <select
+                          value={locationFilter}
+                          onChange={(e) => setLocationFilter(e.target.value)}
+                          className="mt-3 px-3 py-2 border border-gray-300 rounded text-sm bg-white"
+                        >
+                          <option value="">All warehouses</option>
+                          {stats.lowStockByLocation.map((location) => (
+                            <option key={location.id} value={location.id}>
+                              {location.name} ({location.lowStockCount})
+                            </option>
+                          ))}
+                        </select>
+                      )}
                     </div>
                     <div
                       className="px-4 py-2 rounded-lg font-bold text-white"
                       style={{ backgroundColor: COLORS.redAlert }}
                     >
-                      {stats.lowStockCount}
+                      {lowStockProducts.length}
                     </div>
                   </div>
 
-                  {stats.lowStockCount === 0 ? (
+                  {lowStockProducts.length === 0 ? (
                     <div className="py-12 text-center">
                       <p style={{ color: COLORS.label }}>
                         ✅ All products have healthy inventory levels
@@ -279,11 +335,17 @@ export default function AdminReportsPage() {
                             >
                               SKU
                             </th>
+                            <th
+                              className="px-4 py-3 text-left font-semibold"
+                              style={{ color: COLORS.label }}
+                            >
+                              Location
+                            </th>
                             <th
                               className="px-4 py-3 text-center font-semibold"
                               style={{ color: COLORS.label }}
                             >
-                              Current Stock
+                              Available
                             </th>
                             <th
                               className="px-4 py-3 text-center font-semibold"
@@ -291,6 +353,12 @@ export default function AdminReportsPage() {
                             >
                               Threshold
                             </th>
+                            <th
+                              className="px-4 py-3 text-center font-semibold"
+                              style={{ color: COLORS.label }}
+                            >
+                              On Order
+                            </th>
                             <th
                               className="px-4 py-3 text-center font-semibold"
                               style={{ color: COLORS.label }}
@@ -300,9 +368,9 @@ export default function AdminReportsPage() {
                           </tr>
                         </thead>
                         <tbody>
-                          {stats.lowStockProducts.map((product) => (
+                          {lowStockProducts.map((product) => (
                             <tr
-                              key={product.id}
+                              key={`${product.id}:${product.warehouse.id}`}
                               style={{ borderBottom: "1px solid #E5E7EB" }}
                             >
                               <td className="px-4 py-4">
@@ -320,21 +388,24 @@ export default function AdminReportsPage() {
                               >
                                 {product.sku}
                               </td>
+                              <td className="px-4 py-4">
+                                {product.warehouse.name}
+                              </td>
                               <td className="px-4 py-4 text-center">
                                 <span
                                   className="px-3 py-1 rounded font-bold"
                                   style={{
                                     color:
-                                      product.currentStock === 0
+                                      product.availableStock === 0
                                         ? "white"
                                         : COLORS.redAlert,
                                     backgroundColor:
-                                      product.currentStock === 0
+                                      product.availableStock === 0
                                         ? COLORS.redAlert
                                         : COLORS.redAlertBg,
                                   }}
                                 >
-                                  {product.currentStock}
+                                  {product.availableStock}
                                 </span>
                               </td>
                               <td
@@ -343,9 +414,15 @@ export default function AdminReportsPage() {
                               >
                                 {product.lowThreshold}
                               </td>
+                              <td
+                                className="px-4 py-4 text-center"
+                                style={{ color: COLORS.description }}
+                              >
+                                {product.onOrder}
+                              </td>
                               <td className="px-4 py-4 text-center">
                                 <Link
-                                  href={`/admin/products/${product.id}/edit`}
+                                  href={`/admin/purchase-orders/create?warehouseId=${product.warehouse.id}`}
                                 >
                                   <Button
                                     size="sm"
@@ -367,6 +444,121 @@ export default function AdminReportsPage() {
                   )}
                 </Card>
 
+                {/* Purchase Orders - open ones still to be received */}
+                <Card className="p-6 border border-gray-200">
+                  <div className="flex items-center justify-between mb-4">
+                    <div>
+                      <h2
+                        className="text-2xl font-bold"
+                        style={{ color: COLORS.orderNumber }}
+                      >
+                        Open Purchase Orders
+                      </h2>
+                      <p
+                        className="text-sm mt-1"
+                        style={{ color: COLORS.description }}
+                      >
+                        {stats.purchasing.purchaseOrderStats.DRAFT} draft,{" "}
+                        {stats.purchasing.purchaseOrderStats.ORDERED} ordered,{" "}
+                        {stats.purchasing.purchaseOrderStats.PARTIALLY_RECEIVED}{" "}
+                        partially received
+                        {stats.purchasing.overdueCount > 0 && (
+                          <span style={{ color: COLORS.redAlert }}>
+                            {" "}
+                            · {stats.purchasing.overdueCount} overdue
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    <Link href="/admin/purchase-orders">
+                      <Button variant="secondary" size="sm">
+                        View All
+                      </Button>
+                    </Link>
+                  </div>
+
+                  {stats.purchasing.openPurchaseOrders.length === 0 ? (
+                    <p
+                      className="py-6 text-center"
+                      style={{ color: COLORS.label }}
+                    >
+                      No purchase orders waiting for delivery
+                    </p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr
+                            className="text-left"
+                            style={{
+                              backgroundColor: "#F9FAFB",
+                              borderBottom: "1px solid #E5E7EB",
+                              color: COLORS.label,
+                            }}
+                          >
+                            <th className="px-4 py-3 font-semibold">Number</th>
+                            <th className="px-4 py-3 font-semibold">
+                              Supplier
+                            </th>
+                            <th className="px-4 py-3 font-semibold">
+                              Deliver to
+                            </th>
+                            <th className="px-4 py-3 font-semibold">Status</th>
+                            <th className="px-4 py-3 text-center font-semibold">
+                              Received
+                            </th>
+                            <th className="px-4 py-3 font-semibold">
+                              Expected
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {stats.purchasing.openPurchaseOrders.map((po) => (
+                            <tr
+                              key={po.id}
+                              style={{ borderBottom: "1px solid #E5E7EB" }}
+                            >
+                              <td className="px-4 py-4">
+                                <Link
+                                  href={`/admin/purchase-orders/${po.id}`}
+                                  className="font-mono font-medium hover:underline"
+                                  style={{ color: COLORS.orderNumber }}
+                                >
+                                  {po.number}
+                                </Link>
+                              </td>
+                              <td className="px-4 py-4">{po.supplier.name}</td>
+                              <td className="px-4 py-4">{po.warehouse.name}</td>
+                              <td
+                                className="px-4 py-4"
+                                style={{ color: COLORS.description }}
+                              >
+                                {po.status.replace("_", " ")}
+                              </td>
+                              <td className="px-4 py-4 text-center">
+                                {po.receivedUnits} / {po.orderedUnits}
+                              </td>
+                              <td
+                                className="px-4 py-4"
+                                style={{
+                                  color: po.overdue
+                                    ? COLORS.redAlert
+                                    : COLORS.description,
+                                }}
+                              >
+                                {po.expectedAt
+                                  ? new Date(po.expectedAt).toLocaleDateString()
+                                  : "—"}
+                                {po.overdue && " (overdue)"}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </Card>
+
                 {/* Order Statistics - Compact Neutral Grid */}
                 <Card className="p-6 border border-gray-200">
                   <h2
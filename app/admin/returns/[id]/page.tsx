@@ -0,0 +1,476 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useParams, useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Return Detail Page(Admin Only)
+ * Approve a return request (refunding it) or reject it, then receive the
+ * goods, restocking or scrapping each line
+ */
+
+type ReturnStatus = "REQUESTED" | "APPROVED" | "RECEIVED" | "REJECTED";
+type Disposition = "RESTOCK" | "SCRAP";
+
+interface ReturnRequest {
+  id: string;
+  number: string;
+  status: ReturnStatus;
+  reason: string;
+  adminNotes: string | null;
+  refundCents: number;
+  refundId: string | null;
+  createdAt: string;
+  respondedAt: string | null;
+  receivedAt: string | null;
+  requestedBy: { firstName?: string; lastName?: string; email: string };
+  respondedBy: { email: string } | null;
+  warehouse: { id: string; code: string; name: string } | null;
+  order: {
+    id: string;
+    status: string;
+    paymentMethod: "CARD" | "ON_ACCOUNT";
+    totalCents: number;
+    createdAt: string;
+  };
+  lines: {
+    id: string;
+    quantity: number;
+    disposition: Disposition | null;
+    orderLine: {
+      unitPriceCents: number;
+      product: { id: string; sku: string | null; name: string };
+    };
+  }[];
+  movements: {
+    id: string;
+    delta: number;
+    createdAt: string;
+    product: { sku: string | null; name: string };
+    actor: { email: string } | null;
+  }[];
+}
+
+interface Warehouse {
+  id: string;
+  code: string;
+  name: string;
+  isActive: boolean;
+}
+
+const STATUS_STYLES: Record<ReturnStatus, string> = {
+  REQUESTED: "bg-yellow-100 text-yellow-800",
+  APPROVED: "bg-blue-100 text-blue-800",
+  RECEIVED: "bg-green-100 text-green-800",
+  REJECTED: "bg-red-100 text-red-800",
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function AdminReturnPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [returnRequest, setReturnRequest] = useState<ReturnRequest | null>(
+    null
+  );
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [adminNotes, setAdminNotes] = useState("");
+  const [warehouseId, setWarehouseId] = useState("");
+  const [dispositions, setDispositions] = useState<Record<string, Disposition>>(
+    {}
+  );
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // GET /api/admin/returns/[id] - Return with its order and restocked units
+  const fetchReturn = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/returns/${id}`);
+      if (res.ok) {
+        const data: ReturnRequest = (await res.json()).data;
+        setReturnRequest(data);
+        setDispositions(
+          Object.fromEntries(
+            data.lines.map((line) => [line.id, line.disposition ?? "RESTOCK"])
+          )
+        );
+      }
+    } catch (err) {
+      console.error("Error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifyAdmin = async () => {
+      // GET /api/auth/me - Verify admin role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsAdmin = data?.user?.role === "ADMIN";
+      setIsAdmin(userIsAdmin);
+      if (!userIsAdmin) router.push("/");
+    };
+
+    verifyAdmin();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (isAdmin) fetchReturn();
+  }, [isAdmin, fetchReturn]);
+
+  // Warehouses to restock into once the return is approved
+  useEffect(() => {
+    if (!isAdmin || returnRequest?.status !== "APPROVED") return;
+
+    fetch("/api/admin/warehouses")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setWarehouses(data?.data || []))
+      .catch((err) => console.error("Error:", err));
+  }, [isAdmin, returnRequest?.status]);
+
+  const send = async (url: string, body: object) => {
+    setError(null);
+    setSaving(true);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to update return");
+      await fetchReturn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // POST /api/admin/returns/[id]/respond - Approve (and refund) or reject
+  const respond = (action: "APPROVE" | "REJECT") => {
+    if (
+      action === "APPROVE" &&
+      !confirm(
+        `Approve this return and refund $${(
+          (returnRequest?.refundCents ?? 0) / 100
+        ).toFixed(2)}?`
+      )
+    ) {
+      return;
+    }
+    send(`/api/admin/returns/${id}/respond`, {
+      action,
+      adminNotes: adminNotes || undefined,
+    });
+  };
+
+  // POST /api/admin/returns/[id]/receive - Restock or scrap each line
+  const receive = () =>
+    send(`/api/admin/returns/${id}/receive`, {
+      warehouseId: warehouseId || undefined,
+      lines: Object.entries(dispositions).map(([lineId, disposition]) => ({
+        lineId,
+        disposition,
+      })),
+    });
+
+  if (!isAdmin) return null;
+
+  if (loading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        <div className="text-center py-12">Loading return...</div>
+      </div>
+    );
+  }
+
+  if (!returnRequest) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        <div className="text-center py-12 text-gray-600">Return not found</div>
+      </div>
+    );
+  }
+
+  const isOpen = returnRequest.status === "REQUESTED";
+  const isReceivable = returnRequest.status === "APPROVED";
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-5xl mx-auto px-4 py-8">
+          <Link
+            href="/admin/returns"
+            className="text-blue-600 hover:underline text-sm"
+          >
+            ← Back to Returns
+          </Link>
+          <div className="flex justify-between items-center mt-2 mb-8">
+            <h1 className="text-4xl font-bold text-gray-900 font-mono">
+              {returnRequest.number}
+            </h1>
+            <span
+              className={`px-3 py-1 rounded text-sm font-medium ${
+                STATUS_STYLES[returnRequest.status]
+              }`}
+            >
+              {returnRequest.status}
+            </span>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          <Card className="p-6 border border-gray-200 bg-white mb-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Order</p>
+                <Link
+                  href={`/admin/orders/${returnRequest.order.id}`}
+                  className="text-blue-600 hover:underline font-mono"
+                >
+                  {returnRequest.order.id.slice(0, 8)}
+                </Link>{" "}
+                <span className="text-gray-500">
+                  ({returnRequest.order.status})
+                </span>
+              </div>
+              <div>
+                <p className="text-gray-500">Requested by</p>
+                <p className="font-medium">{returnRequest.requestedBy.email}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Requested</p>
+                <p>{new Date(returnRequest.createdAt).toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">
+                  {isOpen ? "Refund on approval" : "Refund"}
+                </p>
+                <p className="font-medium">
+                  {returnRequest.status === "REJECTED"
+                    ? "-"
+                    : `$${(returnRequest.refundCents / 100).toFixed(2)}`}
+                </p>
+                {returnRequest.refundId && (
+                  <p className="text-xs font-mono text-gray-500">
+                    {returnRequest.refundId}
+                  </p>
+                )}
+                {!isOpen &&
+                  returnRequest.status !== "REJECTED" &&
+                  returnRequest.order.paymentMethod === "ON_ACCOUNT" && (
+                    <p className="text-xs text-gray-500">
+                      On account: credit the invoice
+                    </p>
+                  )}
+              </div>
+              {returnRequest.respondedAt && (
+                <div>
+                  <p className="text-gray-500">Responded</p>
+                  <p>
+                    {new Date(returnRequest.respondedAt).toLocaleString()}
+                    {returnRequest.respondedBy &&
+                      ` by ${returnRequest.respondedBy.email}`}
+                  </p>
+                </div>
+              )}
+              {returnRequest.receivedAt && (
+                <div>
+                  <p className="text-gray-500">Received</p>
+                  <p>
+                    {new Date(returnRequest.receivedAt).toLocaleString()}
+                    {returnRequest.warehouse &&
+                      ` at ${returnRequest.warehouse.name}`}
+                  </p>
+                </div>
+              )}
+            </div>
+            <p className="mt-4 text-sm text-gray-700 whitespace-pre-line">
+              <span className="text-gray-500">Reason: </span>
+              {returnRequest.reason}
+            </p>
+            {returnRequest.adminNotes && (
+              <p className="mt-2 text-sm text-gray-700 whitespace-pre-line">
+                <span className="text-gray-500">Notes: </span>
+                {returnRequest.adminNotes}
+              </p>
+            )}
+
+            {isOpen && (
+              <div className="mt-6 space-y-2">
+                <textarea
+                  value={adminNotes}
+                  onChange={(e) => setAdminNotes(e.target.value)}
+                  rows={2}
+                  placeholder="Note to the buyer (optional)"
+                  className={inputClass}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    variant="primary"
+                    onClick={() => respond("APPROVE")}
+                    disabled={saving}
+                  >
+                    Approve & Refund
+                  </Button>
+                  <Button
+                    variant="danger"
+                    onClick={() => respond("REJECT")}
+                    disabled={saving}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            )}
+          </Card>
+
+          <Card className="p-6 border border-gray-200 bg-white mb-6">
+            <h2 className="text-xl font-semibold mb-4">Lines</h2>
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-600">
+                <tr>
+                  <th className="py-2">Product</th>
+                  <th className="py-2 text-right">Unit price</th>
+                  <th className="py-2 text-right">Quantity</th>
+                  <th className="py-2 pl-4 w-40">Disposition</th>
+                </tr>
+              </thead>
+              <tbody>
+                {returnRequest.lines.map((line) => (
+                  <tr key={line.id} className="border-t">
+                    <td className="py-2">
+                      {line.orderLine.product.name}
+                      {line.orderLine.product.sku && (
+                        <span className="ml-2 font-mono text-gray-500">
+                          {line.orderLine.product.sku}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      ${(line.orderLine.unitPriceCents / 100).toFixed(2)}
+                    </td>
+                    <td className="py-2 text-right">{line.quantity}</td>
+                    <td className="py-2 pl-4">
+                      {isReceivable ? (
+                        <select
+                          value={dispositions[line.id] ?? "RESTOCK"}
+                          onChange={(e) =>
+                            setDispositions({
+                              ...dispositions,
+                              [line.id]: e.target.value as Disposition,
+                            })
+                          }
+                          className={inputClass}
+                        >
+                          <option value="RESTOCK">Restock</option>
+                          <option value="SCRAP">Scrap</option>
+                        </select>
+                      ) : (
+                        (line.disposition ?? "-")
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {isReceivable && (
+              <div className="mt-6 flex flex-col md:flex-row gap-2">
+                <select
+                  value={warehouseId}
+                  onChange={(e) => setWarehouseId(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Restock at the default warehouse</option>
+                  {warehouses
+                    .filter((w) => w.isActive)
+                    .map((warehouse) => (
+                      <option key={warehouse.id} value={warehouse.id}>
+                        Restock at {warehouse.name} ({warehouse.code})
+                      </option>
+                    ))}
+                </select>
+                <Button variant="primary" onClick={receive} disabled={saving}>
+                  Receive Goods
+                </Button>
+              </div>
+            )}
+          </Card>
+
+          {returnRequest.movements.length > 0 && (
+            <Card className="p-6 border border-gray-200 bg-white">
+              <h2 className="text-xl font-semibold mb-4">Restocked</h2>
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-600">
+                  <tr>
+                    <th className="py-2">Received</th>
+                    <th className="py-2">Product</th>
+                    <th className="py-2 text-right">Quantity</th>
+                    <th className="py-2 pl-4">By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {returnRequest.movements.map((movement) => (
+                    <tr key={movement.id} className="border-t">
+                      <td className="py-2 whitespace-nowrap">
+                        {new Date(movement.createdAt).toLocaleString()}
+                      </td>
+                      <td className="py-2">{movement.product.name}</td>
+                      <td className="py-2 text-right">{movement.delta}</td>
+                      <td className="py-2 pl-4">
+                        {movement.actor?.email ?? "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
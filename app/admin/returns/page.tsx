@@ -0,0 +1,232 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Returns Page(Admin Only)
+ * Return requests (RMA) opened by buyers: approve or reject them, then
+ * receive the goods
+ */
+
+type ReturnStatus = "REQUESTED" | "APPROVED" | "RECEIVED" | "REJECTED";
+
+interface ReturnRequest {
+  id: string;
+  number: string;
+  orderId: string;
+  status: ReturnStatus;
+  reason: string;
+  refundCents: number;
+  createdAt: string;
+  requestedBy: { firstName?: string; lastName?: string; email: string };
+  lines: { id: string; quantity: number }[];
+}
+
+const STATUS_STYLES: Record<ReturnStatus, string> = {
+  REQUESTED: "bg-yellow-100 text-yellow-800",
+  APPROVED: "bg-blue-100 text-blue-800",
+  RECEIVED: "bg-green-100 text-green-800",
+  REJECTED: "bg-red-100 text-red-800",
+};
+
+export default function AdminReturnsPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [status, setStatus] = useState<ReturnStatus | "">("REQUESTED");
+  const [loading, setLoading] = useState(true);
+
+  // GET /api/admin/returns - Fetch a page of returns (append when a cursor
+  // is given)
+  const fetchReturns = useCallback(
+    async (cursor?: string) => {
+      setLoading(true);
+      try {
+        const query = new URLSearchParams({ limit: "20" });
+        if (status) query.set("status", status);
+        if (cursor) query.set("cursor", cursor);
+
+        const res = await fetch(`/api/admin/returns?${query.toString()}`);
+        const json = await res.json();
+        if (json.success) {
+          setReturns((prev) => (cursor ? [...prev, ...json.data] : json.data));
+          setTotal(json.pagination.total);
+          setNextCursor(json.pagination.nextCursor);
+        }
+      } catch (err) {
+        console.error("Failed to fetch returns:", err);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [status]
+  );
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifyAdmin = async () => {
+      // GET /api/auth/me - Verify admin role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsAdmin = data?.user?.role === "ADMIN";
+      setIsAdmin(userIsAdmin);
+      if (!userIsAdmin) router.push("/");
+    };
+
+    verifyAdmin();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (isAdmin) fetchReturns();
+  }, [isAdmin, fetchReturns]);
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <div className="flex justify-between items-center mb-8">
+            <h1 className="text-4xl font-bold text-gray-900">Returns</h1>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as ReturnStatus | "")}
+              className="px-3 py-2 border border-gray-300 rounded"
+            >
+              <option value="">All statuses</option>
+              <option value="REQUESTED">Requested</option>
+              <option value="APPROVED">Approved</option>
+              <option value="RECEIVED">Received</option>
+              <option value="REJECTED">Rejected</option>
+            </select>
+          </div>
+
+          {!loading && returns.length === 0 ? (
+            <Card className="p-8 text-center border border-gray-200 bg-white">
+              <p className="text-gray-600">No returns</p>
+            </Card>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg bg-white">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-3">Number</th>
+                    <th className="px-4 py-3">Requested</th>
+                    <th className="px-4 py-3">Order</th>
+                    <th className="px-4 py-3">Buyer</th>
+                    <th className="px-4 py-3">Reason</th>
+                    <th className="px-4 py-3 text-right">Units</th>
+                    <th className="px-4 py-3 text-right">Refund</th>
+                    <th className="px-4 py-3">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {returns.map((returnRequest) => (
+                    <tr key={returnRequest.id} className="border-t">
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/admin/returns/${returnRequest.id}`}
+                          className="text-blue-600 hover:underline font-mono"
+                        >
+                          {returnRequest.number}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {new Date(returnRequest.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/admin/orders/${returnRequest.orderId}`}
+                          className="text-blue-600 hover:underline font-mono"
+                        >
+                          {returnRequest.orderId.slice(0, 8)}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3">
+                        {returnRequest.requestedBy.email}
+                      </td>
+                      <td className="px-4 py-3 max-w-xs truncate">
+                        {returnRequest.reason}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {returnRequest.lines.reduce(
+                          (sum, line) => sum + line.quantity,
+                          0
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {returnRequest.status === "APPROVED" ||
+                        returnRequest.status === "RECEIVED"
+                          ? `$${(returnRequest.refundCents / 100).toFixed(2)}`
+                          : "-"}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            STATUS_STYLES[returnRequest.status]
+                          }`}
+                        >
+                          {returnRequest.status}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+            <span>
+              Showing {returns.length} of {total}
+            </span>
+            {nextCursor && (
+              <Button
+                variant="secondary"
+                onClick={() => fetchReturns(nextCursor)}
+                disabled={loading}
+              >
+                {loading ? "Loading..." : "Load More"}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
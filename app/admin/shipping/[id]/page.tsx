@@ -0,0 +1,410 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useParams, useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+import { SHIPPING_METHODS } from "@/lib/shipping-methods";
+
+/**
+ * Admin Shipping Zone Detail Page(Admin Only)
+ * Edit what the zone covers and its rate table (price per method and
+ * weight band)
+ */
+
+interface ShippingRate {
+  method: string;
+  minWeightGrams: number;
+  maxWeightGrams: number | null;
+  priceCents: number;
+  freeAboveCents: number | null;
+}
+
+interface ShippingZone {
+  id: string;
+  name: string;
+  country: string;
+  regions: string[];
+  postalPrefixes: string[];
+  rates: ShippingRate[];
+}
+
+// Rate table row as typed in the form: weights in kg, prices in dollars
+type RateRow = {
+  method: string;
+  minKg: string;
+  maxKg: string;
+  price: string;
+  freeAbove: string;
+};
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// Pickup is always free and has no rate table
+const RATE_METHODS = SHIPPING_METHODS.filter((m) => m.value !== "PICKUP");
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((v) => v.trim().toUpperCase())
+    .filter(Boolean);
+
+const toRateRow = (rate: ShippingRate): RateRow => ({
+  method: rate.method,
+  minKg: String(rate.minWeightGrams / 1000),
+  maxKg: rate.maxWeightGrams === null ? "" : String(rate.maxWeightGrams / 1000),
+  price: (rate.priceCents / 100).toFixed(2),
+  freeAbove:
+    rate.freeAboveCents === null ? "" : (rate.freeAboveCents / 100).toFixed(2),
+});
+
+const parseRateRow = (row: RateRow) => ({
+  method: row.method,
+  minWeightGrams: Math.round(parseFloat(row.minKg || "0") * 1000),
+  maxWeightGrams: row.maxKg ? Math.round(parseFloat(row.maxKg) * 1000) : null,
+  priceCents: Math.round(parseFloat(row.price || "0") * 100),
+  freeAboveCents: row.freeAbove
+    ? Math.round(parseFloat(row.freeAbove) * 100)
+    : null,
+});
+
+export default function AdminShippingZoneDetailPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const params = useParams();
+  const zoneId = params.id as string;
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [zone, setZone] = useState<ShippingZone | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [coverage, setCoverage] = useState({
+    name: "",
+    regions: "",
+    postalPrefixes: "",
+  });
+  const [rows, setRows] = useState<RateRow[]>([]);
+
+  const fetchZone = useCallback(async () => {
+    // GET /api/admin/shipping-zones/[id] - Zone with its rate table
+    const res = await fetch(`/api/admin/shipping-zones/${zoneId}`);
+    if (!res.ok) {
+      setZone(null);
+      return;
+    }
+    const data = await res.json();
+    setZone(data.data);
+    setCoverage({
+      name: data.data.name,
+      regions: data.data.regions.join(", "),
+      postalPrefixes: data.data.postalPrefixes.join(", "),
+    });
+    setRows(data.data.rates.map(toRateRow));
+  }, [zoneId]);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        // GET /api/auth/me - Verify admin role
+        const authRes = await fetch("/api/auth/me");
+        const authData = authRes.ok ? await authRes.json() : null;
+        const userIsAdmin = authData?.user?.role === "ADMIN";
+        setIsAdmin(userIsAdmin);
+
+        if (!userIsAdmin) {
+          router.push("/");
+          return;
+        }
+
+        await fetchZone();
+      } catch (err) {
+        console.error("Error:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [isSignedIn, router, fetchZone]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSaved(false);
+
+    // PUT /api/admin/shipping-zones/[id] - Update coverage and replace rates
+    const res = await fetch(`/api/admin/shipping-zones/${zoneId}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: coverage.name,
+        regions: splitList(coverage.regions),
+        postalPrefixes: splitList(coverage.postalPrefixes),
+        rates: rows.map(parseRateRow),
+      }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      setError(data.error || "Failed to save shipping zone");
+      return;
+    }
+    setSaved(true);
+    await fetchZone();
+  };
+
+  const updateRow = (index: number, field: keyof RateRow, value: string) =>
+    setRows(
+      rows.map((row, i) => (i === index ? { ...row, [field]: value } : row))
+    );
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-5xl mx-auto px-4 py-8">
+          <div className="mb-6">
+            <Link href="/admin/shipping">
+              <Button variant="secondary">← Back to Shipping Zones</Button>
+            </Link>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-600">Loading...</div>
+          ) : !zone ? (
+            <div className="text-center py-12 text-gray-600">
+              Shipping zone not found
+            </div>
+          ) : (
+            <form onSubmit={handleSave}>
+              <h1 className="text-4xl font-bold text-gray-900 mb-2">
+                {zone.name}
+              </h1>
+              <p className="text-gray-600 mb-8">Country: {zone.country}</p>
+
+              {error && (
+                <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+                  {error}
+                </div>
+              )}
+              {saved && (
+                <div className="mb-6 p-3 bg-green-50 border border-green-200 rounded text-green-700 text-sm">
+                  Shipping zone saved
+                </div>
+              )}
+
+              <Card className="p-6 border border-gray-200 bg-white mb-6">
+                <h2 className="text-xl font-semibold mb-4">Coverage</h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <label className="text-sm text-gray-600">
+                    Name
+                    <input
+                      value={coverage.name}
+                      onChange={(e) =>
+                        setCoverage({ ...coverage, name: e.target.value })
+                      }
+                      required
+                      className={`block w-full ${inputClass}`}
+                    />
+                  </label>
+                  <label className="text-sm text-gray-600">
+                    Provinces/states
+                    <input
+                      value={coverage.regions}
+                      onChange={(e) =>
+                        setCoverage({ ...coverage, regions: e.target.value })
+                      }
+                      placeholder="e.g. QC, ON"
+                      className={`block w-full ${inputClass}`}
+                    />
+                  </label>
+                  <label className="text-sm text-gray-600">
+                    Postal code prefixes
+                    <input
+                      value={coverage.postalPrefixes}
+                      onChange={(e) =>
+                        setCoverage({
+                          ...coverage,
+                          postalPrefixes: e.target.value,
+                        })
+                      }
+                      placeholder="e.g. H1, H2"
+                      className={`block w-full ${inputClass}`}
+                    />
+                  </label>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Leave both empty to cover the whole country.
+                </p>
+              </Card>
+
+              <Card className="p-6 border border-gray-200 bg-white mb-6">
+                <h2 className="text-xl font-semibold mb-4">Rates</h2>
+                {rows.length === 0 ? (
+                  <p className="text-gray-600 mb-4">
+                    No rates yet: buyers in this zone can only pick up their
+                    orders.
+                  </p>
+                ) : (
+                  <table className="w-full text-sm mb-4">
+                    <thead className="bg-gray-50 text-left">
+                      <tr>
+                        <th className="px-2 py-3">Method</th>
+                        <th className="px-2 py-3">From (kg)</th>
+                        <th className="px-2 py-3">Up to (kg)</th>
+                        <th className="px-2 py-3">Price ($)</th>
+                        <th className="px-2 py-3">Free above ($)</th>
+                        <th className="px-2 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((row, index) => (
+                        <tr key={index} className="border-t">
+                          <td className="px-2 py-2">
+                            <select
+                              value={row.method}
+                              onChange={(e) =>
+                                updateRow(index, "method", e.target.value)
+                              }
+                              className={inputClass}
+                            >
+                              {RATE_METHODS.map((m) => (
+                                <option key={m.value} value={m.value}>
+                                  {m.label}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-2 py-2">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.001"
+                              value={row.minKg}
+                              onChange={(e) =>
+                                updateRow(index, "minKg", e.target.value)
+                              }
+                              className={`w-24 ${inputClass}`}
+                            />
+                          </td>
+                          <td className="px-2 py-2">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.001"
+                              value={row.maxKg}
+                              onChange={(e) =>
+                                updateRow(index, "maxKg", e.target.value)
+                              }
+                              placeholder="No limit"
+                              className={`w-24 ${inputClass}`}
+                            />
+                          </td>
+                          <td className="px-2 py-2">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={row.price}
+                              onChange={(e) =>
+                                updateRow(index, "price", e.target.value)
+                              }
+                              required
+                              className={`w-24 ${inputClass}`}
+                            />
+                          </td>
+                          <td className="px-2 py-2">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={row.freeAbove}
+                              onChange={(e) =>
+                                updateRow(index, "freeAbove", e.target.value)
+                              }
+                              placeholder="Never"
+                              className={`w-24 ${inputClass}`}
+                            />
+                          </td>
+                          <td className="px-2 py-2 text-right">
+                            <button
+                              type="button"
+                              onClick={() =>
+                                setRows(rows.filter((_, i) => i !== index))
+                              }
+                              className="px-3 py-1 bg-red-600 text-white hover:bg-red-700 rounded text-sm font-medium transition-colors"
+                            >
+                              Remove
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={() =>
+                    setRows([
+                      ...rows,
+                      {
+                        method: "GROUND",
+                        minKg: "0",
+                        maxKg: "",
+                        price: "",
+                        freeAbove: "",
+                      },
+                    ])
+                  }
+                >
+                  + Add Rate
+                </Button>
+                <p className="text-xs text-gray-500 mt-2">
+                  A rate applies from its weight up to (not including) the next
+                  limit. Orders are weighed on the greater of actual and
+                  dimensional weight.
+                </p>
+              </Card>
+
+              <Button type="submit" variant="primary">
+                Save Shipping Zone
+              </Button>
+            </form>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+import { TAX_COUNTRIES } from "@/lib/tax-rates";
+import { formatShippingMethod } from "@/lib/shipping-methods";
+
+/**
+ * Admin Shipping Page(Admin Only)
+ * Shipping zones (by country, province/state or postal code prefix),
+ * create and delete zones
+ */
+
+interface ShippingZone {
+  id: string;
+  name: string;
+  country: string;
+  regions: string[];
+  postalPrefixes: string[];
+  rates: { method: string }[];
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// "QC, ON" -> ["QC", "ON"]
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((v) => v.trim().toUpperCase())
+    .filter(Boolean);
+
+const describeCoverage = (zone: ShippingZone) => {
+  const parts = [zone.regions.join(", "), zone.postalPrefixes.join(", ")];
+  return parts.filter(Boolean).join(" · ") || "Whole country";
+};
+
+export default function AdminShippingPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    name: "",
+    country: "CA",
+    regions: "",
+    postalPrefixes: "",
+  });
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        // GET /api/auth/me - Verify admin role
+        const authRes = await fetch("/api/auth/me");
+        if (!authRes.ok) {
+          router.push("/");
+          return;
+        }
+
+        const authData = await authRes.json();
+        const userIsAdmin = authData.user?.role === "ADMIN";
+        setIsAdmin(userIsAdmin);
+
+        if (!userIsAdmin) {
+          router.push("/");
+          return;
+        }
+
+        // GET /api/admin/shipping-zones - All zones with their rates
+        const res = await fetch("/api/admin/shipping-zones");
+        if (res.ok) {
+          const data = await res.json();
+          setZones(data.data || []);
+        }
+      } catch (err) {
+        console.error("Error:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [isSignedIn, router]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      // POST /api/admin/shipping-zones - Create zone (rates are added next)
+      const res = await fetch("/api/admin/shipping-zones", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          country: form.country,
+          regions: splitList(form.regions),
+          postalPrefixes: splitList(form.postalPrefixes),
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to create shipping zone");
+      }
+
+      router.push(`/admin/shipping/${data.data.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this shipping zone and all its rates?")) return;
+
+    try {
+      // DELETE /api/admin/shipping-zones/[id] - Delete zone
+      const res = await fetch(`/api/admin/shipping-zones/${id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error("Failed to delete shipping zone");
+      setZones(zones.filter((z) => z.id !== id));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to delete");
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Shipping Zones
+          </h1>
+          <p className="text-gray-600 mb-8">
+            Buyers are matched to the most specific zone for their address:
+            postal code prefix, then province/state, then whole country.
+            Customer pickup is always offered for free.
+          </p>
+
+          <Card className="p-6 border border-gray-200 bg-white mb-8">
+            <h2 className="text-xl font-semibold mb-4">New Shipping Zone</h2>
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+                {error}
+              </div>
+            )}
+            <form
+              onSubmit={handleCreate}
+              className="grid grid-cols-1 md:grid-cols-5 gap-4"
+            >
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Name (e.g. Greater Montreal)"
+                required
+                className={inputClass}
+              />
+              <select
+                value={form.country}
+                onChange={(e) => setForm({ ...form, country: e.target.value })}
+                className={inputClass}
+              >
+                {TAX_COUNTRIES.map((c) => (
+                  <option key={c.code} value={c.code}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={form.regions}
+                onChange={(e) => setForm({ ...form, regions: e.target.value })}
+                placeholder="Provinces/states (e.g. QC, ON)"
+                className={inputClass}
+              />
+              <input
+                value={form.postalPrefixes}
+                onChange={(e) =>
+                  setForm({ ...form, postalPrefixes: e.target.value })
+                }
+                placeholder="Postal prefixes (e.g. H1, H2)"
+                className={inputClass}
+              />
+              <Button type="submit" variant="primary" fullWidth>
+                + Create Zone
+              </Button>
+            </form>
+          </Card>
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-600">
+              Loading shipping zones...
+            </div>
+          ) : zones.length === 0 ? (
+            <Card className="p-8 text-center border border-gray-200 bg-white">
+              <p className="text-gray-600">
+                No shipping zones yet: buyers can only pick up their orders
+              </p>
+            </Card>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg bg-white">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-3">Name</th>
+                    <th className="px-4 py-3">Country</th>
+                    <th className="px-4 py-3">Covers</th>
+                    <th className="px-4 py-3">Methods</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {zones.map((zone) => (
+                    <tr key={zone.id} className="border-t">
+                      <td className="px-4 py-3 font-medium">{zone.name}</td>
+                      <td className="px-4 py-3">{zone.country}</td>
+                      <td className="px-4 py-3">{describeCoverage(zone)}</td>
+                      <td className="px-4 py-3">
+                        {[...new Set(zone.rates.map((r) => r.method))]
+                          .map(formatShippingMethod)
+                          .join(", ") || "—"}
+                      </td>
+                      <td className="px-4 py-3 text-right space-x-2">
+                        <Link href={`/admin/shipping/${zone.id}`}>
+                          <Button variant="secondary">Edit</Button>
+                        </Link>
+                        <button
+                          onClick={() => handleDelete(zone.id)}
+                          className="px-3 py-1 bg-red-600 text-white hover:bg-red-700 rounded text-sm font-medium transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
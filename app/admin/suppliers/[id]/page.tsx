@@ -0,0 +1,342 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useParams, useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Supplier Detail Page(Admin Only)
+ * A drop-ship supplier's catalog and stock, and the users who can manage it
+ * from the supplier portal
+ */
+
+interface SupplierDetail {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  isActive: boolean;
+  users: {
+    id: string;
+    email: string | null;
+    firstName: string | null;
+    lastName: string | null;
+  }[];
+  products: {
+    id: string;
+    sku: string | null;
+    name: string;
+    quantity: number;
+    reserved: number;
+    available: number;
+  }[];
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function AdminSupplierDetailPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const params = useParams();
+  const supplierId = params.id as string;
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [supplier, setSupplier] = useState<SupplierDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [stockForm, setStockForm] = useState({ sku: "", quantity: "0" });
+  const [userEmail, setUserEmail] = useState("");
+
+  // GET /api/admin/suppliers/[id] - Supplier with its catalog and users
+  const fetchSupplier = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/suppliers/${supplierId}`);
+      const json = await res.json();
+      if (json.success) {
+        setSupplier(json.data);
+      } else {
+        setError(json.error || "Failed to load supplier");
+      }
+    } catch (err) {
+      console.error("Error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [supplierId]);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifyAdmin = async () => {
+      // GET /api/auth/me - Verify admin role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsAdmin = data?.user?.role === "ADMIN";
+      setIsAdmin(userIsAdmin);
+      if (!userIsAdmin) router.push("/");
+    };
+
+    verifyAdmin();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (isAdmin) fetchSupplier();
+  }, [isAdmin, fetchSupplier]);
+
+  const send = async (url: string, method: string, body?: object) => {
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save");
+      await fetchSupplier();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+      return false;
+    }
+  };
+
+  // PUT /api/admin/suppliers/[id]/products - Add a product or set its stock
+  const handleSetStock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ok = await send(
+      `/api/admin/suppliers/${supplierId}/products`,
+      "PUT",
+      {
+        sku: stockForm.sku,
+        quantity: parseInt(stockForm.quantity, 10) || 0,
+      }
+    );
+    if (ok) setStockForm({ sku: "", quantity: "0" });
+  };
+
+  // POST /api/admin/suppliers/[id]/users - Give a user portal access
+  const handleAddUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ok = await send(`/api/admin/suppliers/${supplierId}/users`, "POST", {
+      email: userEmail,
+    });
+    if (ok) setUserEmail("");
+  };
+
+  // DELETE /api/admin/suppliers/[id]/users - Remove a user's portal access
+  const handleRemoveUser = (userId: string) => {
+    if (!confirm("Remove this user's supplier portal access?")) return;
+    send(`/api/admin/suppliers/${supplierId}/users?userId=${userId}`, "DELETE");
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <Link
+            href="/admin/suppliers"
+            className="text-blue-600 hover:underline text-sm"
+          >
+            ← Back to Suppliers
+          </Link>
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-600">
+              Loading supplier...
+            </div>
+          ) : !supplier ? (
+            <Card className="p-8 text-center border border-gray-200 bg-white mt-4">
+              <p className="text-gray-600">{error || "Supplier not found"}</p>
+            </Card>
+          ) : (
+            <>
+              <h1 className="text-4xl font-bold text-gray-900 mt-2 mb-2">
+                {supplier.name}
+                {!supplier.isActive && (
+                  <span className="ml-3 text-base text-gray-500">
+                    (inactive)
+                  </span>
+                )}
+              </h1>
+              <p className="text-gray-600 mb-8">
+                {[supplier.email, supplier.phone].filter(Boolean).join(" · ") ||
+                  "No contact details"}
+                {" · "}
+                <Link
+                  href="/admin/suppliers/drop-ship-orders"
+                  className="text-blue-600 hover:underline"
+                >
+                  Drop-ship orders
+                </Link>
+              </p>
+
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <Card className="p-6 border border-gray-200 bg-white mb-8">
+                <h2 className="text-xl font-semibold mb-4">Catalog</h2>
+                <form
+                  onSubmit={handleSetStock}
+                  className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6"
+                >
+                  <input
+                    value={stockForm.sku}
+                    onChange={(e) =>
+                      setStockForm({ ...stockForm, sku: e.target.value })
+                    }
+                    placeholder="Product SKU"
+                    required
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    value={stockForm.quantity}
+                    onChange={(e) =>
+                      setStockForm({ ...stockForm, quantity: e.target.value })
+                    }
+                    placeholder="Stock"
+                    min="0"
+                    step="1"
+                    className={inputClass}
+                  />
+                  <Button type="submit" variant="primary">
+                    Add / Set Stock
+                  </Button>
+                </form>
+
+                {supplier.products.length === 0 ? (
+                  <p className="text-gray-600">
+                    No products yet. Add a product by SKU to let orders fall
+                    back to this supplier.
+                  </p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-gray-600">
+                      <tr>
+                        <th className="py-2">Product</th>
+                        <th className="py-2">SKU</th>
+                        <th className="py-2 text-right">On hand</th>
+                        <th className="py-2 text-right">Reserved</th>
+                        <th className="py-2 text-right">Available</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {supplier.products.map((product) => (
+                        <tr key={product.id} className="border-t">
+                          <td className="py-2">{product.name}</td>
+                          <td className="py-2 font-mono">
+                            {product.sku || "-"}
+                          </td>
+                          <td className="py-2 text-right">
+                            {product.quantity}
+                          </td>
+                          <td className="py-2 text-right">
+                            {product.reserved}
+                          </td>
+                          <td className="py-2 text-right font-medium">
+                            {product.available}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </Card>
+
+              <Card className="p-6 border border-gray-200 bg-white">
+                <h2 className="text-xl font-semibold mb-2">
+                  Supplier Portal Users
+                </h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  They update this supplier&apos;s stock and ship its drop-ship
+                  orders. The user must have signed up first.
+                </p>
+                <form
+                  onSubmit={handleAddUser}
+                  className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6"
+                >
+                  <input
+                    type="email"
+                    value={userEmail}
+                    onChange={(e) => setUserEmail(e.target.value)}
+                    placeholder="User email"
+                    required
+                    className={`${inputClass} md:col-span-2`}
+                  />
+                  <Button type="submit" variant="primary">
+                    + Add User
+                  </Button>
+                </form>
+
+                {supplier.users.length === 0 ? (
+                  <p className="text-gray-600">No portal users yet</p>
+                ) : (
+                  <ul className="divide-y">
+                    {supplier.users.map((user) => (
+                      <li
+                        key={user.id}
+                        className="py-2 flex justify-between items-center"
+                      >
+                        <span>
+                          {[user.firstName, user.lastName]
+                            .filter(Boolean)
+                            .join(" ") || user.email}
+                          {user.firstName && (
+                            <span className="ml-2 text-gray-500">
+                              {user.email}
+                            </span>
+                          )}
+                        </span>
+                        <Button
+                          variant="secondary"
+                          onClick={() => handleRemoveUser(user.id)}
+                        >
+                          Remove
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Drop-ship Orders Page(Admin Only)
+ * Purchase orders sent to suppliers for the units of paid orders taken from
+ * their stock, and whether the suppliers have shipped them
+ */
+
+type DropShipStatus = "OPEN" | "ACKNOWLEDGED" | "SHIPPED" | "CANCELLED";
+
+interface DropShipOrder {
+  id: string;
+  status: DropShipStatus;
+  createdAt: string;
+  acknowledgedAt: string | null;
+  shippedAt: string | null;
+  supplier: { id: string; name: string };
+  order: { id: string; status: string; poNumber: string | null };
+  lines: {
+    id: string;
+    quantity: number;
+    orderLine: { product: { id: string; sku: string | null; name: string } };
+  }[];
+  shipment: { carrier: string; trackingNumber: string | null } | null;
+}
+
+const STATUS_STYLES: Record<DropShipStatus, string> = {
+  OPEN: "bg-yellow-100 text-yellow-800",
+  ACKNOWLEDGED: "bg-blue-100 text-blue-800",
+  SHIPPED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-gray-100 text-gray-800",
+};
+
+export default function AdminDropShipOrdersPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [dropShipOrders, setDropShipOrders] = useState<DropShipOrder[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [status, setStatus] = useState<DropShipStatus | "">("");
+  const [loading, setLoading] = useState(true);
+
+  // GET /api/admin/drop-ship-orders - Fetch a page of drop-ship orders
+  // (append when a cursor is given)
+  const fetchDropShipOrders = useCallback(
+    async (cursor?: string) => {
+      setLoading(true);
+      try {
+        const query = new URLSearchParams({ limit: "20" });
+        if (status) query.set("status", status);
+        if (cursor) query.set("cursor", cursor);
+
+        const res = await fetch(
+          `/api/admin/drop-ship-orders?${query.toString()}`
+        );
+        const json = await res.json();
+        if (json.success) {
+          setDropShipOrders((prev) =>
+            cursor ? [...prev, ...json.data] : json.data
+          );
+          setTotal(json.pagination.total);
+          setNextCursor(json.pagination.nextCursor);
+        }
+      } catch (err) {
+        console.error("Failed to fetch drop-ship orders:", err);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [status]
+  );
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifyAdmin = async () => {
+      // GET /api/auth/me - Verify admin role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsAdmin = data?.user?.role === "ADMIN";
+      setIsAdmin(userIsAdmin);
+      if (!userIsAdmin) router.push("/");
+    };
+
+    verifyAdmin();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (isAdmin) fetchDropShipOrders();
+  }, [isAdmin, fetchDropShipOrders]);
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <Link
+            href="/admin/suppliers"
+            className="text-blue-600 hover:underline text-sm"
+          >
+            ← Back to Suppliers
+          </Link>
+          <div className="flex justify-between items-center mt-2 mb-8">
+            <h1 className="text-4xl font-bold text-gray-900">
+              Drop-ship Orders
+            </h1>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as DropShipStatus | "")}
+              className="px-3 py-2 border border-gray-300 rounded"
+            >
+              <option value="">All statuses</option>
+              <option value="OPEN">Open</option>
+              <option value="ACKNOWLEDGED">Acknowledged</option>
+              <option value="SHIPPED">Shipped</option>
+              <option value="CANCELLED">Cancelled</option>
+            </select>
+          </div>
+
+          {!loading && dropShipOrders.length === 0 ? (
+            <Card className="p-8 text-center border border-gray-200 bg-white">
+              <p className="text-gray-600">No drop-ship orders</p>
+            </Card>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg bg-white">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-3">Sent</th>
+                    <th className="px-4 py-3">Supplier</th>
+                    <th className="px-4 py-3">Order</th>
+                    <th className="px-4 py-3">Items</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3">Shipment</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dropShipOrders.map((dropShipOrder) => (
+                    <tr key={dropShipOrder.id} className="border-t align-top">
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {new Date(dropShipOrder.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/admin/suppliers/${dropShipOrder.supplier.id}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {dropShipOrder.supplier.name}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/admin/orders/${dropShipOrder.order.id}`}
+                          className="text-blue-600 hover:underline font-mono"
+                        >
+                          {dropShipOrder.order.id.slice(0, 8)}
+                        </Link>
+                        {dropShipOrder.order.poNumber && (
+                          <div className="text-gray-500">
+                            PO {dropShipOrder.order.poNumber}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {dropShipOrder.lines.map((line) => (
+                          <div key={line.id}>
+                            {line.quantity} × {line.orderLine.product.name}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            STATUS_STYLES[dropShipOrder.status]
+                          }`}
+                        >
+                          {dropShipOrder.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        {dropShipOrder.shipment
+                          ? `${dropShipOrder.shipment.carrier}${
+                              dropShipOrder.shipment.trackingNumber
+                                ? ` ${dropShipOrder.shipment.trackingNumber}`
+                                : ""
+                            }`
+                          : "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+            <span>
+              Showing {dropShipOrders.length} of {total}
+            </span>
+            {nextCursor && (
+              <Button
+                variant="secondary"
+                onClick={() => fetchDropShipOrders(nextCursor)}
+                disabled={loading}
+              >
+                {loading ? "Loading..." : "Load More"}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+"use client";
+
+import Link from "next/link";
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Suppliers Page(Admin Only)
+ * Drop-ship suppliers: create and edit them, activate or deactivate them
+ */
+
+interface Supplier {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  isActive: boolean;
+  productCount: number;
+  userCount: number;
+  openDropShipOrders: number;
+  onHand: number;
+  reserved: number;
+}
+
+const emptyForm = { name: "", email: "", phone: "" };
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function AdminSuppliersPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // null: creating a new supplier, otherwise the supplier being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  // GET /api/admin/suppliers - Suppliers with their stock totals
+  const fetchSuppliers = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/suppliers");
+      if (res.ok) {
+        const data = await res.json();
+        setSuppliers(data.data || []);
+      }
+    } catch (err) {
+      console.error("Error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifyAdmin = async () => {
+      // GET /api/auth/me - Verify admin role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsAdmin = data?.user?.role === "ADMIN";
+      setIsAdmin(userIsAdmin);
+      if (!userIsAdmin) router.push("/");
+    };
+
+    verifyAdmin();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (isAdmin) fetchSuppliers();
+  }, [isAdmin, fetchSuppliers]);
+
+  const save = async (url: string, method: string, body: object) => {
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save supplier");
+      await fetchSuppliers();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+      return false;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = {
+      name: form.name,
+      email: form.email || null,
+      phone: form.phone || null,
+    };
+    // POST /api/admin/suppliers or PUT /api/admin/suppliers/[id]
+    const ok = editingId
+      ? await save(`/api/admin/suppliers/${editingId}`, "PUT", body)
+      : await save("/api/admin/suppliers", "POST", body);
+    if (ok) {
+      setEditingId(null);
+      setForm(emptyForm);
+    }
+  };
+
+  const startEdit = (supplier: Supplier) => {
+    setError(null);
+    setEditingId(supplier.id);
+    setForm({
+      name: supplier.name,
+      email: supplier.email ?? "",
+      phone: supplier.phone ?? "",
+    });
+  };
+
+  const toggleActive = (supplier: Supplier) => {
+    if (
+      supplier.isActive &&
+      !confirm(
+        `Deactivate ${supplier.name}? Its stock will no longer be offered to buyers.`
+      )
+    ) {
+      return;
+    }
+    save(`/api/admin/suppliers/${supplier.id}`, "PUT", {
+      isActive: !supplier.isActive,
+    });
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <div className="flex justify-between items-center mb-2">
+            <h1 className="text-4xl font-bold text-gray-900">Suppliers</h1>
+            <Link href="/admin/suppliers/drop-ship-orders">
+              <Button variant="secondary">Drop-ship Orders</Button>
+            </Link>
+          </div>
+          <p className="text-gray-600 mb-8">
+            Orders fall back to supplier stock once platform stock runs out.
+            When such an order is paid, each supplier gets a drop-ship order and
+            ships those units to the buyer, from the supplier portal.
+          </p>
+
+          <Card className="p-6 border border-gray-200 bg-white mb-8">
+            <h2 className="text-xl font-semibold mb-4">
+              {editingId ? "Edit Supplier" : "New Supplier"}
+            </h2>
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+                {error}
+              </div>
+            )}
+            <form
+              onSubmit={handleSubmit}
+              className="grid grid-cols-1 md:grid-cols-4 gap-4"
+            >
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Name"
+                required
+                className={inputClass}
+              />
+              <input
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                placeholder="Order email"
+                className={inputClass}
+              />
+              <input
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                placeholder="Phone"
+                className={inputClass}
+              />
+              <div className="flex gap-2">
+                <Button type="submit" variant="primary" fullWidth>
+                  {editingId ? "Save" : "+ Create"}
+                </Button>
+                {editingId && (
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={() => {
+                      setEditingId(null);
+                      setForm(emptyForm);
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Card>
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-600">
+              Loading suppliers...
+            </div>
+          ) : suppliers.length === 0 ? (
+            <Card className="p-8 text-center border border-gray-200 bg-white">
+              <p className="text-gray-600">No suppliers yet</p>
+            </Card>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg bg-white">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-3">Name</th>
+                    <th className="px-4 py-3">Contact</th>
+                    <th className="px-4 py-3 text-right">Products</th>
+                    <th className="px-4 py-3 text-right">On hand</th>
+                    <th className="px-4 py-3 text-right">Reserved</th>
+                    <th className="px-4 py-3 text-right">To ship</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {suppliers.map((supplier) => (
+                    <tr key={supplier.id} className="border-t">
+                      <td className="px-4 py-3 font-medium">
+                        <Link
+                          href={`/admin/suppliers/${supplier.id}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {supplier.name}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3">
+                        {[supplier.email, supplier.phone]
+                          .filter(Boolean)
+                          .join(", ") || "-"}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {supplier.productCount}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {supplier.onHand}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {supplier.reserved}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {supplier.openDropShipOrders}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            supplier.isActive
+                              ? "bg-green-100 text-green-800"
+                              : "bg-gray-100 text-gray-800"
+                          }`}
+                        >
+                          {supplier.isActive ? "ACTIVE" : "INACTIVE"}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                        <Button
+                          variant="secondary"
+                          onClick={() => startEdit(supplier)}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          variant="secondary"
+                          onClick={() => toggleActive(supplier)}
+                        >
+                          {supplier.isActive ? "Deactivate" : "Activate"}
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
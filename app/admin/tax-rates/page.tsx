@@ -0,0 +1,367 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+import { TAX_COUNTRIES, getRegions } from "@/lib/tax-rates";
+
+/**
+ * Admin Tax Rates Page(Admin Only)
+ * Sales taxes by country and province/state: add, change the rate or
+ * whether shipping is taxed, and delete
+ */
+
+interface TaxRate {
+  id: string;
+  country: string;
+  region: string | null;
+  name: string;
+  jurisdiction: string;
+  rate: number;
+  taxShipping: boolean;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+// Rates are edited as percentages: "9.975" <-> 0.09975
+const toPercent = (rate: number) => String(Number((rate * 100).toFixed(4)));
+const toRate = (percent: string) => Number((Number(percent) / 100).toFixed(6));
+
+export default function AdminTaxRatesPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [rates, setRates] = useState<TaxRate[]>([]);
+  // Edited rate (as a percentage) per tax rate id
+  const [percents, setPercents] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    country: "CA",
+    region: "",
+    name: "",
+    jurisdiction: "",
+    percent: "",
+    taxShipping: false,
+  });
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const fetchData = async () => {
+      try {
+        // GET /api/auth/me - Verify admin role
+        const authRes = await fetch("/api/auth/me");
+        if (!authRes.ok) {
+          router.push("/");
+          return;
+        }
+
+        const authData = await authRes.json();
+        const userIsAdmin = authData.user?.role === "ADMIN";
+        setIsAdmin(userIsAdmin);
+
+        if (!userIsAdmin) {
+          router.push("/");
+          return;
+        }
+
+        // GET /api/admin/tax-rates - All tax rates
+        const res = await fetch("/api/admin/tax-rates");
+        if (res.ok) {
+          const data = await res.json();
+          setRates(data.data || []);
+        }
+      } catch (err) {
+        console.error("Error:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [isSignedIn, router]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      // POST /api/admin/tax-rates - Add a tax rate
+      const res = await fetch("/api/admin/tax-rates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          country: form.country,
+          region: form.region || null,
+          name: form.name,
+          jurisdiction:
+            form.jurisdiction ||
+            [form.country, form.region].filter(Boolean).join("-"),
+          rate: toRate(form.percent),
+          taxShipping: form.taxShipping,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to create tax rate");
+
+      setRates([...rates, data.data]);
+      setForm({ ...form, name: "", jurisdiction: "", percent: "" });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create");
+    }
+  };
+
+  const handleUpdate = async (
+    id: string,
+    changes: Partial<Pick<TaxRate, "rate" | "taxShipping">>
+  ) => {
+    try {
+      // PUT /api/admin/tax-rates/[id] - Change the rate or shipping tax
+      const res = await fetch(`/api/admin/tax-rates/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to update tax rate");
+
+      setRates(rates.map((r) => (r.id === id ? data.data : r)));
+      const unsaved = { ...percents };
+      delete unsaved[id];
+      setPercents(unsaved);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to update");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this tax rate?")) return;
+
+    try {
+      // DELETE /api/admin/tax-rates/[id] - Delete tax rate
+      const res = await fetch(`/api/admin/tax-rates/${id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error("Failed to delete tax rate");
+      setRates(rates.filter((r) => r.id !== id));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to delete");
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Tax Rates</h1>
+          <p className="text-gray-600 mb-8">
+            Orders are taxed at the rates of their ship-to province/state, or at
+            the country-wide rates where it has none: list every tax of a
+            province with its own rates, GST included. Shipping is taxed at the
+            rates marked for it, when the order has taxed products. Placed
+            orders keep the taxes they were charged.
+          </p>
+
+          <Card className="p-6 border border-gray-200 bg-white mb-8">
+            <h2 className="text-xl font-semibold mb-4">New Tax Rate</h2>
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+                {error}
+              </div>
+            )}
+            <form
+              onSubmit={handleCreate}
+              className="grid grid-cols-1 md:grid-cols-7 gap-4 items-center"
+            >
+              <select
+                value={form.country}
+                onChange={(e) =>
+                  setForm({ ...form, country: e.target.value, region: "" })
+                }
+                className={inputClass}
+              >
+                {TAX_COUNTRIES.map((c) => (
+                  <option key={c.code} value={c.code}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={form.region}
+                onChange={(e) => setForm({ ...form, region: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Whole country</option>
+                {getRegions(form.country).map((r) => (
+                  <option key={r.code} value={r.code}>
+                    {r.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Name (e.g. PST)"
+                required
+                className={inputClass}
+              />
+              <input
+                value={form.jurisdiction}
+                onChange={(e) =>
+                  setForm({ ...form, jurisdiction: e.target.value })
+                }
+                placeholder="Jurisdiction (e.g. CA-BC)"
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="any"
+                value={form.percent}
+                onChange={(e) => setForm({ ...form, percent: e.target.value })}
+                placeholder="Rate %"
+                required
+                className={inputClass}
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.taxShipping}
+                  onChange={(e) =>
+                    setForm({ ...form, taxShipping: e.target.checked })
+                  }
+                />
+                Tax shipping
+              </label>
+              <Button type="submit" variant="primary" fullWidth>
+                + Add Rate
+              </Button>
+            </form>
+          </Card>
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-600">
+              Loading tax rates...
+            </div>
+          ) : rates.length === 0 ? (
+            <Card className="p-8 text-center border border-gray-200 bg-white">
+              <p className="text-gray-600">
+                No tax rates yet: orders are not taxed
+              </p>
+            </Card>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg bg-white">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-3">Country</th>
+                    <th className="px-4 py-3">Province/State</th>
+                    <th className="px-4 py-3">Tax</th>
+                    <th className="px-4 py-3">Jurisdiction</th>
+                    <th className="px-4 py-3">Rate %</th>
+                    <th className="px-4 py-3">Shipping</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rates.map((rate) => (
+                    <tr key={rate.id} className="border-t">
+                      <td className="px-4 py-3">{rate.country}</td>
+                      <td className="px-4 py-3">
+                        {rate.region ?? "Whole country"}
+                      </td>
+                      <td className="px-4 py-3 font-medium">{rate.name}</td>
+                      <td className="px-4 py-3">{rate.jurisdiction}</td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="any"
+                          value={percents[rate.id] ?? toPercent(rate.rate)}
+                          onChange={(e) =>
+                            setPercents({
+                              ...percents,
+                              [rate.id]: e.target.value,
+                            })
+                          }
+                          className="w-24 px-2 py-1 border border-gray-300 rounded"
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={rate.taxShipping}
+                          onChange={(e) =>
+                            handleUpdate(rate.id, {
+                              taxShipping: e.target.checked,
+                            })
+                          }
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-right space-x-2">
+                        {percents[rate.id] !== undefined && (
+                          <Button
+                            variant="secondary"
+                            onClick={() =>
+                              handleUpdate(rate.id, {
+                                rate: toRate(percents[rate.id]),
+                              })
+                            }
+                          >
+                            Save
+                          </Button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(rate.id)}
+                          className="px-3 py-1 bg-red-600 text-white hover:bg-red-700 rounded text-sm font-medium transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,366 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+import { TAX_COUNTRIES, getRegions } from "@/lib/tax-rates";
+
+/**
+ * Admin Warehouses Page(Admin Only)
+ * Stock locations: create and edit warehouses, activate or deactivate them
+ */
+
+interface Warehouse {
+  id: string;
+  code: string;
+  name: string;
+  country: string;
+  region: string | null;
+  postalCode: string | null;
+  priority: number;
+  isActive: boolean;
+  onHand: number;
+  reserved: number;
+}
+
+const emptyForm = {
+  code: "",
+  name: "",
+  country: "CA",
+  region: "",
+  postalCode: "",
+  priority: "0",
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function AdminWarehousesPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // null: creating a new warehouse, otherwise the warehouse being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  // GET /api/admin/warehouses - Warehouses with their stock totals
+  const fetchWarehouses = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/warehouses");
+      if (res.ok) {
+        const data = await res.json();
+        setWarehouses(data.data || []);
+      }
+    } catch (err) {
+      console.error("Error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifyAdmin = async () => {
+      // GET /api/auth/me - Verify admin role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsAdmin = data?.user?.role === "ADMIN";
+      setIsAdmin(userIsAdmin);
+      if (!userIsAdmin) router.push("/");
+    };
+
+    verifyAdmin();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (isAdmin) fetchWarehouses();
+  }, [isAdmin, fetchWarehouses]);
+
+  const save = async (url: string, method: string, body: object) => {
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save warehouse");
+      await fetchWarehouses();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+      return false;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = {
+      code: form.code,
+      name: form.name,
+      country: form.country,
+      region: form.region || null,
+      postalCode: form.postalCode || null,
+      priority: parseInt(form.priority, 10) || 0,
+    };
+    // POST /api/admin/warehouses or PUT /api/admin/warehouses/[id]
+    const ok = editingId
+      ? await save(`/api/admin/warehouses/${editingId}`, "PUT", body)
+      : await save("/api/admin/warehouses", "POST", body);
+    if (ok) {
+      setEditingId(null);
+      setForm(emptyForm);
+    }
+  };
+
+  const startEdit = (warehouse: Warehouse) => {
+    setError(null);
+    setEditingId(warehouse.id);
+    setForm({
+      code: warehouse.code,
+      name: warehouse.name,
+      country: warehouse.country,
+      region: warehouse.region ?? "",
+      postalCode: warehouse.postalCode ?? "",
+      priority: String(warehouse.priority),
+    });
+  };
+
+  const toggleActive = (warehouse: Warehouse) => {
+    if (
+      warehouse.isActive &&
+      !confirm(
+        `Deactivate ${warehouse.name}? New orders will no longer be allocated to it.`
+      )
+    ) {
+      return;
+    }
+    save(`/api/admin/warehouses/${warehouse.id}`, "PUT", {
+      isActive: !warehouse.isActive,
+    });
+  };
+
+  if (!isAdmin) return null;
+
+  const regions = getRegions(form.country);
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Warehouses</h1>
+          <p className="text-gray-600 mb-8">
+            Each order ships from the nearest active warehouse that has all of
+            its products in stock (by postal code, then province/state, then
+            country; priority breaks ties). When none has everything, lines are
+            split across warehouses, nearest first. Stock is set per warehouse
+            on each product.
+          </p>
+
+          <Card className="p-6 border border-gray-200 bg-white mb-8">
+            <h2 className="text-xl font-semibold mb-4">
+              {editingId ? "Edit Warehouse" : "New Warehouse"}
+            </h2>
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+                {error}
+              </div>
+            )}
+            <form
+              onSubmit={handleSubmit}
+              className="grid grid-cols-1 md:grid-cols-7 gap-4"
+            >
+              <input
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+                placeholder="Code (e.g. MTL)"
+                required
+                className={inputClass}
+              />
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Name (e.g. Montreal)"
+                required
+                className={inputClass}
+              />
+              <select
+                value={form.country}
+                onChange={(e) =>
+                  setForm({ ...form, country: e.target.value, region: "" })
+                }
+                className={inputClass}
+              >
+                {TAX_COUNTRIES.map((c) => (
+                  <option key={c.code} value={c.code}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={form.region}
+                onChange={(e) => setForm({ ...form, region: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Province / state</option>
+                {regions.map((region) => (
+                  <option key={region.code} value={region.code}>
+                    {region.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={form.postalCode}
+                onChange={(e) =>
+                  setForm({ ...form, postalCode: e.target.value })
+                }
+                placeholder="Postal code"
+                className={inputClass}
+              />
+              <input
+                type="number"
+                value={form.priority}
+                onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                placeholder="Priority"
+                title="Lower is preferred between equally near warehouses"
+                className={inputClass}
+              />
+              <div className="flex gap-2">
+                <Button type="submit" variant="primary" fullWidth>
+                  {editingId ? "Save" : "+ Create"}
+                </Button>
+                {editingId && (
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={() => {
+                      setEditingId(null);
+                      setForm(emptyForm);
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Card>
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-600">
+              Loading warehouses...
+            </div>
+          ) : warehouses.length === 0 ? (
+            <Card className="p-8 text-center border border-gray-200 bg-white">
+              <p className="text-gray-600">
+                No warehouses yet: products cannot be stocked
+              </p>
+            </Card>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg bg-white">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-3">Code</th>
+                    <th className="px-4 py-3">Name</th>
+                    <th className="px-4 py-3">Location</th>
+                    <th className="px-4 py-3 text-center">Priority</th>
+                    <th className="px-4 py-3 text-right">On hand</th>
+                    <th className="px-4 py-3 text-right">Reserved</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {warehouses.map((warehouse) => (
+                    <tr key={warehouse.id} className="border-t">
+                      <td className="px-4 py-3 font-mono">{warehouse.code}</td>
+                      <td className="px-4 py-3 font-medium">
+                        {warehouse.name}
+                      </td>
+                      <td className="px-4 py-3">
+                        {[
+                          warehouse.postalCode,
+                          warehouse.region,
+                          warehouse.country,
+                        ]
+                          .filter(Boolean)
+                          .join(", ")}
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        {warehouse.priority}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {warehouse.onHand}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {warehouse.reserved}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            warehouse.isActive
+                              ? "bg-green-100 text-green-800"
+                              : "bg-gray-100 text-gray-800"
+                          }`}
+                        >
+                          {warehouse.isActive ? "ACTIVE" : "INACTIVE"}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                        <Button
+                          variant="secondary"
+                          onClick={() => startEdit(warehouse)}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          variant="secondary"
+                          onClick={() => toggleActive(warehouse)}
+                        >
+                          {warehouse.isActive ? "Deactivate" : "Activate"}
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { Button, Card } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Admin Webhook Events Page(Admin Only)
+ * Stripe webhook events as they were received: see why one failed, read
+ * its payload and replay it
+ */
+
+type WebhookEventStatus = "PROCESSING" | "PROCESSED" | "IGNORED" | "FAILED";
+
+interface WebhookEvent {
+  id: string;
+  type: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  error: string | null;
+  processedAt: string | null;
+  createdAt: string;
+}
+
+const STATUS_STYLES: Record<WebhookEventStatus, string> = {
+  PROCESSING: "bg-yellow-100 text-yellow-800",
+  PROCESSED: "bg-green-100 text-green-800",
+  IGNORED: "bg-gray-100 text-gray-800",
+  FAILED: "bg-red-100 text-red-800",
+};
+
+export default function AdminWebhookEventsPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [status, setStatus] = useState<WebhookEventStatus | "">("FAILED");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  // Payload of the event shown
+  const [payload, setPayload] = useState<{ id: string; json: string } | null>(
+    null
+  );
+
+  // GET /api/admin/webhook-events - Fetch a page of events (append when a
+  // cursor is given)
+  const fetchEvents = useCallback(
+    async (cursor?: string) => {
+      setLoading(true);
+      try {
+        const query = new URLSearchParams({ limit: "20" });
+        if (status) query.set("status", status);
+        if (cursor) query.set("cursor", cursor);
+
+        const res = await fetch(
+          `/api/admin/webhook-events?${query.toString()}`
+        );
+        const json = await res.json();
+        if (json.success) {
+          setEvents((prev) => (cursor ? [...prev, ...json.data] : json.data));
+          setTotal(json.pagination.total);
+          setNextCursor(json.pagination.nextCursor);
+        }
+      } catch (err) {
+        console.error("Failed to fetch webhook events:", err);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [status]
+  );
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifyAdmin = async () => {
+      // GET /api/auth/me - Verify admin role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsAdmin = data?.user?.role === "ADMIN";
+      setIsAdmin(userIsAdmin);
+      if (!userIsAdmin) router.push("/");
+    };
+
+    verifyAdmin();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (isAdmin) fetchEvents();
+  }, [isAdmin, fetchEvents]);
+
+  // GET /api/admin/webhook-events/[id] - Show or hide an event's payload
+  const togglePayload = async (id: string) => {
+    if (payload?.id === id) {
+      setPayload(null);
+      return;
+    }
+    try {
+      const res = await fetch(`/api/admin/webhook-events/${id}`);
+      const json = await res.json();
+      if (json.success) {
+        setPayload({ id, json: JSON.stringify(json.data.payload, null, 2) });
+      }
+    } catch (err) {
+      console.error("Failed to fetch webhook event:", err);
+    }
+  };
+
+  // POST /api/admin/webhook-events/[id]/replay - Apply a failed event again
+  const replay = async (id: string) => {
+    setError(null);
+    setReplayingId(id);
+    try {
+      const res = await fetch(`/api/admin/webhook-events/${id}/replay`, {
+        method: "POST",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to replay event");
+      if (data.data.status === "FAILED") {
+        setError(`Replay failed: ${data.data.error}`);
+      }
+      setEvents((prev) =>
+        prev.map((event) => (event.id === id ? data.data : event))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to replay event");
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <div className="flex justify-between items-center mb-8">
+            <h1 className="text-4xl font-bold text-gray-900">Webhook Events</h1>
+            <select
+              value={status}
+              onChange={(e) =>
+                setStatus(e.target.value as WebhookEventStatus | "")
+              }
+              className="px-3 py-2 border border-gray-300 rounded"
+            >
+              <option value="">All statuses</option>
+              <option value="FAILED">Failed</option>
+              <option value="PROCESSING">Processing</option>
+              <option value="PROCESSED">Processed</option>
+              <option value="IGNORED">Ignored</option>
+            </select>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {!loading && events.length === 0 ? (
+            <Card className="p-8 text-center border border-gray-200 bg-white">
+              <p className="text-gray-600">No webhook events</p>
+            </Card>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg bg-white">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-4 py-3">Received</th>
+                    <th className="px-4 py-3">Event</th>
+                    <th className="px-4 py-3">Type</th>
+                    <th className="px-4 py-3 text-right">Attempts</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3">Error</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {events.map((event) => (
+                    <Fragment key={event.id}>
+                      <tr className="border-t">
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {new Date(event.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 font-mono">{event.id}</td>
+                        <td className="px-4 py-3">{event.type}</td>
+                        <td className="px-4 py-3 text-right">
+                          {event.attempts}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span
+                            className={`px-2 py-1 rounded text-xs font-medium ${
+                              STATUS_STYLES[event.status]
+                            }`}
+                          >
+                            {event.status}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 max-w-xs truncate text-red-700">
+                          {event.error || "-"}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right">
+                          <button
+                            onClick={() => togglePayload(event.id)}
+                            className="text-blue-600 hover:underline mr-4"
+                          >
+                            {payload?.id === event.id ? "Hide" : "Payload"}
+                          </button>
+                          {event.status === "FAILED" && (
+                            <Button
+                              variant="primary"
+                              onClick={() => replay(event.id)}
+                              disabled={replayingId !== null}
+                            >
+                              {replayingId === event.id
+                                ? "Replaying..."
+                                : "Replay"}
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                      {payload?.id === event.id && (
+                        <tr>
+                          <td colSpan={7} className="px-4 pb-4">
+                            <pre className="p-3 bg-gray-50 border border-gray-200 rounded text-xs overflow-x-auto max-h-96">
+                              {payload.json}
+                            </pre>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+            <span>
+              Showing {events.length} of {total}
+            </span>
+            {nextCursor && (
+              <Button
+                variant="secondary"
+                onClick={() => fetchEvents(nextCursor)}
+                disabled={loading}
+              >
+                {loading ? "Loading..." : "Load More"}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
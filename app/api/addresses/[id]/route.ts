@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import { addressSchema } from "@/lib/validations";
+import { deleteAddress, saveAddress } from "@/lib/addresses";
+import { jsonError } from "@/lib/utils";
+
+/**
+ * PUT /api/addresses/[id]
+ * Replace an address; isDefaultShipping / isDefaultBilling make it the default
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = addressSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid address", 400, parsed.error.flatten());
+    }
+
+    const address = await prisma.$transaction((tx) =>
+      saveAddress(tx, user.id, parsed.data, id)
+    );
+
+    return NextResponse.json({ success: true, data: address }, { status: 200 });
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    if (err.message === "ADDRESS_NOT_FOUND") {
+      return jsonError("Address not found", 404);
+    }
+    console.error("PUT /api/addresses/[id] error:", error);
+    return jsonError("Failed to save address", 500);
+  }
+}
+
+/**
+ * DELETE /api/addresses/[id]
+ * Orders placed to this address keep their copy of it
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    await prisma.$transaction((tx) => deleteAddress(tx, user.id, id));
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    if (err.message === "ADDRESS_NOT_FOUND") {
+      return jsonError("Address not found", 404);
+    }
+    console.error("DELETE /api/addresses/[id] error:", error);
+    return jsonError("Failed to delete address", 500);
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import { addressSchema } from "@/lib/validations";
+import { saveAddress } from "@/lib/addresses";
+import { jsonError } from "@/lib/utils";
+
+/**
+ * GET /api/addresses
+ * List the user's address book, default shipping and billing addresses first
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const addresses = await prisma.address.findMany({
+      where: { userId: user.id },
+      orderBy: [
+        { isDefaultShipping: "desc" },
+        { isDefaultBilling: "desc" },
+        { createdAt: "asc" },
+      ],
+    });
+
+    return NextResponse.json(
+      { success: true, data: addresses },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("GET /api/addresses error:", error);
+    return jsonError("Failed to fetch addresses", 500);
+  }
+}
+
+/**
+ * POST /api/addresses
+ * Add an address to the user's address book
+ * Their first address becomes the default shipping and billing address
+ */
+export async function POST(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = addressSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid address", 400, parsed.error.flatten());
+    }
+
+    const address = await prisma.$transaction((tx) =>
+      saveAddress(tx, user.id, parsed.data)
+    );
+
+    return NextResponse.json({ success: true, data: address }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/addresses error:", error);
+    return jsonError("Failed to save address", 500);
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+const updateAccountSchema = z.object({
+  paymentTermsDays: z.number().int().positive().nullable().optional(), // null = card only
+  creditLimitCents: z.number().int().nonnegative().nullable().optional(), // null = no limit
+  taxExemptionNumber: z.string().trim().min(1).nullable().optional(), // null = taxed
+});
+
+/**
+ * PUT /api/admin/companies/[id]
+ * Approve a company for net terms (e.g. Net 30) and set its credit limit,
+ * or record its tax exemption certificate (admin only)
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = updateAccountSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid account settings", 400, parsed.error.flatten());
+    }
+
+    const existing = await prisma.company.findUnique({ where: { id } });
+    if (!existing) return jsonError("Company not found", 404);
+
+    const company = await prisma.company.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    return NextResponse.json({ success: true, data: company }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("PUT /api/admin/companies/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to update company", 500);
+  }
+}
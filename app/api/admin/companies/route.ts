@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+/**
+ * GET /api/admin/companies
+ * List all company accounts with their member count, net terms and
+ * open invoice balance (admin only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const [companies, openInvoices] = await Promise.all([
+      prisma.company.findMany({
+        include: { _count: { select: { members: true } } },
+        orderBy: { name: "asc" },
+      }),
+      prisma.invoice.groupBy({
+        by: ["companyId"],
+        where: { status: "OPEN" },
+        _sum: { amountCents: true, paidCents: true },
+      }),
+    ]);
+
+    const balances = new Map(
+      openInvoices.map((row) => [
+        row.companyId,
+        (row._sum.amountCents ?? 0) - (row._sum.paidCents ?? 0),
+      ])
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: companies.map((company) => ({
+          ...company,
+          openBalanceCents: balances.get(company.id) ?? 0,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/companies error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch companies", 500);
+  }
+}
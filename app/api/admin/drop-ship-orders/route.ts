@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { dropShipOrderInclude } from "@/lib/suppliers";
+
+const listQuerySchema = z.object({
+  status: z.enum(["OPEN", "ACKNOWLEDGED", "SHIPPED", "CANCELLED"]).optional(),
+  supplierId: z.string().optional(),
+  orderId: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+/**
+ * GET /api/admin/drop-ship-orders
+ * Drop-ship orders sent to suppliers, newest first, with cursor pagination
+ * (admin only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const url = new URL(req.url);
+    const parsed = listQuerySchema.safeParse(
+      Object.fromEntries(
+        [...url.searchParams.entries()].filter(([, v]) => v !== "")
+      )
+    );
+
+    if (!parsed.success) {
+      return jsonError("Invalid query parameters", 400, parsed.error.flatten());
+    }
+
+    const query = parsed.data;
+    const where: Prisma.DropShipOrderWhereInput = {
+      ...(query.status && { status: query.status }),
+      ...(query.supplierId && { supplierId: query.supplierId }),
+      ...(query.orderId && { orderId: query.orderId }),
+    };
+
+    const [dropShipOrders, total] = await Promise.all([
+      prisma.dropShipOrder.findMany({
+        where,
+        // Tie-break on id so the cursor position is stable
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: query.limit + 1,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+        include: dropShipOrderInclude,
+      }),
+      prisma.dropShipOrder.count({ where }),
+    ]);
+
+    const hasMore = dropShipOrders.length > query.limit;
+    const data = hasMore
+      ? dropShipOrders.slice(0, query.limit)
+      : dropShipOrders;
+
+    return NextResponse.json(
+      {
+        success: true,
+        data,
+        pagination: {
+          limit: query.limit,
+          total,
+          nextCursor: hasMore ? data[data.length - 1].id : null,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/drop-ship-orders error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch drop-ship orders", 500);
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { recordInvoicePayment } from "@/lib/invoices";
+
+const recordPaymentSchema = z.object({
+  amountCents: z.number().int().positive(),
+  method: z.string().min(1),
+  reference: z.string().optional(),
+  receivedAt: z.coerce.date().optional(),
+});
+
+/**
+ * POST /api/admin/invoices/[id]/payments
+ * Record a (partial) payment received against an open invoice (admin only)
+ * The invoice and its order are marked paid once the balance reaches zero
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const admin = await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = recordPaymentSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid payment data", 400, parsed.error.flatten());
+    }
+
+    const invoice = await prisma.$transaction((tx) =>
+      recordInvoicePayment(tx, id, { ...parsed.data, actorId: admin.id })
+    );
+
+    return NextResponse.json({ success: true, data: invoice }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("POST /api/admin/invoices/[id]/payments error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    if (err.message === "INVOICE_NOT_FOUND") {
+      return jsonError("Invoice not found", 404);
+    }
+    if (err.message === "INVOICE_NOT_OPEN") {
+      return jsonError("Invoice is already paid", 409);
+    }
+    if (err.message?.startsWith("AMOUNT_EXCEEDS_BALANCE")) {
+      const balanceCents = Number(err.message.split(":")[1]);
+      return jsonError(
+        `Amount exceeds the open balance of $${(balanceCents / 100).toFixed(2)}`,
+        400
+      );
+    }
+    return jsonError("Failed to record payment", 500);
+  }
+}
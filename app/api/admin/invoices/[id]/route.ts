@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { isOverdue } from "@/lib/invoices";
+
+/**
+ * GET /api/admin/invoices/[id]
+ * Get an invoice with its order and recorded payments (admin only)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      include: {
+        company: {
+          select: {
+            id: true,
+            name: true,
+            paymentTermsDays: true,
+            creditLimitCents: true,
+          },
+        },
+        order: {
+          select: {
+            id: true,
+            poNumber: true,
+            status: true,
+            createdAt: true,
+            buyer: { select: { email: true } },
+          },
+        },
+        payments: {
+          include: { recordedBy: { select: { email: true } } },
+          orderBy: { receivedAt: "asc" },
+        },
+      },
+    });
+
+    if (!invoice) return jsonError("Invoice not found", 404);
+
+    return NextResponse.json(
+      { success: true, data: { ...invoice, overdue: isOverdue(invoice) } },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/invoices/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch invoice", 500);
+  }
+}
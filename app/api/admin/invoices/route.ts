@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { isOverdue } from "@/lib/invoices";
+
+const listQuerySchema = z.object({
+  status: z.enum(["OPEN", "OVERDUE", "PAID", "VOID"]).optional(),
+  companyId: z.string().optional(),
+});
+
+/**
+ * GET /api/admin/invoices
+ * List invoices for orders placed on account, by due date (admin only)
+ * status=OVERDUE returns open invoices past their due date
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const url = new URL(req.url);
+    const parsed = listQuerySchema.safeParse({
+      status: url.searchParams.get("status") || undefined,
+      companyId: url.searchParams.get("companyId") || undefined,
+    });
+
+    if (!parsed.success) {
+      return jsonError("Invalid query parameters", 400, parsed.error.flatten());
+    }
+
+    const { status, companyId } = parsed.data;
+    const where: Prisma.InvoiceWhereInput = {};
+    if (status === "OVERDUE") {
+      where.status = "OPEN";
+      where.dueAt = { lt: new Date() };
+    } else if (status) {
+      where.status = status;
+    }
+    if (companyId) where.companyId = companyId;
+
+    const invoices = await prisma.invoice.findMany({
+      where,
+      include: {
+        company: { select: { id: true, name: true } },
+        order: { select: { id: true, poNumber: true } },
+      },
+      orderBy: { dueAt: "asc" },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: invoices.map((invoice) => ({
+          ...invoice,
+          overdue: isOverdue(invoice),
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/invoices error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch invoices", 500);
+  }
+}
@@ -0,0 +1,145 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { prepareRefund, recordRefund } from "@/lib/refunds";
+import { getOrderPayment, refundPayment } from "@/lib/payments";
+
+const createRefundSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        orderLineId: z.string(),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .optional(),
+  amountCents: z.number().int().positive().optional(),
+  cancel: z.boolean().optional(),
+  reason: z.string().trim().max(1000).optional(),
+});
+
+/**
+ * POST /api/admin/orders/[id]/refunds
+ * Refund a paid order (admin only): units not shipped yet, which are put back
+ * in stock, and/or an amount; what is left of the payment when neither is
+ * given. With cancel, every unit and the rest of the payment are refunded and
+ * the order is CANCELLED. Card payments are refunded through Stripe; orders
+ * on account, paid or not, are credited on their invoice.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: orderId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const admin = await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = createRefundSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid refund data", 400, parsed.error.flatten());
+    }
+
+    const { reason, ...request } = parsed.data;
+    const { order, amountCents, lines } = await prepareRefund(
+      prisma,
+      orderId,
+      request
+    );
+
+    // Refund the card payment (orders on account are credited on their
+    // invoice, anything already paid on it is paid back outside the
+    // platform), keyed on the amount refunded so far so that a retry after a
+    // failed update does not refund twice
+    let stripeRefundId: string | null = null;
+    if (order.paymentMethod === "CARD" && amountCents > 0) {
+      try {
+        const payment = await getOrderPayment(orderId);
+        if (!payment) {
+          return jsonError("The order's card payment was not found", 409);
+        }
+
+        stripeRefundId = await refundPayment(payment, amountCents, {
+          metadata: { orderId, ...(reason && { reason }) },
+          idempotencyKey: `order-${orderId}-refund-${order.refundedCents}`,
+        });
+      } catch (stripeError) {
+        console.error("[Stripe] Order refund failed:", stripeError);
+        return jsonError("The refund could not be issued", 502);
+      }
+    }
+
+    const refund = await prisma.$transaction((tx) =>
+      recordRefund(tx, orderId, {
+        amountCents,
+        stripeRefundId,
+        reason,
+        lines,
+        actorId: admin.id,
+      })
+    );
+
+    const updated = await prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: {
+        id: true,
+        status: true,
+        paymentStatus: true,
+        refundedCents: true,
+      },
+    });
+
+    return NextResponse.json(
+      { success: true, data: { ...refund, order: updated } },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error("POST /api/admin/orders/[id]/refunds error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    if (err.message === "ORDER_NOT_FOUND") {
+      return jsonError("Order not found", 404);
+    }
+    if (err.message === "ORDER_NOT_PAID") {
+      return jsonError("Only paid orders can be refunded", 409);
+    }
+    if (err.message?.startsWith("ORDER_NOT_CANCELLABLE")) {
+      const status = err.message.split(":")[1];
+      return jsonError(
+        status === "PAID"
+          ? "Cannot cancel an order with shipped items"
+          : `Cannot cancel an order with status ${status}`,
+        409
+      );
+    }
+    if (err.message?.startsWith("INVALID_LINE")) {
+      return jsonError("Line does not belong to this order", 400);
+    }
+    if (err.message?.startsWith("QUANTITY_EXCEEDED")) {
+      const productName = err.message.split(":")[1];
+      return jsonError(
+        `Refund quantity exceeds the units of ${productName} not shipped or refunded yet`,
+        400
+      );
+    }
+    if (err.message?.startsWith("AMOUNT_EXCEEDED")) {
+      const refundableCents = Number(err.message.split(":")[1]);
+      return jsonError(
+        `Refund amount exceeds the $${(refundableCents / 100).toFixed(2)} not refunded yet`,
+        400
+      );
+    }
+    if (err.message === "NOTHING_TO_REFUND") {
+      return jsonError("Nothing to refund", 400);
+    }
+    return jsonError("Failed to refund order", 500);
+  }
+}
@@ -0,0 +1,144 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { MANUAL_STATUS_TRANSITIONS } from "@/lib/order-status";
+import {
+  getDropShipQuantity,
+  getShippedQuantities,
+  openDropShipLinesInclude,
+} from "@/lib/shipments";
+import { getOrderTaxes } from "@/lib/tax";
+import { getOrderAddressSnapshot } from "@/lib/addresses";
+import { formatReturnNumber } from "@/lib/returns";
+import { getRefundableQuantities } from "@/lib/refunds";
+
+/**
+ * GET /api/admin/orders/[id]
+ * Fetch any buyer's order with lines, buyer details, shipments, returns, payment attempts, refunds and status history (admin only)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: orderId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        lines: {
+          include: {
+            product: { select: { id: true, name: true, sku: true } },
+            shipmentItems: { select: { quantity: true } },
+            dropShipLines: openDropShipLinesInclude,
+            taxes: true,
+          },
+        },
+        shippingTaxes: true,
+        shipments: {
+          include: { items: true },
+          orderBy: { shippedAt: "asc" },
+        },
+        invoice: {
+          select: { id: true, status: true, dueAt: true, paidCents: true },
+        },
+        returns: {
+          select: {
+            id: true,
+            number: true,
+            status: true,
+            reason: true,
+            refundCents: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
+        payments: { orderBy: { createdAt: "asc" } },
+        refunds: {
+          include: { createdBy: { select: { email: true } } },
+          orderBy: { createdAt: "asc" },
+        },
+        buyer: {
+          select: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            company: true,
+            phone: true,
+            address: true,
+          },
+        },
+        statusChanges: {
+          include: {
+            changedBy: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                email: true,
+              },
+            },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!order) {
+      return jsonError("Order not found", 404);
+    }
+
+    const shipped = getShippedQuantities(order.lines);
+    const refundable = getRefundableQuantities(order.lines);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...order,
+          lines: order.lines.map((line) => ({
+            id: line.id,
+            productId: line.productId,
+            quantity: line.quantity,
+            backorderedQuantity: line.backorderedQuantity,
+            // Units its supplier ships (drop-ship orders not shipped yet)
+            dropShipQuantity: getDropShipQuantity(line),
+            shippedQuantity: shipped.get(line.id) ?? 0,
+            refundedQuantity: line.refundedQuantity,
+            // Units neither shipped nor refunded, which can still be refunded
+            refundableQuantity: order.paidAt
+              ? (refundable.get(line.id) ?? 0)
+              : 0,
+            unitPriceCents: line.unitPriceCents,
+            taxClass: line.taxClass,
+            taxCents: line.taxCents,
+            taxes: line.taxes,
+            product: line.product,
+          })),
+          returns: order.returns.map((returnRequest) => ({
+            ...returnRequest,
+            number: formatReturnNumber(returnRequest.number),
+          })),
+          // Totals per tax (GST, QST, HST, ...)
+          taxes: getOrderTaxes(order),
+          ...getOrderAddressSnapshot(order),
+          allowedTransitions: MANUAL_STATUS_TRANSITIONS[order.status],
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/orders/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch order", 500);
+  }
+}
@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { createShipment } from "@/lib/shipments";
+
+const createShipmentSchema = z.object({
+  carrier: z.string().min(1),
+  trackingNumber: z.string().optional(),
+  shippedAt: z.coerce.date().optional(),
+  // Omit to ship everything that has not shipped yet
+  items: z
+    .array(
+      z.object({
+        orderLineId: z.string().min(1),
+        quantity: z.number().int().nonnegative(),
+      })
+    )
+    .min(1)
+    .optional(),
+});
+
+/**
+ * GET /api/admin/orders/[id]/shipments
+ * List shipments recorded for an order (admin only)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: orderId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const shipments = await prisma.shipment.findMany({
+      where: { orderId },
+      include: { items: true },
+      orderBy: { shippedAt: "asc" },
+    });
+
+    return NextResponse.json(
+      { success: true, data: shipments },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/orders/[id]/shipments error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch shipments", 500);
+  }
+}
+
+/**
+ * POST /api/admin/orders/[id]/shipments
+ * Record a full or partial shipment for a PAID order (admin only)
+ * The order becomes SHIPPED once every line is fully shipped
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: orderId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const admin = await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = createShipmentSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid shipment data", 400, parsed.error.flatten());
+    }
+
+    const shipment = await prisma.$transaction((tx) =>
+      createShipment(tx, orderId, { ...parsed.data, actorId: admin.id })
+    );
+
+    return NextResponse.json(
+      { success: true, data: shipment },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error("POST /api/admin/orders/[id]/shipments error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    if (err.message === "ORDER_NOT_FOUND") {
+      return jsonError("Order not found", 404);
+    }
+    if (err.message?.startsWith("ORDER_NOT_SHIPPABLE")) {
+      const status = err.message.split(":")[1];
+      return jsonError(
+        `Cannot ship order with status ${status}. Only PAID orders can be shipped.`,
+        409
+      );
+    }
+    if (err.message?.startsWith("INVALID_LINE")) {
+      return jsonError("Order line does not belong to this order", 400);
+    }
+    if (err.message?.startsWith("QUANTITY_EXCEEDED")) {
+      const productName = err.message.split(":")[1] || "Unknown";
+      return jsonError(
+        `Shipped quantity exceeds the allocated quantity for ${productName}`,
+        400
+      );
+    }
+    if (err.message === "NOTHING_TO_SHIP") {
+      return jsonError("Nothing left to ship", 400);
+    }
+    return jsonError("Failed to create shipment", 500);
+  }
+}
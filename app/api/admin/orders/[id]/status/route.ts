@@ -0,0 +1,138 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import {
+  MANUAL_STATUS_TRANSITIONS,
+  transitionOrderStatus,
+} from "@/lib/order-status";
+
+const updateStatusSchema = z.object({
+  status: z.enum([
+    "PENDING_APPROVAL",
+    "CREATED",
+    "PAID",
+    "SHIPPED",
+    "DELIVERED",
+    "CANCELLED",
+  ]),
+  note: z.string().optional(),
+});
+
+/**
+ * GET /api/admin/orders/[id]/status
+ * Current status, allowed next statuses and status change history (admin only)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: orderId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: {
+        id: true,
+        status: true,
+        statusChanges: {
+          include: {
+            changedBy: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                email: true,
+              },
+            },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!order) {
+      return jsonError("Order not found", 404);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: order.id,
+          status: order.status,
+          allowedTransitions: MANUAL_STATUS_TRANSITIONS[order.status],
+          history: order.statusChanges,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/orders/[id]/status error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch order status", 500);
+  }
+}
+
+/**
+ * PUT /api/admin/orders/[id]/status
+ * Move order to a new status by hand (admin only): cancel it, or mark it
+ * DELIVERED once SHIPPED. Approval, payment and shipping go through their
+ * own flows (paid orders are cancelled by refunding them, see ../refunds)
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: orderId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const admin = await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = updateStatusSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid status data", 400, parsed.error.flatten());
+    }
+
+    const { status, note } = parsed.data;
+
+    const order = await prisma.$transaction((tx) =>
+      transitionOrderStatus(tx, orderId, status, {
+        actorId: admin.id,
+        note,
+        manual: true,
+      })
+    );
+
+    return NextResponse.json({ success: true, data: order }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("PUT /api/admin/orders/[id]/status error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    if (err.message === "ORDER_NOT_FOUND") {
+      return jsonError("Order not found", 404);
+    }
+    if (err.message?.startsWith("INVALID_TRANSITION")) {
+      const [, from, to] = err.message.split(":");
+      return jsonError(`Cannot change order status from ${from} to ${to}`, 409);
+    }
+    if (err.message === "ORDER_NOT_REFUNDED") {
+      return jsonError("Refund the order to cancel it", 409);
+    }
+    return jsonError("Failed to update order status", 500);
+  }
+}
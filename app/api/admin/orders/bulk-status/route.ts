@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { transitionOrderStatus } from "@/lib/order-status";
+
+const bulkStatusSchema = z.object({
+  orderIds: z.array(z.string().min(1)).min(1).max(100),
+  status: z.enum([
+    "PENDING_APPROVAL",
+    "CREATED",
+    "PAID",
+    "SHIPPED",
+    "DELIVERED",
+    "CANCELLED",
+  ]),
+  note: z.string().optional(),
+});
+
+/**
+ * POST /api/admin/orders/bulk-status
+ * Apply one status change to many orders (admin only)
+ * Each order is transitioned independently; illegal transitions and other
+ * failures are reported per order, so earlier changes are never lost
+ */
+export async function POST(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const admin = await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = bulkStatusSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid bulk status data", 400, parsed.error.flatten());
+    }
+
+    const { orderIds, status, note } = parsed.data;
+
+    const results: {
+      orderId: string;
+      status: "success" | "error";
+      reason?: string;
+    }[] = [];
+
+    for (const orderId of new Set(orderIds)) {
+      try {
+        await prisma.$transaction((tx) =>
+          transitionOrderStatus(tx, orderId, status, {
+            actorId: admin.id,
+            note,
+            manual: true,
+          })
+        );
+        results.push({ orderId, status: "success" });
+      } catch (err: unknown) {
+        const message = (err as { message?: string }).message ?? "";
+        if (message === "ORDER_NOT_FOUND") {
+          results.push({ orderId, status: "error", reason: "Order not found" });
+        } else if (message.startsWith("INVALID_TRANSITION")) {
+          const [, from, to] = message.split(":");
+          results.push({
+            orderId,
+            status: "error",
+            reason: `Cannot change order status from ${from} to ${to}`,
+          });
+        } else if (message === "ORDER_NOT_REFUNDED") {
+          results.push({
+            orderId,
+            status: "error",
+            reason: "Refund the order to cancel it",
+          });
+        } else {
+          console.error(`Bulk status change failed for order ${orderId}:`, err);
+          results.push({
+            orderId,
+            status: "error",
+            reason: "Failed to update order status",
+          });
+        }
+      }
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        updated: results.filter((r) => r.status === "success").length,
+        total: results.length,
+        errors: results.filter((r) => r.status === "error"),
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("POST /api/admin/orders/bulk-status error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to update orders", 500);
+  }
+}
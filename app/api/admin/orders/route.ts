@@ -0,0 +1,227 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+const MAX_EXPORT_ROWS = 5000;
+
+const orderStatusEnum = z.enum([
+  "PENDING_APPROVAL",
+  "CREATED",
+  "PAID",
+  "SHIPPED",
+  "DELIVERED",
+  "CANCELLED",
+]);
+
+const listQuerySchema = z.object({
+  status: orderStatusEnum.optional(),
+  paymentStatus: z.string().optional(),
+  buyer: z.string().optional(), // buyer id, email, name or company
+  poNumber: z.string().optional(),
+  from: z.coerce.date().optional(),
+  // A date without a time (e.g. 2026-10-19) includes that whole day
+  to: z.union([z.iso.date(), z.coerce.date()]).optional(),
+  minTotalCents: z.coerce.number().int().nonnegative().optional(),
+  maxTotalCents: z.coerce.number().int().nonnegative().optional(),
+  sortBy: z.enum(["createdAt", "updatedAt", "totalCents"]).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+type ListQuery = z.infer<typeof listQuerySchema>;
+
+// Upper bound of the created date range: up to the end of the day when `to`
+// is a date only
+function endOfRange(to: string | Date): Prisma.DateTimeFilter {
+  if (to instanceof Date) return { lte: to };
+  const nextDay = new Date(to);
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+  return { lt: nextDay };
+}
+
+function buildWhere(query: ListQuery): Prisma.OrderWhereInput {
+  const where: Prisma.OrderWhereInput = {};
+
+  if (query.status) where.status = query.status;
+  if (query.paymentStatus) {
+    // "PENDING" matches orders that have no payment status recorded yet
+    where.paymentStatus =
+      query.paymentStatus === "PENDING" ? null : query.paymentStatus;
+  }
+  if (query.poNumber) {
+    where.poNumber = { contains: query.poNumber, mode: "insensitive" };
+  }
+  if (query.buyer) {
+    where.OR = [
+      { buyerId: query.buyer },
+      { buyer: { email: { contains: query.buyer, mode: "insensitive" } } },
+      { buyer: { firstName: { contains: query.buyer, mode: "insensitive" } } },
+      { buyer: { lastName: { contains: query.buyer, mode: "insensitive" } } },
+      { company: { name: { contains: query.buyer, mode: "insensitive" } } },
+    ];
+  }
+  if (query.from || query.to) {
+    where.createdAt = {
+      ...(query.from && { gte: query.from }),
+      ...(query.to && endOfRange(query.to)),
+    };
+  }
+  if (query.minTotalCents !== undefined || query.maxTotalCents !== undefined) {
+    where.totalCents = {
+      ...(query.minTotalCents !== undefined && { gte: query.minTotalCents }),
+      ...(query.maxTotalCents !== undefined && { lte: query.maxTotalCents }),
+    };
+  }
+
+  return where;
+}
+
+// Buyer-entered text (names, company, PO number) starting with =, +, - or @
+// would open as a formula in a spreadsheet, so it is prefixed with '
+function csvCell(value: unknown) {
+  let str = value === null || value === undefined ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(str)) str = `'${str}`;
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * GET /api/admin/orders
+ * List all buyers' orders with filters, sorting and cursor pagination (admin only)
+ * ?format=csv exports every matching order (up to 5000) as a CSV file
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const url = new URL(req.url);
+    const parsed = listQuerySchema.safeParse(
+      Object.fromEntries(
+        [...url.searchParams.entries()].filter(([, v]) => v !== "")
+      )
+    );
+
+    if (!parsed.success) {
+      return jsonError("Invalid query parameters", 400, parsed.error.flatten());
+    }
+
+    const query = parsed.data;
+    const where = buildWhere(query);
+    // Tie-break on id so the cursor position is stable
+    const orderBy: Prisma.OrderOrderByWithRelationInput[] = [
+      { [query.sortBy]: query.sortOrder },
+      { id: query.sortOrder },
+    ];
+
+    if (query.format === "csv") {
+      const orders = await prisma.order.findMany({
+        where,
+        orderBy,
+        take: MAX_EXPORT_ROWS,
+        include: {
+          buyer: { select: { email: true, firstName: true, lastName: true } },
+          company: { select: { name: true } },
+          _count: { select: { lines: true } },
+        },
+      });
+
+      const header = [
+        "orderId",
+        "createdAt",
+        "status",
+        "paymentStatus",
+        "buyerEmail",
+        "buyerName",
+        "company",
+        "poNumber",
+        "lines",
+        "subtotal",
+        "tax",
+        "shipping",
+        "total",
+      ];
+      const rows = orders.map((o) =>
+        [
+          o.id,
+          o.createdAt.toISOString(),
+          o.status,
+          o.paymentStatus ?? "PENDING",
+          o.buyer.email,
+          [o.buyer.firstName, o.buyer.lastName].filter(Boolean).join(" "),
+          o.company?.name,
+          o.poNumber,
+          o._count.lines,
+          (o.subtotalCents / 100).toFixed(2),
+          (o.taxCents / 100).toFixed(2),
+          (o.shippingCents / 100).toFixed(2),
+          (o.totalCents / 100).toFixed(2),
+        ]
+          .map(csvCell)
+          .join(",")
+      );
+
+      return new NextResponse([header.join(","), ...rows].join("\n"), {
+        status: 200,
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="orders-${
+            new Date().toISOString().split("T")[0]
+          }.csv"`,
+        },
+      });
+    }
+
+    const [orders, total] = await Promise.all([
+      prisma.order.findMany({
+        where,
+        orderBy,
+        take: query.limit + 1,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+        include: {
+          buyer: {
+            select: {
+              id: true,
+              email: true,
+              firstName: true,
+              lastName: true,
+              company: true,
+            },
+          },
+          company: { select: { id: true, name: true } },
+          _count: { select: { lines: true } },
+        },
+      }),
+      prisma.order.count({ where }),
+    ]);
+
+    const hasMore = orders.length > query.limit;
+    const data = hasMore ? orders.slice(0, query.limit) : orders;
+
+    return NextResponse.json(
+      {
+        success: true,
+        data,
+        pagination: {
+          limit: query.limit,
+          total,
+          nextCursor: hasMore ? data[data.length - 1].id : null,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/orders error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch orders", 500);
+  }
+}
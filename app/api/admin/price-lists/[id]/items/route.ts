@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+const upsertItemSchema = z
+  .object({
+    productId: z.string().optional(),
+    sku: z.string().optional(),
+    priceCents: z.number().int().positive(),
+  })
+  .refine((d) => d.productId || d.sku, {
+    message: "Provide productId or sku",
+  });
+
+const deleteItemSchema = z.object({
+  productId: z.string().min(1),
+});
+
+/**
+ * PUT /api/admin/price-lists/[id]/items
+ * Set the contract price of a product in a price list (admin only)
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: priceListId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = upsertItemSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid price data", 400, parsed.error.flatten());
+    }
+
+    const { productId, sku, priceCents } = parsed.data;
+
+    const priceList = await prisma.priceList.findUnique({
+      where: { id: priceListId },
+    });
+    if (!priceList) return jsonError("Price list not found", 404);
+
+    const product = await prisma.product.findUnique({
+      where: productId ? { id: productId } : { sku: sku! },
+    });
+    if (!product) return jsonError("Product not found", 404);
+
+    const item = await prisma.priceListItem.upsert({
+      where: {
+        priceListId_productId: { priceListId, productId: product.id },
+      },
+      create: { priceListId, productId: product.id, priceCents },
+      update: { priceCents },
+      include: {
+        product: {
+          select: { id: true, name: true, sku: true, priceCents: true },
+        },
+      },
+    });
+
+    return NextResponse.json({ success: true, data: item }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("PUT /api/admin/price-lists/[id]/items error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to save price", 500);
+  }
+}
+
+/**
+ * DELETE /api/admin/price-lists/[id]/items
+ * Remove a product override; the product falls back to its list price (admin only)
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: priceListId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = deleteItemSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid body", 400, parsed.error.flatten());
+    }
+
+    const { count } = await prisma.priceListItem.deleteMany({
+      where: { priceListId, productId: parsed.data.productId },
+    });
+    if (count === 0) return jsonError("Price not found", 404);
+
+    return NextResponse.json(
+      { success: true, message: "Price removed" },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("DELETE /api/admin/price-lists/[id]/items error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to remove price", 500);
+  }
+}
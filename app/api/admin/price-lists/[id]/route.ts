@@ -0,0 +1,151 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+const updatePriceListSchema = z.object({
+  name: z.string().min(1).optional(),
+  validFrom: z.coerce.date().optional().nullable(),
+  validTo: z.coerce.date().optional().nullable(),
+});
+
+/**
+ * GET /api/admin/price-lists/[id]
+ * Price list with its product overrides (admin only)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const priceList = await prisma.priceList.findUnique({
+      where: { id },
+      include: {
+        buyer: {
+          select: { id: true, email: true, firstName: true, lastName: true },
+        },
+        company: { select: { id: true, name: true } },
+        items: {
+          include: {
+            product: {
+              select: { id: true, name: true, sku: true, priceCents: true },
+            },
+          },
+          orderBy: { product: { name: "asc" } },
+        },
+      },
+    });
+
+    if (!priceList) return jsonError("Price list not found", 404);
+
+    return NextResponse.json(
+      { success: true, data: priceList },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/price-lists/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch price list", 500);
+  }
+}
+
+/**
+ * PUT /api/admin/price-lists/[id]
+ * Rename a price list or change its effective dates (admin only)
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = updatePriceListSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid price list data", 400, parsed.error.flatten());
+    }
+
+    const existing = await prisma.priceList.findUnique({ where: { id } });
+    if (!existing) return jsonError("Price list not found", 404);
+
+    const validFrom =
+      parsed.data.validFrom !== undefined
+        ? parsed.data.validFrom
+        : existing.validFrom;
+    const validTo =
+      parsed.data.validTo !== undefined
+        ? parsed.data.validTo
+        : existing.validTo;
+    if (validFrom && validTo && validFrom > validTo) {
+      return jsonError("validFrom must be before validTo", 400);
+    }
+
+    const priceList = await prisma.priceList.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    return NextResponse.json(
+      { success: true, data: priceList },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("PUT /api/admin/price-lists/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to update price list", 500);
+  }
+}
+
+/**
+ * DELETE /api/admin/price-lists/[id]
+ * Delete a price list and its overrides (admin only)
+ * Prices already in carts and orders are kept
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const existing = await prisma.priceList.findUnique({ where: { id } });
+    if (!existing) return jsonError("Price list not found", 404);
+
+    await prisma.priceList.delete({ where: { id } });
+
+    return NextResponse.json(
+      { success: true, message: "Price list deleted" },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("DELETE /api/admin/price-lists/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to delete price list", 500);
+  }
+}
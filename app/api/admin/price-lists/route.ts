@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+// A price list belongs to exactly one buyer (by email) or one company
+const createPriceListSchema = z
+  .object({
+    name: z.string().min(1),
+    buyerEmail: z.string().email().optional(),
+    companyId: z.string().optional(),
+    validFrom: z.coerce.date().optional().nullable(),
+    validTo: z.coerce.date().optional().nullable(),
+  })
+  .refine((d) => !!d.buyerEmail !== !!d.companyId, {
+    message: "Assign the price list to either a buyer or a company",
+  })
+  .refine((d) => !d.validFrom || !d.validTo || d.validFrom <= d.validTo, {
+    message: "validFrom must be before validTo",
+  });
+
+/**
+ * GET /api/admin/price-lists
+ * List all contract price lists (admin only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const priceLists = await prisma.priceList.findMany({
+      include: {
+        buyer: {
+          select: { id: true, email: true, firstName: true, lastName: true },
+        },
+        company: { select: { id: true, name: true } },
+        _count: { select: { items: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json(
+      { success: true, data: priceLists },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/price-lists error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch price lists", 500);
+  }
+}
+
+/**
+ * POST /api/admin/price-lists
+ * Create a price list for a buyer or a company (admin only)
+ */
+export async function POST(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = createPriceListSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid price list data", 400, parsed.error.flatten());
+    }
+
+    const { name, buyerEmail, companyId, validFrom, validTo } = parsed.data;
+
+    let buyerId: string | null = null;
+    if (buyerEmail) {
+      const buyer = await prisma.user.findUnique({
+        where: { email: buyerEmail },
+      });
+      if (!buyer) return jsonError("Buyer not found", 404);
+      buyerId = buyer.id;
+    }
+    if (companyId) {
+      const company = await prisma.company.findUnique({
+        where: { id: companyId },
+      });
+      if (!company) return jsonError("Company not found", 404);
+    }
+
+    const priceList = await prisma.priceList.create({
+      data: {
+        name,
+        buyerId,
+        companyId: companyId ?? null,
+        validFrom: validFrom ?? null,
+        validTo: validTo ?? null,
+      },
+    });
+
+    return NextResponse.json(
+      { success: true, data: priceList },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error("POST /api/admin/price-lists error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to create price list", 500);
+  }
+}
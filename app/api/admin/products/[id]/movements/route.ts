@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { platformStockSelect, summarizeStock } from "@/lib/inventory";
+
+const listQuerySchema = z.object({
+  reason: z
+    .enum([
+      "RESERVATION",
+      "SALE",
+      "CANCEL",
+      "ADJUSTMENT",
+      "RECEIPT",
+      "RETURN",
+      "REFUND",
+    ])
+    .optional(),
+  warehouseId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+/**
+ * GET /api/admin/products/[id]/movements
+ * A product's inventory ledger, newest first, with cursor pagination,
+ * optionally for one warehouse (admin only)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const url = new URL(req.url);
+    const parsed = listQuerySchema.safeParse(
+      Object.fromEntries(
+        [...url.searchParams.entries()].filter(([, v]) => v !== "")
+      )
+    );
+
+    if (!parsed.success) {
+      return jsonError("Invalid query parameters", 400, parsed.error.flatten());
+    }
+
+    const query = parsed.data;
+
+    const product = await prisma.product.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        sku: true,
+        name: true,
+        inventories: platformStockSelect,
+      },
+    });
+
+    if (!product) {
+      return jsonError("Product not found", 404);
+    }
+
+    const where: Prisma.InventoryMovementWhereInput = {
+      productId: id,
+      ...(query.reason && { reason: query.reason }),
+      ...(query.warehouseId && {
+        inventory: { warehouseId: query.warehouseId },
+      }),
+      ...((query.from || query.to) && {
+        createdAt: {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lte: query.to }),
+        },
+      }),
+    };
+
+    const [movements, total] = await Promise.all([
+      prisma.inventoryMovement.findMany({
+        where,
+        // Tie-break on id so the cursor position is stable
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: query.limit + 1,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+        include: {
+          actor: {
+            select: { id: true, email: true, firstName: true, lastName: true },
+          },
+          inventory: {
+            select: {
+              warehouse: { select: { id: true, code: true } },
+              supplier: { select: { id: true, name: true } },
+            },
+          },
+        },
+      }),
+      prisma.inventoryMovement.count({ where }),
+    ]);
+
+    const hasMore = movements.length > query.limit;
+    const data = hasMore ? movements.slice(0, query.limit) : movements;
+    const stock = summarizeStock(product.inventories);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data,
+        product: {
+          id: product.id,
+          sku: product.sku,
+          name: product.name,
+          currentStock: stock.currentStock,
+          reservedStock: stock.reservedStock,
+          availableStock: stock.availableStock,
+          stockByLocation: stock.locations,
+        },
+        pagination: {
+          limit: query.limit,
+          total,
+          nextCursor: hasMore ? data[data.length - 1].id : null,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/products/[id]/movements error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch inventory movements", 500);
+  }
+}
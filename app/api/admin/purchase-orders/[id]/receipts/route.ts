@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { receivePurchaseOrder } from "@/lib/purchase-orders";
+
+// Without items, everything still expected is received
+const receiveSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        lineId: z.string().min(1),
+        quantity: z.number().int().nonnegative(),
+      })
+    )
+    .min(1)
+    .optional(),
+  note: z.string().max(500).optional().nullable(),
+});
+
+/**
+ * POST /api/admin/purchase-orders/[id]/receipts
+ * Receive a full or partial delivery of an ordered purchase order: the
+ * stock is put on hand at its warehouse and logged as RECEIPT movements
+ * (admin only)
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const admin = await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = receiveSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid receipt data", 400, parsed.error.flatten());
+    }
+
+    const purchaseOrder = await prisma.$transaction((tx) =>
+      receivePurchaseOrder(tx, id, { ...parsed.data, actorId: admin.id })
+    );
+
+    return NextResponse.json(
+      { success: true, data: purchaseOrder },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error(
+      "POST /api/admin/purchase-orders/[id]/receipts error:",
+      error
+    );
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    if (err.message === "PURCHASE_ORDER_NOT_FOUND") {
+      return jsonError("Purchase order not found", 404);
+    }
+    if (err.message?.startsWith("PURCHASE_ORDER_NOT_RECEIVABLE")) {
+      const status = err.message.split(":")[1];
+      return jsonError(`Cannot receive a ${status} purchase order`, 409);
+    }
+    if (err.message?.startsWith("INVALID_LINE")) {
+      return jsonError("Line not found on this purchase order", 400);
+    }
+    if (err.message?.startsWith("QUANTITY_EXCEEDED")) {
+      const productName = err.message.split(":")[1];
+      return jsonError(
+        `Cannot receive more ${productName} than was ordered`,
+        400
+      );
+    }
+    if (err.message === "NOTHING_TO_RECEIVE") {
+      return jsonError("Enter a quantity to receive", 400);
+    }
+    return jsonError("Failed to receive purchase order", 500);
+  }
+}
@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { purchaseOrderLinesSchema } from "@/lib/validations";
+import {
+  formatPurchaseOrderNumber,
+  purchaseOrderInclude,
+  summarizePurchaseOrder,
+  updatePurchaseOrder,
+} from "@/lib/purchase-orders";
+
+const updatePurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1).optional(),
+  warehouseId: z.string().min(1).optional(),
+  notes: z.string().max(1000).optional().nullable(),
+  expectedAt: z.coerce.date().optional().nullable(),
+  lines: purchaseOrderLinesSchema.optional(),
+});
+
+/**
+ * GET /api/admin/purchase-orders/[id]
+ * Get a purchase order with its lines and the stock received against it
+ * (admin only)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const [purchaseOrder, receipts] = await Promise.all([
+      prisma.purchaseOrder.findUnique({
+        where: { id },
+        include: purchaseOrderInclude,
+      }),
+      // Deliveries received against it, one movement per product
+      prisma.inventoryMovement.findMany({
+        where: { referenceId: id, reason: "RECEIPT" },
+        orderBy: { createdAt: "asc" },
+        include: {
+          product: { select: { sku: true, name: true } },
+          actor: { select: { email: true } },
+        },
+      }),
+    ]);
+
+    if (!purchaseOrder) return jsonError("Purchase order not found", 404);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...purchaseOrder,
+          number: formatPurchaseOrderNumber(purchaseOrder.number),
+          ...summarizePurchaseOrder(purchaseOrder.lines),
+          receipts,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/purchase-orders/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch purchase order", 500);
+  }
+}
+
+/**
+ * PUT /api/admin/purchase-orders/[id]
+ * Edit a draft purchase order; sending lines replaces all of them
+ * (admin only)
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = updatePurchaseOrderSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError(
+        "Invalid purchase order data",
+        400,
+        parsed.error.flatten()
+      );
+    }
+
+    const purchaseOrder = await prisma.$transaction((tx) =>
+      updatePurchaseOrder(tx, id, parsed.data)
+    );
+
+    return NextResponse.json(
+      { success: true, data: purchaseOrder },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("PUT /api/admin/purchase-orders/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    if (err.message === "PURCHASE_ORDER_NOT_FOUND") {
+      return jsonError("Purchase order not found", 404);
+    }
+    if (err.message?.startsWith("PURCHASE_ORDER_NOT_EDITABLE")) {
+      const status = err.message.split(":")[1];
+      return jsonError(
+        `Only draft purchase orders can be edited (this one is ${status})`,
+        409
+      );
+    }
+    if (err.message === "SUPPLIER_NOT_FOUND") {
+      return jsonError("Supplier not found", 400);
+    }
+    if (err.message === "WAREHOUSE_NOT_FOUND") {
+      return jsonError("Warehouse not found", 400);
+    }
+    if (err.message === "PRODUCT_NOT_FOUND") {
+      return jsonError("Product not found", 400);
+    }
+    return jsonError("Failed to update purchase order", 500);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { transitionPurchaseOrder } from "@/lib/purchase-orders";
+
+// Receiving moves purchase orders on from ORDERED (see ../receipts)
+const updateStatusSchema = z.object({
+  status: z.enum(["ORDERED", "CANCELLED"]),
+});
+
+/**
+ * PUT /api/admin/purchase-orders/[id]/status
+ * Send a draft purchase order to its supplier, or cancel a purchase order
+ * that has not been fully received (admin only)
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = updateStatusSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid status", 400, parsed.error.flatten());
+    }
+
+    const purchaseOrder = await prisma.$transaction((tx) =>
+      transitionPurchaseOrder(tx, id, parsed.data.status)
+    );
+
+    return NextResponse.json(
+      { success: true, data: purchaseOrder },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("PUT /api/admin/purchase-orders/[id]/status error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    if (err.message === "PURCHASE_ORDER_NOT_FOUND") {
+      return jsonError("Purchase order not found", 404);
+    }
+    if (err.message === "EMPTY_PURCHASE_ORDER") {
+      return jsonError("Add at least one line before ordering", 400);
+    }
+    if (err.message?.startsWith("INVALID_TRANSITION")) {
+      const [, from, to] = err.message.split(":");
+      return jsonError(`Cannot change status from ${from} to ${to}`, 409);
+    }
+    return jsonError("Failed to update purchase order status", 500);
+  }
+}
@@ -0,0 +1,154 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { purchaseOrderLinesSchema } from "@/lib/validations";
+import {
+  createPurchaseOrder,
+  formatPurchaseOrderNumber,
+  purchaseOrderInclude,
+  summarizePurchaseOrder,
+} from "@/lib/purchase-orders";
+
+const listQuerySchema = z.object({
+  status: z
+    .enum(["DRAFT", "ORDERED", "PARTIALLY_RECEIVED", "RECEIVED", "CANCELLED"])
+    .optional(),
+  supplierId: z.string().optional(),
+  warehouseId: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1),
+  warehouseId: z.string().min(1),
+  notes: z.string().max(1000).optional().nullable(),
+  expectedAt: z.coerce.date().optional().nullable(),
+  lines: purchaseOrderLinesSchema,
+});
+
+/**
+ * GET /api/admin/purchase-orders
+ * Purchase orders to suppliers, newest first, with cursor pagination
+ * (admin only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const url = new URL(req.url);
+    const parsed = listQuerySchema.safeParse(
+      Object.fromEntries(
+        [...url.searchParams.entries()].filter(([, v]) => v !== "")
+      )
+    );
+
+    if (!parsed.success) {
+      return jsonError("Invalid query parameters", 400, parsed.error.flatten());
+    }
+
+    const query = parsed.data;
+    const where: Prisma.PurchaseOrderWhereInput = {
+      ...(query.status && { status: query.status }),
+      ...(query.supplierId && { supplierId: query.supplierId }),
+      ...(query.warehouseId && { warehouseId: query.warehouseId }),
+    };
+
+    const [purchaseOrders, total] = await Promise.all([
+      prisma.purchaseOrder.findMany({
+        where,
+        // Tie-break on id so the cursor position is stable
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: query.limit + 1,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+        include: purchaseOrderInclude,
+      }),
+      prisma.purchaseOrder.count({ where }),
+    ]);
+
+    const hasMore = purchaseOrders.length > query.limit;
+    const data = (
+      hasMore ? purchaseOrders.slice(0, query.limit) : purchaseOrders
+    ).map((purchaseOrder) => ({
+      ...purchaseOrder,
+      number: formatPurchaseOrderNumber(purchaseOrder.number),
+      ...summarizePurchaseOrder(purchaseOrder.lines),
+    }));
+
+    return NextResponse.json(
+      {
+        success: true,
+        data,
+        pagination: {
+          limit: query.limit,
+          total,
+          nextCursor: hasMore ? data[data.length - 1].id : null,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/purchase-orders error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch purchase orders", 500);
+  }
+}
+
+/**
+ * POST /api/admin/purchase-orders
+ * Draft a purchase order to a supplier for delivery to a warehouse
+ * (admin only)
+ */
+export async function POST(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const admin = await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = createPurchaseOrderSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError(
+        "Invalid purchase order data",
+        400,
+        parsed.error.flatten()
+      );
+    }
+
+    const purchaseOrder = await prisma.$transaction((tx) =>
+      createPurchaseOrder(tx, { ...parsed.data, actorId: admin.id })
+    );
+
+    return NextResponse.json(
+      { success: true, data: purchaseOrder },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error("POST /api/admin/purchase-orders error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    if (err.message === "SUPPLIER_NOT_FOUND") {
+      return jsonError("Supplier not found", 400);
+    }
+    if (err.message === "WAREHOUSE_NOT_FOUND") {
+      return jsonError("Warehouse not found", 400);
+    }
+    if (err.message === "PRODUCT_NOT_FOUND") {
+      return jsonError("Product not found", 400);
+    }
+    return jsonError("Failed to create purchase order", 500);
+  }
+}
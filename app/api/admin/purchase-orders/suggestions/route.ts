@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { getReorderSuggestions } from "@/lib/purchase-orders";
+
+const suggestionsQuerySchema = z.object({
+  warehouseId: z.string().min(1),
+});
+
+/**
+ * GET /api/admin/purchase-orders/suggestions?warehouseId=
+ * Low-stock products at a warehouse with the quantity to reorder, net of
+ * what open purchase orders will deliver (admin only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const url = new URL(req.url);
+    const parsed = suggestionsQuerySchema.safeParse(
+      Object.fromEntries(
+        [...url.searchParams.entries()].filter(([, v]) => v !== "")
+      )
+    );
+
+    if (!parsed.success) {
+      return jsonError("Invalid query parameters", 400, parsed.error.flatten());
+    }
+
+    const data = await getReorderSuggestions(prisma, parsed.data.warehouseId);
+
+    return NextResponse.json({ success: true, data }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("GET /api/admin/purchase-orders/suggestions error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch reorder suggestions", 500);
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { respondToQuote } from "@/lib/quotes";
+
+const respondSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("QUOTE"),
+    lines: z.array(
+      z.object({
+        lineId: z.string(),
+        unitPriceCents: z.number().int().positive(),
+      })
+    ),
+    expiresAt: z.coerce
+      .date()
+      .refine((date) => date > new Date(), "Expiry must be in the future"),
+    adminNotes: z.string().optional(),
+  }),
+  z.object({
+    action: z.literal("DECLINE"),
+    adminNotes: z.string().optional(),
+  }),
+]);
+
+/**
+ * POST /api/admin/quotes/[id]/respond
+ * Price a quote's lines with an expiry date, or decline it (admin only)
+ * REQUESTED/QUOTED -> QUOTED or DECLINED
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const admin = await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = respondSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid quote response", 400, parsed.error.flatten());
+    }
+
+    const quote = await prisma.$transaction((tx) =>
+      respondToQuote(tx, id, admin.id, parsed.data)
+    );
+
+    return NextResponse.json({ success: true, data: quote }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("POST /api/admin/quotes/[id]/respond error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    if (err.message === "QUOTE_NOT_FOUND") {
+      return jsonError("Quote not found", 404);
+    }
+    if (err.message?.startsWith("QUOTE_NOT_OPEN")) {
+      const status = err.message.split(":")[1];
+      return jsonError(`Quote is already ${status.toLowerCase()}`, 409);
+    }
+    if (err.message?.startsWith("INVALID_LINE")) {
+      return jsonError("Line does not belong to this quote", 400);
+    }
+    if (err.message?.startsWith("MISSING_LINE_PRICE")) {
+      const productName = err.message.split(":")[1];
+      return jsonError(`Enter a price for ${productName}`, 400);
+    }
+    return jsonError("Failed to respond to quote", 500);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { expireQuotes } from "@/lib/quotes";
+
+/**
+ * GET /api/admin/quotes/[id]
+ * Get a quote with its lines, the buyer and current stock (admin only)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    await expireQuotes(prisma);
+    const quote = await prisma.quote.findUnique({
+      where: { id },
+      include: {
+        buyer: {
+          select: { id: true, email: true, firstName: true, lastName: true },
+        },
+        company: { select: { id: true, name: true } },
+        respondedBy: {
+          select: { email: true, firstName: true, lastName: true },
+        },
+        order: { select: { id: true, status: true } },
+        lines: {
+          include: {
+            product: {
+              include: {
+                inventories: {
+                  where: { ownerType: "PLATFORM" },
+                  select: { quantity: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!quote) {
+      return jsonError("Quote not found", 404);
+    }
+
+    return NextResponse.json({ success: true, data: quote }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("GET /api/admin/quotes/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch quote", 500);
+  }
+}
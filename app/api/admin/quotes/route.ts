@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { expireQuotes } from "@/lib/quotes";
+
+const listQuerySchema = z.object({
+  status: z
+    .enum([
+      "REQUESTED",
+      "QUOTED",
+      "ACCEPTED",
+      "DECLINED",
+      "EXPIRED",
+      "CANCELLED",
+    ])
+    .optional(),
+});
+
+/**
+ * GET /api/admin/quotes
+ * List all quote requests, oldest first, optionally by status (admin only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const url = new URL(req.url);
+    const parsed = listQuerySchema.safeParse({
+      status: url.searchParams.get("status") || undefined,
+    });
+
+    if (!parsed.success) {
+      return jsonError("Invalid query parameters", 400, parsed.error.flatten());
+    }
+
+    await expireQuotes(prisma);
+    const quotes = await prisma.quote.findMany({
+      where: parsed.data.status ? { status: parsed.data.status } : {},
+      include: {
+        buyer: {
+          select: { email: true, firstName: true, lastName: true },
+        },
+        company: { select: { id: true, name: true } },
+        lines: {
+          select: {
+            quantity: true,
+            listUnitPriceCents: true,
+            quotedUnitPriceCents: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ success: true, data: quotes }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("GET /api/admin/quotes error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch quotes", 500);
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { formatReturnNumber, receiveReturn } from "@/lib/returns";
+
+// Lines left out are restocked
+const receiveSchema = z.object({
+  warehouseId: z.string().min(1).optional(), // default warehouse when omitted
+  lines: z
+    .array(
+      z.object({
+        lineId: z.string().min(1),
+        disposition: z.enum(["RESTOCK", "SCRAP"]),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * POST /api/admin/returns/[id]/receive
+ * Receive the goods of an approved return: each line is restocked at a
+ * warehouse (RETURN movements) or scrapped (admin only)
+ * APPROVED -> RECEIVED
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const admin = await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = receiveSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid receipt data", 400, parsed.error.flatten());
+    }
+
+    const returnRequest = await prisma.$transaction((tx) =>
+      receiveReturn(tx, id, { ...parsed.data, actorId: admin.id })
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...returnRequest,
+          number: formatReturnNumber(returnRequest.number),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("POST /api/admin/returns/[id]/receive error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    if (err.message === "RETURN_NOT_FOUND") {
+      return jsonError("Return not found", 404);
+    }
+    if (err.message?.startsWith("RETURN_NOT_RECEIVABLE")) {
+      const status = err.message.split(":")[1];
+      return jsonError(`Cannot receive a ${status.toLowerCase()} return`, 409);
+    }
+    if (err.message?.startsWith("INVALID_LINE")) {
+      return jsonError("Line not found on this return", 400);
+    }
+    if (err.message === "WAREHOUSE_NOT_FOUND") {
+      return jsonError("Warehouse not found", 400);
+    }
+    return jsonError("Failed to receive return", 500);
+  }
+}
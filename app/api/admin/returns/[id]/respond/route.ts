@@ -0,0 +1,149 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import {
+  getReturnRefundCents,
+  formatReturnNumber,
+  respondToReturn,
+} from "@/lib/returns";
+import { recordRefund } from "@/lib/refunds";
+import { getOrderPayment, refundPayment } from "@/lib/payments";
+
+const respondSchema = z.object({
+  action: z.enum(["APPROVE", "REJECT"]),
+  adminNotes: z.string().max(1000).optional(),
+});
+
+/**
+ * POST /api/admin/returns/[id]/respond
+ * Approve a return request, refunding its units and their tax through Stripe
+ * when the order was paid by card, or reject it (admin only). The refund
+ * counts toward the order's refunded amount (see lib/refunds.ts), and is
+ * capped at what is left of the order's total after earlier refunds.
+ * REQUESTED -> APPROVED or REJECTED
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const admin = await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = respondSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid return response", 400, parsed.error.flatten());
+    }
+
+    const { action, adminNotes } = parsed.data;
+
+    let refundId: string | null = null;
+    let recordsRefund = false;
+    if (action === "APPROVE") {
+      const returnRequest = await prisma.returnRequest.findUnique({
+        where: { id },
+        include: {
+          order: {
+            select: {
+              paymentMethod: true,
+              totalCents: true,
+              refundedCents: true,
+            },
+          },
+          lines: { include: { orderLine: true } },
+        },
+      });
+      if (!returnRequest) return jsonError("Return not found", 404);
+      if (returnRequest.status !== "REQUESTED") {
+        return jsonError(
+          `Return is already ${returnRequest.status.toLowerCase()}`,
+          409
+        );
+      }
+
+      // Refund the card payment (orders on account are settled on their
+      // invoice), keyed on the return so that a retry after a failed update
+      // does not refund twice
+      const { paymentMethod } = returnRequest.order;
+      const refundCents = getReturnRefundCents(returnRequest);
+      if (paymentMethod === "CARD" && refundCents > 0) {
+        try {
+          const payment = await getOrderPayment(returnRequest.orderId);
+          if (!payment) {
+            return jsonError("The order's card payment was not found", 409);
+          }
+
+          refundId = await refundPayment(payment, refundCents, {
+            metadata: {
+              orderId: returnRequest.orderId,
+              returnId: id,
+              returnNumber: formatReturnNumber(returnRequest.number),
+            },
+            idempotencyKey: `return-${id}`,
+          });
+        } catch (stripeError) {
+          console.error("[Stripe] Return refund failed:", stripeError);
+          return jsonError(
+            "The refund could not be issued, the return was not approved",
+            502
+          );
+        }
+      }
+      recordsRefund =
+        refundCents > 0 &&
+        (refundId !== null || paymentMethod === "ON_ACCOUNT");
+    }
+
+    const returnRequest = await prisma.$transaction(async (tx) => {
+      const returnRequest = await respondToReturn(
+        tx,
+        id,
+        admin.id,
+        action === "APPROVE"
+          ? { action, adminNotes, refundId }
+          : { action, adminNotes }
+      );
+      if (recordsRefund) {
+        await recordRefund(tx, returnRequest.orderId, {
+          amountCents: returnRequest.refundCents,
+          stripeRefundId: refundId,
+          reason: formatReturnNumber(returnRequest.number),
+          actorId: admin.id,
+        });
+      }
+      return returnRequest;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...returnRequest,
+          number: formatReturnNumber(returnRequest.number),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("POST /api/admin/returns/[id]/respond error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    if (err.message === "RETURN_NOT_FOUND") {
+      return jsonError("Return not found", 404);
+    }
+    if (err.message?.startsWith("RETURN_NOT_OPEN")) {
+      const status = err.message.split(":")[1];
+      return jsonError(`Return is already ${status.toLowerCase()}`, 409);
+    }
+    return jsonError("Failed to respond to return", 500);
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import {
+  getReturnRefundCents,
+  formatReturnNumber,
+  returnInclude,
+} from "@/lib/returns";
+
+/**
+ * GET /api/admin/returns/[id]
+ * A return request with its order and the stock movements of restocked
+ * units (admin only)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const returnRequest = await prisma.returnRequest.findUnique({
+      where: { id },
+      include: {
+        ...returnInclude,
+        order: {
+          select: {
+            id: true,
+            status: true,
+            paymentMethod: true,
+            paymentStatus: true,
+            totalCents: true,
+            refundedCents: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    if (!returnRequest) {
+      return jsonError("Return not found", 404);
+    }
+
+    // Units put back on hand, logged as RETURN movements referencing it
+    const movements = await prisma.inventoryMovement.findMany({
+      where: { referenceId: id, reason: "RETURN" },
+      orderBy: { createdAt: "asc" },
+      include: {
+        product: { select: { sku: true, name: true } },
+        actor: { select: { email: true } },
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...returnRequest,
+          number: formatReturnNumber(returnRequest.number),
+          // What approving it refunds, until it is approved
+          refundCents:
+            returnRequest.status === "REQUESTED"
+              ? getReturnRefundCents(returnRequest)
+              : returnRequest.refundCents,
+          movements,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/returns/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch return", 500);
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { formatReturnNumber, returnInclude } from "@/lib/returns";
+
+const listQuerySchema = z.object({
+  status: z.enum(["REQUESTED", "APPROVED", "RECEIVED", "REJECTED"]).optional(),
+  orderId: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+/**
+ * GET /api/admin/returns
+ * Return requests (RMA), newest first, with cursor pagination (admin only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const url = new URL(req.url);
+    const parsed = listQuerySchema.safeParse(
+      Object.fromEntries(
+        [...url.searchParams.entries()].filter(([, v]) => v !== "")
+      )
+    );
+
+    if (!parsed.success) {
+      return jsonError("Invalid query parameters", 400, parsed.error.flatten());
+    }
+
+    const query = parsed.data;
+    const where: Prisma.ReturnRequestWhereInput = {
+      ...(query.status && { status: query.status }),
+      ...(query.orderId && { orderId: query.orderId }),
+    };
+
+    const [returns, total] = await Promise.all([
+      prisma.returnRequest.findMany({
+        where,
+        // Tie-break on id so the cursor position is stable
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: query.limit + 1,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+        include: returnInclude,
+      }),
+      prisma.returnRequest.count({ where }),
+    ]);
+
+    const hasMore = returns.length > query.limit;
+    const data = (hasMore ? returns.slice(0, query.limit) : returns).map(
+      (returnRequest) => ({
+        ...returnRequest,
+        number: formatReturnNumber(returnRequest.number),
+      })
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data,
+        pagination: {
+          limit: query.limit,
+          total,
+          nextCursor: hasMore ? data[data.length - 1].id : null,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/returns error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch returns", 500);
+  }
+}
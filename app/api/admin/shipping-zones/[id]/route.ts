@@ -0,0 +1,152 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { shippingRatesSchema } from "@/lib/validations";
+
+const updateShippingZoneSchema = z.object({
+  name: z.string().min(1).optional(),
+  country: z
+    .string()
+    .regex(/^[A-Z]{2}$/)
+    .optional(),
+  regions: z.array(z.string().regex(/^[A-Z]{2}$/)).optional(),
+  postalPrefixes: z.array(z.string().min(1)).optional(),
+  rates: shippingRatesSchema.optional(), // replaces all rates when given
+});
+
+/**
+ * GET /api/admin/shipping-zones/[id]
+ * Shipping zone with its rate table (admin only)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const zone = await prisma.shippingZone.findUnique({
+      where: { id },
+      include: {
+        rates: { orderBy: [{ method: "asc" }, { minWeightGrams: "asc" }] },
+      },
+    });
+
+    if (!zone) return jsonError("Shipping zone not found", 404);
+
+    return NextResponse.json({ success: true, data: zone }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("GET /api/admin/shipping-zones/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch shipping zone", 500);
+  }
+}
+
+/**
+ * PUT /api/admin/shipping-zones/[id]
+ * Update a shipping zone; rates, when given, replace its whole rate table
+ * (admin only). Orders already placed keep their shipping price.
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = updateShippingZoneSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError(
+        "Invalid shipping zone data",
+        400,
+        parsed.error.flatten()
+      );
+    }
+
+    const existing = await prisma.shippingZone.findUnique({ where: { id } });
+    if (!existing) return jsonError("Shipping zone not found", 404);
+
+    const { rates, postalPrefixes, ...zoneData } = parsed.data;
+
+    const zone = await prisma.$transaction(async (tx) => {
+      if (rates) {
+        await tx.shippingRate.deleteMany({ where: { zoneId: id } });
+        await tx.shippingRate.createMany({
+          data: rates.map((rate) => ({ ...rate, zoneId: id })),
+        });
+      }
+
+      return tx.shippingZone.update({
+        where: { id },
+        data: {
+          ...zoneData,
+          ...(postalPrefixes && {
+            postalPrefixes: postalPrefixes.map((p) =>
+              p.replace(/\s+/g, "").toUpperCase()
+            ),
+          }),
+        },
+        include: { rates: true },
+      });
+    });
+
+    return NextResponse.json({ success: true, data: zone }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("PUT /api/admin/shipping-zones/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to update shipping zone", 500);
+  }
+}
+
+/**
+ * DELETE /api/admin/shipping-zones/[id]
+ * Delete a shipping zone and its rates (admin only)
+ * Buyers it covered fall back to a broader zone, or pickup only
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const existing = await prisma.shippingZone.findUnique({ where: { id } });
+    if (!existing) return jsonError("Shipping zone not found", 404);
+
+    await prisma.shippingZone.delete({ where: { id } });
+
+    return NextResponse.json(
+      { success: true, message: "Shipping zone deleted" },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("DELETE /api/admin/shipping-zones/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to delete shipping zone", 500);
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { shippingRatesSchema } from "@/lib/validations";
+
+// A zone covers a country, optionally narrowed to provinces/states and/or
+// postal code prefixes (e.g. "H2" for central Montreal)
+const createShippingZoneSchema = z.object({
+  name: z.string().min(1),
+  country: z.string().regex(/^[A-Z]{2}$/),
+  regions: z
+    .array(z.string().regex(/^[A-Z]{2}$/))
+    .optional()
+    .default([]),
+  postalPrefixes: z.array(z.string().min(1)).optional().default([]),
+  rates: shippingRatesSchema.optional().default([]),
+});
+
+/**
+ * GET /api/admin/shipping-zones
+ * List shipping zones with their rate tables (admin only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const zones = await prisma.shippingZone.findMany({
+      include: {
+        rates: { orderBy: [{ method: "asc" }, { minWeightGrams: "asc" }] },
+      },
+      orderBy: [{ country: "asc" }, { name: "asc" }],
+    });
+
+    return NextResponse.json({ success: true, data: zones }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("GET /api/admin/shipping-zones error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch shipping zones", 500);
+  }
+}
+
+/**
+ * POST /api/admin/shipping-zones
+ * Create a shipping zone with its rate table (admin only)
+ */
+export async function POST(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = createShippingZoneSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError(
+        "Invalid shipping zone data",
+        400,
+        parsed.error.flatten()
+      );
+    }
+
+    const { rates, postalPrefixes, ...zoneData } = parsed.data;
+
+    const zone = await prisma.shippingZone.create({
+      data: {
+        ...zoneData,
+        postalPrefixes: postalPrefixes.map((p) =>
+          p.replace(/\s+/g, "").toUpperCase()
+        ),
+        rates: { create: rates },
+      },
+      include: { rates: true },
+    });
+
+    return NextResponse.json({ success: true, data: zone }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("POST /api/admin/shipping-zones error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to create shipping zone", 500);
+  }
+}
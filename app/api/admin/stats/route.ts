@@ -1,15 +1,28 @@
 import { auth } from "@clerk/nextjs/server";
+import { OrderStatus } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
+import { availableStock } from "@/lib/inventory";
+import {
+  OPEN_PURCHASE_ORDER_STATUSES,
+  formatPurchaseOrderNumber,
+  summarizePurchaseOrder,
+} from "@/lib/purchase-orders";
+
+// Orders that were paid for, whether or not they have shipped since
+const PAID_ORDER_STATUSES: OrderStatus[] = ["PAID", "SHIPPED", "DELIVERED"];
 
 /**
  * GET /api/admin/stats
  * Get admin statistics including:
  * - Basic counts (products, categories, orders)
- * - Low stock products (inventory below threshold)
+ * - Low stock products per warehouse (available stock at or below threshold),
+ *   optionally for one warehouse (?warehouseId=)
  * - Order statistics by status
+ * - Open and overdue invoice balances (orders on account)
+ * - Purchase orders by status, and the open ones still to be received
  */
-export async function GET() {
+export async function GET(req: Request) {
   try {
     const { userId } = await auth();
 
@@ -33,40 +46,103 @@ export async function GET() {
       prisma.order.count(),
     ]);
 
-    // Get low stock products (inventory below lowThreshold)
-    const lowStockProducts = await prisma.product.findMany({
-      where: {
-        AND: [
-          {
-            inventories: {
-              some: {
-                ownerType: "PLATFORM",
-              },
-            },
+    // Get low stock per warehouse: available stock (on hand, less what unpaid
+    // orders reserve) at or below the location's threshold (the product's
+    // lowThreshold unless set for the location)
+    const warehouseId = new URL(req.url).searchParams.get("warehouseId");
+    const [warehouses, platformStock, openPurchaseOrders] = await Promise.all([
+      prisma.warehouse.findMany({
+        where: { isActive: true },
+        orderBy: [{ priority: "asc" }, { code: "asc" }],
+        select: { id: true, code: true, name: true },
+      }),
+      prisma.inventory.findMany({
+        where: { ownerType: "PLATFORM", warehouse: { isActive: true } },
+        include: {
+          product: {
+            select: { id: true, name: true, sku: true, lowThreshold: true },
           },
-        ],
-      },
-      include: {
-        inventories: {
-          where: { ownerType: "PLATFORM" },
-          select: { quantity: true },
+          warehouse: { select: { id: true, code: true, name: true } },
         },
-      },
-    });
+      }),
+      prisma.purchaseOrder.findMany({
+        where: { status: { in: OPEN_PURCHASE_ORDER_STATUSES } },
+        orderBy: [{ expectedAt: { sort: "asc", nulls: "last" } }],
+        include: {
+          supplier: { select: { id: true, name: true } },
+          warehouse: { select: { id: true, code: true, name: true } },
+          lines: true,
+        },
+      }),
+    ]);
 
-    const lowStock = lowStockProducts
-      .filter((product) => {
-        const currentStock = product.inventories[0]?.quantity ?? 0;
-        return currentStock <= product.lowThreshold;
-      })
-      .map((product) => ({
-        id: product.id,
-        name: product.name,
-        sku: product.sku,
-        currentStock: product.inventories[0]?.quantity ?? 0,
-        lowThreshold: product.lowThreshold,
+    // Units still expected per product and warehouse from open purchase orders
+    const onOrder = new Map<string, number>();
+    for (const purchaseOrder of openPurchaseOrders) {
+      for (const line of purchaseOrder.lines) {
+        const key = `${line.productId}:${purchaseOrder.warehouseId}`;
+        onOrder.set(
+          key,
+          (onOrder.get(key) ?? 0) +
+            Math.max(line.quantity - line.receivedQuantity, 0)
+        );
+      }
+    }
+
+    const stockLocations = platformStock.map((inventory) => ({
+      product: inventory.product,
+      warehouse: inventory.warehouse!,
+      onHand: inventory.quantity,
+      available: availableStock(inventory),
+      threshold: inventory.threshold ?? inventory.product.lowThreshold,
+    }));
+    // A product stocked at some warehouses has none at the others, which
+    // have no inventory row for it
+    const stocked = new Set(
+      platformStock.map(
+        (inventory) => `${inventory.productId}:${inventory.warehouseId}`
+      )
+    );
+    const products = new Map(
+      platformStock.map((inventory) => [inventory.productId, inventory.product])
+    );
+    for (const product of products.values()) {
+      for (const warehouse of warehouses) {
+        if (stocked.has(`${product.id}:${warehouse.id}`)) continue;
+        stockLocations.push({
+          product,
+          warehouse,
+          onHand: 0,
+          available: 0,
+          threshold: product.lowThreshold,
+        });
+      }
+    }
+
+    const lowStockAll = stockLocations
+      .filter((location) => location.available <= location.threshold)
+      .map((location) => ({
+        id: location.product.id,
+        name: location.product.name,
+        sku: location.product.sku,
+        currentStock: location.onHand,
+        availableStock: location.available,
+        lowThreshold: location.threshold,
+        warehouse: location.warehouse,
+        onOrder:
+          onOrder.get(`${location.product.id}:${location.warehouse.id}`) ?? 0,
       }))
-      .sort((a, b) => a.currentStock - b.currentStock);
+      .sort((a, b) => a.availableStock - b.availableStock);
+
+    const lowStock = warehouseId
+      ? lowStockAll.filter((item) => item.warehouse.id === warehouseId)
+      : lowStockAll;
+    const lowStockByLocation = warehouses.map((warehouse) => ({
+      ...warehouse,
+      lowStockCount: lowStockAll.filter(
+        (item) => item.warehouse.id === warehouse.id
+      ).length,
+    }));
 
     // Get order statistics by status
     const ordersByStatus = await prisma.order.groupBy({
@@ -75,6 +151,7 @@ export async function GET() {
     });
 
     const orderStats = {
+      PENDING_APPROVAL: 0,
       CREATED: 0,
       PAID: 0,
       SHIPPED: 0,
@@ -87,10 +164,71 @@ export async function GET() {
       orderStats[it.status as keyof typeof orderStats] = it._count;
     });
 
+    // Get receivables: open invoices, and those past their due date
+    const [openInvoices, overdueInvoices] = await Promise.all([
+      prisma.invoice.aggregate({
+        where: { status: "OPEN" },
+        _sum: { amountCents: true, paidCents: true },
+      }),
+      prisma.invoice.aggregate({
+        where: { status: "OPEN", dueAt: { lt: new Date() } },
+        _sum: { amountCents: true, paidCents: true },
+        _count: true,
+      }),
+    ]);
+
+    const receivables = {
+      openCents:
+        (openInvoices._sum.amountCents ?? 0) -
+        (openInvoices._sum.paidCents ?? 0),
+      overdueCents:
+        (overdueInvoices._sum.amountCents ?? 0) -
+        (overdueInvoices._sum.paidCents ?? 0),
+      overdueCount: overdueInvoices._count,
+    };
+
+    // Get purchasing: purchase orders by status, and the open ones (ordered,
+    // not fully received) soonest expected first; overdue once past expectedAt
+    const purchaseOrdersByStatus = await prisma.purchaseOrder.groupBy({
+      by: ["status"],
+      _count: true,
+    });
+
+    const purchaseOrderStats = {
+      DRAFT: 0,
+      ORDERED: 0,
+      PARTIALLY_RECEIVED: 0,
+      RECEIVED: 0,
+      CANCELLED: 0,
+    };
+
+    purchaseOrdersByStatus.forEach((item) => {
+      purchaseOrderStats[item.status] = item._count;
+    });
+
+    const now = new Date();
+    const openPurchaseOrderList = openPurchaseOrders.map((purchaseOrder) => ({
+      id: purchaseOrder.id,
+      number: formatPurchaseOrderNumber(purchaseOrder.number),
+      status: purchaseOrder.status,
+      supplier: purchaseOrder.supplier,
+      warehouse: purchaseOrder.warehouse,
+      orderedAt: purchaseOrder.orderedAt,
+      expectedAt: purchaseOrder.expectedAt,
+      overdue: !!purchaseOrder.expectedAt && purchaseOrder.expectedAt < now,
+      ...summarizePurchaseOrder(purchaseOrder.lines),
+    }));
+
+    const purchasing = {
+      purchaseOrderStats,
+      openPurchaseOrders: openPurchaseOrderList,
+      overdueCount: openPurchaseOrderList.filter((po) => po.overdue).length,
+    };
+
     // Get top customers (by number of paid orders)
     const topCustomers = await prisma.order.groupBy({
       by: ["buyerId"],
-      where: { status: "PAID" },
+      where: { status: { in: PAID_ORDER_STATUSES } },
       _count: true,
       orderBy: { _count: { buyerId: "desc" } },
       take: 5,
@@ -126,7 +264,7 @@ export async function GET() {
     const popularProducts = await prisma.orderLine.groupBy({
       by: ["productId"],
       where: {
-        order: { status: "PAID" },
+        order: { status: { in: PAID_ORDER_STATUSES } },
       },
       _sum: { quantity: true },
       _count: true,
@@ -163,8 +301,13 @@ export async function GET() {
       // Low stock alert
       lowStockCount: lowStock.length,
       lowStockProducts: lowStock,
+      lowStockByLocation,
       // Order statistics
       orderStats,
+      // Invoices on net terms
+      receivables,
+      // Purchase orders to suppliers
+      purchasing,
       // Top customers and popular products
       topCustomers: topCustomersWithNames,
       popularProducts: popularProductsWithDetails,
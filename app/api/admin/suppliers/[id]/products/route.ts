@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { setSupplierStock } from "@/lib/inventory";
+
+const supplierStockSchema = z.object({
+  sku: z.string().min(1),
+  quantity: z.number().int().nonnegative(),
+  stockNote: z.string().max(500).optional(),
+});
+
+/**
+ * PUT /api/admin/suppliers/[id]/products
+ * Add a product (by SKU) to a supplier's catalog or set its stock there
+ * (admin only). The change is recorded as an ADJUSTMENT movement.
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const admin = await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = supplierStockSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid stock data", 400, parsed.error.flatten());
+    }
+
+    const [supplier, product] = await Promise.all([
+      prisma.supplier.findUnique({ where: { id } }),
+      prisma.product.findUnique({ where: { sku: parsed.data.sku } }),
+    ]);
+    if (!supplier) return jsonError("Supplier not found", 404);
+    if (!product) return jsonError("Product not found", 404);
+
+    const inventory = await prisma.$transaction((tx) =>
+      setSupplierStock(
+        tx,
+        { productId: product.id, supplierId: id },
+        parsed.data.quantity,
+        { actorId: admin.id, note: parsed.data.stockNote || null }
+      )
+    );
+
+    return NextResponse.json(
+      { success: true, data: inventory },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("PUT /api/admin/suppliers/[id]/products error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    if (err.message?.startsWith("STOCK_BELOW_RESERVED")) {
+      const reserved = err.message.split(":")[1];
+      return jsonError(
+        `Stock cannot be set below the ${reserved} unit(s) reserved by unpaid orders`,
+        400
+      );
+    }
+    return jsonError("Failed to update supplier stock", 500);
+  }
+}
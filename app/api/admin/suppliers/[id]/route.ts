@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { availableStock } from "@/lib/inventory";
+
+const updateSupplierSchema = z.object({
+  name: z.string().min(1).optional(),
+  email: z.string().email().optional().nullable(),
+  phone: z.string().max(30).optional().nullable(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * GET /api/admin/suppliers/[id]
+ * A supplier with its catalog (stock per product) and portal users (admin
+ * only)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const supplier = await prisma.supplier.findUnique({
+      where: { id },
+      include: {
+        users: {
+          select: { id: true, email: true, firstName: true, lastName: true },
+          orderBy: { email: "asc" },
+        },
+        inventories: {
+          include: {
+            product: { select: { id: true, sku: true, name: true } },
+          },
+          orderBy: { product: { name: "asc" } },
+        },
+      },
+    });
+
+    if (!supplier) return jsonError("Supplier not found", 404);
+
+    const { inventories, ...rest } = supplier;
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...rest,
+          products: inventories.map((inventory) => ({
+            ...inventory.product,
+            quantity: inventory.quantity,
+            reserved: inventory.reserved,
+            available: availableStock(inventory),
+          })),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/suppliers/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch supplier", 500);
+  }
+}
+
+/**
+ * PUT /api/admin/suppliers/[id]
+ * Update a supplier (admin only). Suppliers are deactivated rather than
+ * deleted: an inactive supplier's stock cannot be ordered, but drop-ship
+ * orders already sent to it stay open.
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = updateSupplierSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid supplier data", 400, parsed.error.flatten());
+    }
+
+    const existing = await prisma.supplier.findUnique({ where: { id } });
+    if (!existing) return jsonError("Supplier not found", 404);
+
+    const supplier = await prisma.supplier.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    return NextResponse.json(
+      { success: true, data: supplier },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("PUT /api/admin/suppliers/[id] error:", error);
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return jsonError("A supplier with this name already exists", 409);
+    }
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to update supplier", 500);
+  }
+}
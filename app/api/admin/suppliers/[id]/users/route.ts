@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+const supplierUserSchema = z.object({
+  email: z.string().email(),
+});
+
+/**
+ * POST /api/admin/suppliers/[id]/users
+ * Give a registered user access to the supplier portal for this supplier
+ * (admin only). The user's role becomes SUPPLIER.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = supplierUserSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid user data", 400, parsed.error.flatten());
+    }
+
+    const [supplier, user] = await Promise.all([
+      prisma.supplier.findUnique({ where: { id } }),
+      prisma.user.findUnique({ where: { email: parsed.data.email } }),
+    ]);
+    if (!supplier) return jsonError("Supplier not found", 404);
+    if (!user) {
+      return jsonError("No user with this email has signed up yet", 404);
+    }
+    if (user.role === "ADMIN") {
+      return jsonError("Admins cannot be supplier users", 400);
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: { role: "SUPPLIER", supplierId: id },
+      select: { id: true, email: true, firstName: true, lastName: true },
+    });
+
+    return NextResponse.json({ success: true, data: updated }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("POST /api/admin/suppliers/[id]/users error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to add supplier user", 500);
+  }
+}
+
+/**
+ * DELETE /api/admin/suppliers/[id]/users?userId=
+ * Remove a user's supplier portal access; they become a buyer again (admin
+ * only)
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const userId = new URL(req.url).searchParams.get("userId");
+    if (!userId) return jsonError("userId is required", 400);
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, supplierId: id },
+      data: { role: "BUYER", supplierId: null },
+    });
+    if (count === 0) return jsonError("Supplier user not found", 404);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("DELETE /api/admin/suppliers/[id]/users error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to remove supplier user", 500);
+  }
+}
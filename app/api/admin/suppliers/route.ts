@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+const createSupplierSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email().optional().nullable(),
+  phone: z.string().max(30).optional().nullable(),
+});
+
+/**
+ * GET /api/admin/suppliers
+ * List drop-ship suppliers with their stock, portal users and drop-ship
+ * orders still to ship (admin only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const [suppliers, totals] = await Promise.all([
+      prisma.supplier.findMany({
+        orderBy: { name: "asc" },
+        include: {
+          _count: {
+            select: {
+              users: true,
+              inventories: true,
+              dropShipOrders: { where: { status: { not: "SHIPPED" } } },
+            },
+          },
+        },
+      }),
+      prisma.inventory.groupBy({
+        by: ["ownerId"],
+        where: { ownerType: "SUPPLIER" },
+        _sum: { quantity: true, reserved: true },
+      }),
+    ]);
+
+    const data = suppliers.map(({ _count, ...supplier }) => {
+      const total = totals.find((t) => t.ownerId === supplier.id);
+      return {
+        ...supplier,
+        productCount: _count.inventories,
+        userCount: _count.users,
+        openDropShipOrders: _count.dropShipOrders,
+        onHand: total?._sum.quantity ?? 0,
+        reserved: total?._sum.reserved ?? 0,
+      };
+    });
+
+    return NextResponse.json({ success: true, data }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("GET /api/admin/suppliers error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch suppliers", 500);
+  }
+}
+
+/**
+ * POST /api/admin/suppliers
+ * Create a drop-ship supplier (admin only)
+ */
+export async function POST(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = createSupplierSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid supplier data", 400, parsed.error.flatten());
+    }
+
+    const supplier = await prisma.supplier.create({ data: parsed.data });
+
+    return NextResponse.json(
+      { success: true, data: supplier },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error("POST /api/admin/suppliers error:", error);
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return jsonError("A supplier with this name already exists", 409);
+    }
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to create supplier", 500);
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { taxRateSchema } from "@/lib/validations";
+
+/**
+ * PUT /api/admin/tax-rates/[id]
+ * Update a tax rate (admin only)
+ * Orders already placed keep the taxes they were charged
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const existing = await prisma.taxRate.findUnique({ where: { id } });
+    if (!existing) return jsonError("Tax rate not found", 404);
+
+    // Validated whole, so that the region is checked against the country
+    const body = await req.json().catch(() => ({}));
+    const parsed = taxRateSchema.safeParse({
+      country: existing.country,
+      region: existing.region,
+      name: existing.name,
+      jurisdiction: existing.jurisdiction,
+      rate: existing.rate,
+      taxShipping: existing.taxShipping,
+      ...body,
+    });
+
+    if (!parsed.success) {
+      return jsonError("Invalid tax rate data", 400, parsed.error.flatten());
+    }
+
+    const rate = await prisma.taxRate.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    return NextResponse.json({ success: true, data: rate }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("PUT /api/admin/tax-rates/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to update tax rate", 500);
+  }
+}
+
+/**
+ * DELETE /api/admin/tax-rates/[id]
+ * Delete a tax rate (admin only)
+ * A province/state left without rates falls back to the country-wide ones
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const existing = await prisma.taxRate.findUnique({ where: { id } });
+    if (!existing) return jsonError("Tax rate not found", 404);
+
+    await prisma.taxRate.delete({ where: { id } });
+
+    return NextResponse.json(
+      { success: true, message: "Tax rate deleted" },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("DELETE /api/admin/tax-rates/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to delete tax rate", 500);
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { taxRateSchema } from "@/lib/validations";
+
+/**
+ * GET /api/admin/tax-rates
+ * List the tax rates charged by ship-to location (admin only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const rates = await prisma.taxRate.findMany({
+      orderBy: [
+        { country: "asc" },
+        { region: { sort: "asc", nulls: "first" } },
+        { jurisdiction: "asc" },
+        { name: "asc" },
+      ],
+    });
+
+    return NextResponse.json({ success: true, data: rates }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("GET /api/admin/tax-rates error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch tax rates", 500);
+  }
+}
+
+/**
+ * POST /api/admin/tax-rates
+ * Add a tax rate for a country, or for one of its provinces/states
+ * (admin only). Applies to carts and orders from then on.
+ */
+export async function POST(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = taxRateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid tax rate data", 400, parsed.error.flatten());
+    }
+
+    const rate = await prisma.taxRate.create({ data: parsed.data });
+
+    return NextResponse.json({ success: true, data: rate }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("POST /api/admin/tax-rates error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to create tax rate", 500);
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+const updateWarehouseSchema = z.object({
+  code: z
+    .string()
+    .regex(/^[A-Za-z0-9-]{2,10}$/)
+    .transform((code) => code.toUpperCase())
+    .optional(),
+  name: z.string().min(1).optional(),
+  country: z
+    .string()
+    .regex(/^[A-Z]{2}$/)
+    .optional(),
+  region: z
+    .string()
+    .regex(/^[A-Z]{2}$/)
+    .optional()
+    .nullable(),
+  postalCode: z.string().max(12).optional().nullable(),
+  priority: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * PUT /api/admin/warehouses/[id]
+ * Update a warehouse (admin only). Warehouses are deactivated rather than
+ * deleted so that their stock history is kept: an inactive warehouse gets no
+ * new orders and its stock cannot be ordered, but orders already allocated to
+ * it keep their reservations.
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = updateWarehouseSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid warehouse data", 400, parsed.error.flatten());
+    }
+
+    const existing = await prisma.warehouse.findUnique({ where: { id } });
+    if (!existing) return jsonError("Warehouse not found", 404);
+
+    const warehouse = await prisma.warehouse.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    return NextResponse.json(
+      { success: true, data: warehouse },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("PUT /api/admin/warehouses/[id] error:", error);
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return jsonError("A warehouse with this code already exists", 409);
+    }
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to update warehouse", 500);
+  }
+}
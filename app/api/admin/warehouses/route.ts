@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+// Orders are allocated to the nearest warehouse by country, province/state
+// and postal code (see lib/warehouses.ts)
+const createWarehouseSchema = z.object({
+  code: z
+    .string()
+    .regex(/^[A-Za-z0-9-]{2,10}$/)
+    .transform((code) => code.toUpperCase()),
+  name: z.string().min(1),
+  country: z.string().regex(/^[A-Z]{2}$/),
+  region: z
+    .string()
+    .regex(/^[A-Z]{2}$/)
+    .optional()
+    .nullable(),
+  postalCode: z.string().max(12).optional().nullable(),
+  priority: z.number().int().optional().default(0),
+});
+
+/**
+ * GET /api/admin/warehouses
+ * List warehouses with their total stock on hand and reserved (admin only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const [warehouses, totals] = await Promise.all([
+      prisma.warehouse.findMany({
+        orderBy: [{ priority: "asc" }, { code: "asc" }],
+      }),
+      prisma.inventory.groupBy({
+        by: ["warehouseId"],
+        where: { ownerType: "PLATFORM" },
+        _sum: { quantity: true, reserved: true },
+      }),
+    ]);
+
+    const data = warehouses.map((warehouse) => {
+      const total = totals.find((t) => t.warehouseId === warehouse.id);
+      return {
+        ...warehouse,
+        onHand: total?._sum.quantity ?? 0,
+        reserved: total?._sum.reserved ?? 0,
+      };
+    });
+
+    return NextResponse.json({ success: true, data }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("GET /api/admin/warehouses error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch warehouses", 500);
+  }
+}
+
+/**
+ * POST /api/admin/warehouses
+ * Create a warehouse; stock is added to it from the product pages (admin only)
+ */
+export async function POST(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = createWarehouseSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid warehouse data", 400, parsed.error.flatten());
+    }
+
+    const warehouse = await prisma.warehouse.create({ data: parsed.data });
+
+    return NextResponse.json(
+      { success: true, data: warehouse },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error("POST /api/admin/warehouses error:", error);
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return jsonError("A warehouse with this code already exists", 409);
+    }
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to create warehouse", 500);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { replayWebhookEvent } from "@/lib/stripe-webhooks";
+
+/**
+ * POST /api/admin/webhook-events/[id]/replay
+ * Apply a failed Stripe webhook event again from its logged payload
+ * (admin only). The event comes back PROCESSED, or FAILED with the error.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const webhookEvent = await replayWebhookEvent(id);
+
+    return NextResponse.json(
+      { success: true, data: webhookEvent },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("POST /api/admin/webhook-events/[id]/replay error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    if (err.message === "WEBHOOK_EVENT_NOT_FOUND") {
+      return jsonError("Webhook event not found", 404);
+    }
+    if (err.message?.startsWith("WEBHOOK_EVENT_NOT_REPLAYABLE")) {
+      const status = err.message.split(":")[1];
+      return jsonError(
+        `Cannot replay a webhook event with status ${status}`,
+        409
+      );
+    }
+    return jsonError("Failed to replay webhook event", 500);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+/**
+ * GET /api/admin/webhook-events/[id]
+ * A logged Stripe webhook event with its payload (admin only)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const webhookEvent = await prisma.webhookEvent.findUnique({
+      where: { id },
+    });
+
+    if (!webhookEvent) {
+      return jsonError("Webhook event not found", 404);
+    }
+
+    return NextResponse.json(
+      { success: true, data: webhookEvent },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/webhook-events/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch webhook event", 500);
+  }
+}
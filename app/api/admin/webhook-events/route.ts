@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireAdmin } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+const listQuerySchema = z.object({
+  status: z.enum(["PROCESSING", "PROCESSED", "IGNORED", "FAILED"]).optional(),
+  type: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+/**
+ * GET /api/admin/webhook-events
+ * Logged Stripe webhook events, newest first, with cursor pagination and
+ * without their payload (admin only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    await requireAdmin(req);
+
+    const url = new URL(req.url);
+    const parsed = listQuerySchema.safeParse(
+      Object.fromEntries(
+        [...url.searchParams.entries()].filter(([, v]) => v !== "")
+      )
+    );
+
+    if (!parsed.success) {
+      return jsonError("Invalid query parameters", 400, parsed.error.flatten());
+    }
+
+    const query = parsed.data;
+    const where: Prisma.WebhookEventWhereInput = {
+      ...(query.status && { status: query.status }),
+      ...(query.type && { type: query.type }),
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.webhookEvent.findMany({
+        where,
+        // Tie-break on id so the cursor position is stable
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: query.limit + 1,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+        select: {
+          id: true,
+          type: true,
+          status: true,
+          attempts: true,
+          error: true,
+          processedAt: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      }),
+      prisma.webhookEvent.count({ where }),
+    ]);
+
+    const hasMore = events.length > query.limit;
+    const data = hasMore ? events.slice(0, query.limit) : events;
+
+    return NextResponse.json(
+      {
+        success: true,
+        data,
+        pagination: {
+          limit: query.limit,
+          total,
+          nextCursor: hasMore ? data[data.length - 1].id : null,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/admin/webhook-events error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Admin access required", 403);
+    }
+    return jsonError("Failed to fetch webhook events", 500);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+/**
+ * GET /api/approvals
+ * Orders waiting for approval in companies the user owns
+ * (excluding the user's own orders, which another owner must approve)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const owned = await prisma.companyMember.findMany({
+      where: { userId: user.id, role: "OWNER" },
+      select: { companyId: true },
+    });
+
+    const orders = await prisma.order.findMany({
+      where: {
+        status: "PENDING_APPROVAL",
+        companyId: { in: owned.map((m) => m.companyId) },
+        buyerId: { not: user.id },
+      },
+      include: {
+        lines: { include: { product: { select: { name: true, sku: true } } } },
+        buyer: { select: { firstName: true, lastName: true, email: true } },
+        company: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ success: true, data: orders }, { status: 200 });
+  } catch (error) {
+    console.error("GET /api/approvals error:", error);
+    return jsonError("Failed to fetch approvals", 500);
+  }
+}
@@ -40,6 +40,11 @@ export async function GET(req: NextRequest) {
         firstName: true,
         lastName: true,
         email: true,
+        country: true,
+        region: true,
+        postalCode: true,
+        // set for SUPPLIER users (supplier portal)
+        supplier: { select: { id: true, name: true } },
       },
     });
 
@@ -3,18 +3,34 @@ import prisma from "@/lib/prisma";
 import { z } from "zod";
 import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
 import { jsonError } from "@/lib/utils";
+import { TAX_REGIONS } from "@/lib/tax-rates";
 
-const updateProfileSchema = z.object({
-  firstName: z.string().optional(),
-  lastName: z.string().optional(),
-  company: z.string().optional(),
-  phone: z.string().optional(),
-  address: z.string().optional(),
-});
+const updateProfileSchema = z
+  .object({
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    company: z.string().optional(),
+    phone: z.string().optional(),
+    address: z.string().optional(),
+    // Shipping location used for tax: ISO country and province/state codes
+    country: z.string().regex(/^[A-Z]{2}$/).optional(),
+    region: z.string().regex(/^[A-Z]{2}$/).nullable().optional(),
+    // Postal/ZIP code, matched against shipping zone prefixes
+    postalCode: z.string().max(10).nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      !data.country ||
+      !data.region ||
+      !TAX_REGIONS[data.country] ||
+      data.region in TAX_REGIONS[data.country],
+    { message: "Unknown province or state", path: ["region"] }
+  );
 
 /**
  * PUT /api/auth/profile
- * Update user profile (firstName, lastName, company, phone, address)
+ * Update user profile (firstName, lastName, company, phone, address,
+ * country, region, postalCode)
  *
  * Email cannot be changed 
  */
@@ -59,6 +75,9 @@ export async function PUT(req: Request) {
           company: updatedUser.company,
           phone: updatedUser.phone,
           address: updatedUser.address,
+          country: updatedUser.country,
+          region: updatedUser.region,
+          postalCode: updatedUser.postalCode,
           role: updatedUser.role,
         },
       },
@@ -1,17 +1,26 @@
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import {
+  canPurchase,
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { cartScope, findOrCreateCart } from "@/lib/company";
 import {
   addCartItemSchema,
   updateCartItemSchema,
   deleteCartItemSchema,
 } from "@/lib/validations";
 import { jsonError } from "@/lib/utils";
+import { resolveUnitPrice } from "@/lib/pricing";
+import { validateOrderLines } from "@/lib/order-rules";
 
 
 /**
  * POST /api/cart/items
  * Add a product to the user's cart
+ * 400 with details.lineErrors when the new quantity breaks the product's ordering rules
  */
 export async function POST(req: Request) {
   try {
@@ -26,6 +35,10 @@ export async function POST(req: Request) {
     const user = await getOrCreateLocalUser(clerkId);
     if (!user) return jsonError("User mapping failed", 500);
 
+    const company = await getActiveCompany(req, user);
+    if (!canPurchase(company))
+      return jsonError("Viewers cannot edit the cart", 403);
+
     let product = null;
     if (parsed.data.productId) {
       product = await prisma.product.findUnique({
@@ -39,8 +52,7 @@ export async function POST(req: Request) {
     if (!product) return jsonError("Product not found", 404);
 
     const txResult = await prisma.$transaction(async (tx) => {
-      let cart = await tx.cart.findUnique({ where: { buyerId: user.id } });
-      if (!cart) cart = await tx.cart.create({ data: { buyerId: user.id } });
+      const cart = await findOrCreateCart(tx, user.id, company);
 
       const existing = await tx.cartItem.findUnique({
         where: {
@@ -48,30 +60,49 @@ export async function POST(req: Request) {
         },
       });
 
+      // Rules and pricing apply to the new line quantity
+      const quantity = (existing?.quantity ?? 0) + parsed.data.quantity;
+      const lineErrors = validateOrderLines([{ product: product!, quantity }]);
+      if (lineErrors.length > 0) return { lineErrors };
+
+      const unitPriceCents = await resolveUnitPrice(
+        tx,
+        { ...product!, quantity },
+        { buyerId: user.id, companyId: company?.id ?? null }
+      );
+
       if (existing) {
         await tx.cartItem.update({
           where: { id: existing.id },
-          data: { quantity: existing.quantity + parsed.data.quantity },
+          data: { quantity, unitPriceCents },
         });
       } else {
         await tx.cartItem.create({
           data: {
             cartId: cart.id,
-            productId: product.id,
-            quantity: parsed.data.quantity,
-            unitPriceCents: product.priceCents,
+            productId: product!.id,
+            quantity,
+            unitPriceCents,
           },
         });
       }
 
-      return tx.cart.findUnique({
-        where: { id: cart.id },
-        include: { items: { include: { product: true } } },
-      });
+      return {
+        cart: await tx.cart.findUnique({
+          where: { id: cart.id },
+          include: { items: { include: { product: true } } },
+        }),
+      };
     });
 
+    if ("lineErrors" in txResult) {
+      return jsonError("Quantity does not meet ordering rules", 400, {
+        lineErrors: txResult.lineErrors,
+      });
+    }
+
     return NextResponse.json(
-      { success: true, cart: txResult },
+      { success: true, cart: txResult.cart },
       { status: 200 }
     );
   } catch {
@@ -82,6 +113,7 @@ export async function POST(req: Request) {
 /**
  * PUT /api/cart/items
  * Update a cart item's quantity
+ * 400 with details.lineErrors when the quantity breaks the product's ordering rules
  */
 export async function PUT(req: Request) {
   try {
@@ -96,11 +128,17 @@ export async function PUT(req: Request) {
     const user = await getOrCreateLocalUser(clerkId);
     if (!user) return jsonError("User mapping failed", 500);
 
+    const company = await getActiveCompany(req, user);
+    if (!canPurchase(company))
+      return jsonError("Viewers cannot edit the cart", 403);
+
     const { itemId, productId, quantity } = parsed.data;
     if (quantity < 0) return jsonError("Quantity must be non-negative", 400);
 
     const txResult = await prisma.$transaction(async (tx) => {
-      const cart = await tx.cart.findUnique({ where: { buyerId: user.id } });
+      const cart = await tx.cart.findFirst({
+        where: cartScope(user.id, company),
+      });
       if (!cart) throw new Error("CART_NOT_FOUND");
 
       let item = null;
@@ -119,20 +157,39 @@ export async function PUT(req: Request) {
       if (quantity === 0) {
         await tx.cartItem.delete({ where: { id: item.id } });
       } else {
+        const product = await tx.product.findUniqueOrThrow({
+          where: { id: item.productId },
+        });
+        const lineErrors = validateOrderLines([{ product, quantity }]);
+        if (lineErrors.length > 0) return { lineErrors };
+
+        const unitPriceCents = await resolveUnitPrice(
+          tx,
+          { ...product, quantity },
+          { buyerId: user.id, companyId: company?.id ?? null }
+        );
         await tx.cartItem.update({
           where: { id: item.id },
-          data: { quantity },
+          data: { quantity, unitPriceCents },
         });
       }
 
-      return tx.cart.findUnique({
-        where: { id: cart.id },
-        include: { items: { include: { product: true } } },
-      });
+      return {
+        cart: await tx.cart.findUnique({
+          where: { id: cart.id },
+          include: { items: { include: { product: true } } },
+        }),
+      };
     });
 
+    if ("lineErrors" in txResult) {
+      return jsonError("Quantity does not meet ordering rules", 400, {
+        lineErrors: txResult.lineErrors,
+      });
+    }
+
     return NextResponse.json(
-      { success: true, cart: txResult },
+      { success: true, cart: txResult.cart },
       { status: 200 }
     );
   } catch (err: unknown) {
@@ -165,10 +222,16 @@ export async function DELETE(req: Request) {
     const user = await getOrCreateLocalUser(clerkId);
     if (!user) return jsonError("User mapping failed", 500);
 
+    const company = await getActiveCompany(req, user);
+    if (!canPurchase(company))
+      return jsonError("Viewers cannot edit the cart", 403);
+
     const { itemId, productId } = parsed.data;
 
     const txResult = await prisma.$transaction(async (tx) => {
-      const cart = await tx.cart.findUnique({ where: { buyerId: user.id } });
+      const cart = await tx.cart.findFirst({
+        where: cartScope(user.id, company),
+      });
       if (!cart) throw new Error("CART_NOT_FOUND");
 
       let item = null;
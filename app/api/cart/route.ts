@@ -1,13 +1,27 @@
 import { NextResponse } from "next/server";
 import { Prisma } from "@prisma/client";
 import prisma from "@/lib/prisma";
-import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import {
+  canPurchase,
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { cartScope, findOrCreateCart } from "@/lib/company";
 import { csvRowSchema, parseCsvLines } from "@/lib/validations";
 import { jsonError } from "@/lib/utils";
+import { resolveUnitPrices } from "@/lib/pricing";
+import { validateOrderLines, type LineError } from "@/lib/order-rules";
+import { calculateOrderTax, calculateShippingTax } from "@/lib/tax";
+import { getShippingOptions } from "@/lib/shipping";
+import { getOrderAddresses } from "@/lib/addresses";
 
 /** 
  * GET /api/cart
- * Get the user's cart
+ * Get the user's cart (shared by the active company, if any)
+ * with an estimate of the tax for the buyer's shipping location and the
+ * shipping methods (and their price and tax) available for the cart
+ * ?shippingAddressId= estimates for that address instead of the default one
  */
 export async function GET(req: Request) {
   try {
@@ -17,20 +31,75 @@ export async function GET(req: Request) {
     const user = await getOrCreateLocalUser(clerkId);
     if (!user) return jsonError("User mapping failed", 500);
 
-    let cart = await prisma.cart.findUnique({
-      where: { buyerId: user.id },
-      include: { items: { include: { product: true } } },
+    const company = await getActiveCompany(req, user);
+
+    // Volume tiers let the cart page show "add N more to save" hints
+    const include = {
+      items: {
+        include: {
+          product: {
+            include: {
+              priceTiers: { orderBy: { minQuantity: "asc" as const } },
+            },
+          },
+        },
+      },
+    };
+
+    let cart = await prisma.cart.findFirst({
+      where: cartScope(user.id, company),
+      include,
     });
 
     if (!cart) {
       cart = await prisma.cart.create({
-        data: { buyerId: user.id },
-        include: { items: { include: { product: true } } },
+        data: { buyerId: user.id, companyId: company?.id ?? null },
+        include,
       });
     }
 
-    return NextResponse.json({ success: true, data: cart }, { status: 200 });
-  } catch {
+    const shippingAddressId =
+      new URL(req.url).searchParams.get("shippingAddressId") || undefined;
+    const addresses = await getOrderAddresses(prisma, user.id, {
+      shippingAddressId,
+    });
+
+    const { taxCents, taxes, location, exemptionNumber, shippingComponents } =
+      await calculateOrderTax(prisma, {
+        companyId: company?.id ?? null,
+        lines: cart.items,
+        location: addresses.location,
+      });
+    const { options, weightGrams } = await getShippingOptions(prisma, {
+      lines: cart.items,
+      location: addresses.location,
+    });
+    const taxedOptions = options.map((option) => ({
+      ...option,
+      taxCents: calculateShippingTax(shippingComponents, option.priceCents)
+        .taxCents,
+    }));
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...cart,
+          tax: { taxCents, taxes, location, exemptionNumber },
+          shipping: {
+            options: taxedOptions,
+            weightGrams,
+            addressId: addresses.shipping?.id ?? null,
+          },
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    const err = error as { message?: string };
+    if (err.message === "ADDRESS_NOT_FOUND") {
+      return jsonError("Address not found", 404);
+    }
     return jsonError("Failed to get cart", 500);
   }
 }
@@ -38,6 +107,7 @@ export async function GET(req: Request) {
 /** 
  * POST /api/cart
  * Import cart items from a CSV file
+ * Rows whose product would break its ordering rules are reported with a lineError
  */
 export async function POST(req: Request) {
   try {
@@ -47,6 +117,10 @@ export async function POST(req: Request) {
     const user = await getOrCreateLocalUser(clerkUserId);
     if (!user) return jsonError("User mapping failed", 500);
 
+    const company = await getActiveCompany(req, user);
+    if (!canPurchase(company))
+      return jsonError("Viewers cannot edit the cart", 403);
+
     const formData = await req.formData();
     const file = formData.get("file") as File | null;
     if (!file) return jsonError("Missing file", 400);
@@ -113,11 +187,12 @@ export async function POST(req: Request) {
       line: number;
       status: "success" | "error";
       reason?: string;
+      lineError?: LineError;
     }[] = [];
     const rowsToApply: {
-      productId: string;
+      line: number;
+      product: (typeof products)[number];
       qty: number;
-      unitPriceCents: number;
     }[] = [];
 
     for (const r of validRows) {
@@ -130,11 +205,7 @@ export async function POST(req: Request) {
         });
         continue;
       }
-      rowsToApply.push({
-        productId: prod.id,
-        qty: r.qty,
-        unitPriceCents: prod.priceCents,
-      });
+      rowsToApply.push({ line: r.line, product: prod, qty: r.qty });
       results.push({ line: r.line, status: "success" });
     }
 
@@ -153,36 +224,80 @@ export async function POST(req: Request) {
     let txRes;
     try {
       txRes = await prisma.$transaction(async (tx) => {
-        let cart = await tx.cart.findUnique({ where: { buyerId: user.id } }); 
-        if (!cart) cart = await tx.cart.create({ data: { buyerId: user.id } });
+        const cart = await findOrCreateCart(tx, user.id, company);
 
+        const existingItems = await tx.cartItem.findMany({
+          where: { cartId: cart.id },
+        });
+        const existingByProduct = new Map(
+          existingItems.map((item) => [item.productId, item])
+        );
+
+        // Final quantity per product (rows for the same SKU add up)
+        const quantities = new Map<string, number>();
         for (const r of rowsToApply) {
-          const existing = await tx.cartItem.findUnique({
-            where: {
-              cartId_productId: { cartId: cart.id, productId: r.productId },
-            },
-          });
+          const current =
+            quantities.get(r.product.id) ??
+            existingByProduct.get(r.product.id)?.quantity ??
+            0;
+          quantities.set(r.product.id, current + r.qty);
+        }
+
+        const importedProducts = Array.from(
+          new Map(rowsToApply.map((r) => [r.product.id, r.product])).values()
+        );
+
+        // Ordering rules apply to the final quantity; products that break
+        // them are left as they were in the cart
+        const lineErrors = validateOrderLines(
+          importedProducts.map((p) => ({
+            product: p,
+            quantity: quantities.get(p.id)!,
+          }))
+        );
+        const rejected = new Set(lineErrors.map((e) => e.productId));
+        const acceptedProducts = importedProducts.filter(
+          (p) => !rejected.has(p.id)
+        );
+
+        // Price at the final quantity so volume tiers apply
+        const prices = await resolveUnitPrices(
+          tx,
+          acceptedProducts.map((p) => ({
+            ...p,
+            quantity: quantities.get(p.id)!,
+          })),
+          { buyerId: user.id, companyId: company?.id ?? null }
+        );
+
+        for (const product of acceptedProducts) {
+          const quantity = quantities.get(product.id)!;
+          const unitPriceCents = prices.get(product.id) ?? product.priceCents;
+          const existing = existingByProduct.get(product.id);
           if (existing) {
             await tx.cartItem.update({
               where: { id: existing.id },
-              data: { quantity: existing.quantity + r.qty },
+              data: { quantity, unitPriceCents },
             });
           } else {
             await tx.cartItem.create({
               data: {
                 cartId: cart.id,
-                productId: r.productId,
-                quantity: r.qty,
-                unitPriceCents: r.unitPriceCents,
+                productId: product.id,
+                quantity,
+                unitPriceCents,
               },
             });
           }
         }
 
-        return tx.cart.findUnique({
-          where: { id: cart.id },
-          include: { items: { include: { product: true } } },
-        });
+        return {
+          lineErrors,
+          cart: await tx.cart.findUnique({
+            where: { id: cart.id },
+            include: { items: { include: { product: true } } },
+          }),
+        };
       });
     } catch (err: unknown) {
       if (
@@ -194,13 +309,25 @@ export async function POST(req: Request) {
       throw err;
     }
 
+    const lineErrorByProduct = new Map(
+      txRes.lineErrors.map((e) => [e.productId, e])
+    );
+    for (const r of rowsToApply) {
+      const lineError = lineErrorByProduct.get(r.product.id);
+      const result = results.find((res) => res.line === r.line);
+      if (!lineError || !result) continue;
+      result.status = "error";
+      result.reason = lineError.violations.map((v) => v.message).join("; ");
+      result.lineError = { ...lineError, line: r.line };
+    }
+
     return NextResponse.json(
       {
         success: true,
         imported: results.filter((r) => r.status === "success").length,
         total: rawRows.length,
         errors: results.filter((r) => r.status === "error"),
-        cart: txRes,
+        cart: txRes.cart,
       },
       { status: 200 }
     );
@@ -8,6 +8,7 @@ const updateCategorySchema = z.object({
   name: z.string().min(1).optional(),
   slug: z.string().min(1).optional(),
   icon: z.string().optional().nullable(),
+  taxClass: z.enum(["STANDARD", "ZERO_RATED", "EXEMPT"]).optional(),
 });
 
 /**
@@ -8,6 +8,7 @@ const createCategorySchema = z.object({
   name: z.string().min(1),
   slug: z.string().min(1),
   icon: z.string().optional().nullable(),
+  taxClass: z.enum(["STANDARD", "ZERO_RATED", "EXEMPT"]).optional(),
 });
 
 /**
@@ -51,13 +52,14 @@ export async function POST(req: Request) {
       return jsonError("Invalid category data", 400, parsed.error.flatten());
     }
 
-    const { name, slug, icon } = parsed.data;
+    const { name, slug, icon, taxClass } = parsed.data;
 
     const category = await prisma.category.create({
       data: {
         name,
         slug,
         icon,
+        taxClass,
       },
     });
 
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { jsonError } from "@/lib/utils";
+import { getPaymentProvider } from "@/lib/payment-providers";
+import {
+  getFakeCheckoutSession,
+  simulateFakeCheckout,
+} from "@/lib/fake-payment-provider";
+import { handleStripeEvent } from "@/lib/stripe-webhooks";
+
+const simulateSchema = z.object({
+  outcome: z.enum([
+    "PAY",
+    "DECLINE",
+    "PAY_LATER",
+    "SETTLE",
+    "FAIL_SETTLEMENT",
+    "EXPIRE",
+  ]),
+});
+
+// The fake checkout stands in for the provider's hosted checkout page, so
+// it only exists while the fake provider is configured
+function isFakeProvider() {
+  try {
+    return getPaymentProvider().name === "fake";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * GET /api/checkout/fake/[sessionId]
+ * A checkout session of the fake payment provider (PAYMENT_PROVIDER=fake)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    if (!isFakeProvider()) return jsonError("Not found", 404);
+
+    return NextResponse.json(
+      { success: true, data: getFakeCheckoutSession(sessionId) },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/checkout/fake/[sessionId] error:", error);
+    const err = error as { message?: string };
+    if (err.message === "FAKE_SESSION_NOT_FOUND") {
+      return jsonError("Checkout session not found", 404);
+    }
+    return jsonError("Failed to fetch checkout session", 500);
+  }
+}
+
+/**
+ * POST /api/checkout/fake/[sessionId]
+ * Pay, decline or expire a fake checkout session, or settle its bank
+ * transfer, and deliver the webhook events Stripe would send for it to the
+ * webhook handler. Returns where the buyer goes next.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    if (!isFakeProvider()) return jsonError("Not found", 404);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = simulateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid outcome", 400, parsed.error.flatten());
+    }
+
+    const { events, redirectUrl } = simulateFakeCheckout(
+      sessionId,
+      parsed.data.outcome
+    );
+
+    const delivered = [];
+    for (const event of events) {
+      delivered.push({
+        id: event.id,
+        type: event.type,
+        result: await handleStripeEvent(event),
+      });
+    }
+
+    return NextResponse.json(
+      { success: true, data: { redirectUrl, events: delivered } },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("POST /api/checkout/fake/[sessionId] error:", error);
+    const err = error as { message?: string };
+    if (err.message === "FAKE_SESSION_NOT_FOUND") {
+      return jsonError("Checkout session not found", 404);
+    }
+    if (err.message?.startsWith("FAKE_OUTCOME_NOT_ALLOWED")) {
+      return jsonError("The checkout session cannot do that now", 409);
+    }
+    return jsonError("Failed to simulate payment", 500);
+  }
+}
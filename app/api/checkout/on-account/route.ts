@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { jsonError } from "@/lib/utils";
+import {
+  canPurchase,
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { isOwnedBy } from "@/lib/company";
+import { chargeOrderToAccount } from "@/lib/invoices";
+
+/**
+ * POST /api/checkout/on-account
+ * Pay for an order on the company's net terms instead of by card
+ * Issues an invoice with a due date and releases the order for fulfillment
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clerkId = await getClerkUserId(request);
+    if (!clerkId) {
+      return jsonError("Unauthorized", 401);
+    }
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) {
+      return jsonError("User not found", 404);
+    }
+
+    const { orderId } = await request.json().catch(() => ({}));
+
+    if (!orderId) {
+      return jsonError("Missing orderId", 400);
+    }
+
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+    if (!order) {
+      return jsonError("Order not found", 404);
+    }
+
+    // Verify order belongs to user (or to a company they purchase for)
+    const company = await getActiveCompany(request, user);
+    if (!isOwnedBy(order, user.id, company) || !canPurchase(company)) {
+      return jsonError("Unauthorized", 403);
+    }
+
+    if (order.status === "PENDING_APPROVAL") {
+      return jsonError("Order is awaiting approval", 409);
+    }
+
+    const invoice = await prisma.$transaction((tx) =>
+      chargeOrderToAccount(tx, orderId, user.id)
+    );
+
+    return NextResponse.json({ success: true, data: invoice }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("On-account checkout error:", error);
+    const err = error as { message?: string };
+    if (err.message === "ORDER_NOT_FOUND") {
+      return jsonError("Order not found", 404);
+    }
+    if (err.message?.startsWith("ORDER_NOT_PAYABLE")) {
+      const status = err.message.split(":")[1];
+      return jsonError(`Order cannot be paid (status ${status})`, 409);
+    }
+    if (err.message === "PAYMENT_PENDING") {
+      return jsonError("A card payment for this order is in progress", 409);
+    }
+    if (err.message === "NO_CREDIT_TERMS") {
+      return jsonError("This account is not approved for net terms", 403);
+    }
+    if (err.message?.startsWith("CREDIT_LIMIT_EXCEEDED")) {
+      const availableCents = Number(err.message.split(":")[1]);
+      return jsonError("Order exceeds the available credit", 409, {
+        availableCreditCents: availableCents,
+      });
+    }
+    return jsonError("Failed to place order on account", 500);
+  }
+}
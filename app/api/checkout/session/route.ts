@@ -1,17 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
-import Stripe from "stripe";
 import prisma from "@/lib/prisma";
 import { jsonError } from "@/lib/utils";
-import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: "2025-11-17.clover",
-});
+import {
+  canPurchase,
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { isOwnedBy } from "@/lib/company";
+import { extendReservations, getReservationExpiresAt } from "@/lib/inventory";
+import {
+  checkoutOrderInclude,
+  createCheckoutSession,
+  getOpenCheckoutSession,
+} from "@/lib/payments";
 
 /**
  * POST /api/checkout/session
- * Create Stripe Checkout Session for order
- * Redirects user to hosted Stripe Checkout page
+ * Create a checkout session for order with the payment provider
+ * Redirects user to the provider's hosted checkout page (Stripe Checkout)
+ * An order's open session is returned again instead of opening another
  */
 export async function POST(request: NextRequest) {
   try {
@@ -34,110 +42,83 @@ export async function POST(request: NextRequest) {
     // Get order from database
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: {
-        lines: { include: { product: true } },
-        buyer: true,
-      },
+      include: checkoutOrderInclude,
     });
 
     if (!order) {
       return jsonError("Order not found", 404);
     }
 
-    // Verify order belongs to user
-    if (order.buyerId !== user.id) {
+    // Verify order belongs to user (or to a company they purchase for)
+    const company = await getActiveCompany(request, user);
+    if (!isOwnedBy(order, user.id, company) || !canPurchase(company)) {
       return jsonError("Unauthorized", 403);
     }
 
-    // Get the origin for redirect URLs
-    const origin =
-      request.headers.get("origin") ||
-      process.env.NEXT_PUBLIC_APP_URL ||
-      "http://localhost:3000";
-
-    // Create line items for Stripe Checkout
-    const line_items: Stripe.Checkout.SessionCreateParams.LineItem[] =
-      order.lines.map((line) => ({
-        price_data: {
-          currency: "usd",
-          product_data: {
-            name: line.product.name,
-            description: line.product.description || undefined,
-            metadata: {
-              productId: line.product.id,
-              sku: line.product.sku,
-            },
-          },
-          unit_amount: line.unitPriceCents,
-        },
-        quantity: line.quantity,
-      }));
+    // Orders over a spending limit can only be paid once approved
+    if (order.status === "PENDING_APPROVAL") {
+      return jsonError("Order is awaiting approval", 409);
+    }
+    if (order.status !== "CREATED") {
+      return jsonError(`Order cannot be paid (status ${order.status})`, 409);
+    }
 
-    // Add tax line item
-    if (order.taxCents > 0) {
-      line_items.push({
-        price_data: {
-          currency: "usd",
-          product_data: {
-            name: "Tax (GST + QST)",
-          },
-          unit_amount: order.taxCents,
+    // Only one session at a time can take the order's payment
+    const openSession = await getOpenCheckoutSession(orderId);
+    if (openSession) {
+      return NextResponse.json(
+        {
+          success: true,
+          url: openSession.url,
+          sessionId: openSession.sessionId,
         },
-        quantity: 1,
-      });
+        { status: 200 }
+      );
     }
 
-    // Add shipping line item
-    if (order.shippingCents > 0) {
-      line_items.push({
-        price_data: {
-          currency: "usd",
-          product_data: {
-            name: "Shipping",
-          },
-          unit_amount: order.shippingCents,
-        },
-        quantity: 1,
-      });
+    // The session must be paid while the order's stock is reserved. Stripe
+    // sessions last 30 minutes to 24 hours, so a shorter remaining window is
+    // extended to the session's.
+    const reservedUntil = await getReservationExpiresAt(prisma, orderId);
+    const now = Date.now();
+    if (reservedUntil && reservedUntil.getTime() <= now) {
+      return jsonError("The order's reserved stock has been released", 409);
     }
+    const sessionExpiresAt = reservedUntil
+      ? new Date(
+          Math.min(
+            Math.max(reservedUntil.getTime(), now + 31 * 60_000),
+            now + 24 * 60 * 60_000
+          )
+        )
+      : null;
 
-    // Create Stripe Checkout Session
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ["card"],
-      line_items,
-      mode: "payment",
-      success_url: `${origin}/orders/${orderId}?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${origin}/checkout?canceled=true`,
-      customer_email: order.buyer?.email || undefined,
-      metadata: {
-        orderId: order.id,
-        buyerId: order.buyerId,
-      },
-      billing_address_collection: "required",
-    });
+    // Get the origin for redirect URLs
+    const origin =
+      request.headers.get("origin") ||
+      process.env.NEXT_PUBLIC_APP_URL ||
+      "http://localhost:3000";
 
-    if (!session.url) {
-      return jsonError("Failed to create checkout session", 500);
-    }
+    // Create the checkout session, recorded as a payment attempt
+    const session = await createCheckoutSession(order, {
+      origin,
+      expiresAt: sessionExpiresAt,
+    });
 
-    // Save session ID to order for later reference
-    try {
-      await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          paymentIntentId: session.id,
-        },
-      });
-    } catch {
-      // Continue without saving session ID
+    if (sessionExpiresAt) {
+      await extendReservations(prisma, orderId, sessionExpiresAt);
     }
 
     return NextResponse.json(
-      { success: true, url: session.url, sessionId: session.id },
+      { success: true, url: session.url, sessionId: session.sessionId },
       { status: 200 }
     );
-  } catch (error) {
+  } catch (error: unknown) {
     console.error("Checkout session creation error:", error);
+    const err = error as { message?: string };
+    if (err.message === "PAYMENT_PENDING") {
+      return jsonError("A payment for this order is being processed", 409);
+    }
     return jsonError("Failed to create checkout session", 500);
   }
 }
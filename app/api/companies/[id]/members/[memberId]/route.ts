@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { getMembership } from "@/lib/company";
+
+const updateMemberSchema = z.object({
+  role: z.enum(["OWNER", "PURCHASER", "VIEWER"]).optional(),
+  spendingLimitCents: z.number().int().nonnegative().nullable().optional(), // null = role default
+});
+
+/**
+ * PUT /api/companies/[id]/members/[memberId]
+ * Change a member's role or spending limit (OWNER only);
+ * a company always keeps one owner
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const { id: companyId, memberId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const membership = await getMembership(prisma, companyId, user.id);
+    if (!membership) return jsonError("Company not found", 404);
+    if (membership.role !== "OWNER") {
+      return jsonError("Only company owners can change members", 403);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = updateMemberSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid member data", 400, parsed.error.flatten());
+    }
+
+    const member = await prisma.companyMember.findUnique({
+      where: { id: memberId },
+    });
+    if (!member || member.companyId !== companyId) {
+      return jsonError("Member not found", 404);
+    }
+
+    const { role, spendingLimitCents } = parsed.data;
+
+    if (member.role === "OWNER" && role && role !== "OWNER") {
+      const owners = await prisma.companyMember.count({
+        where: { companyId, role: "OWNER" },
+      });
+      if (owners <= 1) {
+        return jsonError("A company must keep at least one owner", 400);
+      }
+    }
+
+    const updated = await prisma.companyMember.update({
+      where: { id: memberId },
+      data: { role, spendingLimitCents },
+    });
+
+    return NextResponse.json({ success: true, data: updated }, { status: 200 });
+  } catch (error) {
+    console.error("PUT /api/companies/[id]/members/[memberId] error:", error);
+    return jsonError("Failed to update member", 500);
+  }
+}
+
+/**
+ * DELETE /api/companies/[id]/members/[memberId]
+ * Remove a member (OWNER only, or a member leaving the company)
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const { id: companyId, memberId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const membership = await getMembership(prisma, companyId, user.id);
+    if (!membership) return jsonError("Company not found", 404);
+
+    const member = await prisma.companyMember.findUnique({
+      where: { id: memberId },
+    });
+    if (!member || member.companyId !== companyId) {
+      return jsonError("Member not found", 404);
+    }
+
+    if (membership.role !== "OWNER" && member.userId !== user.id) {
+      return jsonError("Only company owners can remove members", 403);
+    }
+
+    if (member.role === "OWNER") {
+      const owners = await prisma.companyMember.count({
+        where: { companyId, role: "OWNER" },
+      });
+      if (owners <= 1) {
+        return jsonError("A company must keep at least one owner", 400);
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.companyMember.delete({ where: { id: memberId } }),
+      prisma.user.updateMany({
+        where: { id: member.userId, activeCompanyId: companyId },
+        data: { activeCompanyId: null },
+      }),
+    ]);
+
+    return NextResponse.json(
+      { success: true, message: "Member removed" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(
+      "DELETE /api/companies/[id]/members/[memberId] error:",
+      error
+    );
+    return jsonError("Failed to remove member", 500);
+  }
+}
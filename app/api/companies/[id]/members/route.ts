@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { getMembership } from "@/lib/company";
+
+const addMemberSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(["OWNER", "PURCHASER", "VIEWER"]).default("PURCHASER"),
+});
+
+/**
+ * GET /api/companies/[id]/members
+ * List company members (any member)
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: companyId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const membership = await getMembership(prisma, companyId, user.id);
+    if (!membership) return jsonError("Company not found", 404);
+
+    const members = await prisma.companyMember.findMany({
+      where: { companyId },
+      include: {
+        user: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ success: true, data: members }, { status: 200 });
+  } catch (error) {
+    console.error("GET /api/companies/[id]/members error:", error);
+    return jsonError("Failed to fetch members", 500);
+  }
+}
+
+/**
+ * POST /api/companies/[id]/members
+ * Add an existing user to the company by email (OWNER only)
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: companyId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const membership = await getMembership(prisma, companyId, user.id);
+    if (!membership) return jsonError("Company not found", 404);
+    if (membership.role !== "OWNER") {
+      return jsonError("Only company owners can add members", 403);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = addMemberSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid member data", 400, parsed.error.flatten());
+    }
+
+    const { email, role } = parsed.data;
+
+    const invitee = await prisma.user.findUnique({ where: { email } });
+    if (!invitee) {
+      return jsonError("No user with this email has signed up yet", 404);
+    }
+
+    const existing = await getMembership(prisma, companyId, invitee.id);
+    if (existing) {
+      return jsonError("User is already a member of this company", 409);
+    }
+
+    const member = await prisma.companyMember.create({
+      data: { companyId, userId: invitee.id, role },
+      include: {
+        user: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+      },
+    });
+
+    return NextResponse.json({ success: true, data: member }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/companies/[id]/members error:", error);
+    return jsonError("Failed to add member", 500);
+  }
+}
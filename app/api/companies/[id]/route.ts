@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { getMembership } from "@/lib/company";
+
+const updateCompanySchema = z.object({
+  name: z.string().min(1).optional(),
+  purchaserSpendingLimitCents: z
+    .number()
+    .int()
+    .nonnegative()
+    .nullable()
+    .optional(), // null = no limit
+});
+
+/**
+ * PUT /api/companies/[id]
+ * Rename the company or set the default purchaser spending limit (OWNER only)
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: companyId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const membership = await getMembership(prisma, companyId, user.id);
+    if (!membership) return jsonError("Company not found", 404);
+    if (membership.role !== "OWNER") {
+      return jsonError("Only company owners can update the company", 403);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = updateCompanySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid company data", 400, parsed.error.flatten());
+    }
+
+    const company = await prisma.company.update({
+      where: { id: companyId },
+      data: parsed.data,
+    });
+
+    return NextResponse.json({ success: true, data: company }, { status: 200 });
+  } catch (error) {
+    console.error("PUT /api/companies/[id] error:", error);
+    return jsonError("Failed to update company", 500);
+  }
+}
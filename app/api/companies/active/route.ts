@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { getMembership } from "@/lib/company";
+
+const setActiveSchema = z.object({
+  companyId: z.string().min(1),
+});
+
+/**
+ * PUT /api/companies/active
+ * Switch the company the user is acting for
+ */
+export async function PUT(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = setActiveSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid company", 400, parsed.error.flatten());
+    }
+
+    const membership = await getMembership(
+      prisma,
+      parsed.data.companyId,
+      user.id
+    );
+    if (!membership) return jsonError("Company not found", 404);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { activeCompanyId: membership.companyId },
+    });
+
+    return NextResponse.json(
+      { success: true, data: { companyId: membership.companyId } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("PUT /api/companies/active error:", error);
+    return jsonError("Failed to switch company", 500);
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import {
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+
+const createCompanySchema = z.object({
+  name: z.string().min(1),
+});
+
+/**
+ * GET /api/companies
+ * List companies the user belongs to, with their role and the active company
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const [memberships, active] = await Promise.all([
+      prisma.companyMember.findMany({
+        where: { userId: user.id },
+        include: {
+          company: { include: { _count: { select: { members: true } } } },
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+      getActiveCompany(req, user),
+    ]);
+
+    const companies = memberships.map((m) => ({
+      id: m.company.id,
+      name: m.company.name,
+      role: m.role,
+      memberCount: m.company._count.members,
+      purchaserSpendingLimitCents: m.company.purchaserSpendingLimitCents,
+      spendingLimitCents: m.spendingLimitCents,
+      active: m.company.id === active?.id,
+    }));
+
+    return NextResponse.json(
+      { success: true, data: companies },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("GET /api/companies error:", error);
+    return jsonError("Failed to fetch companies", 500);
+  }
+}
+
+/**
+ * POST /api/companies
+ * Create a company; the creator becomes its OWNER and it becomes their active company
+ */
+export async function POST(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = createCompanySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid company data", 400, parsed.error.flatten());
+    }
+
+    const company = await prisma.$transaction(async (tx) => {
+      const newCompany = await tx.company.create({
+        data: {
+          name: parsed.data.name,
+          members: { create: { userId: user.id, role: "OWNER" } },
+        },
+      });
+
+      await tx.user.update({
+        where: { id: user.id },
+        data: { activeCompanyId: newCompany.id },
+      });
+
+      return newCompany;
+    });
+
+    return NextResponse.json({ success: true, data: company }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/companies error:", error);
+    return jsonError("Failed to create company", 500);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { cancelExpiredOrders } from "@/lib/orders";
+import { jsonError } from "@/lib/utils";
+
+/**
+ * GET /api/cron/release-reservations
+ * Sweeper: cancel unpaid orders whose stock reservation has expired, and
+ * orders not approved in time, and release their stock. Run it every few
+ * minutes from a scheduler (e.g. Vercel Cron) with
+ * `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return jsonError("Unauthorized", 401);
+  }
+
+  try {
+    const cancelled = await cancelExpiredOrders(prisma);
+
+    return NextResponse.json(
+      { success: true, data: { cancelledOrderIds: cancelled } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("GET /api/cron/release-reservations error:", error);
+    return jsonError("Failed to release expired reservations", 500);
+  }
+}
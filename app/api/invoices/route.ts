@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import {
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { getCreditAccount, isOverdue } from "@/lib/invoices";
+
+/**
+ * GET /api/invoices
+ * Net terms, open balance and invoices of the active company
+ * account is null when the user has no company
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const company = await getActiveCompany(req, user);
+    if (!company) {
+      return NextResponse.json(
+        { success: true, data: { account: null, invoices: [] } },
+        { status: 200 }
+      );
+    }
+
+    const [account, invoices] = await Promise.all([
+      getCreditAccount(prisma, company.id),
+      prisma.invoice.findMany({
+        where: { companyId: company.id },
+        include: {
+          order: { select: { id: true, poNumber: true, buyerId: true } },
+          payments: { orderBy: { receivedAt: "asc" } },
+        },
+        orderBy: { issuedAt: "desc" },
+      }),
+    ]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          account,
+          invoices: invoices.map((invoice) => ({
+            ...invoice,
+            overdue: isOverdue(invoice),
+          })),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("GET /api/invoices error:", error);
+    return jsonError("Failed to fetch invoices", 500);
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { decideApproval } from "@/lib/approvals";
+
+const approvalSchema = z.object({
+  decision: z.enum(["APPROVE", "REJECT"]),
+  comment: z.string().optional(),
+});
+
+/**
+ * POST /api/orders/[id]/approval
+ * Approve or reject an order waiting for approval (company owners)
+ * PENDING_APPROVAL -> CREATED (buyer can check out) or CANCELLED
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: orderId } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = approvalSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid approval data", 400, parsed.error.flatten());
+    }
+
+    const { decision, comment } = parsed.data;
+
+    const order = await prisma.$transaction((tx) =>
+      decideApproval(tx, orderId, user.id, decision, comment)
+    );
+
+    return NextResponse.json({ success: true, data: order }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("POST /api/orders/[id]/approval error:", error);
+    const err = error as { message?: string };
+    if (err.message === "ORDER_NOT_FOUND") {
+      return jsonError("Order not found", 404);
+    }
+    if (err.message === "NOT_APPROVER") {
+      return jsonError("You cannot approve this order", 403);
+    }
+    if (
+      err.message === "NOT_PENDING_APPROVAL" ||
+      err.message?.startsWith("INVALID_TRANSITION")
+    ) {
+      return jsonError("Order is not awaiting approval", 409);
+    }
+    return jsonError("Failed to record approval", 500);
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import {
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { isOwnedBy } from "@/lib/company";
+import { jsonError } from "@/lib/utils";
+import { assignInvoiceNumber, formatInvoiceNumber } from "@/lib/invoices";
+import { orderDocumentInclude, renderInvoicePdf } from "@/lib/order-documents";
+
+// Orders that have been paid or placed on account
+const INVOICEABLE_STATUSES = ["PAID", "SHIPPED", "DELIVERED"];
+
+/**
+ * GET /api/orders/[id]/invoice.pdf
+ * Invoice for a paid order, as a PDF (buyer or admin)
+ * The order gets its sequential invoice number on the first download
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: orderId } = await params;
+
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { buyerId: true, companyId: true, status: true },
+    });
+
+    if (!order) {
+      return jsonError("Order not found", 404);
+    }
+
+    // Buyer (or member of the ordering company) or admin
+    if (user.role !== "ADMIN") {
+      const company = await getActiveCompany(req, user);
+      if (!isOwnedBy(order, user.id, company)) {
+        return jsonError("Forbidden", 403);
+      }
+    }
+
+    if (!INVOICEABLE_STATUSES.includes(order.status)) {
+      return jsonError(`Order has not been paid (status ${order.status})`, 409);
+    }
+
+    const invoiceNumber = await prisma.$transaction((tx) =>
+      assignInvoiceNumber(tx, orderId)
+    );
+
+    const document = await prisma.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: orderDocumentInclude,
+    });
+    const pdf = await renderInvoicePdf(document);
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${formatInvoiceNumber(
+          invoiceNumber
+        )}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("GET /api/orders/[id]/invoice.pdf error:", error);
+    return jsonError("Failed to generate invoice", 500);
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import {
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { isOwnedBy } from "@/lib/company";
+import { jsonError } from "@/lib/utils";
+import {
+  orderDocumentInclude,
+  renderPackingSlipPdf,
+} from "@/lib/order-documents";
+
+/**
+ * GET /api/orders/[id]/packing-slip.pdf?shipmentId=
+ * Packing slip for an order, as a PDF (buyer or admin)
+ * Lists ordered/shipped/remaining quantities, or one shipment's items
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: orderId } = await params;
+    const shipmentId =
+      new URL(req.url).searchParams.get("shipmentId") || undefined;
+
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: orderDocumentInclude,
+    });
+
+    if (!order) {
+      return jsonError("Order not found", 404);
+    }
+
+    // Buyer (or member of the ordering company) or admin
+    if (user.role !== "ADMIN") {
+      const company = await getActiveCompany(req, user);
+      if (!isOwnedBy(order, user.id, company)) {
+        return jsonError("Forbidden", 403);
+      }
+    }
+
+    const pdf = await renderPackingSlipPdf(order, shipmentId);
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="packing-slip-${order.id.slice(
+          0,
+          8
+        )}.pdf"`,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("GET /api/orders/[id]/packing-slip.pdf error:", error);
+    const err = error as { message?: string };
+    if (err.message === "SHIPMENT_NOT_FOUND") {
+      return jsonError("Shipment not found", 404);
+    }
+    return jsonError("Failed to generate packing slip", 500);
+  }
+}
@@ -1,16 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import Stripe from "stripe";
 import prisma from "@/lib/prisma";
-import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import {
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { isOwnedBy } from "@/lib/company";
 import { jsonError } from "@/lib/utils";
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: "2025-11-17.clover",
-});
+import { reconcilePayment } from "@/lib/payments";
 
 /**
  * GET /api/orders/[id]/payment-status
- * Check payment status from Stripe (backup for webhook)
+ * Check payment status with the payment provider (backup for webhook)
  * Used when polling for payment confirmation
  */
 export async function GET(
@@ -32,9 +33,9 @@ export async function GET(
       select: {
         id: true,
         buyerId: true,
+        companyId: true,
         status: true,
         paymentStatus: true,
-        paymentIntentId: true,
       },
     });
 
@@ -43,7 +44,8 @@ export async function GET(
     }
 
     // Verify ownership
-    if (order.buyerId !== user.id) {
+    const company = await getActiveCompany(req, user);
+    if (!isOwnedBy(order, user.id, company)) {
       return jsonError("Forbidden", 403);
     }
 
@@ -60,47 +62,36 @@ export async function GET(
       );
     }
 
-    // If paymentIntentId exists, query Stripe for the session status
-    if (order.paymentIntentId && order.paymentIntentId.startsWith("cs_")) {
-      try {
-        const session = await stripe.checkout.sessions.retrieve(
-          order.paymentIntentId
-        );
-
-        // If Stripe says it's paid but our DB hasn't been updated, update it
-        if (session.payment_status === "paid") {
-          await prisma.order.update({
-            where: { id: orderId },
-            data: {
-              status: "PAID",
-              paymentStatus: "PAID",
-              paidAt: new Date(),
-            },
-          });
+    // Query the provider for the latest checkout session's status; if it says
+    // it's paid but our DB hasn't been updated, the payment is recorded
+    try {
+      const sessionStatus = await reconcilePayment(orderId);
 
-          return NextResponse.json(
-            {
-              success: true,
-              paymentStatus: "PAID",
-              updated: true,
-              message: "Order updated to PAID based on Stripe session status",
-            },
-            { status: 200 }
-          );
-        }
+      if (sessionStatus === "paid") {
+        return NextResponse.json(
+          {
+            success: true,
+            paymentStatus: "PAID",
+            updated: true,
+            message: "Order updated to PAID based on checkout session status",
+          },
+          { status: 200 }
+        );
+      }
 
+      if (sessionStatus) {
         return NextResponse.json(
           {
             success: true,
-            paymentStatus: session.payment_status,
+            paymentStatus: sessionStatus,
             updated: false,
-            message: `Session payment status: ${session.payment_status}`,
+            message: `Session payment status: ${sessionStatus}`,
           },
           { status: 200 }
         );
-      } catch {
-        // Fall through to return current status
       }
+    } catch {
+      // Fall through to return current status
     }
 
     return NextResponse.json(
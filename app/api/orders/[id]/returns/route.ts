@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import {
+  canPurchase,
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { isOwnedBy } from "@/lib/company";
+import { jsonError } from "@/lib/utils";
+import { createReturn, formatReturnNumber } from "@/lib/returns";
+
+const createReturnSchema = z.object({
+  reason: z.string().trim().min(1).max(1000),
+  lines: z
+    .array(
+      z.object({
+        orderLineId: z.string(),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1),
+});
+
+/**
+ * POST /api/orders/[id]/returns
+ * Request a return (RMA) of shipped units of an order, with a reason
+ * An admin approves (refunding the units) or rejects it
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: orderId } = await params;
+
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = createReturnSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid return request", 400, parsed.error.flatten());
+    }
+
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+    if (!order) return jsonError("Order not found", 404);
+
+    // Buyer or purchasing member of the ordering company
+    const company = await getActiveCompany(req, user);
+    if (
+      !isOwnedBy(order, user.id, company) ||
+      (order.buyerId !== user.id && !canPurchase(company))
+    ) {
+      return jsonError("Forbidden", 403);
+    }
+
+    const returnRequest = await prisma.$transaction((tx) =>
+      createReturn(tx, orderId, {
+        requestedById: user.id,
+        reason: parsed.data.reason,
+        lines: parsed.data.lines,
+      })
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...returnRequest,
+          number: formatReturnNumber(returnRequest.number),
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error("POST /api/orders/[id]/returns error:", error);
+    const err = error as { message?: string };
+    if (err.message?.startsWith("ORDER_NOT_RETURNABLE")) {
+      const status = err.message.split(":")[1];
+      return jsonError(
+        `Cannot return items of an order with status ${status}`,
+        409
+      );
+    }
+    if (err.message?.startsWith("INVALID_LINE")) {
+      return jsonError("Line does not belong to this order", 400);
+    }
+    if (err.message?.startsWith("QUANTITY_EXCEEDED")) {
+      const productName = err.message.split(":")[1];
+      return jsonError(
+        `Return quantity exceeds the shipped quantity not yet returned for ${productName}`,
+        400
+      );
+    }
+    if (err.message === "NOTHING_TO_RETURN") {
+      return jsonError("Nothing to return", 400);
+    }
+    return jsonError("Failed to request return", 500);
+  }
+}
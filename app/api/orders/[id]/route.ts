@@ -1,11 +1,29 @@
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import {
+  canPurchase,
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { isOwnedBy } from "@/lib/company";
 import { jsonError } from "@/lib/utils";
+import { transitionOrderStatus } from "@/lib/order-status";
+import { getShippedQuantities } from "@/lib/shipments";
+import { formatInvoiceNumber, isOverdue } from "@/lib/invoices";
+import { getOrderTaxes } from "@/lib/tax";
+import { getOrderAddressSnapshot } from "@/lib/addresses";
+import { getReservationExpiresAt } from "@/lib/inventory";
+import {
+  RETURNABLE_ORDER_STATUSES,
+  formatReturnNumber,
+  getReturnableQuantities,
+  returnableLineInclude,
+} from "@/lib/returns";
 
 /**
  * GET /api/orders/[id]
- * Fetch order details (with line items and payment status)
+ * Fetch order details (with line items, shipments, returns and payment status)
  */
 export async function GET(
   req: Request,
@@ -34,13 +52,43 @@ export async function GET(
                 description: true,
               },
             },
+            ...returnableLineInclude,
+            taxes: true,
           },
         },
+        shippingTaxes: true,
         buyer: {
           select: {
             email: true,
           },
         },
+        shipments: {
+          include: { items: true },
+          orderBy: { shippedAt: "asc" },
+        },
+        invoice: {
+          select: {
+            id: true,
+            status: true,
+            amountCents: true,
+            paidCents: true,
+            issuedAt: true,
+            dueAt: true,
+            paidAt: true,
+          },
+        },
+        returns: {
+          include: { lines: { select: { orderLineId: true, quantity: true } } },
+          orderBy: { createdAt: "desc" },
+        },
+        statusChanges: {
+          where: { fromStatus: "PENDING_APPROVAL" },
+          include: {
+            changedBy: {
+              select: { firstName: true, lastName: true, email: true },
+            },
+          },
+        },
       },
     });
 
@@ -48,31 +96,71 @@ export async function GET(
       return jsonError("Order not found", 404);
     }
 
-    // Verify ownership
-    if (order.buyerId !== user.id) {
+    // Verify ownership (buyer or member of the ordering company)
+    const company = await getActiveCompany(req, user);
+    if (!isOwnedBy(order, user.id, company)) {
       return jsonError("Forbidden", 403);
     }
 
+    const shipped = getShippedQuantities(order.lines);
+    const returnable = RETURNABLE_ORDER_STATUSES.includes(order.status)
+      ? getReturnableQuantities(order.lines)
+      : new Map<string, number>();
+
     return NextResponse.json(
       {
         success: true,
         data: {
           id: order.id,
           status: order.status,
+          paymentMethod: order.paymentMethod,
           paymentStatus: order.paymentStatus,
           totalCents: order.totalCents,
+          refundedCents: order.refundedCents,
           subtotalCents: order.subtotalCents,
           taxCents: order.taxCents,
+          // Totals per tax (GST, QST, HST, ...), with where the order was taxed
+          taxes: getOrderTaxes(order),
+          shipToCountry: order.shipToCountry,
+          shipToRegion: order.shipToRegion,
+          // Addresses as they were when the order was placed
+          ...getOrderAddressSnapshot(order),
+          taxExemptionNumber: order.taxExemptionNumber,
+          shippingMethod: order.shippingMethod,
+          // Pay by then, or the order is cancelled and its stock released
+          reservationExpiresAt:
+            order.status === "CREATED"
+              ? await getReservationExpiresAt(prisma, order.id)
+              : null,
           shippingCents: order.shippingCents,
           poNumber: order.poNumber,
           notes: order.notes,
+          invoiceNumber:
+            order.invoiceNumber === null
+              ? null
+              : formatInvoiceNumber(order.invoiceNumber),
           createdAt: order.createdAt,
           paidAt: order.paidAt,
           lines: order.lines.map((line) => ({
             id: line.id,
             productId: line.productId,
             quantity: line.quantity,
+            // Reserved or taken from stock; the rest waits for stock to arrive
+            allocatedQuantity: line.quantity - line.backorderedQuantity,
+            backorderedQuantity: line.backorderedQuantity,
+            shippedQuantity: shipped.get(line.id) ?? 0,
+            // Refunded before they shipped; they no longer ship
+            refundedQuantity: line.refundedQuantity,
+            // Shipped units that can still be returned
+            returnableQuantity: returnable.get(line.id) ?? 0,
             unitPriceCents: line.unitPriceCents,
+            taxCents: line.taxCents,
+            taxes: line.taxes.map((tax) => ({
+              name: tax.name,
+              jurisdiction: tax.jurisdiction,
+              rate: tax.rate,
+              amountCents: tax.amountCents,
+            })),
             product: {
               id: line.product.id,
               name: line.product.name,
@@ -80,7 +168,44 @@ export async function GET(
               description: line.product.description,
             },
           })),
+          shipments: order.shipments.map((shipment) => ({
+            id: shipment.id,
+            carrier: shipment.carrier,
+            trackingNumber: shipment.trackingNumber,
+            shippedAt: shipment.shippedAt,
+            items: shipment.items.map((item) => ({
+              orderLineId: item.orderLineId,
+              quantity: item.quantity,
+            })),
+          })),
+          // Return requests (RMA), newest first
+          returns: order.returns.map((returnRequest) => ({
+            id: returnRequest.id,
+            number: formatReturnNumber(returnRequest.number),
+            status: returnRequest.status,
+            reason: returnRequest.reason,
+            adminNotes: returnRequest.adminNotes,
+            refundCents: returnRequest.refundCents,
+            createdAt: returnRequest.createdAt,
+            respondedAt: returnRequest.respondedAt,
+            receivedAt: returnRequest.receivedAt,
+            lines: returnRequest.lines,
+          })),
+          // Invoice for orders placed on account
+          invoice: order.invoice && {
+            ...order.invoice,
+            overdue: isOverdue(order.invoice),
+          },
+          // Approver's decision for orders that went over a spending limit
+          approval:
+            order.statusChanges.map((change) => ({
+              decision: change.toStatus === "CREATED" ? "APPROVED" : "REJECTED",
+              note: change.note,
+              decidedBy: change.changedBy,
+              decidedAt: change.createdAt,
+            }))[0] ?? null,
           buyer: order.buyer,
+          companyId: order.companyId,
         },
       },
       { status: 200 }
@@ -93,7 +218,7 @@ export async function GET(
 
 /**
  * DELETE /api/orders/[id]
- * Cancel order (status: CREATED -> CANCELLED)
+ * Cancel order (status: CREATED / PENDING_APPROVAL -> CANCELLED)
  */
 export async function DELETE(
   req: Request,
@@ -111,52 +236,36 @@ export async function DELETE(
     // Get the order
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: { lines: true },
     });
 
     if (!order) {
       return jsonError("Order not found", 404);
     }
 
-    // Verify ownership
-    if (order.buyerId !== user.id) {
+    // Verify ownership (buyer or purchasing member of the ordering company)
+    const company = await getActiveCompany(req, user);
+    if (
+      !isOwnedBy(order, user.id, company) ||
+      (order.buyerId !== user.id && !canPurchase(company))
+    ) {
       return jsonError("Forbidden", 403);
     }
 
-    // Check status - only CREATED orders can be cancelled
-    if (order.status !== "CREATED") {
+    // Check status - only unpaid orders can be cancelled; paid orders are
+    // cancelled by an admin refunding them
+    if (order.status !== "CREATED" && order.status !== "PENDING_APPROVAL") {
       return jsonError(
-        `Cannot cancel order with status ${order.status}. Only CREATED orders can be cancelled.`,
+        order.status === "PAID"
+          ? "Paid orders cannot be cancelled online. Please contact us to cancel and refund it."
+          : `Cannot cancel order with status ${order.status}. Only unpaid orders can be cancelled.`,
         400
       );
     }
 
     // In transaction: restore inventory and cancel order
-    const result = await prisma.$transaction(async (tx) => {
-      // Restore inventory for each line item
-      for (const line of order.lines) {
-        const inventory = await tx.inventory.findFirst({
-          where: {
-            productId: line.productId,
-            ownerType: "PLATFORM",
-          },
-        });
-
-        if (inventory) {
-          await tx.inventory.update({
-            where: { id: inventory.id },
-            data: { quantity: { increment: line.quantity } },
-          });
-        }
-      }
-
-      // Cancel the order
-      return tx.order.update({
-        where: { id: orderId },
-        data: { status: "CANCELLED" },
-        include: { lines: { include: { product: true } } },
-      });
-    });
+    const result = await prisma.$transaction((tx) =>
+      transitionOrderStatus(tx, orderId, "CANCELLED", { actorId: user.id })
+    );
 
     return NextResponse.json(
       {
@@ -1,17 +1,30 @@
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { z } from "zod";
-import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
-import { jsonError, calculateOrderTotal } from "@/lib/utils";
+import {
+  canPurchase,
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { cartScope, ownedByScope } from "@/lib/company";
+import { jsonError } from "@/lib/utils";
+import { resolveUnitPrices } from "@/lib/pricing";
+import { validateOrderLines } from "@/lib/order-rules";
+import { cancelExpiredOrders, placeOrder } from "@/lib/orders";
 
 const createOrderSchema = z.object({
   poNumber: z.string().optional(),
   notes: z.string().optional(),
+  shippingMethod: z.enum(["GROUND", "EXPRESS", "FREIGHT", "PICKUP"]).optional(),
+  // Address book entries; the buyer's defaults when not given
+  shippingAddressId: z.string().optional(),
+  billingAddressId: z.string().optional(),
 });
 
 /**
  * GET /api/orders
- * List user's orders
+ * List user's orders, plus their active company's orders
  */
 export async function GET(req: Request) {
   try {
@@ -36,15 +49,21 @@ export async function GET(req: Request) {
       .parse(url.searchParams.get("limit"));
     const skip = (page - 1) * limit;
 
+    const company = await getActiveCompany(req, user);
+    const where = ownedByScope(user.id, company);
+
     const [orders, total] = await Promise.all([
       prisma.order.findMany({
-        where: { buyerId: user.id },
+        where,
         skip,
         take: limit,
-        include: { lines: { include: { product: true } } },
+        include: {
+          lines: { include: { product: true } },
+          buyer: { select: { firstName: true, lastName: true, email: true } },
+        },
         orderBy: { createdAt: "desc" },
       }),
-      prisma.order.count({ where: { buyerId: user.id } }),
+      prisma.order.count({ where }),
     ]);
 
     return NextResponse.json(
@@ -64,6 +83,10 @@ export async function GET(req: Request) {
 /**
  * POST /api/orders
  * Create order from cart
+ * Orders over the buyer's company spending limit start as PENDING_APPROVAL
+ * shippingMethod defaults to the first delivery method offered for the cart
+ * The ship-to and bill-to addresses are copied onto the order
+ * 400 with details.lineErrors when cart lines break their ordering rules
  */
 export async function POST(req: Request) {
   try {
@@ -80,11 +103,22 @@ export async function POST(req: Request) {
       return jsonError("Invalid order data", 400, parsed.error.flatten());
     }
 
-    const { poNumber, notes } = parsed.data;
+    const {
+      poNumber,
+      notes,
+      shippingMethod,
+      shippingAddressId,
+      billingAddressId,
+    } = parsed.data;
+
+    const company = await getActiveCompany(req, user);
+    if (!canPurchase(company)) {
+      return jsonError("Viewers cannot place orders", 403);
+    }
 
-    // Get user's cart
-    const cart = await prisma.cart.findUnique({
-      where: { buyerId: user.id },
+    // Get user's (or company's shared) cart
+    const cart = await prisma.cart.findFirst({
+      where: cartScope(user.id, company),
       include: { items: { include: { product: true } } },
     });
 
@@ -92,74 +126,45 @@ export async function POST(req: Request) {
       return jsonError("Cart is empty", 400);
     }
 
+    const lineErrors = validateOrderLines(cart.items);
+    if (lineErrors.length > 0) {
+      return jsonError("Some items do not meet ordering rules", 400, {
+        lineErrors,
+      });
+    }
+
+    // Stock held by orders that were not paid in time can be ordered again
+    await cancelExpiredOrders(prisma);
+
     // Create order in transaction
     const order = await prisma.$transaction(async (tx) => {
-      let totalCents = 0;
-      const orderLines: Array<{
-        productId: string;
-        quantity: number;
-        unitPriceCents: number;
-      }> = [];
-
-      // Verify stock and prepare order lines
-      for (const item of cart.items) {
-        const inventory = await tx.inventory.findFirst({
-          where: {
-            productId: item.productId,
-            ownerType: "PLATFORM",
-          },
-        });
-
-        if (!inventory || inventory.quantity < item.quantity) {
-          throw new Error(`STOCK_INSUFFICIENT:${item.product.name}`);
-        }
-
-        orderLines.push({
+      // Re-price at order time so contract prices that changed since the
+      // items were added to the cart are honoured
+      const prices = await resolveUnitPrices(
+        tx,
+        cart.items.map((item) => ({
+          ...item.product,
+          quantity: item.quantity,
+        })),
+        { buyerId: user.id, companyId: company?.id ?? null }
+      );
+
+      const newOrder = await placeOrder(tx, {
+        buyerId: user.id,
+        companyId: company?.id ?? null,
+        poNumber,
+        notes,
+        shippingMethod,
+        shippingAddressId,
+        billingAddressId,
+        lines: cart.items.map((item) => ({
           productId: item.productId,
+          productName: item.product.name,
           quantity: item.quantity,
-          unitPriceCents: item.unitPriceCents,
-        });
-
-        totalCents += item.quantity * item.unitPriceCents;
-
-        // Decrement inventory
-        await tx.inventory.update({
-          where: { id: inventory.id },
-          data: { quantity: { decrement: item.quantity } },
-        });
-      }
-
-      // Calculate tax and shipping
-      const {
-        taxCents,
-        shippingCents,
-        totalCents: finalTotal,
-      } = calculateOrderTotal(totalCents);
-
-      // Create order with tax and shipping
-      const newOrder = await tx.order.create({
-        data: {
-          buyerId: user.id,
-          poNumber,
-          notes,
-          subtotalCents: totalCents,
-          taxCents,
-          shippingCents,
-          totalCents: finalTotal,
-        },
-        include: { lines: { include: { product: true } } },
+          unitPriceCents: prices.get(item.productId) ?? item.unitPriceCents,
+        })),
       });
 
-      // Create order lines
-      for (const line of orderLines) {
-        await tx.orderLine.create({
-          data: {
-            orderId: newOrder.id,
-            ...line,
-          },
-        });
-      }
-
       // Update cart reference
       await tx.cart.update({
         where: { id: cart.id },
@@ -180,6 +185,24 @@ export async function POST(req: Request) {
       const productName = err.message.split(":")[1] || "Unknown";
       return jsonError(`Stock insufficient for ${productName}`, 409);
     }
+    if (err.message === "SHIPPING_METHOD_UNAVAILABLE") {
+      return jsonError(
+        "No delivery method is available for this address; choose pickup",
+        422
+      );
+    }
+    if (err.message?.startsWith("SHIPPING_METHOD_UNAVAILABLE")) {
+      return jsonError("Shipping method not available for this order", 422);
+    }
+    if (err.message === "ADDRESS_NOT_FOUND") {
+      return jsonError("Address not found", 404);
+    }
+    if (err.message === "SHIPPING_ADDRESS_REQUIRED") {
+      return jsonError(
+        "Add a shipping address to your address book or choose pickup",
+        400
+      );
+    }
     return jsonError("Failed to create order", 500);
   }
 }
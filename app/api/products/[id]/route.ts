@@ -3,6 +3,14 @@ import prisma from "@/lib/prisma";
 import { z } from "zod";
 import { getClerkUserId, requireAdmin } from "@/lib/auth";
 import { jsonError } from "@/lib/utils";
+import { priceTiersSchema } from "@/lib/validations";
+import {
+  adjustStock,
+  getSupplierStock,
+  INITIAL_STOCK_NOTE,
+  platformStockSelect,
+  summarizeStock,
+} from "@/lib/inventory";
 
 const updateProductSchema = z.object({
   sku: z.string().min(1).optional(),
@@ -12,8 +20,30 @@ const updateProductSchema = z.object({
   unit: z.string().optional(),
   lowThreshold: z.number().int().nonnegative().optional(),
   currentStock: z.number().int().nonnegative().optional(),
+  warehouseId: z.string().optional(), // where currentStock is (default warehouse)
+  // Stock and low-stock level per warehouse
+  stockLevels: z
+    .array(
+      z.object({
+        warehouseId: z.string(),
+        quantity: z.number().int().nonnegative(),
+        threshold: z.number().int().nonnegative().optional().nullable(),
+      })
+    )
+    .optional(),
+  stockNote: z.string().max(500).optional(), // why the stock changed
   categoryId: z.string().optional().nullable(),
   imageUrl: z.string().url().optional().nullable(), // Product image URL
+  priceTiers: priceTiersSchema.optional(), // replaces all tiers when given
+  minOrderQuantity: z.number().int().positive().optional(),
+  orderMultiple: z.number().int().positive().optional(),
+  packSize: z.number().int().positive().optional(),
+  allowBackorder: z.boolean().optional(), // order beyond stock, allocated on receipt
+  // Shipping: weight and dimensions of one unit, used to price delivery
+  weightGrams: z.number().int().positive().optional().nullable(),
+  lengthCm: z.number().int().positive().optional().nullable(),
+  widthCm: z.number().int().positive().optional().nullable(),
+  heightCm: z.number().int().positive().optional().nullable(),
 });
 
 /**
@@ -31,9 +61,10 @@ export async function GET(
       where: { id },
       include: {
         category: true,
-        inventories: {
-          where: { ownerType: "PLATFORM" },
-          select: { quantity: true },
+        inventories: platformStockSelect,
+        priceTiers: {
+          select: { minQuantity: true, priceCents: true },
+          orderBy: { minQuantity: "asc" },
         },
       },
     });
@@ -42,11 +73,24 @@ export async function GET(
       return jsonError("Product not found", 404);
     }
 
-    // Calculate current stock from inventory
-    const currentStock = product.inventories[0]?.quantity || 0;
+    // Calculate current stock from inventory: on hand, held by unpaid
+    // orders, and what can still be ordered, in total and per warehouse
+    const stock = summarizeStock(product.inventories);
+    const supplierStock = await getSupplierStock(prisma, [id]);
 
     return NextResponse.json(
-      { success: true, product: { ...product, currentStock } },
+      {
+        success: true,
+        product: {
+          ...product,
+          currentStock: stock.currentStock,
+          reservedStock: stock.reservedStock,
+          availableStock: stock.availableStock,
+          stockByLocation: stock.locations,
+          supplierStock: supplierStock.get(id) ?? 0,
+          inventories: undefined,
+        },
+      },
       { status: 200 }
     );
   } catch (error) {
@@ -68,7 +112,7 @@ export async function PUT(
     const clerkId = await getClerkUserId(req);
     if (!clerkId) return jsonError("Unauthorized", 401);
 
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
 
     const body = await req.json().catch(() => ({}));
     const parsed = updateProductSchema.safeParse(body);
@@ -80,37 +124,54 @@ export async function PUT(
     // Check if product exists
     const existingProduct = await prisma.product.findUnique({
       where: { id },
-      include: {
-        inventories: {
-          where: { ownerType: "PLATFORM" },
-        },
-      },
     });
 
     if (!existingProduct) {
       return jsonError("Product not found", 404);
     }
 
-    const { currentStock, ...productData } = parsed.data;
-
-    // Update inventory if currentStock is provided
-    if (currentStock !== undefined) {
-      const inventory = existingProduct.inventories[0];
-      if (inventory) {
-        await prisma.inventory.update({
-          where: { id: inventory.id },
-          data: { quantity: currentStock },
-        });
-      } else {
-        // Create inventory if it doesn't exist
-        await prisma.inventory.create({
-          data: {
-            productId: id,
-            ownerType: "PLATFORM",
-            quantity: currentStock,
-          },
-        });
-      }
+    const {
+      currentStock,
+      warehouseId,
+      stockLevels,
+      stockNote,
+      priceTiers,
+      ...productData
+    } = parsed.data;
+
+    // Update inventory if stock is provided (recorded as adjustments)
+    const levels = [
+      ...(stockLevels ?? []),
+      ...(currentStock !== undefined
+        ? [{ warehouseId, quantity: currentStock, threshold: undefined }]
+        : []),
+    ];
+    if (levels.length > 0) {
+      await prisma.$transaction(async (tx) => {
+        for (const level of levels) {
+          const inventory = await adjustStock(
+            tx,
+            { productId: id, warehouseId: level.warehouseId },
+            level.quantity,
+            { actorId: admin.id, note: stockNote || null }
+          );
+          if (level.threshold !== undefined) {
+            await tx.inventory.update({
+              where: { id: inventory.id },
+              data: { threshold: level.threshold },
+            });
+          }
+        }
+      });
+    }
+
+    if (priceTiers) {
+      await prisma.$transaction([
+        prisma.productPriceTier.deleteMany({ where: { productId: id } }),
+        prisma.productPriceTier.createMany({
+          data: priceTiers.map((tier) => ({ ...tier, productId: id })),
+        }),
+      ]);
     }
 
     const updateData = Object.fromEntries(
@@ -122,14 +183,15 @@ export async function PUT(
       data: updateData,
       include: {
         category: true,
-        inventories: {
-          where: { ownerType: "PLATFORM" },
-          select: { quantity: true },
+        inventories: platformStockSelect,
+        priceTiers: {
+          select: { minQuantity: true, priceCents: true },
+          orderBy: { minQuantity: "asc" },
         },
       },
     });
 
-    const finalCurrentStock = product.inventories[0]?.quantity || 0;
+    const finalCurrentStock = summarizeStock(product.inventories).currentStock;
 
     return NextResponse.json(
       { success: true, data: { ...product, currentStock: finalCurrentStock } },
@@ -138,6 +200,17 @@ export async function PUT(
   } catch (error: unknown) {
     console.error("PUT /api/products/[id] error:", error);
     const err = error as { message?: string };
+    // Stock held by unpaid orders must stay on hand
+    if (err.message?.startsWith("STOCK_BELOW_RESERVED:")) {
+      const reserved = err.message.split(":")[1];
+      return jsonError(
+        `Stock cannot be set below the ${reserved} unit(s) reserved by unpaid orders`,
+        400
+      );
+    }
+    if (err.message === "WAREHOUSE_NOT_FOUND") {
+      return jsonError("Warehouse not found", 400);
+    }
     if (err.message?.includes("UNAUTHORIZED")) {
       return jsonError("Unauthorized", 401);
     }
@@ -188,57 +261,49 @@ export async function DELETE(
       return jsonError("Product not found", 404);
     }
 
-    console.log("✅ Product found, checking for existing active orders...");
-
-    // Check if product has any ACTIVE order lines (CREATED or PAID)
-    const activeOrderLineCount = await prisma.orderLine.count({
-      where: {
-        productId: id,
-        order: {
-          status: {
-            in: ["CREATED", "PAID"],
+    console.log("✅ Product found, checking for order and stock history...");
+
+    // Order, quote and purchase order lines and the stock movement ledger
+    // keep their product, so a product with history cannot be deleted. The
+    // receipt of its initial stock (see POST /api/products) is not history.
+    const [orderLines, quoteLines, purchaseOrderLines, movements] =
+      await Promise.all([
+        prisma.orderLine.count({ where: { productId: id } }),
+        prisma.quoteLine.count({ where: { productId: id } }),
+        prisma.purchaseOrderLine.count({ where: { productId: id } }),
+        prisma.inventoryMovement.count({
+          where: {
+            productId: id,
+            NOT: { reason: "RECEIPT", note: INITIAL_STOCK_NOTE },
           },
-        },
-      },
-    });
+        }),
+      ]);
 
-    if (activeOrderLineCount > 0) {
+    if (orderLines + quoteLines + purchaseOrderLines + movements > 0) {
       console.log(
-        `❌ Cannot delete: Product has ${activeOrderLineCount} active order line(s)`
+        `❌ Cannot delete: Product has ${orderLines} order line(s), ${quoteLines} quote line(s), ${purchaseOrderLines} purchase order line(s) and ${movements} stock movement(s)`
       );
       return jsonError(
-        `Cannot delete product with ${activeOrderLineCount} active order(s). Please cancel or complete all orders first.`,
-        400
+        "Cannot delete a product that has orders, quotes, purchase orders or stock history",
+        409,
+        { orderLines, quoteLines, purchaseOrderLines, movements }
       );
     }
 
-    console.log("✅ No active orders found, safe to delete related records...");
-
-    // Delete CartItem (safe: user can add different items to cart)
-    await prisma.cartItem.deleteMany({
-      where: { productId: id },
-    });
-    console.log("✅ Cart items deleted");
-
-    // Delete SavedListItem
-    await prisma.savedListItem.deleteMany({
-      where: { productId: id },
-    });
-    console.log("✅ Saved list items deleted");
-
-    // Delete Inventory
-    await prisma.inventory.deleteMany({
-      where: { productId: id },
-    });
-    console.log("✅ Inventory deleted");
-
-    // Delete the product
-    await prisma.product.delete({
-      where: { id },
-    });
-    console.log(
-      "✅ Product deleted (OrderLines preserved for historical records)"
-    );
+    console.log("✅ No history found, deleting product and related records...");
+
+    await prisma.$transaction([
+      // Cart, saved list and contract price entries (volume tiers cascade
+      // with the product)
+      prisma.cartItem.deleteMany({ where: { productId: id } }),
+      prisma.savedListItem.deleteMany({ where: { productId: id } }),
+      prisma.priceListItem.deleteMany({ where: { productId: id } }),
+      // Its inventory only ever held the initial stock
+      prisma.inventoryMovement.deleteMany({ where: { productId: id } }),
+      prisma.inventory.deleteMany({ where: { productId: id } }),
+      prisma.product.delete({ where: { id } }),
+    ]);
+    console.log("✅ Product deleted");
 
     return NextResponse.json(
       { success: true, message: "Product deleted" },
@@ -3,6 +3,14 @@ import prisma from "@/lib/prisma";
 import { z } from "zod";
 import { getClerkUserId, requireAdmin } from "@/lib/auth";
 import { jsonError } from "@/lib/utils";
+import { priceTiersSchema } from "@/lib/validations";
+import {
+  getSupplierStock,
+  INITIAL_STOCK_NOTE,
+  platformStockSelect,
+  receiveStock,
+  summarizeStock,
+} from "@/lib/inventory";
 
 const listQuerySchema = z.object({
   page: z.coerce.number().int().positive().default(1),
@@ -18,8 +26,19 @@ const createProductSchema = z.object({
   unit: z.string().optional(),
   lowThreshold: z.number().int().nonnegative().optional().default(0),
   initialStock: z.number().int().nonnegative().optional().default(0),
+  warehouseId: z.string().optional(), // where initialStock is (default warehouse)
   categoryId: z.string().optional().nullable(),
   imageUrl: z.string().url().optional().nullable(), // Product image URL
+  priceTiers: priceTiersSchema.optional(),
+  minOrderQuantity: z.number().int().positive().optional().default(1),
+  orderMultiple: z.number().int().positive().optional().default(1),
+  packSize: z.number().int().positive().optional().default(1),
+  allowBackorder: z.boolean().optional().default(false),
+  // Shipping: weight and dimensions of one unit, used to price delivery
+  weightGrams: z.number().int().positive().optional().nullable(),
+  lengthCm: z.number().int().positive().optional().nullable(),
+  widthCm: z.number().int().positive().optional().nullable(),
+  heightCm: z.number().int().positive().optional().nullable(),
 });
 
 /**
@@ -68,9 +87,10 @@ export async function GET(req: Request) {
         take: limit,
         include: {
           category: true,
-          inventories: {
-            where: { ownerType: "PLATFORM" },
-            select: { quantity: true },
+          inventories: platformStockSelect,
+          priceTiers: {
+            select: { minQuantity: true, priceCents: true },
+            orderBy: { minQuantity: "asc" },
           },
         },
         orderBy: { createdAt: "desc" },
@@ -78,11 +98,28 @@ export async function GET(req: Request) {
       prisma.product.count({ where }),
     ]);
 
-    const formatted = products.map((p) => ({
-      ...p,
-      platformStock: p.inventories[0]?.quantity ?? 0,
-      inventories: undefined,
-    }));
+    const supplierStock = await getSupplierStock(
+      prisma,
+      products.map((p) => p.id)
+    );
+
+    const formatted = products.map((p) => {
+      const stock = summarizeStock(p.inventories);
+      return {
+        ...p,
+        // On hand minus what unpaid orders hold, across warehouses
+        platformStock: stock.availableStock,
+        // Orderable once platform stock runs out, shipped by the supplier
+        supplierStock: supplierStock.get(p.id) ?? 0,
+        reservedStock: stock.reservedStock,
+        stockByLocation: stock.locations.map(({ code, name, available }) => ({
+          code,
+          name,
+          available,
+        })),
+        inventories: undefined,
+      };
+    });
 
     return NextResponse.json(
       {
@@ -112,7 +149,7 @@ export async function POST(req: Request) {
     const clerkId = await getClerkUserId(req);
     if (!clerkId) return jsonError("Unauthorized", 401);
 
-    await requireAdmin(req);
+    const admin = await requireAdmin(req);
 
     const body = await req.json().catch(() => ({}));
     const parsed = createProductSchema.safeParse(body);
@@ -129,34 +166,62 @@ export async function POST(req: Request) {
       unit,
       lowThreshold,
       initialStock,
+      warehouseId,
       categoryId,
       imageUrl,
+      priceTiers,
+      minOrderQuantity,
+      orderMultiple,
+      packSize,
+      allowBackorder,
+      weightGrams,
+      lengthCm,
+      widthCm,
+      heightCm,
     } = parsed.data;
 
-    const product = await prisma.product.create({
-      data: {
-        sku,
-        name,
-        description,
-        priceCents,
-        unit,
-        lowThreshold,
-        imageUrl: imageUrl || null,
-        categoryId: categoryId || null,
-        // Create platform inventory with initial stock
-        inventories: {
-          create: {
-            ownerType: "PLATFORM",
-            quantity: initialStock || 0,
-          },
+    const product = await prisma.$transaction(async (tx) => {
+      const created = await tx.product.create({
+        data: {
+          sku,
+          name,
+          description,
+          priceCents,
+          unit,
+          lowThreshold,
+          minOrderQuantity,
+          orderMultiple,
+          packSize,
+          allowBackorder,
+          weightGrams,
+          lengthCm,
+          widthCm,
+          heightCm,
+          imageUrl: imageUrl || null,
+          categoryId: categoryId || null,
+          ...(priceTiers && { priceTiers: { create: priceTiers } }),
         },
-      },
-      include: {
-        inventories: {
-          where: { ownerType: "PLATFORM" },
-          select: { quantity: true },
+      });
+      // Create platform inventory with initial stock
+      await receiveStock(
+        tx,
+        { productId: created.id, warehouseId },
+        initialStock || 0,
+        {
+          actorId: admin.id,
+          note: INITIAL_STOCK_NOTE,
+        }
+      );
+      return tx.product.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          inventories: {
+            where: { ownerType: "PLATFORM" },
+            select: { quantity: true },
+          },
+          priceTiers: { orderBy: { minQuantity: "asc" } },
         },
-      },
+      });
     });
 
     return NextResponse.json({ success: true, data: product }, { status: 201 });
@@ -169,6 +234,9 @@ export async function POST(req: Request) {
     if (err.message?.includes("UNAUTHORIZED")) {
       return jsonError("Unauthorized", 401);
     }
+    if (err.message === "WAREHOUSE_NOT_FOUND") {
+      return jsonError("Warehouse not found", 400);
+    }
     return jsonError("Failed to create product", 500);
   }
 }
@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import {
+  canPurchase,
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { isOwnedBy } from "@/lib/company";
+import { jsonError } from "@/lib/utils";
+import { acceptQuote } from "@/lib/quotes";
+import { cancelExpiredOrders } from "@/lib/orders";
+
+const acceptQuoteSchema = z.object({
+  poNumber: z.string().optional(),
+  notes: z.string().optional(),
+  shippingMethod: z.enum(["GROUND", "EXPRESS", "FREIGHT", "PICKUP"]).optional(),
+  shippingAddressId: z.string().optional(),
+  billingAddressId: z.string().optional(),
+});
+
+/**
+ * POST /api/quotes/[id]/accept
+ * Accept a quote: creates an order at the quoted prices
+ * The order then goes through approval (if over the spending limit) and checkout
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = acceptQuoteSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid order data", 400, parsed.error.flatten());
+    }
+
+    const company = await getActiveCompany(req, user);
+    if (!canPurchase(company)) {
+      return jsonError("Viewers cannot place orders", 403);
+    }
+
+    const quote = await prisma.quote.findUnique({ where: { id } });
+    if (!quote || !isOwnedBy(quote, user.id, company)) {
+      return jsonError("Quote not found", 404);
+    }
+
+    // Stock held by orders that were not paid in time can be ordered again
+    await cancelExpiredOrders(prisma);
+
+    const order = await prisma.$transaction((tx) =>
+      acceptQuote(tx, id, user.id, parsed.data)
+    );
+
+    return NextResponse.json({ success: true, data: order }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("POST /api/quotes/[id]/accept error:", error);
+    const err = error as { message?: string };
+    if (err.message === "QUOTE_NOT_FOUND") {
+      return jsonError("Quote not found", 404);
+    }
+    if (err.message === "QUOTE_EXPIRED") {
+      return jsonError("Quote has expired", 409);
+    }
+    if (err.message?.startsWith("QUOTE_NOT_QUOTED")) {
+      const status = err.message.split(":")[1];
+      return jsonError(
+        status === "REQUESTED"
+          ? "Quote has not been priced yet"
+          : `Quote is already ${status.toLowerCase()}`,
+        409
+      );
+    }
+    if (err.message?.startsWith("ORDER_RULES_VIOLATED")) {
+      const productName = err.message.split(":")[1] || "Unknown";
+      return jsonError(
+        `Quantity of ${productName} does not meet its ordering rules`,
+        400
+      );
+    }
+    if (err.message?.startsWith("STOCK_INSUFFICIENT")) {
+      const productName = err.message.split(":")[1] || "Unknown";
+      return jsonError(`Stock insufficient for ${productName}`, 409);
+    }
+    if (err.message === "SHIPPING_METHOD_UNAVAILABLE") {
+      return jsonError(
+        "No delivery method is available for this address; choose pickup",
+        422
+      );
+    }
+    if (err.message?.startsWith("SHIPPING_METHOD_UNAVAILABLE")) {
+      return jsonError("Shipping method not available for this order", 422);
+    }
+    if (err.message === "ADDRESS_NOT_FOUND") {
+      return jsonError("Address not found", 404);
+    }
+    if (err.message === "SHIPPING_ADDRESS_REQUIRED") {
+      return jsonError(
+        "Add a shipping address to your address book or choose pickup",
+        400
+      );
+    }
+    return jsonError("Failed to accept quote", 500);
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import {
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { canEdit, isOwnedBy } from "@/lib/company";
+import { jsonError } from "@/lib/utils";
+import { expireQuotes } from "@/lib/quotes";
+
+/**
+ * GET /api/quotes/[id]
+ * Get a quote with its lines and quoted prices
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const company = await getActiveCompany(req, user);
+
+    await expireQuotes(prisma);
+    const quote = await prisma.quote.findUnique({
+      where: { id },
+      include: {
+        lines: { include: { product: true } },
+        buyer: { select: { firstName: true, lastName: true, email: true } },
+        order: { select: { id: true, status: true } },
+      },
+    });
+
+    if (!quote || !isOwnedBy(quote, user.id, company)) {
+      return jsonError("Quote not found", 404);
+    }
+
+    return NextResponse.json({ success: true, data: quote }, { status: 200 });
+  } catch (error) {
+    console.error("GET /api/quotes/[id] error:", error);
+    return jsonError("Failed to fetch quote", 500);
+  }
+}
+
+/**
+ * DELETE /api/quotes/[id]
+ * Withdraw a quote request (REQUESTED -> CANCELLED)
+ * or decline the quoted prices (QUOTED -> DECLINED)
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const company = await getActiveCompany(req, user);
+
+    const quote = await prisma.quote.findUnique({ where: { id } });
+    if (!quote || !isOwnedBy(quote, user.id, company)) {
+      return jsonError("Quote not found", 404);
+    }
+    if (!canEdit(quote, user.id, company)) {
+      return jsonError("Viewers cannot change quotes", 403);
+    }
+
+    if (quote.status !== "REQUESTED" && quote.status !== "QUOTED") {
+      return jsonError(`Quote is already ${quote.status.toLowerCase()}`, 409);
+    }
+
+    const { count } = await prisma.quote.updateMany({
+      where: { id, status: quote.status },
+      data: {
+        status: quote.status === "REQUESTED" ? "CANCELLED" : "DECLINED",
+      },
+    });
+    if (count === 0) {
+      return jsonError("Quote was updated, please reload", 409);
+    }
+
+    return NextResponse.json(
+      { success: true, message: "Quote withdrawn" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("DELETE /api/quotes/[id] error:", error);
+    return jsonError("Failed to withdraw quote", 500);
+  }
+}
@@ -0,0 +1,137 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import {
+  canPurchase,
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { cartScope, isOwnedBy, ownedByScope } from "@/lib/company";
+import { jsonError } from "@/lib/utils";
+import { resolveUnitPrices } from "@/lib/pricing";
+import { validateOrderLines } from "@/lib/order-rules";
+import { expireQuotes } from "@/lib/quotes";
+
+const createQuoteSchema = z.object({
+  savedListId: z.string().optional(), // quote the cart when omitted
+  notes: z.string().optional(),
+});
+
+/**
+ * GET /api/quotes
+ * List the user's quotes, plus their active company's quotes
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const company = await getActiveCompany(req, user);
+
+    await expireQuotes(prisma);
+    const quotes = await prisma.quote.findMany({
+      where: ownedByScope(user.id, company),
+      include: {
+        lines: { include: { product: { select: { name: true, sku: true } } } },
+        buyer: { select: { firstName: true, lastName: true, email: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ success: true, data: quotes }, { status: 200 });
+  } catch (error) {
+    console.error("GET /api/quotes error:", error);
+    return jsonError("Failed to fetch quotes", 500);
+  }
+}
+
+/**
+ * POST /api/quotes
+ * Request a quote for the cart's items, or a saved list's items
+ * The cart is left as it is; accepting the quote creates the order
+ */
+export async function POST(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await getOrCreateLocalUser(clerkId);
+    if (!user) return jsonError("User not found", 404);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = createQuoteSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid quote data", 400, parsed.error.flatten());
+    }
+
+    const { savedListId, notes } = parsed.data;
+
+    const company = await getActiveCompany(req, user);
+    if (!canPurchase(company)) {
+      return jsonError("Viewers cannot request quotes", 403);
+    }
+
+    let items;
+    if (savedListId) {
+      const list = await prisma.savedList.findUnique({
+        where: { id: savedListId },
+        include: { items: { include: { product: true } } },
+      });
+      if (!list || !isOwnedBy(list, user.id, company)) {
+        return jsonError("List not found", 404);
+      }
+      items = list.items;
+    } else {
+      const cart = await prisma.cart.findFirst({
+        where: cartScope(user.id, company),
+        include: { items: { include: { product: true } } },
+      });
+      items = cart?.items ?? [];
+    }
+
+    if (items.length === 0) {
+      return jsonError(savedListId ? "List is empty" : "Cart is empty", 400);
+    }
+
+    const lineErrors = validateOrderLines(items);
+    if (lineErrors.length > 0) {
+      return jsonError("Some items do not meet ordering rules", 400, {
+        lineErrors,
+      });
+    }
+
+    // The buyer's current prices, for the admin to negotiate from
+    const prices = await resolveUnitPrices(
+      prisma,
+      items.map((item) => ({ ...item.product, quantity: item.quantity })),
+      { buyerId: user.id, companyId: company?.id ?? null }
+    );
+
+    const quote = await prisma.quote.create({
+      data: {
+        buyerId: user.id,
+        companyId: company?.id ?? null,
+        notes,
+        lines: {
+          create: items.map((item) => ({
+            productId: item.productId,
+            quantity: item.quantity,
+            listUnitPriceCents:
+              prices.get(item.productId) ?? item.product.priceCents,
+          })),
+        },
+      },
+      include: { lines: { include: { product: true } } },
+    });
+
+    return NextResponse.json({ success: true, data: quote }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/quotes error:", error);
+    return jsonError("Failed to request quote", 500);
+  }
+}
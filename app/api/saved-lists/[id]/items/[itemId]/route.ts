@@ -1,6 +1,11 @@
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import {
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { canEdit } from "@/lib/company";
 import { jsonError } from "@/lib/utils";
 
 /**
@@ -20,9 +25,11 @@ export async function DELETE(
     const user = await getOrCreateLocalUser(clerkId);
     if (!user) return jsonError("User not found", 404);
 
+    const company = await getActiveCompany(req, user);
+
     // Verify list ownership
     const list = await prisma.savedList.findUnique({ where: { id: listId } });
-    if (!list || list.buyerId !== user.id) {
+    if (!list || !canEdit(list, user.id, company)) {
       return jsonError("List not found", 404);
     }
 
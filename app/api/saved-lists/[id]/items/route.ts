@@ -1,7 +1,12 @@
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { z } from "zod";
-import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import {
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { canEdit } from "@/lib/company";
 import { jsonError } from "@/lib/utils";
 
 const addItemSchema = z.object({
@@ -25,8 +30,10 @@ export async function POST(
     const user = await getOrCreateLocalUser(clerkId);
     if (!user) return jsonError("User not found", 404);
 
+    const company = await getActiveCompany(req, user);
+
     const list = await prisma.savedList.findUnique({ where: { id } });
-    if (!list || list.buyerId !== user.id) {
+    if (!list || !canEdit(list, user.id, company)) {
       return jsonError("List not found", 404);
     }
 
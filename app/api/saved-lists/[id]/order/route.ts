@@ -1,11 +1,27 @@
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import {
+  canPurchase,
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { findOrCreateCart, isOwnedBy } from "@/lib/company";
 import { jsonError } from "@/lib/utils";
+import { resolveUnitPrices } from "@/lib/pricing";
+import { validateOrderLines } from "@/lib/order-rules";
+import {
+  getSupplierStock,
+  platformStockSelect,
+  summarizeStock,
+} from "@/lib/inventory";
 
 /**
  * POST /api/saved-lists/[id]/order
  * Add all items from saved list to cart
+ * Items short of stock are added when their product allows backorders and
+ * reported as backordered; other out-of-stock items and items breaking their
+ * ordering rules are skipped and reported
  */
 export async function POST(
   req: Request,
@@ -19,12 +35,17 @@ export async function POST(
     const user = await getOrCreateLocalUser(clerkId);
     if (!user) return jsonError("User not found", 404);
 
+    const company = await getActiveCompany(req, user);
+    if (!canPurchase(company)) {
+      return jsonError("Viewers cannot add items to the cart", 403);
+    }
+
     const list = await prisma.savedList.findUnique({
       where: { id },
       include: { items: { include: { product: true } } },
     });
 
-    if (!list || list.buyerId !== user.id) {
+    if (!list || !isOwnedBy(list, user.id, company)) {
       return jsonError("List not found", 404);
     }
 
@@ -33,50 +54,70 @@ export async function POST(
     }
 
     // Check inventory for all items first
-    const outOfStockItems: Array<{
+    type StockShortage = {
       productId: string;
       productName: string;
       requestedQuantity: number;
       availableQuantity: number;
-    }> = [];
+    };
+    const outOfStockItems: StockShortage[] = [];
+    const backorderedItems: StockShortage[] = [];
+    const supplierStock = await getSupplierStock(
+      prisma,
+      list.items.map((item) => item.productId)
+    );
     for (const item of list.items) {
-      const inventory = await prisma.inventory.findFirst({
-        where: {
-          productId: item.productId,
-          ownerType: "PLATFORM",
-        },
-      });
+      // Available across all warehouses, then from drop-ship suppliers
+      const availableStock =
+        summarizeStock(
+          await prisma.inventory.findMany({
+            where: { productId: item.productId, ownerType: "PLATFORM" },
+            select: platformStockSelect.select,
+          })
+        ).availableStock + (supplierStock.get(item.productId) ?? 0);
 
-      if (!inventory || inventory.quantity < item.quantity) {
-        outOfStockItems.push({
-          productId: item.productId,
-          productName: item.product.name,
-          requestedQuantity: item.quantity,
-          availableQuantity: inventory?.quantity || 0,
-        });
+      if (availableStock < item.quantity) {
+        // The rest of a backorderable product ships once stock arrives
+        (item.product.allowBackorder ? backorderedItems : outOfStockItems).push(
+          {
+            productId: item.productId,
+            productName: item.product.name,
+            requestedQuantity: item.quantity,
+            availableQuantity: availableStock,
+          }
+        );
       }
     }
 
-    // If there are out of stock items, return warning but allow user to proceed
-    // User can choose to skip these items and add only in-stock items to cart
-    const inStockItems = list.items.filter(
-      (item) => !outOfStockItems.some((osi) => osi.productId === item.productId)
+    // Quantities saved before the product's ordering rules changed may no
+    // longer be valid
+    const lineErrors = validateOrderLines(list.items);
+
+    // If there are out of stock or invalid items, return warning but allow user to proceed
+    // User can choose to skip these items and add only orderable items to cart
+    const orderableItems = list.items.filter(
+      (item) =>
+        !outOfStockItems.some((osi) => osi.productId === item.productId) &&
+        !lineErrors.some((e) => e.productId === item.productId)
     );
 
-    // Get or create cart
-    let cart = await prisma.cart.findUnique({
-      where: { buyerId: user.id },
-    });
+    // Get or create cart (shared by the active company, if any)
+    const cart = await findOrCreateCart(prisma, user.id, company);
 
-    if (!cart) {
-      cart = await prisma.cart.create({
-        data: { buyerId: user.id },
-      });
-    }
+    const prices = await resolveUnitPrices(
+      prisma,
+      orderableItems.map((item) => ({
+        ...item.product,
+        quantity: item.quantity,
+      })),
+      { buyerId: user.id, companyId: company?.id ?? null }
+    );
 
-    // Add only in-stock items from list to cart (upsert)
+    // Add only orderable items from list to cart (upsert)
     const cartItems = [];
-    for (const item of inStockItems) {
+    for (const item of orderableItems) {
+      const unitPriceCents =
+        prices.get(item.productId) ?? item.product.priceCents;
       const cartItem = await prisma.cartItem.upsert({
         where: {
           cartId_productId: { cartId: cart.id, productId: item.productId },
@@ -85,10 +126,11 @@ export async function POST(
           cartId: cart.id,
           productId: item.productId,
           quantity: item.quantity,
-          unitPriceCents: item.product.priceCents,
+          unitPriceCents,
         },
         update: {
           quantity: item.quantity,
+          unitPriceCents,
         },
         include: { product: true },
       });
@@ -106,18 +148,24 @@ export async function POST(
     const baseResponse = {
       success: true as const,
       message:
-        inStockItems.length > 0 ? "Items added to cart" : "No items added",
+        orderableItems.length > 0 ? "Items added to cart" : "No items added",
       data: updatedCart,
+      ...(backorderedItems.length > 0 && { backorderedItems }),
     };
 
+    const skippedItemsCount = list.items.length - orderableItems.length;
     const response =
-      outOfStockItems.length > 0
+      skippedItemsCount > 0
         ? {
             ...baseResponse,
-            warning: "Some items were out of stock and excluded from cart",
+            warning:
+              lineErrors.length > 0
+                ? "Some items were out of stock or do not meet ordering rules and were excluded from cart"
+                : "Some items were out of stock and excluded from cart",
             outOfStockItems,
-            addedItemsCount: inStockItems.length,
-            skippedItemsCount: outOfStockItems.length,
+            lineErrors,
+            addedItemsCount: orderableItems.length,
+            skippedItemsCount,
           }
         : baseResponse;
 
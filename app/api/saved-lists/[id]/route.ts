@@ -1,7 +1,12 @@
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { z } from "zod";
-import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import {
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { canEdit, isOwnedBy } from "@/lib/company";
 import { jsonError } from "@/lib/utils";
 
 const updateListSchema = z.object({
@@ -24,12 +29,14 @@ export async function GET(
     const user = await getOrCreateLocalUser(clerkId);
     if (!user) return jsonError("User not found", 404);
 
+    const company = await getActiveCompany(req, user);
+
     const list = await prisma.savedList.findUnique({
       where: { id },
       include: { items: { include: { product: true } } },
     });
 
-    if (!list || list.buyerId !== user.id) {
+    if (!list || !isOwnedBy(list, user.id, company)) {
       return jsonError("List not found", 404);
     }
 
@@ -55,8 +62,10 @@ export async function PUT(
     const user = await getOrCreateLocalUser(clerkId);
     if (!user) return jsonError("User not found", 404);
 
+    const company = await getActiveCompany(req, user);
+
     const list = await prisma.savedList.findUnique({ where: { id } });
-    if (!list || list.buyerId !== user.id) {
+    if (!list || !canEdit(list, user.id, company)) {
       return jsonError("List not found", 404);
     }
 
@@ -98,8 +107,10 @@ export async function DELETE(
     const user = await getOrCreateLocalUser(clerkId);
     if (!user) return jsonError("User not found", 404);
 
+    const company = await getActiveCompany(req, user);
+
     const list = await prisma.savedList.findUnique({ where: { id } });
-    if (!list || list.buyerId !== user.id) {
+    if (!list || !canEdit(list, user.id, company)) {
       return jsonError("List not found", 404);
     }
 
@@ -1,7 +1,13 @@
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { z } from "zod";
-import { getClerkUserId, getOrCreateLocalUser } from "@/lib/auth";
+import {
+  canPurchase,
+  getActiveCompany,
+  getClerkUserId,
+  getOrCreateLocalUser,
+} from "@/lib/auth";
+import { ownedByScope } from "@/lib/company";
 import { jsonError } from "@/lib/utils";
 
 const createListSchema = z.object({
@@ -11,7 +17,7 @@ const createListSchema = z.object({
 
 /**
  * GET /api/saved-lists
- * List user's saved lists
+ * List user's saved lists, plus lists shared by their active company
  */
 export async function GET(req: Request) {
   try {
@@ -21,8 +27,10 @@ export async function GET(req: Request) {
     const user = await getOrCreateLocalUser(clerkId);
     if (!user) return jsonError("User not found", 404);
 
+    const company = await getActiveCompany(req, user);
+
     const lists = await prisma.savedList.findMany({
-      where: { buyerId: user.id },
+      where: ownedByScope(user.id, company),
       include: {
         items: {
           include: { product: true },
@@ -40,7 +48,7 @@ export async function GET(req: Request) {
 
 /**
  * POST /api/saved-lists
- * Create a new saved list
+ * Create a new saved list (shared with the active company, if any)
  */
 export async function POST(req: Request) {
   try {
@@ -50,6 +58,12 @@ export async function POST(req: Request) {
     const user = await getOrCreateLocalUser(clerkId);
     if (!user) return jsonError("User not found", 404);
 
+    const company = await getActiveCompany(req, user);
+
+    if (!canPurchase(company)) {
+      return jsonError("Viewers cannot create saved lists", 403);
+    }
+
     const body = await req.json().catch(() => ({}));
     const parsed = createListSchema.safeParse(body);
 
@@ -62,6 +76,7 @@ export async function POST(req: Request) {
     const list = await prisma.savedList.create({
       data: {
         buyerId: user.id,
+        companyId: company?.id ?? null,
         name,
         description,
       },
@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireSupplier } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { availableStock, setSupplierStock } from "@/lib/inventory";
+
+const updateStockSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        productId: z.string().min(1),
+        quantity: z.number().int().nonnegative(),
+      })
+    )
+    .min(1),
+});
+
+/**
+ * GET /api/supplier/inventory
+ * The signed-in supplier's stock of each product in its catalog (supplier
+ * only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await requireSupplier(req);
+
+    const [supplier, inventories] = await Promise.all([
+      prisma.supplier.findUniqueOrThrow({
+        where: { id: user.supplierId },
+        select: { id: true, name: true, isActive: true },
+      }),
+      prisma.inventory.findMany({
+        where: { ownerType: "SUPPLIER", ownerId: user.supplierId },
+        include: {
+          product: { select: { id: true, sku: true, name: true, unit: true } },
+        },
+        orderBy: { product: { name: "asc" } },
+      }),
+    ]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        supplier,
+        data: inventories.map((inventory) => ({
+          ...inventory.product,
+          quantity: inventory.quantity,
+          reserved: inventory.reserved,
+          available: availableStock(inventory),
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/supplier/inventory error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Supplier access required", 403);
+    }
+    return jsonError("Failed to fetch inventory", 500);
+  }
+}
+
+/**
+ * PUT /api/supplier/inventory
+ * Set the signed-in supplier's stock of products in its catalog (supplier
+ * only). Each change is recorded as an ADJUSTMENT movement.
+ */
+export async function PUT(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await requireSupplier(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = updateStockSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid stock data", 400, parsed.error.flatten());
+    }
+
+    // Suppliers only update products an admin added to their catalog
+    const catalog = await prisma.inventory.findMany({
+      where: { ownerType: "SUPPLIER", ownerId: user.supplierId },
+      select: { productId: true },
+    });
+    const unknown = parsed.data.items.find(
+      (item) => !catalog.some((c) => c.productId === item.productId)
+    );
+    if (unknown) {
+      return jsonError("Product is not in your catalog", 400, {
+        productId: unknown.productId,
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const item of parsed.data.items) {
+        await setSupplierStock(
+          tx,
+          { productId: item.productId, supplierId: user.supplierId },
+          item.quantity,
+          { actorId: user.id, note: "Supplier portal" }
+        );
+      }
+    });
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("PUT /api/supplier/inventory error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Supplier access required", 403);
+    }
+    if (err.message?.startsWith("STOCK_BELOW_RESERVED")) {
+      const reserved = err.message.split(":")[1];
+      return jsonError(
+        `Stock cannot be set below the ${reserved} unit(s) reserved by unpaid orders`,
+        400
+      );
+    }
+    return jsonError("Failed to update inventory", 500);
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { getClerkUserId, requireSupplier } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { acknowledgeDropShipOrder } from "@/lib/suppliers";
+import { shipDropShipOrder } from "@/lib/shipments";
+
+const updateDropShipSchema = z.discriminatedUnion("status", [
+  z.object({ status: z.literal("ACKNOWLEDGED") }),
+  z.object({
+    status: z.literal("SHIPPED"),
+    carrier: z.string().min(1),
+    trackingNumber: z.string().optional(),
+  }),
+]);
+
+/**
+ * PUT /api/supplier/orders/[id]
+ * Acknowledge a drop-ship order, or record that it shipped to the buyer
+ * (supplier only). Shipping records a shipment of the buyer's order, which
+ * becomes SHIPPED once all of its lines have shipped.
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await requireSupplier(req);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = updateDropShipSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return jsonError("Invalid order update", 400, parsed.error.flatten());
+    }
+
+    const input = parsed.data;
+    const dropShipOrder = await prisma.$transaction((tx) =>
+      input.status === "ACKNOWLEDGED"
+        ? acknowledgeDropShipOrder(tx, id, user.supplierId)
+        : shipDropShipOrder(tx, id, {
+            supplierId: user.supplierId,
+            carrier: input.carrier,
+            trackingNumber: input.trackingNumber,
+            actorId: user.id,
+          })
+    );
+
+    return NextResponse.json(
+      { success: true, data: dropShipOrder },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("PUT /api/supplier/orders/[id] error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Supplier access required", 403);
+    }
+    if (err.message === "DROP_SHIP_NOT_FOUND") {
+      return jsonError("Order not found", 404);
+    }
+    if (
+      err.message === "DROP_SHIP_CANCELLED" ||
+      err.message === "DROP_SHIP_NOT_OPEN:CANCELLED"
+    ) {
+      return jsonError("Order was cancelled", 409);
+    }
+    if (err.message?.startsWith("DROP_SHIP_NOT_OPEN")) {
+      return jsonError("Order was already acknowledged", 409);
+    }
+    if (err.message === "DROP_SHIP_ALREADY_SHIPPED") {
+      return jsonError("Order was already shipped", 409);
+    }
+    if (err.message?.startsWith("ORDER_NOT_SHIPPABLE")) {
+      const status = err.message.split(":")[1];
+      return jsonError(`Cannot ship an order with status ${status}`, 409);
+    }
+    if (err.message?.startsWith("QUANTITY_EXCEEDED")) {
+      const productName = err.message.split(":")[1] || "Unknown";
+      return jsonError(`${productName} was already shipped`, 409);
+    }
+    return jsonError("Failed to update order", 500);
+  }
+}
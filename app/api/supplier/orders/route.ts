@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getClerkUserId, requireSupplier } from "@/lib/auth";
+import { jsonError } from "@/lib/utils";
+import { dropShipOrderInclude } from "@/lib/suppliers";
+
+/**
+ * GET /api/supplier/orders
+ * The signed-in supplier's drop-ship orders, those still to ship first
+ * (supplier only)
+ */
+export async function GET(req: Request) {
+  try {
+    const clerkId = await getClerkUserId(req);
+    if (!clerkId) return jsonError("Unauthorized", 401);
+
+    const user = await requireSupplier(req);
+
+    const dropShipOrders = await prisma.dropShipOrder.findMany({
+      where: { supplierId: user.supplierId },
+      // OPEN, ACKNOWLEDGED, then SHIPPED and CANCELLED
+      orderBy: [{ status: "asc" }, { createdAt: "desc" }],
+      take: 100,
+      include: dropShipOrderInclude,
+    });
+
+    return NextResponse.json(
+      { success: true, data: dropShipOrders },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("GET /api/supplier/orders error:", error);
+    const err = error as { message?: string };
+    if (err.message?.includes("UNAUTHORIZED")) {
+      return jsonError("Supplier access required", 403);
+    }
+    return jsonError("Failed to fetch orders", 500);
+  }
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth, SignInButton } from "@clerk/nextjs";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Approvals Page - Orders over a purchaser's spending limit (company owners)
+ * Approve so the buyer can pay, or reject with a comment
+ */
+
+interface PendingOrder {
+  id: string;
+  totalCents: number;
+  poNumber?: string;
+  notes?: string;
+  createdAt: string;
+  buyer: { firstName?: string; lastName?: string; email: string };
+  company: { id: string; name: string };
+  lines: {
+    id: string;
+    quantity: number;
+    unitPriceCents: number;
+    product: { name: string; sku: string };
+  }[];
+}
+
+export default function ApprovalsPage() {
+  const { isSignedIn } = useAuth();
+  const [orders, setOrders] = useState<PendingOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [actioningOrderId, setActioningOrderId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const fetchApprovals = async () => {
+    try {
+      setLoading(true);
+      // GET /api/approvals - Orders waiting for my approval
+      const res = await fetch("/api/approvals");
+      const json = await res.json();
+      if (json.success) {
+        setOrders(json.data);
+      }
+    } catch (err) {
+      console.error("Failed to fetch approvals:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isSignedIn) fetchApprovals();
+  }, [isSignedIn]);
+
+  const handleDecision = async (
+    orderId: string,
+    decision: "APPROVE" | "REJECT"
+  ) => {
+    setActioningOrderId(orderId);
+    setActionError(null);
+
+    try {
+      // POST /api/orders/[id]/approval - Approve or reject the order
+      const res = await fetch(`/api/orders/${orderId}/approval`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          decision,
+          comment: comments[orderId] || undefined,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to record decision");
+      }
+
+      fetchApprovals();
+    } catch (err) {
+      setActionError(
+        err instanceof Error ? err.message : "Failed to record decision"
+      );
+    } finally {
+      setActioningOrderId(null);
+    }
+  };
+
+  if (!isSignedIn) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12 px-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-8 text-center">
+            <h2 className="text-2xl font-bold text-blue-900 mb-4">
+              Please Sign In
+            </h2>
+            <p className="text-blue-700 mb-6">
+              You need to sign in to review approvals
+            </p>
+            <SignInButton mode="modal">
+              <button className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded transition">
+                Sign In Now
+              </button>
+            </SignInButton>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-6xl mx-auto px-4 py-8">
+          <h1 className="text-3xl font-bold mb-2">Pending Approvals</h1>
+          <p className="text-gray-600 mb-8">
+            Orders placed over a purchaser&apos;s spending limit in companies
+            you own.
+          </p>
+
+          {actionError && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded text-red-700">
+              {actionError}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12">Loading...</div>
+          ) : orders.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              Nothing waiting for your approval
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {orders.map((order) => (
+                <div key={order.id} className="bg-white rounded-lg shadow p-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h3 className="text-lg font-semibold">
+                        Order #{order.id.slice(0, 8)}
+                      </h3>
+                      <p className="text-sm text-gray-600">
+                        {order.company.name} ·{" "}
+                        {[order.buyer.firstName, order.buyer.lastName]
+                          .filter(Boolean)
+                          .join(" ") || order.buyer.email}{" "}
+                        · {new Date(order.createdAt).toLocaleString()}
+                      </p>
+                      {order.poNumber && (
+                        <p className="text-sm text-gray-600">
+                          PO: {order.poNumber}
+                        </p>
+                      )}
+                    </div>
+                    <p className="text-xl font-bold">
+                      ${(order.totalCents / 100).toFixed(2)}
+                    </p>
+                  </div>
+
+                  <div className="border-t pt-4 space-y-1">
+                    {order.lines.map((line) => (
+                      <div
+                        key={line.id}
+                        className="flex justify-between text-sm"
+                      >
+                        <span>
+                          {line.product.name} ({line.product.sku}) ×{" "}
+                          {line.quantity}
+                        </span>
+                        <span>
+                          $
+                          {(
+                            (line.unitPriceCents * line.quantity) /
+                            100
+                          ).toFixed(2)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  {order.notes && (
+                    <p className="mt-4 text-sm text-gray-700">
+                      Buyer notes: {order.notes}
+                    </p>
+                  )}
+
+                  <div className="border-t mt-4 pt-4 space-y-3">
+                    <textarea
+                      value={comments[order.id] || ""}
+                      onChange={(e) =>
+                        setComments((prev) => ({
+                          ...prev,
+                          [order.id]: e.target.value,
+                        }))
+                      }
+                      placeholder="Comment for the buyer (optional)"
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <div className="flex gap-3">
+                      <button
+                        onClick={() => handleDecision(order.id, "APPROVE")}
+                        disabled={actioningOrderId === order.id}
+                        className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleDecision(order.id, "REJECT")}
+                        disabled={actioningOrderId === order.id}
+                        className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -5,7 +5,18 @@ import Link from "next/link";
 import { useAuth, SignInButton } from "@clerk/nextjs";
 import { Button, Card } from "@/components/ui";
 import { calculateOrderTotal } from "@/lib/utils";
+import { formatTaxLabel } from "@/lib/tax-rates";
+import { TaxNote, type TaxEstimate } from "@/app/tax-note";
+import type { ShippingEstimate } from "@/app/shipping-options";
+import { formatShippingMethod } from "@/lib/shipping-methods";
 import { footerStyles, layoutStyles } from "@/app/ui-styles";
+import { PriceTierTable, TierSavingsHint } from "@/app/price-tiers";
+import {
+  checkQuantity,
+  describeOrderRules,
+  quantityStep,
+  type LineError,
+} from "@/lib/order-rules";
 
 /**
  * Cart Page - Shopping cart management(buyer-only)
@@ -22,6 +33,11 @@ interface CartItem {
     name: string;
     sku: string;
     description: string;
+    priceCents: number;
+    priceTiers: { minQuantity: number; priceCents: number }[];
+    minOrderQuantity: number;
+    orderMultiple: number;
+    packSize: number;
   };
 }
 
@@ -29,6 +45,8 @@ interface CartData {
   id: string;
   buyerId: string;
   items: CartItem[];
+  tax: TaxEstimate;
+  shipping: ShippingEstimate;
   createdAt: string;
   updatedAt: string;
 }
@@ -38,6 +56,10 @@ export default function CartPage() {
   const [cart, setCart] = useState<CartData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Rejected quantity updates, by product id, shown under the item
+  const [lineErrors, setLineErrors] = useState<Record<string, LineError>>({});
+  const [requestingQuote, setRequestingQuote] = useState(false);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
 
   // Fetch cart on mount - Cart only available for authenticated users
   useEffect(() => {
@@ -98,12 +120,22 @@ export default function CartPage() {
         body: JSON.stringify({ itemId, quantity }),
       });
 
-      if (!res.ok) throw new Error("Failed to update quantity");
+      if (!res.ok) {
+        const data = await res.json();
+        const lineError: LineError | undefined = data.details?.lineErrors?.[0];
+        if (!lineError) throw new Error("Failed to update quantity");
+        setLineErrors((prev) => ({
+          ...prev,
+          [lineError.productId]: lineError,
+        }));
+        return;
+      }
 
       // Refresh cart after update
       const cartRes = await fetch("/api/cart");
       const cartData = await cartRes.json();
       setCart(cartData.data);
+      setLineErrors({});
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Failed to update quantity"
@@ -111,6 +143,31 @@ export default function CartPage() {
     }
   };
 
+  const handleRequestQuote = async () => {
+    setRequestingQuote(true);
+    setQuoteError(null);
+
+    try {
+      // POST /api/quotes - Request a quote for the cart's items
+      const res = await fetch("/api/quotes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const data = await res.json();
+
+      // Ordering rule errors are already shown under each item
+      if (!res.ok) throw new Error(data.error || "Failed to request quote");
+
+      window.location.href = "/quotes";
+    } catch (err) {
+      setQuoteError(
+        err instanceof Error ? err.message : "Failed to request quote"
+      );
+      setRequestingQuote(false);
+    }
+  };
+
   if (!isSignedIn) {
     return (
       <div className="min-h-screen bg-gray-50 py-12 px-4">
@@ -161,9 +218,14 @@ export default function CartPage() {
     0
   );
 
-  // Calculate tax, shipping, and total
-  const { taxCents, shippingCents, totalCents } =
-    calculateOrderTotal(subtotalCents);
+  // Tax and shipping are estimated by the server; the estimate uses the
+  // default shipping method, which can be changed at checkout
+  const shippingOption = cart?.shipping.options[0];
+  const { taxCents, shippingCents, totalCents } = calculateOrderTotal(
+    subtotalCents,
+    (cart?.tax.taxCents ?? 0) + (shippingOption?.taxCents ?? 0),
+    shippingOption?.priceCents ?? 0
+  );
 
   return (
     <div className={layoutStyles.pageWrapper}>
@@ -220,10 +282,55 @@ export default function CartPage() {
                                 <p className="text-sm text-gray-500">
                                   {item.product.sku}
                                 </p>
+                                {describeOrderRules(item.product) && (
+                                  <p className="text-xs text-gray-500">
+                                    {describeOrderRules(item.product)}
+                                  </p>
+                                )}
+                                {/* Current quantity no longer valid (rules changed since it was added) */}
+                                {checkQuantity(item.product, item.quantity).map(
+                                  (violation) => (
+                                    <p
+                                      key={violation.code}
+                                      className="text-xs text-red-600"
+                                    >
+                                      {violation.message}
+                                    </p>
+                                  )
+                                )}
+                                {lineErrors[item.productId] && (
+                                  <p className="text-xs text-red-600">
+                                    Cannot change to{" "}
+                                    {lineErrors[item.productId].quantity}:{" "}
+                                    {lineErrors[item.productId].violations
+                                      .map((v) => v.message)
+                                      .join(". ")}
+                                  </p>
+                                )}
+                                {item.product.priceTiers.length > 0 && (
+                                  <details className="mt-1 text-sm">
+                                    <summary className="cursor-pointer text-blue-600">
+                                      Volume pricing
+                                    </summary>
+                                    <div className="mt-2 max-w-xs">
+                                      <PriceTierTable
+                                        basePriceCents={item.product.priceCents}
+                                        tiers={item.product.priceTiers}
+                                        quantity={item.quantity}
+                                      />
+                                    </div>
+                                  </details>
+                                )}
                               </div>
                             </td>
                             <td className="py-3 px-4 text-gray-900">
                               ${(item.unitPriceCents / 100).toFixed(2)}
+                              <TierSavingsHint
+                                basePriceCents={item.product.priceCents}
+                                tiers={item.product.priceTiers}
+                                quantity={item.quantity}
+                                currentPriceCents={item.unitPriceCents}
+                              />
                             </td>
                             <td className="py-3 px-4">
                               <div className="flex items-center gap-2">
@@ -231,10 +338,14 @@ export default function CartPage() {
                                   onClick={() =>
                                     handleUpdateQuantity(
                                       item.id,
-                                      item.quantity - 1
+                                      item.quantity - quantityStep(item.product)
                                     )
                                   }
-                                  className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-100"
+                                  disabled={
+                                    item.quantity - quantityStep(item.product) <
+                                    item.product.minOrderQuantity
+                                  }
+                                  className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
                                 >
                                   −
                                 </button>
@@ -245,7 +356,7 @@ export default function CartPage() {
                                   onClick={() =>
                                     handleUpdateQuantity(
                                       item.id,
-                                      item.quantity + 1
+                                      item.quantity + quantityStep(item.product)
                                     )
                                   }
                                   className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-100"
@@ -299,25 +410,36 @@ export default function CartPage() {
                         <span>${(subtotalCents / 100).toFixed(2)}</span>
                       </div>
                       <div className="flex justify-between text-gray-600">
-                        <span>Shipping:</span>
-                        <span>${(shippingCents / 100).toFixed(2)}</span>
-                      </div>
-                      <div className="flex justify-between text-gray-600 pl-2 border-l-2 border-gray-300">
-                        <span>GST (5%):</span>
                         <span>
-                          ${((subtotalCents * 0.05) / 100).toFixed(2)}
-                        </span>
-                      </div>
-                      <div className="flex justify-between text-gray-600 pl-2 border-l-2 border-gray-300">
-                        <span>QST (9.975%):</span>
-                        <span>
-                          ${((subtotalCents * 0.09975) / 100).toFixed(2)}
+                          Shipping
+                          {shippingOption &&
+                            ` (${formatShippingMethod(shippingOption.method)})`}
+                          :
                         </span>
+                        <span>${(shippingCents / 100).toFixed(2)}</span>
                       </div>
+                      {cart?.tax.taxes.map((tax) => (
+                        <div
+                          key={`${tax.jurisdiction}:${tax.name}`}
+                          className="flex justify-between text-gray-600 pl-2 border-l-2 border-gray-300"
+                        >
+                          <span>{formatTaxLabel(tax)}:</span>
+                          <span>${(tax.amountCents / 100).toFixed(2)}</span>
+                        </div>
+                      ))}
+                      {!!shippingOption?.taxCents && (
+                        <div className="flex justify-between text-gray-600 pl-2 border-l-2 border-gray-300">
+                          <span>Tax on shipping:</span>
+                          <span>
+                            ${(shippingOption.taxCents / 100).toFixed(2)}
+                          </span>
+                        </div>
+                      )}
                       <div className="flex justify-between text-gray-600 text-sm pt-2">
                         <span>Total Tax:</span>
                         <span>${(taxCents / 100).toFixed(2)}</span>
                       </div>
+                      {cart && <TaxNote tax={cart.tax} />}
                     </div>
 
                     <div className="flex justify-between text-lg font-bold text-gray-900 mb-6">
@@ -335,6 +457,19 @@ export default function CartPage() {
                         Proceed to Checkout
                       </button>
                     </Link>
+                    <button
+                      onClick={handleRequestQuote}
+                      disabled={cartItems.length === 0 || requestingQuote}
+                      className="w-full mt-3 px-4 py-2 bg-gray-200 hover:bg-gray-300 text-black rounded font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {requestingQuote ? "Requesting..." : "Request a Quote"}
+                    </button>
+                    {quoteError && (
+                      <p className="mt-2 text-sm text-red-600">{quoteError}</p>
+                    )}
+                    <p className="mt-2 text-xs text-gray-500">
+                      Large order? Ask for negotiated prices before you buy.
+                    </p>
                   </div>
                 </Card>
               </div>
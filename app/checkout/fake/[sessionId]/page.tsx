@@ -0,0 +1,240 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { Button, Card } from "@/components/ui";
+import { layoutStyles, footerStyles } from "@/app/ui-styles";
+
+/**
+ * Fake Checkout Page - the hosted checkout page of the fake payment provider
+ * (PAYMENT_PROVIDER=fake), to pay orders locally without Stripe
+ */
+
+type Outcome =
+  "PAY" | "DECLINE" | "PAY_LATER" | "SETTLE" | "FAIL_SETTLEMENT" | "EXPIRE";
+
+interface FakeSession {
+  id: string;
+  orderId: string;
+  amountCents: number;
+  status: "open" | "complete" | "expired";
+  paymentStatus: "paid" | "unpaid";
+  settlement: "PENDING" | "SETTLED" | "FAILED" | null;
+  expiresAt: string | null;
+  cancelUrl: string;
+}
+
+export default function FakeCheckoutPage() {
+  const params = useParams();
+  const sessionId = params.sessionId as string;
+
+  const [session, setSession] = useState<FakeSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState<Outcome | null>(null);
+
+  const fetchSession = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/checkout/fake/${sessionId}`);
+      const json = await res.json();
+
+      if (json.success) {
+        setSession(json.data);
+      } else {
+        setError(json.error || "Checkout session not found");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchSession();
+  }, [fetchSession]);
+
+  const handleOutcome = async (outcome: Outcome) => {
+    try {
+      setSubmitting(outcome);
+      setError(null);
+      const res = await fetch(`/api/checkout/fake/${sessionId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ outcome }),
+      });
+      const json = await res.json();
+
+      if (!json.success) {
+        setError(json.error || "Failed to simulate payment");
+        return;
+      }
+      if (json.data.redirectUrl) {
+        window.location.href = json.data.redirectUrl;
+        return;
+      }
+      if (outcome === "DECLINE") {
+        setError("Your card was declined. Try again or pay another way.");
+      }
+      await fetchSession();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const statusLabel = (session: FakeSession) => {
+    if (session.status === "expired") return "Expired";
+    if (session.paymentStatus === "paid") return "Paid";
+    if (session.settlement === "PENDING") return "Awaiting bank transfer";
+    if (session.settlement === "FAILED") return "Bank transfer failed";
+    return "Awaiting payment";
+  };
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-md mx-auto px-4 py-12">
+          <div className="mb-6">
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+              Test mode · Fake payment provider
+            </p>
+            <h1 className="text-3xl font-bold text-gray-900">Checkout</h1>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-gray-600">Loading checkout session...</p>
+          ) : (
+            session && (
+              <Card className="p-6">
+                <div className="flex justify-between items-baseline mb-2">
+                  <span className="text-gray-600">Amount due</span>
+                  <span className="text-2xl font-bold text-gray-900">
+                    ${(session.amountCents / 100).toFixed(2)}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-gray-600">Order</span>
+                  <span className="font-mono text-gray-900">
+                    {session.orderId}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-gray-600">Status</span>
+                  <span className="font-semibold text-gray-900">
+                    {statusLabel(session)}
+                  </span>
+                </div>
+                {session.expiresAt && session.status === "open" && (
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-600">Expires</span>
+                    <span className="text-gray-900">
+                      {new Date(session.expiresAt).toLocaleString()}
+                    </span>
+                  </div>
+                )}
+
+                {session.status === "open" && (
+                  <div className="mt-6 flex flex-col gap-2">
+                    <Button
+                      onClick={() => handleOutcome("PAY")}
+                      disabled={!!submitting}
+                    >
+                      {submitting === "PAY" ? "Paying..." : "Pay by card"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleOutcome("DECLINE")}
+                      disabled={!!submitting}
+                    >
+                      Pay with a declined card
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleOutcome("PAY_LATER")}
+                      disabled={!!submitting}
+                    >
+                      Pay by bank transfer (settles later)
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      onClick={() => handleOutcome("EXPIRE")}
+                      disabled={!!submitting}
+                    >
+                      Let the session expire
+                    </Button>
+                    <a
+                      href={session.cancelUrl}
+                      className="text-center text-sm text-gray-500 hover:text-black"
+                    >
+                      Cancel and go back
+                    </a>
+                  </div>
+                )}
+
+                {session.settlement === "PENDING" && (
+                  <div className="mt-6 flex flex-col gap-2">
+                    <p className="text-sm text-gray-600">
+                      The order stays unpaid until the bank transfer arrives.
+                    </p>
+                    <Button
+                      onClick={() => handleOutcome("SETTLE")}
+                      disabled={!!submitting}
+                    >
+                      Settle the transfer
+                    </Button>
+                    <Button
+                      variant="danger"
+                      onClick={() => handleOutcome("FAIL_SETTLEMENT")}
+                      disabled={!!submitting}
+                    >
+                      Fail the transfer
+                    </Button>
+                  </div>
+                )}
+
+                {session.status !== "open" && (
+                  <a
+                    href={`/orders/${session.orderId}`}
+                    className="mt-6 block text-center text-sm text-gray-500 hover:text-black"
+                  >
+                    View order
+                  </a>
+                )}
+              </Card>
+            )
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
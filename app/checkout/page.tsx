@@ -1,10 +1,16 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useCallback, useState, useEffect } from "react";
 import { useAuth, SignInButton } from "@clerk/nextjs";
 import Link from "next/link";
 import { calculateOrderTotal } from "@/lib/utils";
+import { formatTaxLabel } from "@/lib/tax-rates";
+import { TaxNote, type TaxEstimate } from "@/app/tax-note";
+import { ShippingOptions, type ShippingEstimate } from "@/app/shipping-options";
+import type { ShippingMethodValue } from "@/lib/shipping-methods";
+import { formatAddressLines, type AddressLines } from "@/lib/address-format";
 import { footerStyles, layoutStyles } from "@/app/ui-styles";
+import type { LineError } from "@/lib/order-rules";
 
 /**
  * Checkout Page - Order confirmation and payment (buyer-only)
@@ -24,10 +30,25 @@ interface CartItem {
   };
 }
 
+interface CreditAccount {
+  paymentTermsDays: number | null;
+  creditLimitCents: number | null;
+  openBalanceCents: number;
+  availableCreditCents: number | null;
+}
+
+interface Address extends AddressLines {
+  id: string;
+  label: string | null;
+  isDefaultBilling: boolean;
+}
+
 interface CartData {
   id: string;
   buyerId: string;
   items: CartItem[];
+  tax: TaxEstimate;
+  shipping: ShippingEstimate;
   createdAt: string;
   updatedAt: string;
 }
@@ -37,9 +58,50 @@ export default function CheckoutPage() {
   const [cart, setCart] = useState<CartData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [lineErrors, setLineErrors] = useState<LineError[]>([]);
   const [submitting, setSubmitting] = useState(false);
   const [poNumber, setPoNumber] = useState("");
   const [notes, setNotes] = useState("");
+  const [account, setAccount] = useState<CreditAccount | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<"CARD" | "ON_ACCOUNT">(
+    "CARD"
+  );
+  const [shippingMethod, setShippingMethod] =
+    useState<ShippingMethodValue | null>(null);
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [shippingAddressId, setShippingAddressId] = useState("");
+  const [billingAddressId, setBillingAddressId] = useState("");
+
+  // Tax and shipping options depend on the shipping address
+  // (empty: the buyer's default)
+  const fetchCart = useCallback(async (addressId: string) => {
+    try {
+      const query = addressId
+        ? `?shippingAddressId=${encodeURIComponent(addressId)}`
+        : "";
+      const res = await fetch(`/api/cart${query}`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch cart");
+      }
+      const data = await res.json();
+      const shipping: ShippingEstimate = data.data.shipping;
+      setCart(data.data);
+      setShippingAddressId(shipping.addressId ?? "");
+      // Keep the chosen method if still offered, otherwise the first one
+      // (as the order API does)
+      setShippingMethod((current) =>
+        shipping.options.some((option) => option.method === current)
+          ? current
+          : (shipping.options[0]?.method ?? null)
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load cart");
+      setCart(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
 
   // Fetch cart on mount
   useEffect(() => {
@@ -48,25 +110,38 @@ export default function CheckoutPage() {
       return;
     }
 
-    const fetchCart = async () => {
+    // GET /api/addresses - Address book, defaults first
+    const fetchAddresses = async () => {
       try {
-        const res = await fetch("/api/cart");
-        if (!res.ok) {
-          throw new Error("Failed to fetch cart");
+        const res = await fetch("/api/addresses");
+        if (res.ok) {
+          const data = await res.json();
+          const list: Address[] = data.data || [];
+          setAddresses(list);
+          setBillingAddressId(list.find((a) => a.isDefaultBilling)?.id ?? "");
         }
-        const data = await res.json();
-        setCart(data.data);
-        setError(null);
       } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to load cart");
-        setCart(null);
-      } finally {
-        setLoading(false);
+        console.error("Failed to fetch addresses:", err);
       }
     };
 
-    fetchCart();
-  }, [isSignedIn]);
+    // GET /api/invoices - Net terms of the active company, if any
+    const fetchAccount = async () => {
+      try {
+        const res = await fetch("/api/invoices");
+        if (res.ok) {
+          const data = await res.json();
+          setAccount(data.data.account);
+        }
+      } catch (err) {
+        console.error("Failed to fetch credit account:", err);
+      }
+    };
+
+    fetchCart("");
+    fetchAddresses();
+    fetchAccount();
+  }, [isSignedIn, fetchCart]);
 
   const handlePlaceOrder = async () => {
     if (!cart || cart.items.length === 0) {
@@ -76,6 +151,7 @@ export default function CheckoutPage() {
 
     setSubmitting(true);
     setError(null);
+    setLineErrors([]);
 
     try {
       // Step 1: Create order
@@ -85,17 +161,47 @@ export default function CheckoutPage() {
         body: JSON.stringify({
           poNumber: poNumber || undefined,
           notes: notes || undefined,
+          shippingMethod: shippingMethod ?? undefined,
+          shippingAddressId: shippingAddressId || undefined,
+          billingAddressId: billingAddressId || undefined,
         }),
       });
 
       const data = await res.json();
 
       if (!res.ok) {
+        // Per-line ordering rule errors are shown next to each item
+        setLineErrors(data.details?.lineErrors ?? []);
         throw new Error(data.error || "Failed to create order");
       }
 
       const orderId = data.data.id;
 
+      // Over the spending limit: no payment until a company owner approves
+      if (data.data.status === "PENDING_APPROVAL") {
+        window.location.href = `/orders/${orderId}`;
+        return;
+      }
+
+      // Net terms: invoice the company instead of paying by card
+      if (paymentMethod === "ON_ACCOUNT") {
+        const accountRes = await fetch("/api/checkout/on-account", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ orderId }),
+        });
+
+        if (!accountRes.ok) {
+          const accountData = await accountRes.json();
+          throw new Error(
+            accountData.error || "Failed to place order on account"
+          );
+        }
+
+        window.location.href = `/orders/${orderId}`;
+        return;
+      }
+
       // Step 2: Create Stripe Checkout Session and redirect
       const sessionRes = await fetch("/api/checkout/session", {
         method: "POST",
@@ -161,8 +267,23 @@ export default function CheckoutPage() {
     0
   );
 
-  const { taxCents, shippingCents, totalCents } =
-    calculateOrderTotal(subtotalCents);
+  const shippingOption = cart?.shipping.options.find(
+    (option) => option.method === shippingMethod
+  );
+  const { taxCents, shippingCents, totalCents } = calculateOrderTotal(
+    subtotalCents,
+    (cart?.tax.taxCents ?? 0) + (shippingOption?.taxCents ?? 0),
+    shippingOption?.priceCents ?? 0
+  );
+
+  const addressName = (address: Address) =>
+    [address.label, address.line1, address.city].filter(Boolean).join(", ");
+  const shippingAddress = addresses.find((a) => a.id === shippingAddressId);
+  const billingAddress = addresses.find((a) => a.id === billingAddressId);
+
+  const withinCredit =
+    account?.availableCreditCents == null ||
+    totalCents <= account.availableCreditCents;
 
   return (
     <div className={layoutStyles.pageWrapper}>
@@ -199,6 +320,22 @@ export default function CheckoutPage() {
                           <p className="text-sm text-gray-500">
                             SKU: {item.product.sku}
                           </p>
+                          {lineErrors
+                            .filter((e) => e.productId === item.productId)
+                            .map((e) => (
+                              <p
+                                key={e.productId}
+                                className="text-sm text-red-600"
+                              >
+                                {e.violations.map((v) => v.message).join(". ")}.
+                                Change the quantity to {e.suggestedQuantity} in
+                                your{" "}
+                                <Link href="/cart" className="underline">
+                                  cart
+                                </Link>
+                                .
+                              </p>
+                            ))}
                         </div>
                         <div className="text-right">
                           <p className="text-gray-900">
@@ -218,6 +355,88 @@ export default function CheckoutPage() {
                   </div>
                 </div>
 
+                {/* Addresses */}
+                <div className="bg-white rounded-lg shadow p-6 mb-6">
+                  <h2 className="text-xl font-semibold mb-4">Addresses</h2>
+                  {addresses.length === 0 ? (
+                    <p className="text-sm text-gray-600">
+                      Your address book is empty, so this order can only be
+                      picked up. Add a shipping address on your{" "}
+                      <Link href="/dashboard" className="underline">
+                        dashboard
+                      </Link>{" "}
+                      to have it delivered.
+                    </p>
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-900 mb-1">
+                          Ship to
+                        </label>
+                        <select
+                          value={shippingAddressId}
+                          onChange={(e) => fetchCart(e.target.value)}
+                          className="w-full px-4 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          {addresses.map((address) => (
+                            <option key={address.id} value={address.id}>
+                              {addressName(address)}
+                            </option>
+                          ))}
+                        </select>
+                        {shippingAddress && (
+                          <div className="mt-2 text-sm text-gray-600">
+                            {formatAddressLines(shippingAddress).map(
+                              (line, i) => (
+                                <p key={i}>{line}</p>
+                              )
+                            )}
+                          </div>
+                        )}
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-900 mb-1">
+                          Bill to
+                        </label>
+                        <select
+                          value={billingAddressId}
+                          onChange={(e) => setBillingAddressId(e.target.value)}
+                          className="w-full px-4 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          {addresses.map((address) => (
+                            <option key={address.id} value={address.id}>
+                              {addressName(address)}
+                            </option>
+                          ))}
+                        </select>
+                        {billingAddress && (
+                          <div className="mt-2 text-sm text-gray-600">
+                            {formatAddressLines(billingAddress).map(
+                              (line, i) => (
+                                <p key={i}>{line}</p>
+                              )
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Shipping Method */}
+                {cart && (
+                  <div className="bg-white rounded-lg shadow p-6 mb-6">
+                    <h2 className="text-xl font-semibold mb-4">
+                      Shipping Method
+                    </h2>
+                    <ShippingOptions
+                      shipping={cart.shipping}
+                      selected={shippingMethod}
+                      onSelect={setShippingMethod}
+                    />
+                  </div>
+                )}
+
                 {/* Order Details Form */}
                 <div className="bg-white rounded-lg shadow p-6">
                   <h2 className="text-xl font-semibold mb-4">Order Details</h2>
@@ -266,20 +485,28 @@ export default function CheckoutPage() {
                       <span>Shipping:</span>
                       <span>${(shippingCents / 100).toFixed(2)}</span>
                     </div>
-                    <div className="flex justify-between text-gray-600 pl-2 border-l-2 border-gray-300">
-                      <span>GST (5%):</span>
-                      <span>${((subtotalCents * 0.05) / 100).toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between text-gray-600 pl-2 border-l-2 border-gray-300">
-                      <span>QST (9.975%):</span>
-                      <span>
-                        ${((subtotalCents * 0.09975) / 100).toFixed(2)}
-                      </span>
-                    </div>
+                    {cart?.tax.taxes.map((tax) => (
+                      <div
+                        key={`${tax.jurisdiction}:${tax.name}`}
+                        className="flex justify-between text-gray-600 pl-2 border-l-2 border-gray-300"
+                      >
+                        <span>{formatTaxLabel(tax)}:</span>
+                        <span>${(tax.amountCents / 100).toFixed(2)}</span>
+                      </div>
+                    ))}
+                    {!!shippingOption?.taxCents && (
+                      <div className="flex justify-between text-gray-600 pl-2 border-l-2 border-gray-300">
+                        <span>Tax on shipping:</span>
+                        <span>
+                          ${(shippingOption.taxCents / 100).toFixed(2)}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-gray-600 text-sm pt-2">
                       <span>Total Tax:</span>
                       <span>${(taxCents / 100).toFixed(2)}</span>
                     </div>
+                    {cart && <TaxNote tax={cart.tax} />}
                   </div>
 
                   <div className="flex justify-between text-lg font-bold text-gray-900 mb-6">
@@ -289,6 +516,42 @@ export default function CheckoutPage() {
                     </span>
                   </div>
 
+                  {account && account.paymentTermsDays !== null && (
+                    <div className="mb-6 space-y-2">
+                      <p className="text-sm font-medium text-gray-900">
+                        Payment Method
+                      </p>
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="radio"
+                          checked={paymentMethod === "CARD"}
+                          onChange={() => setPaymentMethod("CARD")}
+                        />
+                        Credit card
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="radio"
+                          checked={paymentMethod === "ON_ACCOUNT"}
+                          onChange={() => setPaymentMethod("ON_ACCOUNT")}
+                          disabled={!withinCredit}
+                        />
+                        On account (Net {account.paymentTermsDays})
+                      </label>
+                      {account.availableCreditCents !== null && (
+                        <p
+                          className={`text-xs ${
+                            withinCredit ? "text-gray-500" : "text-red-600"
+                          }`}
+                        >
+                          Available credit: $
+                          {(account.availableCreditCents / 100).toFixed(2)}
+                          {!withinCredit && " — not enough for this order"}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   {error && (
                     <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
                       {error}
@@ -310,7 +573,9 @@ export default function CheckoutPage() {
                   </Link>
 
                   <p className="text-xs text-gray-500 mt-4 text-center">
-                    After placing the order, you will be redirected to payment.
+                    {paymentMethod === "ON_ACCOUNT"
+                      ? "The order will be invoiced to your company account."
+                      : "After placing the order, you will be redirected to payment."}
                   </p>
                 </div>
               </div>
@@ -0,0 +1,430 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button, Card } from "@/components/ui";
+import { TAX_COUNTRIES, getRegions } from "@/lib/tax-rates";
+import { formatAddressLines, postalCodeExample } from "@/lib/address-format";
+
+/**
+ * Address book section of the dashboard
+ * Add, edit and delete addresses and pick the default shipping and billing
+ * addresses used at checkout
+ */
+
+interface Address {
+  id: string;
+  label: string | null;
+  contactName: string;
+  company: string | null;
+  phone: string | null;
+  line1: string;
+  line2: string | null;
+  city: string;
+  region: string | null;
+  postalCode: string;
+  country: string;
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+}
+
+type AddressForm = {
+  label: string;
+  contactName: string;
+  company: string;
+  phone: string;
+  line1: string;
+  line2: string;
+  city: string;
+  region: string;
+  postalCode: string;
+  country: string;
+};
+
+const emptyForm: AddressForm = {
+  label: "",
+  contactName: "",
+  company: "",
+  phone: "",
+  line1: "",
+  line2: "",
+  city: "",
+  region: "",
+  postalCode: "",
+  country: "CA",
+};
+
+const toForm = (address: Address): AddressForm => ({
+  label: address.label ?? "",
+  contactName: address.contactName,
+  company: address.company ?? "",
+  phone: address.phone ?? "",
+  line1: address.line1,
+  line2: address.line2 ?? "",
+  city: address.city,
+  region: address.region ?? "",
+  postalCode: address.postalCode,
+  country: address.country,
+});
+
+// Address fields sent to the API (blank optional fields are cleared)
+const toPayload = (form: AddressForm) => ({
+  ...form,
+  label: form.label || null,
+  company: form.company || null,
+  phone: form.phone || null,
+  line2: form.line2 || null,
+  region: form.region || null,
+});
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function AddressBook() {
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  // null: form closed, "": new address, otherwise the address being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AddressForm>(emptyForm);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAddresses = useCallback(async () => {
+    const res = await fetch("/api/addresses");
+    if (!res.ok) return;
+    const data = await res.json();
+    setAddresses(data.data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchAddresses();
+  }, [fetchAddresses]);
+
+  const run = async (request: () => Promise<Response>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await request();
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        const fieldErrors: Record<string, string[]> =
+          data.details?.fieldErrors ?? {};
+        const firstFieldError = Object.values(fieldErrors).flat()[0];
+        setError(firstFieldError || data.error || "Request failed");
+        return false;
+      }
+      await fetchAddresses();
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openForm = (address?: Address) => {
+    setError(null);
+    setEditingId(address?.id ?? "");
+    setForm(address ? toForm(address) : emptyForm);
+  };
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({
+      ...prev,
+      [name]: value,
+      // Provinces/states belong to one country
+      ...(name === "country" && { region: "" }),
+    }));
+  };
+
+  const saveForm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ok = await run(() =>
+      fetch(editingId ? `/api/addresses/${editingId}` : "/api/addresses", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toPayload(form)),
+      })
+    );
+    if (ok) setEditingId(null);
+  };
+
+  const makeDefault = (
+    address: Address,
+    flag: "isDefaultShipping" | "isDefaultBilling"
+  ) =>
+    run(() =>
+      fetch(`/api/addresses/${address.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...toPayload(toForm(address)), [flag]: true }),
+      })
+    );
+
+  const removeAddress = (address: Address) => {
+    if (!confirm("Delete this address?")) return;
+    run(() => fetch(`/api/addresses/${address.id}`, { method: "DELETE" }));
+  };
+
+  const regions = getRegions(form.country);
+  const postalExample = postalCodeExample(form.country);
+
+  return (
+    <Card className="p-8 mt-6">
+      <h2 className="text-2xl font-bold mb-2">Address Book</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Orders ship to and are billed to your default addresses unless you
+        choose others at checkout. Tax and shipping rates follow the shipping
+        address.
+      </p>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+          ❌ {error}
+        </div>
+      )}
+
+      {addresses.length > 0 ? (
+        <div className="space-y-2 mb-6">
+          {addresses.map((address) => (
+            <div
+              key={address.id}
+              className="flex items-start justify-between gap-4 p-3 bg-gray-50 rounded"
+            >
+              <div>
+                {address.label && (
+                  <p className="font-semibold">{address.label}</p>
+                )}
+                {formatAddressLines(address).map((line, i) => (
+                  <p key={i} className="text-sm text-gray-700">
+                    {line}
+                  </p>
+                ))}
+                {address.phone && (
+                  <p className="text-sm text-gray-600">{address.phone}</p>
+                )}
+                <div className="flex gap-2 mt-2">
+                  {address.isDefaultShipping && (
+                    <span className="text-xs font-semibold px-2 py-1 rounded bg-blue-100 text-blue-800">
+                      Default shipping
+                    </span>
+                  )}
+                  {address.isDefaultBilling && (
+                    <span className="text-xs font-semibold px-2 py-1 rounded bg-green-100 text-green-800">
+                      Default billing
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex flex-col items-end gap-2">
+                <div className="flex gap-2">
+                  <Button
+                    variant="secondary"
+                    onClick={() => openForm(address)}
+                    disabled={busy}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    onClick={() => removeAddress(address)}
+                    disabled={busy}
+                  >
+                    Delete
+                  </Button>
+                </div>
+                {!address.isDefaultShipping && (
+                  <button
+                    onClick={() => makeDefault(address, "isDefaultShipping")}
+                    disabled={busy}
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    Use for shipping
+                  </button>
+                )}
+                {!address.isDefaultBilling && (
+                  <button
+                    onClick={() => makeDefault(address, "isDefaultBilling")}
+                    disabled={busy}
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    Use for billing
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="mb-6 text-gray-600">
+          No addresses yet. Add one to have orders delivered.
+        </p>
+      )}
+
+      {editingId === null ? (
+        <Button variant="primary" onClick={() => openForm()} disabled={busy}>
+          Add Address
+        </Button>
+      ) : (
+        <form onSubmit={saveForm} className="border-t pt-6 space-y-4">
+          <h3 className="text-lg font-semibold">
+            {editingId ? "Edit Address" : "New Address"}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold mb-2">
+                Label (optional)
+              </label>
+              <input
+                type="text"
+                name="label"
+                value={form.label}
+                onChange={handleChange}
+                placeholder="e.g. Head office, Warehouse"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2">
+                Contact Name
+              </label>
+              <input
+                type="text"
+                name="contactName"
+                value={form.contactName}
+                onChange={handleChange}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2">
+                Company (optional)
+              </label>
+              <input
+                type="text"
+                name="company"
+                value={form.company}
+                onChange={handleChange}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2">
+                Phone (optional)
+              </label>
+              <input
+                type="tel"
+                name="phone"
+                value={form.phone}
+                onChange={handleChange}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-2">
+              Address Line 1
+            </label>
+            <input
+              type="text"
+              name="line1"
+              value={form.line1}
+              onChange={handleChange}
+              placeholder="Street address"
+              required
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-2">
+              Address Line 2 (optional)
+            </label>
+            <input
+              type="text"
+              name="line2"
+              value={form.line2}
+              onChange={handleChange}
+              placeholder="Suite, unit, building"
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold mb-2">City</label>
+              <input
+                type="text"
+                name="city"
+                value={form.city}
+                onChange={handleChange}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2">
+                Country
+              </label>
+              <select
+                name="country"
+                value={form.country}
+                onChange={handleChange}
+                className={inputClass}
+              >
+                {TAX_COUNTRIES.map((country) => (
+                  <option key={country.code} value={country.code}>
+                    {country.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2">
+                Province / State
+              </label>
+              <select
+                name="region"
+                value={form.region}
+                onChange={handleChange}
+                required={regions.length > 0}
+                className={inputClass}
+              >
+                <option value="">Select a province or state</option>
+                {regions.map((region) => (
+                  <option key={region.code} value={region.code}>
+                    {region.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold mb-2">
+                Postal / ZIP Code
+              </label>
+              <input
+                type="text"
+                name="postalCode"
+                value={form.postalCode}
+                onChange={handleChange}
+                placeholder={postalExample ? `e.g. ${postalExample}` : ""}
+                required
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex gap-4">
+            <Button type="submit" variant="primary" disabled={busy}>
+              {busy ? "Saving..." : "Save Address"}
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setEditingId(null)}
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,345 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button, Card } from "@/components/ui";
+
+/**
+ * Company accounts section of the dashboard
+ * Switch the active company, create companies and manage members (owners)
+ */
+
+type CompanyRole = "OWNER" | "PURCHASER" | "VIEWER";
+
+interface Company {
+  id: string;
+  name: string;
+  role: CompanyRole;
+  memberCount: number;
+  purchaserSpendingLimitCents: number | null;
+  active: boolean;
+}
+
+interface Member {
+  id: string;
+  role: CompanyRole;
+  spendingLimitCents: number | null;
+  user: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string;
+  };
+}
+
+const ROLES: CompanyRole[] = ["OWNER", "PURCHASER", "VIEWER"];
+
+// Spending limits are entered in dollars; empty means no limit
+const formatLimit = (cents: number | null) =>
+  cents === null ? "" : (cents / 100).toFixed(2);
+const parseLimit = (value: string) =>
+  value.trim() === "" ? null : Math.round(parseFloat(value) * 100);
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function CompanyAccounts() {
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [newCompanyName, setNewCompanyName] = useState("");
+  const [memberEmail, setMemberEmail] = useState("");
+  const [memberRole, setMemberRole] = useState<CompanyRole>("PURCHASER");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const active = companies.find((c) => c.active) ?? null;
+  const activeId = active?.id;
+
+  const fetchCompanies = useCallback(async () => {
+    const res = await fetch("/api/companies");
+    if (!res.ok) return;
+    const data = await res.json();
+    setCompanies(data.data || []);
+  }, []);
+
+  const fetchMembers = useCallback(async (companyId: string) => {
+    const res = await fetch(`/api/companies/${companyId}/members`);
+    if (!res.ok) return;
+    const data = await res.json();
+    setMembers(data.data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchCompanies();
+  }, [fetchCompanies]);
+
+  useEffect(() => {
+    if (activeId) {
+      fetchMembers(activeId);
+    } else {
+      setMembers([]);
+    }
+  }, [activeId, fetchMembers]);
+
+  const run = async (request: () => Promise<Response>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await request();
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || "Request failed");
+        return false;
+      }
+      await fetchCompanies();
+      if (active) await fetchMembers(active.id);
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const switchCompany = (companyId: string) =>
+    run(() =>
+      fetch("/api/companies/active", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId }),
+      })
+    );
+
+  const createCompany = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ok = await run(() =>
+      fetch("/api/companies", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newCompanyName }),
+      })
+    );
+    if (ok) setNewCompanyName("");
+  };
+
+  const addMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!active) return;
+    const ok = await run(() =>
+      fetch(`/api/companies/${active.id}/members`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: memberEmail, role: memberRole }),
+      })
+    );
+    if (ok) setMemberEmail("");
+  };
+
+  const updateMember = (
+    memberId: string,
+    data: { role?: CompanyRole; spendingLimitCents?: number | null }
+  ) =>
+    active &&
+    run(() =>
+      fetch(`/api/companies/${active.id}/members/${memberId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      })
+    );
+
+  const updateDefaultLimit = (value: string) =>
+    active &&
+    run(() =>
+      fetch(`/api/companies/${active.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          purchaserSpendingLimitCents: parseLimit(value),
+        }),
+      })
+    );
+
+  const removeMember = (memberId: string) => {
+    if (!active || !confirm("Remove this member from the company?")) return;
+    run(() =>
+      fetch(`/api/companies/${active.id}/members/${memberId}`, {
+        method: "DELETE",
+      })
+    );
+  };
+
+  const isOwner = active?.role === "OWNER";
+
+  return (
+    <Card className="p-8 mt-6">
+      <h2 className="text-2xl font-bold mb-2">Company Accounts</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Members of a company share its cart, saved lists and orders. Purchasers
+        can place orders, viewers have read-only access.
+      </p>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+          ❌ {error}
+        </div>
+      )}
+
+      {companies.length > 0 ? (
+        <div className="mb-6">
+          <label className="block text-sm font-semibold mb-2">Acting for</label>
+          <select
+            value={active?.id ?? ""}
+            onChange={(e) => switchCompany(e.target.value)}
+            disabled={busy}
+            className={`w-full ${inputClass}`}
+          >
+            {companies.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name} ({c.role.toLowerCase()})
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <p className="mb-6 text-gray-600">
+          You are not a member of any company yet.
+        </p>
+      )}
+
+      {active && (
+        <div className="border-t pt-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4">
+            Members of {active.name}
+          </h3>
+          {isOwner && (
+            <div className="mb-4">
+              <label className="block text-sm font-semibold mb-2">
+                Default purchaser spending limit per order ($)
+              </label>
+              <input
+                key={`default-${active.purchaserSpendingLimitCents}`}
+                type="number"
+                min="0"
+                step="0.01"
+                defaultValue={formatLimit(active.purchaserSpendingLimitCents)}
+                onBlur={(e) => updateDefaultLimit(e.target.value)}
+                placeholder="No limit"
+                disabled={busy}
+                className={`w-48 ${inputClass}`}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Orders above a buyer&apos;s limit wait for an owner&apos;s
+                approval before they can be paid.
+              </p>
+            </div>
+          )}
+          <div className="space-y-2 mb-4">
+            {members.map((m) => (
+              <div
+                key={m.id}
+                className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded"
+              >
+                <div>
+                  <p className="font-medium">
+                    {[m.user.firstName, m.user.lastName]
+                      .filter(Boolean)
+                      .join(" ") || m.user.email}
+                  </p>
+                  <p className="text-sm text-gray-600">{m.user.email}</p>
+                </div>
+                {isOwner ? (
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={m.role}
+                      onChange={(e) =>
+                        updateMember(m.id, {
+                          role: e.target.value as CompanyRole,
+                        })
+                      }
+                      disabled={busy}
+                      className={inputClass}
+                    >
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {role}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      key={`limit-${m.id}-${m.spendingLimitCents}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      defaultValue={formatLimit(m.spendingLimitCents)}
+                      onBlur={(e) =>
+                        updateMember(m.id, {
+                          spendingLimitCents: parseLimit(e.target.value),
+                        })
+                      }
+                      placeholder="Role default"
+                      title="Spending limit per order ($)"
+                      disabled={busy}
+                      className={`w-32 ${inputClass}`}
+                    />
+                    <Button
+                      variant="secondary"
+                      onClick={() => removeMember(m.id)}
+                      disabled={busy}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-sm font-semibold text-gray-700">
+                    {m.role}
+                    {m.spendingLimitCents !== null &&
+                      ` · limit $${formatLimit(m.spendingLimitCents)}`}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {isOwner && (
+            <form onSubmit={addMember} className="flex gap-2">
+              <input
+                type="email"
+                value={memberEmail}
+                onChange={(e) => setMemberEmail(e.target.value)}
+                placeholder="colleague@company.com"
+                required
+                className={`flex-1 ${inputClass}`}
+              />
+              <select
+                value={memberRole}
+                onChange={(e) => setMemberRole(e.target.value as CompanyRole)}
+                className={inputClass}
+              >
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {role}
+                  </option>
+                ))}
+              </select>
+              <Button type="submit" variant="primary" disabled={busy}>
+                Add
+              </Button>
+            </form>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={createCompany} className="border-t pt-6 flex gap-2">
+        <input
+          type="text"
+          value={newCompanyName}
+          onChange={(e) => setNewCompanyName(e.target.value)}
+          placeholder="New company name"
+          required
+          className={`flex-1 ${inputClass}`}
+        />
+        <Button type="submit" variant="primary" disabled={busy}>
+          Create Company
+        </Button>
+      </form>
+    </Card>
+  );
+}
@@ -6,10 +6,13 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { Button, Card } from "@/components/ui";
 import { footerStyles, layoutStyles } from "@/app/ui-styles";
+import AddressBook from "./address-book";
+import CompanyAccounts from "./company-accounts";
 
 /**
  * Dashboard Page - Buyer's personal profile management
- * View and edit user profile information (name, company, phone, address)
+ * View and edit user profile information (name, company, phone) and the
+ * address book
  */
 
 interface UserProfile {
@@ -19,7 +22,6 @@ interface UserProfile {
   email: string | null;
   company: string | null;
   phone: string | null;
-  address: string | null;
   role: string;
 }
 
@@ -38,7 +40,6 @@ export default function DashboardPage() {
     lastName: "",
     company: "",
     phone: "",
-    address: "",
   });
 
   useEffect(() => {
@@ -63,7 +64,6 @@ export default function DashboardPage() {
           lastName: userProfile.lastName || "",
           company: userProfile.company || "",
           phone: userProfile.phone || "",
-          address: userProfile.address || "",
         });
       } catch (err) {
         console.error("Failed to fetch user:", err);
@@ -76,14 +76,9 @@ export default function DashboardPage() {
     fetchUser();
   }, [isSignedIn, router]);
 
-  const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
-  ) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
-    setFormData((prev) => ({
-      ...prev,
-      [name]: value,
-    }));
+    setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -93,7 +88,7 @@ export default function DashboardPage() {
     setSuccess(null);
 
     try {
-      // PUT /api/auth/profile - Update buyer profile (company, phone, address)
+      // PUT /api/auth/profile - Update buyer profile (company, phone)
       const res = await fetch("/api/auth/profile", {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
@@ -242,19 +237,6 @@ export default function DashboardPage() {
                     </div>
                   </div>
                 </div>
-
-                {/* Shipping Address Section */}
-                <div>
-                  <h2 className="text-xl font-semibold mb-4 text-gray-900">
-                    Shipping Address
-                  </h2>
-                  <div>
-                    <p className="text-sm text-gray-600">Address</p>
-                    <p className="text-lg font-medium text-gray-900 break-words">
-                      {user.address || "Not provided"}
-                    </p>
-                  </div>
-                </div>
               </div>
             ) : (
               // Edit Mode
@@ -319,21 +301,6 @@ export default function DashboardPage() {
                   />
                 </div>
 
-                {/* Address */}
-                <div>
-                  <label className="block text-sm font-semibold mb-2">
-                    Shipping Address
-                  </label>
-                  <textarea
-                    name="address"
-                    value={formData.address}
-                    onChange={handleChange}
-                    placeholder="Enter your shipping address"
-                    rows={4}
-                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                </div>
-
                 {/* Buttons */}
                 <div className="flex gap-4 pt-6">
                   <Button
@@ -356,6 +323,10 @@ export default function DashboardPage() {
               </form>
             )}
           </Card>
+
+          <AddressBook />
+
+          <CompanyAccounts />
         </div>
       </div>
 
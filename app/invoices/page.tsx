@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useAuth, SignInButton } from "@clerk/nextjs";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Invoices Page - Net terms account of the active company (buyer)
+ * Credit limit, open balance and invoices for orders placed on account
+ */
+
+interface CreditAccount {
+  paymentTermsDays: number | null;
+  creditLimitCents: number | null;
+  openBalanceCents: number;
+  availableCreditCents: number | null;
+}
+
+interface Invoice {
+  id: string;
+  status: "OPEN" | "PAID" | "VOID";
+  amountCents: number;
+  paidCents: number;
+  issuedAt: string;
+  dueAt: string;
+  paidAt?: string;
+  overdue: boolean;
+  order: { id: string; poNumber?: string };
+}
+
+const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export default function InvoicesPage() {
+  const { isSignedIn } = useAuth();
+  const [account, setAccount] = useState<CreditAccount | null>(null);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+
+    const fetchInvoices = async () => {
+      try {
+        // GET /api/invoices - Terms, balance and invoices of my company
+        const res = await fetch("/api/invoices");
+        const json = await res.json();
+        if (json.success) {
+          setAccount(json.data.account);
+          setInvoices(json.data.invoices);
+        }
+      } catch (err) {
+        console.error("Failed to fetch invoices:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvoices();
+  }, [isSignedIn]);
+
+  if (!isSignedIn) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12 px-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-8 text-center">
+            <h2 className="text-2xl font-bold text-blue-900 mb-4">
+              Please Sign In
+            </h2>
+            <p className="text-blue-700 mb-6">
+              You need to sign in to view your invoices
+            </p>
+            <SignInButton mode="modal">
+              <button className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded transition">
+                Sign In Now
+              </button>
+            </SignInButton>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-6xl mx-auto px-4 py-8">
+          <h1 className="text-3xl font-bold mb-8">Invoices</h1>
+
+          {loading ? (
+            <div className="text-center py-12">Loading...</div>
+          ) : !account || account.paymentTermsDays === null ? (
+            <div className="text-center py-12 text-gray-500">
+              Your company is not set up to order on account. Orders are paid by
+              card at checkout.
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+                <div className="bg-white rounded-lg shadow p-6">
+                  <p className="text-sm text-gray-600">Payment terms</p>
+                  <p className="text-2xl font-bold mt-2">
+                    Net {account.paymentTermsDays}
+                  </p>
+                </div>
+                <div className="bg-white rounded-lg shadow p-6">
+                  <p className="text-sm text-gray-600">Open balance</p>
+                  <p className="text-2xl font-bold mt-2">
+                    {formatPrice(account.openBalanceCents)}
+                  </p>
+                </div>
+                <div className="bg-white rounded-lg shadow p-6">
+                  <p className="text-sm text-gray-600">Available credit</p>
+                  <p className="text-2xl font-bold mt-2">
+                    {account.availableCreditCents === null
+                      ? "No limit"
+                      : formatPrice(account.availableCreditCents)}
+                  </p>
+                  {account.creditLimitCents !== null && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      of {formatPrice(account.creditLimitCents)} limit
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {invoices.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">
+                  No invoices yet
+                </div>
+              ) : (
+                <div className="bg-white rounded-lg shadow overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-gray-600">
+                      <tr>
+                        <th className="px-4 py-3">Invoice</th>
+                        <th className="px-4 py-3">Order</th>
+                        <th className="px-4 py-3">Issued</th>
+                        <th className="px-4 py-3">Due</th>
+                        <th className="px-4 py-3 text-right">Amount</th>
+                        <th className="px-4 py-3 text-right">Balance</th>
+                        <th className="px-4 py-3">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {invoices.map((invoice) => (
+                        <tr key={invoice.id} className="border-t">
+                          <td className="px-4 py-3 font-mono">
+                            #{invoice.id.slice(0, 8)}
+                          </td>
+                          <td className="px-4 py-3">
+                            <Link
+                              href={`/orders/${invoice.order.id}`}
+                              className="text-blue-600 hover:underline font-mono"
+                            >
+                              #{invoice.order.id.slice(0, 8)}
+                            </Link>
+                            {invoice.order.poNumber && (
+                              <span className="text-gray-500">
+                                {" "}
+                                · PO {invoice.order.poNumber}
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            {new Date(invoice.issuedAt).toLocaleDateString()}
+                          </td>
+                          <td className="px-4 py-3">
+                            {new Date(invoice.dueAt).toLocaleDateString()}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            {formatPrice(invoice.amountCents)}
+                          </td>
+                          <td className="px-4 py-3 text-right font-medium">
+                            {formatPrice(
+                              invoice.amountCents - invoice.paidCents
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            <span
+                              className={`px-3 py-1 rounded-full text-xs font-medium ${
+                                invoice.overdue
+                                  ? "bg-red-100 text-red-800"
+                                  : invoice.status === "PAID"
+                                    ? "bg-green-100 text-green-800"
+                                    : invoice.status === "VOID"
+                                      ? "bg-gray-100 text-gray-800"
+                                      : "bg-yellow-100 text-yellow-800"
+                              }`}
+                            >
+                              {invoice.overdue ? "OVERDUE" : invoice.status}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
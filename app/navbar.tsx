@@ -10,6 +10,7 @@ export function Navbar() {
   const router = useRouter();
   const pathname = usePathname();
   const [isAdmin, setIsAdmin] = useState(false);
+  const [isSupplier, setIsSupplier] = useState(false);
 
   useEffect(() => {
     if (!isSignedIn) {
@@ -23,7 +24,9 @@ export function Navbar() {
         if (res.ok) {
           const data = await res.json();
           const isAdminUser = data.user?.role === "ADMIN";
+          const isSupplierUser = data.user?.role === "SUPPLIER";
           setIsAdmin(isAdminUser);
+          setIsSupplier(isSupplierUser);
 
           // Redirect admin to /admin dashboard if on buyer pages
           if (
@@ -38,6 +41,11 @@ export function Navbar() {
           ) {
             router.push("/admin");
           }
+
+          // Suppliers only use the supplier portal
+          if (isSupplierUser && !pathname.startsWith("/supplier")) {
+            router.push("/supplier");
+          }
         }
       } catch (error) {
         console.error("Failed to fetch user role:", error);
@@ -53,11 +61,19 @@ export function Navbar() {
   return (
     <nav className={navbarStyles.navContainer}>
       <div className={navbarStyles.navContent}>
-        <Link href={isAdmin ? "/admin" : "/"} className={navbarStyles.logo}>
+        <Link
+          href={isAdmin ? "/admin" : isSupplier ? "/supplier" : "/"}
+          className={navbarStyles.logo}
+        >
           B2B Commerce {isAdmin && "(Admin)"}
+          {isSupplier && "(Supplier)"}
         </Link>
         <div className="flex gap-6 items-center">
-          {isAdmin ? (
+          {isSupplier ? (
+            <Link href="/supplier" className={getLinkClass("/supplier")}>
+              Supplier Portal
+            </Link>
+          ) : isAdmin ? (
             <>
               <Link href="/admin" className={getLinkClass("/admin")}>
                 Dashboard
@@ -74,6 +90,24 @@ export function Navbar() {
               >
                 Categories
               </Link>
+              <Link
+                href="/admin/orders"
+                className={getLinkClass("admin/orders")}
+              >
+                Orders
+              </Link>
+              <Link
+                href="/admin/quotes"
+                className={getLinkClass("admin/quotes")}
+              >
+                Quotes
+              </Link>
+              <Link
+                href="/admin/invoices"
+                className={getLinkClass("admin/invoices")}
+              >
+                Invoices
+              </Link>
             </>
           ) : (
             <>
@@ -92,6 +126,15 @@ export function Navbar() {
               >
                 Lists
               </Link>
+              <Link href="/quotes" className={getLinkClass("/quotes")}>
+                Quotes
+              </Link>
+              <Link href="/invoices" className={getLinkClass("/invoices")}>
+                Invoices
+              </Link>
+              <Link href="/approvals" className={getLinkClass("/approvals")}>
+                Approvals
+              </Link>
               <Link href="/dashboard" className={getLinkClass("/dashboard")}>
                 Profile
               </Link>
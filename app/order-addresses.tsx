@@ -0,0 +1,43 @@
+"use client";
+
+import { formatAddressLines, type AddressLines } from "@/lib/address-format";
+
+/**
+ * Ship-to and bill-to addresses copied onto an order when it was placed
+ * Used by the buyer and admin order pages
+ */
+
+export type OrderAddress = AddressLines & { phone: string | null };
+
+export function OrderAddresses({
+  shipTo,
+  billTo,
+}: {
+  shipTo: OrderAddress | null;
+  billTo: OrderAddress | null;
+}) {
+  const blocks = [
+    { title: "Ship to", address: shipTo },
+    { title: "Bill to", address: billTo },
+  ];
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {blocks.map(({ title, address }) => (
+        <div key={title}>
+          <p className="text-sm font-semibold text-gray-900 mb-1">{title}</p>
+          {address ? (
+            <div className="text-sm text-gray-600">
+              {formatAddressLines(address).map((line, i) => (
+                <p key={i}>{line}</p>
+              ))}
+              {address.phone && <p>{address.phone}</p>}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Not provided</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
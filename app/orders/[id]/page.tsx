@@ -5,11 +5,19 @@ import { useParams, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { useAuth, SignInButton } from "@clerk/nextjs";
 import { layoutStyles, footerStyles } from "@/app/ui-styles";
+import { formatTaxLabel } from "@/lib/tax-rates";
+import { formatShippingMethod } from "@/lib/shipping-methods";
+import { OrderAddresses, type OrderAddress } from "@/app/order-addresses";
 
 interface OrderLine {
   id: string;
   productId: string;
   quantity: number;
+  allocatedQuantity: number;
+  backorderedQuantity: number; // ships once stock arrives
+  shippedQuantity: number;
+  refundedQuantity: number; // refunded before shipping, no longer ships
+  returnableQuantity: number; // shipped units not already returned
   unitPriceCents: number;
   product: {
     id: string;
@@ -19,19 +27,79 @@ interface OrderLine {
   };
 }
 
+interface Shipment {
+  id: string;
+  carrier: string;
+  trackingNumber?: string;
+  shippedAt: string;
+  items: { orderLineId: string; quantity: number }[];
+}
+
+interface ReturnRequest {
+  id: string;
+  number: string; // e.g. "RMA-000042"
+  status: "REQUESTED" | "APPROVED" | "RECEIVED" | "REJECTED";
+  reason: string;
+  adminNotes?: string;
+  refundCents: number;
+  createdAt: string;
+  respondedAt?: string;
+  receivedAt?: string;
+  lines: { orderLineId: string; quantity: number }[];
+}
+
+const RETURN_STATUS_STYLES: Record<ReturnRequest["status"], string> = {
+  REQUESTED: "bg-yellow-100 text-yellow-800",
+  APPROVED: "bg-blue-100 text-blue-800",
+  RECEIVED: "bg-green-100 text-green-800",
+  REJECTED: "bg-red-100 text-red-800",
+};
+
 interface Order {
   id: string;
   status: string;
+  paymentMethod: "CARD" | "ON_ACCOUNT";
   paymentStatus?: string;
   totalCents: number;
+  refundedCents: number;
   subtotalCents: number;
   taxCents: number;
+  taxes: {
+    name: string;
+    jurisdiction: string;
+    rate: number;
+    amountCents: number;
+  }[];
+  taxExemptionNumber: string | null;
+  shippingMethod: string | null;
+  reservationExpiresAt: string | null;
+  shipTo: OrderAddress | null;
+  billTo: OrderAddress | null;
   shippingCents: number;
   poNumber?: string;
   notes?: string;
+  invoiceNumber: string | null;
   createdAt: string;
   paidAt?: string;
   lines: OrderLine[];
+  shipments: Shipment[];
+  returns: ReturnRequest[];
+  invoice: {
+    id: string;
+    status: "OPEN" | "PAID" | "VOID";
+    amountCents: number;
+    paidCents: number;
+    issuedAt: string;
+    dueAt: string;
+    paidAt?: string;
+    overdue: boolean;
+  } | null;
+  approval: {
+    decision: "APPROVED" | "REJECTED";
+    note?: string;
+    decidedBy?: { firstName?: string; lastName?: string; email: string };
+    decidedAt: string;
+  } | null;
   buyer?: {
     email: string;
   };
@@ -49,6 +117,15 @@ export default function OrderDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [paymentCheckLoading, setPaymentCheckLoading] = useState(!!sessionId);
 
+  // Return request form: quantity to return per order line id
+  const [showReturnForm, setShowReturnForm] = useState(false);
+  const [returnQuantities, setReturnQuantities] = useState<
+    Record<string, string>
+  >({});
+  const [returnReason, setReturnReason] = useState("");
+  const [returnSubmitting, setReturnSubmitting] = useState(false);
+  const [returnError, setReturnError] = useState<string | null>(null);
+
   // Fetch order details
   useEffect(() => {
     const fetchOrder = async () => {
@@ -121,6 +198,47 @@ export default function OrderDetailPage() {
     return () => clearInterval(interval);
   }, [sessionId, orderId, paymentCheckLoading]);
 
+  // POST /api/orders/[id]/returns - Request a return of shipped units
+  const handleRequestReturn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setReturnError(null);
+
+    const lines = Object.entries(returnQuantities)
+      .map(([orderLineId, quantity]) => ({
+        orderLineId,
+        quantity: parseInt(quantity, 10) || 0,
+      }))
+      .filter((line) => line.quantity > 0);
+    if (lines.length === 0) {
+      setReturnError("Enter a quantity to return");
+      return;
+    }
+
+    setReturnSubmitting(true);
+    try {
+      const res = await fetch(`/api/orders/${orderId}/returns`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: returnReason, lines }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to request return");
+
+      const orderRes = await fetch(`/api/orders/${orderId}`);
+      const orderJson = await orderRes.json();
+      if (orderJson.success) setOrder(orderJson.data);
+      setShowReturnForm(false);
+      setReturnQuantities({});
+      setReturnReason("");
+    } catch (err) {
+      setReturnError(
+        err instanceof Error ? err.message : "Failed to request return"
+      );
+    } finally {
+      setReturnSubmitting(false);
+    }
+  };
+
   if (!isSignedIn) {
     return (
       <div className="min-h-screen bg-gray-50 py-12 px-4">
@@ -179,9 +297,11 @@ export default function OrderDetailPage() {
 
   const statusColor = (status: string) => {
     const colors: Record<string, string> = {
+      PENDING_APPROVAL: "bg-orange-100 text-orange-800",
       CREATED: "bg-yellow-100 text-yellow-800",
       PAID: "bg-green-100 text-green-800",
       SHIPPED: "bg-blue-100 text-blue-800",
+      DELIVERED: "bg-gray-100 text-gray-800",
       CANCELLED: "bg-red-100 text-red-800",
     };
     return colors[status] || "bg-gray-100 text-gray-800";
@@ -192,10 +312,23 @@ export default function OrderDetailPage() {
       PAID: "bg-green-100 text-green-800",
       PAYMENT_FAILED: "bg-red-100 text-red-800",
       PENDING: "bg-yellow-100 text-yellow-800",
+      INVOICED: "bg-blue-100 text-blue-800",
+      PARTIALLY_REFUNDED: "bg-orange-100 text-orange-800",
+      REFUNDED: "bg-gray-100 text-gray-800",
     };
     return colors[status || "PENDING"] || "bg-gray-100 text-gray-800";
   };
 
+  // Units still waiting for stock (cancelled orders no longer wait)
+  const hasBackorders =
+    order.status !== "CANCELLED" &&
+    order.lines.some((line) => line.backorderedQuantity > 0);
+
+  // Shipped units not already returned can be returned
+  const returnableLines = order.lines.filter(
+    (line) => line.returnableQuantity > 0
+  );
+
   return (
     <div className={layoutStyles.pageWrapper}>
       <div className={layoutStyles.pageContent}>
@@ -219,6 +352,55 @@ export default function OrderDetailPage() {
             </div>
           )}
 
+          {/* Stock Reservation */}
+          {order.reservationExpiresAt && !paymentCheckLoading && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-8">
+              <p className="text-yellow-800">
+                Your items are reserved until{" "}
+                {new Date(order.reservationExpiresAt).toLocaleString()}. Orders
+                not paid by then are cancelled and the stock is released.
+              </p>
+            </div>
+          )}
+
+          {/* Purchase Approval */}
+          {order.status === "PENDING_APPROVAL" && (
+            <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 mb-8">
+              <p className="text-orange-800">
+                This order is over your spending limit and is waiting for a
+                company owner to approve it. You can pay once it is approved.
+              </p>
+            </div>
+          )}
+          {order.approval && (
+            <div
+              className={`border rounded-lg p-4 mb-8 ${
+                order.approval.decision === "APPROVED"
+                  ? "bg-green-50 border-green-200 text-green-800"
+                  : "bg-red-50 border-red-200 text-red-800"
+              }`}
+            >
+              <p className="font-medium">
+                {order.approval.decision === "APPROVED"
+                  ? "Approved"
+                  : "Rejected"}{" "}
+                by{" "}
+                {[
+                  order.approval.decidedBy?.firstName,
+                  order.approval.decidedBy?.lastName,
+                ]
+                  .filter(Boolean)
+                  .join(" ") ||
+                  order.approval.decidedBy?.email ||
+                  "a company owner"}{" "}
+                on {new Date(order.approval.decidedAt).toLocaleString()}
+              </p>
+              {order.approval.note && (
+                <p className="text-sm mt-1">{order.approval.note}</p>
+              )}
+            </div>
+          )}
+
           {/* Order Status and Payment Status */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
             <div className="bg-white rounded-lg shadow p-6">
@@ -265,10 +447,45 @@ export default function OrderDetailPage() {
                   {order.paymentStatus || "PENDING"}
                 </span>
 
+                {order.invoice && (
+                  <>
+                    <p className="text-sm text-gray-600 mt-4 mb-2">
+                      Invoice (on account)
+                    </p>
+                    <p className="text-sm text-gray-900">
+                      Due {new Date(order.invoice.dueAt).toLocaleDateString()}
+                      {order.invoice.overdue && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          OVERDUE
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-900">
+                      Balance: $
+                      {(
+                        (order.invoice.amountCents - order.invoice.paidCents) /
+                        100
+                      ).toFixed(2)}
+                    </p>
+                  </>
+                )}
+
                 <p className="text-sm text-gray-600 mt-4 mb-2">Email</p>
                 <p className="text-sm text-gray-900">
                   {order.buyer?.email || "N/A"}
                 </p>
+
+                {["PAID", "SHIPPED", "DELIVERED"].includes(order.status) && (
+                  <a
+                    href={`/api/orders/${order.id}/invoice.pdf`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-block mt-4 text-sm text-blue-600 hover:underline"
+                  >
+                    Download invoice
+                    {order.invoiceNumber ? ` ${order.invoiceNumber}` : ""} (PDF)
+                  </a>
+                )}
               </div>
             </div>
           </div>
@@ -278,6 +495,12 @@ export default function OrderDetailPage() {
             <h2 className="text-lg font-semibold text-gray-900 mb-4">
               Order Items
             </h2>
+            {hasBackorders && (
+              <div className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded text-sm text-orange-800">
+                Some items are on backorder. They are allocated to your order as
+                stock arrives and ship once they are.
+              </div>
+            )}
             <div className="space-y-4">
               {order.lines.map((line) => (
                 <div
@@ -294,6 +517,26 @@ export default function OrderDetailPage() {
                     <p className="text-sm text-gray-600">
                       Qty: {line.quantity}
                     </p>
+                    {line.shippedQuantity > 0 && (
+                      <p className="text-sm text-gray-600">
+                        Shipped: {line.shippedQuantity} of {line.quantity}
+                      </p>
+                    )}
+                    {line.refundedQuantity > 0 && (
+                      <p className="text-sm text-gray-600">
+                        Refunded: {line.refundedQuantity} of {line.quantity}
+                      </p>
+                    )}
+                    {hasBackorders && line.backorderedQuantity > 0 && (
+                      <p className="text-sm">
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800">
+                          Backordered: {line.backorderedQuantity}
+                        </span>
+                        <span className="ml-2 text-gray-600">
+                          {line.allocatedQuantity} of {line.quantity} allocated
+                        </span>
+                      </p>
+                    )}
                   </div>
                   <p className="font-medium text-gray-900">
                     ${((line.unitPriceCents * line.quantity) / 100).toFixed(2)}
@@ -303,6 +546,220 @@ export default function OrderDetailPage() {
             </div>
           </div>
 
+          {/* Shipments */}
+          {order.shipments.length > 0 && (
+            <div className="bg-white rounded-lg shadow p-6 mb-8">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                Shipments
+              </h2>
+              <div className="space-y-4">
+                {order.shipments.map((shipment) => (
+                  <div
+                    key={shipment.id}
+                    className="py-3 border-b last:border-b-0"
+                  >
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {shipment.carrier}
+                        </p>
+                        {shipment.trackingNumber && (
+                          <p className="text-sm text-gray-600 font-mono">
+                            Tracking: {shipment.trackingNumber}
+                          </p>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm text-gray-600">
+                          Shipped{" "}
+                          {new Date(shipment.shippedAt).toLocaleDateString()}
+                        </p>
+                        <a
+                          href={`/api/orders/${order.id}/packing-slip.pdf?shipmentId=${shipment.id}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm text-blue-600 hover:underline"
+                        >
+                          Packing slip (PDF)
+                        </a>
+                      </div>
+                    </div>
+                    <ul className="mt-2 text-sm text-gray-600">
+                      {shipment.items.map((item) => {
+                        const line = order.lines.find(
+                          (l) => l.id === item.orderLineId
+                        );
+                        return (
+                          <li key={item.orderLineId}>
+                            {line?.product.name || "Item"} × {item.quantity}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Returns (RMA) */}
+          {(order.returns.length > 0 || returnableLines.length > 0) && (
+            <div className="bg-white rounded-lg shadow p-6 mb-8">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-semibold text-gray-900">Returns</h2>
+                {returnableLines.length > 0 && !showReturnForm && (
+                  <button
+                    onClick={() => setShowReturnForm(true)}
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    Request a Return
+                  </button>
+                )}
+              </div>
+
+              {showReturnForm && (
+                <form
+                  onSubmit={handleRequestReturn}
+                  className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded space-y-3"
+                >
+                  {returnError && (
+                    <p className="text-sm text-red-600">{returnError}</p>
+                  )}
+                  {returnableLines.map((line) => (
+                    <div
+                      key={line.id}
+                      className="flex justify-between items-center gap-4"
+                    >
+                      <span className="text-sm text-gray-900">
+                        {line.product.name}{" "}
+                        <span className="text-gray-500">
+                          (up to {line.returnableQuantity})
+                        </span>
+                      </span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={line.returnableQuantity}
+                        value={returnQuantities[line.id] ?? ""}
+                        onChange={(e) =>
+                          setReturnQuantities({
+                            ...returnQuantities,
+                            [line.id]: e.target.value,
+                          })
+                        }
+                        placeholder="0"
+                        className="w-24 px-2 py-1 border border-gray-300 rounded"
+                      />
+                    </div>
+                  ))}
+                  <label className="block text-sm text-gray-700">
+                    Reason
+                    <textarea
+                      value={returnReason}
+                      onChange={(e) => setReturnReason(e.target.value)}
+                      required
+                      rows={3}
+                      placeholder="e.g. Damaged in transit, wrong item"
+                      className="w-full mt-1 px-3 py-2 border border-gray-300 rounded"
+                    />
+                  </label>
+                  <div className="flex gap-2">
+                    <button
+                      type="submit"
+                      disabled={returnSubmitting}
+                      className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded text-sm disabled:opacity-50"
+                    >
+                      {returnSubmitting ? "Submitting..." : "Submit Request"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setShowReturnForm(false);
+                        setReturnError(null);
+                      }}
+                      className="px-4 py-2 rounded text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              {order.returns.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  No returns requested for this order.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {order.returns.map((returnRequest) => (
+                    <div
+                      key={returnRequest.id}
+                      className="py-3 border-b last:border-b-0"
+                    >
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <p className="font-medium text-gray-900 font-mono">
+                            {returnRequest.number}
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            Requested{" "}
+                            {new Date(
+                              returnRequest.createdAt
+                            ).toLocaleDateString()}
+                            : {returnRequest.reason}
+                          </p>
+                        </div>
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            RETURN_STATUS_STYLES[returnRequest.status]
+                          }`}
+                        >
+                          {returnRequest.status}
+                        </span>
+                      </div>
+                      <ul className="mt-2 text-sm text-gray-600">
+                        {returnRequest.lines.map((item) => {
+                          const line = order.lines.find(
+                            (l) => l.id === item.orderLineId
+                          );
+                          return (
+                            <li key={item.orderLineId}>
+                              {line?.product.name || "Item"} × {item.quantity}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                      {(returnRequest.status === "APPROVED" ||
+                        returnRequest.status === "RECEIVED") && (
+                        <p className="mt-1 text-sm text-green-700">
+                          Refund: $
+                          {(returnRequest.refundCents / 100).toFixed(2)}
+                          {returnRequest.receivedAt &&
+                            ` · Goods received ${new Date(
+                              returnRequest.receivedAt
+                            ).toLocaleDateString()}`}
+                        </p>
+                      )}
+                      {returnRequest.adminNotes && (
+                        <p className="mt-1 text-sm text-gray-600">
+                          Note: {returnRequest.adminNotes}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Addresses */}
+          <div className="bg-white rounded-lg shadow p-6 mb-8">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Addresses
+            </h2>
+            <OrderAddresses shipTo={order.shipTo} billTo={order.billTo} />
+          </div>
+
           {/* Order Summary */}
           <div className="bg-gray-50 rounded-lg p-6 mb-8">
             <div className="space-y-3">
@@ -312,14 +769,29 @@ export default function OrderDetailPage() {
                   ${(order.subtotalCents / 100).toFixed(2)}
                 </span>
               </div>
+              {order.taxes.map((tax) => (
+                <div
+                  key={`${tax.jurisdiction}:${tax.name}`}
+                  className="flex justify-between"
+                >
+                  <span className="text-gray-700">{formatTaxLabel(tax)}:</span>
+                  <span className="font-medium text-gray-900">
+                    ${(tax.amountCents / 100).toFixed(2)}
+                  </span>
+                </div>
+              ))}
+              {order.taxExemptionNumber && (
+                <p className="text-sm text-gray-500">
+                  Tax exempt (certificate {order.taxExemptionNumber})
+                </p>
+              )}
               <div className="flex justify-between">
-                <span className="text-gray-700">Tax (GST + QST):</span>
-                <span className="font-medium text-gray-900">
-                  ${(order.taxCents / 100).toFixed(2)}
+                <span className="text-gray-700">
+                  Shipping
+                  {order.shippingMethod &&
+                    ` (${formatShippingMethod(order.shippingMethod)})`}
+                  :
                 </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-700">Shipping:</span>
                 <span className="font-medium text-gray-900">
                   ${(order.shippingCents / 100).toFixed(2)}
                 </span>
@@ -330,6 +802,14 @@ export default function OrderDetailPage() {
                   ${(order.totalCents / 100).toFixed(2)}
                 </span>
               </div>
+              {order.refundedCents > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Refunded:</span>
+                  <span className="font-medium text-red-700">
+                    -${(order.refundedCents / 100).toFixed(2)}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
 
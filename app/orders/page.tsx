@@ -61,9 +61,11 @@ export default function OrdersPage() {
 
   const statusColor = (status: string) => {
     const colors: Record<string, string> = {
+      PENDING_APPROVAL: "bg-orange-100 text-orange-800",
       CREATED: "bg-yellow-100 text-yellow-800",
       PAID: "bg-blue-100 text-blue-800",
       SHIPPED: "bg-purple-100 text-purple-800",
+      DELIVERED: "bg-green-100 text-green-800",
       CANCELLED: "bg-red-100 text-red-800",
     };
     return colors[status] || "bg-gray-100 text-gray-800";
@@ -276,6 +278,26 @@ export default function OrdersPage() {
                         </button>
                       </>
                     )}
+                    {order.status === "PENDING_APPROVAL" && (
+                      <>
+                        <span className="self-center text-orange-600 font-medium text-sm">
+                          ⏳ Awaiting approval
+                        </span>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleCancelOrder(order.id);
+                          }}
+                          disabled={actioningOrderId === order.id}
+                          className="px-4 py-2 bg-red-600 text-white hover:bg-red-700 rounded font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {actioningOrderId === order.id &&
+                          actionType === "cancel"
+                            ? "Cancelling..."
+                            : "Cancel Order"}
+                        </button>
+                      </>
+                    )}
                     {order.status === "PAID" && (
                       <span className="text-green-600 font-medium text-sm">
                         ✓ Payment received
@@ -0,0 +1,83 @@
+"use client";
+
+import { nextTier, tierTable, type PriceTier } from "@/lib/price-tiers";
+
+/**
+ * Volume pricing display - tier table and "add N more to save" hint
+ * Used by the product catalog and the cart
+ */
+
+const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export function PriceTierTable({
+  basePriceCents,
+  tiers,
+  quantity,
+}: {
+  basePriceCents: number;
+  tiers: PriceTier[];
+  quantity?: number;
+}) {
+  if (tiers.length === 0) return null;
+
+  return (
+    <table className="w-full text-sm border border-gray-200 rounded">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="text-left px-3 py-2 font-semibold">Quantity</th>
+          <th className="text-right px-3 py-2 font-semibold">Unit price</th>
+        </tr>
+      </thead>
+      <tbody>
+        {tierTable(basePriceCents, tiers).map((row) => {
+          const active =
+            quantity !== undefined &&
+            quantity >= row.minQuantity &&
+            (row.maxQuantity === null || quantity <= row.maxQuantity);
+          return (
+            <tr
+              key={row.minQuantity}
+              className={`border-t ${active ? "bg-blue-50 font-semibold" : ""}`}
+            >
+              <td className="px-3 py-2">
+                {row.maxQuantity === null
+                  ? `${row.minQuantity}+`
+                  : row.minQuantity === row.maxQuantity
+                    ? row.minQuantity
+                    : `${row.minQuantity}–${row.maxQuantity}`}
+              </td>
+              <td className="px-3 py-2 text-right">
+                {formatPrice(row.priceCents)}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+// Shown only when the next tier beats what the buyer pays now
+// (a contract price may already be lower)
+export function TierSavingsHint({
+  basePriceCents,
+  tiers,
+  quantity,
+  currentPriceCents,
+}: {
+  basePriceCents: number;
+  tiers: PriceTier[];
+  quantity: number;
+  currentPriceCents?: number;
+}) {
+  const next = nextTier(basePriceCents, tiers, quantity);
+  if (!next || (currentPriceCents ?? Infinity) <= next.priceCents) {
+    return null;
+  }
+
+  return (
+    <p className="text-xs text-green-700">
+      Add {next.addQuantity} more to pay {formatPrice(next.priceCents)} each
+    </p>
+  );
+}
@@ -11,6 +11,14 @@ import {
 } from "@/components/ui";
 import { TooltipProvider } from "@/components/ui";
 import { layoutStyles, footerStyles } from "@/app/ui-styles";
+import { PriceTierTable, TierSavingsHint } from "@/app/price-tiers";
+import {
+  checkQuantity,
+  describeOrderRules,
+  nearestValidQuantity,
+  quantityStep,
+  type LineError,
+} from "@/lib/order-rules";
 
 /**
  * Products Page - Main product catalog for buyers
@@ -35,6 +43,16 @@ interface Product {
   lowThreshold: number;
   category?: Category;
   platformStock: number;
+  // Orderable from drop-ship suppliers once platform stock runs out
+  supplierStock: number;
+  // What can be ordered from each warehouse
+  stockByLocation: { code: string; name: string; available: number }[];
+  priceTiers: { minQuantity: number; priceCents: number }[];
+  minOrderQuantity: number;
+  orderMultiple: number;
+  packSize: number;
+  // Can be ordered beyond stock; the rest ships once stock arrives
+  allowBackorder: boolean;
   createdAt?: string;
   updatedAt?: string;
   imageUrl?: string | null;
@@ -47,6 +65,45 @@ interface PaginationMeta {
   totalPages: number;
 }
 
+// What can be ordered: platform stock, then drop-ship supplier stock
+function orderableStock(product: Product) {
+  return (product.platformStock || 0) + (product.supplierStock || 0);
+}
+
+// Most that can be added to the cart: no limit on backorderable products
+function maxOrderQuantity(product: Product) {
+  return product.allowBackorder ? Infinity : orderableStock(product);
+}
+
+// Stock badge text and colours
+function stockBadge(product: Product) {
+  if (orderableStock(product) > 0) {
+    return {
+      label: `${orderableStock(product)} in stock`,
+      className: "bg-green-100 text-green-800",
+    };
+  }
+  if (product.allowBackorder) {
+    return {
+      label: "Backorder available",
+      className: "bg-orange-100 text-orange-800",
+    };
+  }
+  return { label: "Out of stock", className: "bg-red-100 text-red-800" };
+}
+
+// Message for a rejected add to cart, using the ordering rule errors if any
+function addToCartError(data: {
+  error?: string;
+  details?: { lineErrors?: LineError[] };
+}) {
+  const lineError = data.details?.lineErrors?.[0];
+  if (!lineError) return "Failed to add item to cart";
+  return `${lineError.violations.map((v) => v.message).join(". ")}. Try ${
+    lineError.suggestedQuantity
+  }.`;
+}
+
 export default function ProductsPage() {
   const { isSignedIn } = useAuth();
   const { openSignIn } = useClerk();
@@ -136,7 +193,7 @@ export default function ProductsPage() {
       return;
     }
 
-    const quantity = quantities[product.id] || 1;
+    const quantity = quantities[product.id] || nearestValidQuantity(product, 1);
 
     // POST /api/cart/items - Add product to cart from grid card
     fetch("/api/cart/items", {
@@ -153,9 +210,12 @@ export default function ProductsPage() {
       .then((data) => {
         if (data.success) {
           alert(`${product.name} added to cart!`);
-          setQuantities({ ...quantities, [product.id]: 1 });
+          setQuantities({
+            ...quantities,
+            [product.id]: nearestValidQuantity(product, 1),
+          });
         } else {
-          alert("Failed to add item to cart");
+          alert(addToCartError(data));
         }
       })
       .catch((error) => {
@@ -191,7 +251,7 @@ export default function ProductsPage() {
           setSelectedProduct(null);
           setModalQuantity(1);
         } else {
-          alert("Failed to add item to cart");
+          alert(addToCartError(data));
         }
       })
       .catch((error) => {
@@ -311,7 +371,7 @@ export default function ProductsPage() {
                           className="bg-white rounded-lg shadow-sm hover:shadow-lg transition duration-200 overflow-hidden flex flex-col cursor-pointer"
                           onClick={() => {
                             setSelectedProduct(product);
-                            setModalQuantity(1);
+                            setModalQuantity(nearestValidQuantity(product, 1));
                           }}
                         >
                           {/* Product Image - displays thumbnail or placeholder */}
@@ -347,32 +407,40 @@ export default function ProductsPage() {
                               <div className="flex justify-between items-center mb-3">
                                 <span className="text-lg font-bold text-blue-600">
                                   ${(product.priceCents / 100).toFixed(2)}
+                                  {product.priceTiers.length > 0 && (
+                                    <span className="block text-xs font-medium text-green-700">
+                                      Volume pricing
+                                    </span>
+                                  )}
                                 </span>
                                 <span
                                   className={`text-xs font-medium px-2 py-1 rounded ${
-                                    (product.platformStock || 0) > 0
-                                      ? "bg-green-100 text-green-800"
-                                      : "bg-red-100 text-red-800"
+                                    stockBadge(product).className
                                   }`}
                                 >
-                                  {(product.platformStock || 0) > 0
-                                    ? `${product.platformStock} in stock`
-                                    : "Out of stock"}
+                                  {stockBadge(product).label}
                                 </span>
                               </div>
 
                               {/* Quantity Controls - Quick add from grid card */}
-                              {(product.platformStock || 0) > 0 && (
+                              {maxOrderQuantity(product) > 0 && (
                                 <div className="space-y-2">
                                   <div className="flex items-center justify-between bg-gray-100 rounded p-1">
                                     <button
                                       onClick={(e) => {
                                         e.stopPropagation();
+                                        const min = nearestValidQuantity(
+                                          product,
+                                          1
+                                        );
                                         const curr =
-                                          quantities[product.id] || 1;
+                                          quantities[product.id] || min;
                                         setQuantities({
                                           ...quantities,
-                                          [product.id]: Math.max(1, curr - 1),
+                                          [product.id]: Math.max(
+                                            min,
+                                            curr - quantityStep(product)
+                                          ),
                                         });
                                       }}
                                       className="px-2 py-1 text-sm font-bold hover:bg-gray-200 rounded"
@@ -380,19 +448,22 @@ export default function ProductsPage() {
                                       −
                                     </button>
                                     <span className="text-sm font-semibold">
-                                      {quantities[product.id] || 1}
+                                      {quantities[product.id] ||
+                                        nearestValidQuantity(product, 1)}
                                     </span>
                                     <button
                                       onClick={(e) => {
                                         e.stopPropagation();
                                         const curr =
-                                          quantities[product.id] || 1;
+                                          quantities[product.id] ||
+                                          nearestValidQuantity(product, 1);
+                                        const next =
+                                          curr + quantityStep(product);
+                                        if (next > maxOrderQuantity(product))
+                                          return;
                                         setQuantities({
                                           ...quantities,
-                                          [product.id]: Math.min(
-                                            product.platformStock || 0,
-                                            curr + 1
-                                          ),
+                                          [product.id]: next,
                                         });
                                       }}
                                       className="px-2 py-1 text-sm font-bold hover:bg-gray-200 rounded"
@@ -400,6 +471,11 @@ export default function ProductsPage() {
                                       +
                                     </button>
                                   </div>
+                                  {describeOrderRules(product) && (
+                                    <p className="text-xs text-gray-500 text-center">
+                                      {describeOrderRules(product)}
+                                    </p>
+                                  )}
                                   <Button
                                     fullWidth
                                     size="sm"
@@ -548,6 +624,18 @@ export default function ProductsPage() {
                         <div className="text-4xl font-bold text-blue-600 mb-4">
                           ${(selectedProduct.priceCents / 100).toFixed(2)}
                         </div>
+                        {selectedProduct.priceTiers.length > 0 && (
+                          <div className="mb-4">
+                            <p className="text-sm font-semibold text-gray-900 mb-2">
+                              Volume pricing
+                            </p>
+                            <PriceTierTable
+                              basePriceCents={selectedProduct.priceCents}
+                              tiers={selectedProduct.priceTiers}
+                              quantity={modalQuantity}
+                            />
+                          </div>
+                        )}
                         {selectedProduct.unit && (
                           <p className="text-gray-600">
                             Unit:{" "}
@@ -562,19 +650,36 @@ export default function ProductsPage() {
                       <div className="mb-6">
                         <span
                           className={`inline-block text-sm font-bold px-3 py-2 rounded ${
-                            (selectedProduct.platformStock || 0) > 0
-                              ? "bg-green-100 text-green-800"
-                              : "bg-red-100 text-red-800"
+                            stockBadge(selectedProduct).className
                           }`}
                         >
-                          {(selectedProduct.platformStock || 0) > 0
-                            ? `${selectedProduct.platformStock} in stock`
-                            : "Out of stock"}
+                          {stockBadge(selectedProduct).label}
                         </span>
+                        {selectedProduct.allowBackorder && (
+                          <p className="mt-2 text-sm text-gray-600">
+                            Quantities beyond stock are backordered and ship as
+                            soon as stock arrives
+                          </p>
+                        )}
+                        {selectedProduct.supplierStock > 0 && (
+                          <p className="mt-2 text-sm text-gray-600">
+                            {selectedProduct.supplierStock} of them ship
+                            directly from a supplier
+                          </p>
+                        )}
+                        {selectedProduct.stockByLocation.length > 1 && (
+                          <ul className="mt-2 text-sm text-gray-600">
+                            {selectedProduct.stockByLocation.map((location) => (
+                              <li key={location.code}>
+                                {location.name}: {location.available} available
+                              </li>
+                            ))}
+                          </ul>
+                        )}
                       </div>
 
-                      {/* Quantity & Add to Cart - max quantity = stock */}
-                      {(selectedProduct.platformStock || 0) > 0 && (
+                      {/* Quantity & Add to Cart - max quantity = stock, unless backorderable */}
+                      {maxOrderQuantity(selectedProduct) > 0 && (
                         <div className="space-y-3">
                           <div>
                             <label className="block text-sm font-semibold text-gray-900 mb-2">
@@ -582,15 +687,20 @@ export default function ProductsPage() {
                             </label>
                             <input
                               type="number"
-                              min="1"
-                              max={selectedProduct.platformStock || 0}
+                              min={nearestValidQuantity(selectedProduct, 1)}
+                              step={quantityStep(selectedProduct)}
+                              max={
+                                selectedProduct.allowBackorder
+                                  ? undefined
+                                  : orderableStock(selectedProduct)
+                              }
                               value={modalQuantity}
                               onChange={(e) =>
                                 setModalQuantity(
                                   Math.max(
                                     1,
                                     Math.min(
-                                      selectedProduct.platformStock || 0,
+                                      maxOrderQuantity(selectedProduct),
                                       parseInt(e.target.value) || 1
                                     )
                                   )
@@ -598,6 +708,28 @@ export default function ProductsPage() {
                               }
                               className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
                             />
+                            {describeOrderRules(selectedProduct) && (
+                              <p className="mt-1 text-xs text-gray-500">
+                                {describeOrderRules(selectedProduct)}
+                              </p>
+                            )}
+                            {checkQuantity(selectedProduct, modalQuantity).map(
+                              (violation) => (
+                                <p
+                                  key={violation.code}
+                                  className="mt-1 text-xs text-red-600"
+                                >
+                                  {violation.message}
+                                </p>
+                              )
+                            )}
+                            <div className="mt-1">
+                              <TierSavingsHint
+                                basePriceCents={selectedProduct.priceCents}
+                                tiers={selectedProduct.priceTiers}
+                                quantity={modalQuantity}
+                              />
+                            </div>
                           </div>
                           <Button
                             onClick={handleAddToCartFromModal}
@@ -0,0 +1,356 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useAuth, SignInButton } from "@clerk/nextjs";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Quotes Page - Requests for quote from the cart or a saved list (buyer)
+ * Accept a quoted price to create the order, or withdraw/decline it
+ */
+
+type QuoteStatus =
+  "REQUESTED" | "QUOTED" | "ACCEPTED" | "DECLINED" | "EXPIRED" | "CANCELLED";
+
+interface Quote {
+  id: string;
+  status: QuoteStatus;
+  notes?: string;
+  adminNotes?: string;
+  expiresAt?: string;
+  orderId?: string;
+  createdAt: string;
+  buyer: { firstName?: string; lastName?: string; email: string };
+  lines: {
+    id: string;
+    quantity: number;
+    listUnitPriceCents: number;
+    quotedUnitPriceCents: number | null;
+    product: { name: string; sku: string };
+  }[];
+}
+
+const statusColors: Record<QuoteStatus, string> = {
+  REQUESTED: "bg-yellow-100 text-yellow-800",
+  QUOTED: "bg-blue-100 text-blue-800",
+  ACCEPTED: "bg-green-100 text-green-800",
+  DECLINED: "bg-red-100 text-red-800",
+  EXPIRED: "bg-gray-100 text-gray-800",
+  CANCELLED: "bg-gray-100 text-gray-800",
+};
+
+const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export default function QuotesPage() {
+  const { isSignedIn } = useAuth();
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [poNumbers, setPoNumbers] = useState<Record<string, string>>({});
+  const [actioningQuoteId, setActioningQuoteId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const fetchQuotes = async () => {
+    try {
+      setLoading(true);
+      // GET /api/quotes - My quotes and my company's quotes
+      const res = await fetch("/api/quotes");
+      const json = await res.json();
+      if (json.success) {
+        setQuotes(json.data);
+      }
+    } catch (err) {
+      console.error("Failed to fetch quotes:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isSignedIn) fetchQuotes();
+  }, [isSignedIn]);
+
+  const handleAccept = async (quoteId: string) => {
+    setActioningQuoteId(quoteId);
+    setActionError(null);
+
+    try {
+      // POST /api/quotes/[id]/accept - Create the order at the quoted prices
+      const res = await fetch(`/api/quotes/${quoteId}/accept`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          poNumber: poNumbers[quoteId] || undefined,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to accept quote");
+      }
+
+      // Pay (or wait for approval) from the order page
+      window.location.href = `/orders/${data.data.id}`;
+    } catch (err) {
+      setActionError(
+        err instanceof Error ? err.message : "Failed to accept quote"
+      );
+      setActioningQuoteId(null);
+    }
+  };
+
+  const handleWithdraw = async (quote: Quote) => {
+    const message =
+      quote.status === "QUOTED"
+        ? "Decline these quoted prices?"
+        : "Withdraw this quote request?";
+    if (!confirm(message)) return;
+
+    setActioningQuoteId(quote.id);
+    setActionError(null);
+
+    try {
+      // DELETE /api/quotes/[id] - Withdraw the request or decline the quote
+      const res = await fetch(`/api/quotes/${quote.id}`, { method: "DELETE" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update quote");
+      }
+
+      fetchQuotes();
+    } catch (err) {
+      setActionError(
+        err instanceof Error ? err.message : "Failed to update quote"
+      );
+    } finally {
+      setActioningQuoteId(null);
+    }
+  };
+
+  if (!isSignedIn) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12 px-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-8 text-center">
+            <h2 className="text-2xl font-bold text-blue-900 mb-4">
+              Please Sign In
+            </h2>
+            <p className="text-blue-700 mb-6">
+              You need to sign in to view your quotes
+            </p>
+            <SignInButton mode="modal">
+              <button className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded transition">
+                Sign In Now
+              </button>
+            </SignInButton>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-6xl mx-auto px-4 py-8">
+          <h1 className="text-3xl font-bold mb-2">Quotes</h1>
+          <p className="text-gray-600 mb-8">
+            Request a quote from your{" "}
+            <Link href="/cart" className="text-blue-600 hover:underline">
+              cart
+            </Link>{" "}
+            or a{" "}
+            <Link href="/saved-lists" className="text-blue-600 hover:underline">
+              saved list
+            </Link>
+            . Once priced, accept it before it expires to place the order.
+          </p>
+
+          {actionError && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded text-red-700">
+              {actionError}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12">Loading...</div>
+          ) : quotes.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">No quotes yet</div>
+          ) : (
+            <div className="space-y-4">
+              {quotes.map((quote) => {
+                const isQuoted = quote.status === "QUOTED";
+                const listTotal = quote.lines.reduce(
+                  (sum, line) => sum + line.listUnitPriceCents * line.quantity,
+                  0
+                );
+                const quotedTotal = quote.lines.reduce(
+                  (sum, line) =>
+                    sum +
+                    (line.quotedUnitPriceCents ?? line.listUnitPriceCents) *
+                      line.quantity,
+                  0
+                );
+
+                return (
+                  <div
+                    key={quote.id}
+                    className="bg-white rounded-lg shadow p-6"
+                  >
+                    <div className="flex justify-between items-start mb-4">
+                      <div>
+                        <h3 className="text-lg font-semibold">
+                          Quote #{quote.id.slice(0, 8)}
+                        </h3>
+                        <p className="text-sm text-gray-600">
+                          {[quote.buyer.firstName, quote.buyer.lastName]
+                            .filter(Boolean)
+                            .join(" ") || quote.buyer.email}{" "}
+                          · {new Date(quote.createdAt).toLocaleString()}
+                        </p>
+                        {isQuoted && quote.expiresAt && (
+                          <p className="text-sm text-gray-600">
+                            Valid until{" "}
+                            {new Date(quote.expiresAt).toLocaleString()}
+                          </p>
+                        )}
+                      </div>
+                      <span
+                        className={`px-3 py-1 rounded-full text-sm font-medium ${
+                          statusColors[quote.status]
+                        }`}
+                      >
+                        {quote.status}
+                      </span>
+                    </div>
+
+                    <table className="w-full text-sm border-t">
+                      <thead>
+                        <tr className="text-left text-gray-600">
+                          <th className="py-2">Product</th>
+                          <th className="py-2 text-right">Qty</th>
+                          <th className="py-2 text-right">Your price</th>
+                          <th className="py-2 text-right">Quoted</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {quote.lines.map((line) => (
+                          <tr key={line.id} className="border-t">
+                            <td className="py-2">
+                              {line.product.name} ({line.product.sku})
+                            </td>
+                            <td className="py-2 text-right">{line.quantity}</td>
+                            <td className="py-2 text-right">
+                              {formatPrice(line.listUnitPriceCents)}
+                            </td>
+                            <td className="py-2 text-right font-medium">
+                              {line.quotedUnitPriceCents !== null
+                                ? formatPrice(line.quotedUnitPriceCents)
+                                : "—"}
+                            </td>
+                          </tr>
+                        ))}
+                        <tr className="border-t font-semibold">
+                          <td className="py-2" colSpan={2}>
+                            Subtotal
+                          </td>
+                          <td className="py-2 text-right">
+                            {formatPrice(listTotal)}
+                          </td>
+                          <td className="py-2 text-right">
+                            {quote.status === "REQUESTED"
+                              ? "—"
+                              : formatPrice(quotedTotal)}
+                          </td>
+                        </tr>
+                      </tbody>
+                    </table>
+
+                    {quote.notes && (
+                      <p className="mt-4 text-sm text-gray-700">
+                        Your notes: {quote.notes}
+                      </p>
+                    )}
+                    {quote.adminNotes && (
+                      <p className="mt-2 text-sm text-gray-700">
+                        Our reply: {quote.adminNotes}
+                      </p>
+                    )}
+
+                    {quote.orderId && (
+                      <Link
+                        href={`/orders/${quote.orderId}`}
+                        className="inline-block mt-4 text-blue-600 hover:underline text-sm"
+                      >
+                        View order #{quote.orderId.slice(0, 8)}
+                      </Link>
+                    )}
+
+                    {(isQuoted || quote.status === "REQUESTED") && (
+                      <div className="border-t mt-4 pt-4 flex flex-wrap gap-3 items-center">
+                        {isQuoted && (
+                          <>
+                            <input
+                              type="text"
+                              value={poNumbers[quote.id] || ""}
+                              onChange={(e) =>
+                                setPoNumbers((prev) => ({
+                                  ...prev,
+                                  [quote.id]: e.target.value,
+                                }))
+                              }
+                              placeholder="PO Number (optional)"
+                              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <button
+                              onClick={() => handleAccept(quote.id)}
+                              disabled={actioningQuoteId === quote.id}
+                              className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Accept &amp; Place Order
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={() => handleWithdraw(quote)}
+                          disabled={actioningQuoteId === quote.id}
+                          className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-black rounded font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {isQuoted ? "Decline" : "Withdraw Request"}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { useAuth, SignInButton } from "@clerk/nextjs";
 import { footerStyles, layoutStyles } from "@/app/ui-styles";
+import type { LineError } from "@/lib/order-rules";
 
 /**
  * Saved Lists Page - Manage saved product lists
@@ -57,6 +58,13 @@ export default function SavedListsPage() {
       requestedQuantity: number;
       availableQuantity: number;
     }>;
+    // Added, but short of stock: the rest will be backordered
+    backorderedItems?: Array<{
+      productName: string;
+      requestedQuantity: number;
+      availableQuantity: number;
+    }>;
+    lineErrors?: LineError[];
   } | null>(null);
 
   const fetchProducts = async () => {
@@ -166,6 +174,8 @@ export default function SavedListsPage() {
           listId: id,
           addedCount: json.addedItemsCount || json.data.items.length,
           outOfStockItems: json.outOfStockItems || undefined,
+          backorderedItems: json.backorderedItems || undefined,
+          lineErrors: json.lineErrors || undefined,
         });
       } else {
         alert(json.error || "Failed to add items");
@@ -176,6 +186,37 @@ export default function SavedListsPage() {
     }
   };
 
+  const handleRequestQuote = async (id: string) => {
+    try {
+      // POST /api/quotes - Request a quote for the list's items
+      const res = await fetch("/api/quotes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ savedListId: id }),
+      });
+      const json = await res.json();
+      if (json.success) {
+        window.location.href = "/quotes";
+      } else {
+        const lineErrors: LineError[] = json.details?.lineErrors ?? [];
+        alert(
+          [
+            json.error || "Failed to request quote",
+            ...lineErrors.map(
+              (e) =>
+                `${e.productName}: ${e.violations
+                  .map((v) => v.message)
+                  .join(". ")}`
+            ),
+          ].join("\n")
+        );
+      }
+    } catch (err) {
+      console.error("Failed to request quote:", err);
+      alert("Failed to request quote");
+    }
+  };
+
   const handleDeleteItemFromList = async (listId: string, itemId: string) => {
     if (!confirm("Remove this item from the list?")) return;
 
@@ -339,6 +380,12 @@ export default function SavedListsPage() {
                       >
                         Order From List
                       </button>
+                      <button
+                        onClick={() => handleRequestQuote(list.id)}
+                        className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-black rounded font-medium transition-colors"
+                      >
+                        Request Quote
+                      </button>
                       <button
                         onClick={() => handleDeleteList(list.id)}
                         className="px-3 py-1 bg-red-600 text-white hover:bg-red-700 rounded text-sm font-medium transition-colors"
@@ -543,6 +590,55 @@ export default function SavedListsPage() {
                   </>
                 )}
 
+              {orderConfirm.backorderedItems &&
+                orderConfirm.backorderedItems.length > 0 && (
+                  <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 mb-4">
+                    <p className="text-sm font-medium text-orange-900 mb-3">
+                      {orderConfirm.backorderedItems.length} item(s) are short
+                      of stock and will be partly backordered:
+                    </p>
+                    <div className="space-y-2 max-h-40 overflow-y-auto">
+                      {orderConfirm.backorderedItems.map((item, idx) => (
+                        <div key={idx} className="text-sm text-orange-800">
+                          <p className="font-medium">{item.productName}</p>
+                          <p className="text-xs text-orange-700">
+                            Requested: {item.requestedQuantity} | Available:{" "}
+                            {item.availableQuantity}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-orange-700 mt-3">
+                      The rest ships as soon as stock arrives.
+                    </p>
+                  </div>
+                )}
+
+              {orderConfirm.lineErrors &&
+                orderConfirm.lineErrors.length > 0 && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+                    <p className="text-sm font-medium text-red-900 mb-3">
+                      {orderConfirm.lineErrors.length} item(s) do not meet
+                      ordering rules and were excluded:
+                    </p>
+                    <div className="space-y-2 max-h-40 overflow-y-auto">
+                      {orderConfirm.lineErrors.map((item) => (
+                        <div
+                          key={item.productId}
+                          className="text-sm text-red-800"
+                        >
+                          <p className="font-medium">{item.productName}</p>
+                          <p className="text-xs text-red-700">
+                            {item.violations.map((v) => v.message).join("; ")}{" "}
+                            (saved: {item.quantity}, try{" "}
+                            {item.suggestedQuantity})
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
               <div className="flex gap-2">
                 <button
                   onClick={() => {
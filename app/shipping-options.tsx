@@ -0,0 +1,64 @@
+"use client";
+
+import {
+  formatShippingMethod,
+  type ShippingMethodValue,
+} from "@/lib/shipping-methods";
+
+/**
+ * Shipping methods available for the cart, with their price
+ * Used by the cart and checkout summaries
+ */
+
+// Shipping options for the buyer's location and cart weight (see GET /api/cart)
+export interface ShippingEstimate {
+  options: {
+    method: ShippingMethodValue;
+    priceCents: number;
+    taxCents: number; // tax on the price, where shipping is taxed
+    zoneName: string | null;
+  }[];
+  weightGrams: number;
+  // Address book entry the options are for (null: profile location)
+  addressId: string | null;
+}
+
+export function ShippingOptions({
+  shipping,
+  selected,
+  onSelect,
+}: {
+  shipping: ShippingEstimate;
+  selected: ShippingMethodValue | null;
+  onSelect: (method: ShippingMethodValue) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      {shipping.options.map((option) => (
+        <label
+          key={option.method}
+          className="flex items-center justify-between gap-2 text-sm text-gray-700"
+        >
+          <span className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={selected === option.method}
+              onChange={() => onSelect(option.method)}
+            />
+            {formatShippingMethod(option.method)}
+          </span>
+          <span>
+            {option.priceCents === 0
+              ? "Free"
+              : `$${(option.priceCents / 100).toFixed(2)}`}
+          </span>
+        </label>
+      ))}
+      <p className="text-xs text-gray-500">
+        Billable weight: {(shipping.weightGrams / 1000).toFixed(1)} kg
+        {shipping.options.length === 1 &&
+          " — no delivery to your address, pickup only"}
+      </p>
+    </div>
+  );
+}
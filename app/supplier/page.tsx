@@ -0,0 +1,471 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { Button, Card, Input } from "@/components/ui";
+import { footerStyles, layoutStyles } from "@/app/ui-styles";
+
+/**
+ * Supplier Portal Page(Supplier Only)
+ * A drop-ship supplier updates its stock and ships the drop-ship orders sent
+ * to it directly to the buyers
+ */
+
+interface StockItem {
+  id: string;
+  sku: string | null;
+  name: string;
+  unit: string | null;
+  quantity: number;
+  reserved: number;
+  available: number;
+}
+
+type DropShipStatus = "OPEN" | "ACKNOWLEDGED" | "SHIPPED" | "CANCELLED";
+
+interface DropShipOrder {
+  id: string;
+  status: DropShipStatus;
+  createdAt: string;
+  shippedAt: string | null;
+  order: {
+    id: string;
+    poNumber: string | null;
+    shipToName: string | null;
+    shipToCompany: string | null;
+    shipToLine1: string | null;
+    shipToLine2: string | null;
+    shipToCity: string | null;
+    shipToRegion: string | null;
+    shipToPostalCode: string | null;
+    shipToCountry: string | null;
+    shipToPhone: string | null;
+  };
+  lines: {
+    id: string;
+    quantity: number;
+    orderLine: { product: { id: string; sku: string | null; name: string } };
+  }[];
+  shipment: { carrier: string; trackingNumber: string | null } | null;
+}
+
+const STATUS_STYLES: Record<DropShipStatus, string> = {
+  OPEN: "bg-yellow-100 text-yellow-800",
+  ACKNOWLEDGED: "bg-blue-100 text-blue-800",
+  SHIPPED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-gray-100 text-gray-800",
+};
+
+export default function SupplierPortalPage() {
+  const { isSignedIn } = useAuth();
+  const router = useRouter();
+  const [isSupplier, setIsSupplier] = useState(false);
+
+  const [supplierName, setSupplierName] = useState("");
+  const [stock, setStock] = useState<StockItem[]>([]);
+  // Edited quantities by product id
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [dropShipOrders, setDropShipOrders] = useState<DropShipOrder[]>([]);
+  // Carrier and tracking number being entered, by drop-ship order id
+  const [shipForms, setShipForms] = useState<
+    Record<string, { carrier: string; trackingNumber: string }>
+  >({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // GET /api/supplier/inventory and /api/supplier/orders
+  const fetchPortal = useCallback(async () => {
+    try {
+      const [stockRes, ordersRes] = await Promise.all([
+        fetch("/api/supplier/inventory"),
+        fetch("/api/supplier/orders"),
+      ]);
+      const [stockJson, ordersJson] = await Promise.all([
+        stockRes.json(),
+        ordersRes.json(),
+      ]);
+      if (stockJson.success) {
+        setSupplierName(stockJson.supplier.name);
+        setStock(stockJson.data);
+        setQuantities(
+          Object.fromEntries(
+            stockJson.data.map((item: StockItem) => [
+              item.id,
+              String(item.quantity),
+            ])
+          )
+        );
+      }
+      if (ordersJson.success) setDropShipOrders(ordersJson.data);
+    } catch (err) {
+      console.error("Error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      router.push("/");
+      return;
+    }
+
+    const verifySupplier = async () => {
+      // GET /api/auth/me - Verify supplier role
+      const res = await fetch("/api/auth/me");
+      const data = res.ok ? await res.json() : null;
+      const userIsSupplier = data?.user?.role === "SUPPLIER";
+      setIsSupplier(userIsSupplier);
+      if (!userIsSupplier) router.push("/");
+    };
+
+    verifySupplier();
+  }, [isSignedIn, router]);
+
+  useEffect(() => {
+    if (isSupplier) fetchPortal();
+  }, [isSupplier, fetchPortal]);
+
+  // PUT /api/supplier/inventory - Save the changed quantities
+  const handleSaveStock = async () => {
+    const items = stock
+      .map((item) => ({
+        productId: item.id,
+        quantity: parseInt(quantities[item.id], 10),
+      }))
+      .filter(
+        (item, i) =>
+          !isNaN(item.quantity) && item.quantity !== stock[i].quantity
+      );
+    if (items.length === 0) return;
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/supplier/inventory", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ items }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save stock");
+      setMessage("Stock updated");
+      await fetchPortal();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save stock");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // PUT /api/supplier/orders/[id] - Acknowledge or ship a drop-ship order
+  const updateOrder = async (id: string, body: object) => {
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/supplier/orders/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to update order");
+      await fetchPortal();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update order");
+    }
+  };
+
+  const handleShip = (id: string) => {
+    const form = shipForms[id];
+    if (!form?.carrier) {
+      setError("Enter the carrier to ship this order");
+      return;
+    }
+    updateOrder(id, {
+      status: "SHIPPED",
+      carrier: form.carrier,
+      trackingNumber: form.trackingNumber || undefined,
+    });
+  };
+
+  const setShipForm = (
+    id: string,
+    field: "carrier" | "trackingNumber",
+    value: string
+  ) =>
+    setShipForms((prev) => ({
+      ...prev,
+      [id]: {
+        carrier: prev[id]?.carrier ?? "",
+        trackingNumber: prev[id]?.trackingNumber ?? "",
+        [field]: value,
+      },
+    }));
+
+  if (!isSupplier) return null;
+
+  return (
+    <div className={layoutStyles.pageWrapper}>
+      <div className={layoutStyles.pageContent}>
+        <div className="max-w-7xl mx-auto px-4 py-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Supplier Portal
+          </h1>
+          <p className="text-gray-600 mb-8">{supplierName}</p>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+          {message && (
+            <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded text-green-700 text-sm">
+              {message}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12 text-gray-600">Loading...</div>
+          ) : (
+            <>
+              <Card className="p-6 border border-gray-200 bg-white mb-8">
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-semibold">Your Stock</h2>
+                  <Button
+                    variant="primary"
+                    onClick={handleSaveStock}
+                    disabled={saving}
+                  >
+                    {saving ? "Saving..." : "Save Stock"}
+                  </Button>
+                </div>
+                {stock.length === 0 ? (
+                  <p className="text-gray-600">
+                    No products in your catalog yet. Contact us to add them.
+                  </p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-gray-600">
+                      <tr>
+                        <th className="py-2">Product</th>
+                        <th className="py-2">SKU</th>
+                        <th className="py-2">On hand</th>
+                        <th className="py-2 text-right">Reserved</th>
+                        <th className="py-2 text-right">Available</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {stock.map((item) => (
+                        <tr key={item.id} className="border-t">
+                          <td className="py-2">{item.name}</td>
+                          <td className="py-2 font-mono">{item.sku || "-"}</td>
+                          <td className="py-2 pr-4 w-40">
+                            <Input
+                              type="number"
+                              value={quantities[item.id] ?? ""}
+                              onChange={(e) =>
+                                setQuantities({
+                                  ...quantities,
+                                  [item.id]: e.target.value,
+                                })
+                              }
+                              min={String(item.reserved)}
+                              step="1"
+                            />
+                          </td>
+                          <td className="py-2 text-right">{item.reserved}</td>
+                          <td className="py-2 text-right font-medium">
+                            {item.available}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                <p className="text-xs text-gray-500 mt-4">
+                  Reserved units are held by orders waiting for payment and
+                  cannot be removed.
+                </p>
+              </Card>
+
+              <h2 className="text-2xl font-semibold mb-4">Drop-ship Orders</h2>
+              {dropShipOrders.length === 0 ? (
+                <Card className="p-8 text-center border border-gray-200 bg-white">
+                  <p className="text-gray-600">No orders yet</p>
+                </Card>
+              ) : (
+                <div className="space-y-4">
+                  {dropShipOrders.map((dropShipOrder) => {
+                    const { order } = dropShipOrder;
+                    return (
+                      <Card
+                        key={dropShipOrder.id}
+                        className="p-6 border border-gray-200 bg-white"
+                      >
+                        <div className="flex justify-between items-start mb-4">
+                          <div>
+                            <p className="font-semibold">
+                              Order{" "}
+                              <span className="font-mono">
+                                {order.id.slice(0, 8)}
+                              </span>
+                              {order.poNumber && ` · PO ${order.poNumber}`}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              Received{" "}
+                              {new Date(
+                                dropShipOrder.createdAt
+                              ).toLocaleString()}
+                            </p>
+                          </div>
+                          <span
+                            className={`px-2 py-1 rounded text-xs font-medium ${
+                              STATUS_STYLES[dropShipOrder.status]
+                            }`}
+                          >
+                            {dropShipOrder.status}
+                          </span>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+                          <div>
+                            <p className="font-medium mb-1">Ship to</p>
+                            {[
+                              order.shipToName,
+                              order.shipToCompany,
+                              order.shipToLine1,
+                              order.shipToLine2,
+                              [
+                                order.shipToCity,
+                                order.shipToRegion,
+                                order.shipToPostalCode,
+                              ]
+                                .filter(Boolean)
+                                .join(" "),
+                              order.shipToCountry,
+                              order.shipToPhone,
+                            ]
+                              .filter(Boolean)
+                              .map((line, i) => (
+                                <div key={i}>{line}</div>
+                              ))}
+                          </div>
+                          <div>
+                            <p className="font-medium mb-1">Items</p>
+                            {dropShipOrder.lines.map((line) => (
+                              <div key={line.id}>
+                                {line.quantity} × {line.orderLine.product.name}
+                                {line.orderLine.product.sku && (
+                                  <span className="ml-1 font-mono text-gray-500">
+                                    ({line.orderLine.product.sku})
+                                  </span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+
+                        {dropShipOrder.status === "CANCELLED" ? (
+                          <p className="text-sm text-gray-600 mt-4">
+                            Cancelled, the buyer was refunded. Do not ship.
+                          </p>
+                        ) : dropShipOrder.status === "SHIPPED" ? (
+                          <p className="text-sm text-gray-600 mt-4">
+                            Shipped{" "}
+                            {dropShipOrder.shippedAt &&
+                              new Date(
+                                dropShipOrder.shippedAt
+                              ).toLocaleDateString()}
+                            {dropShipOrder.shipment &&
+                              ` via ${dropShipOrder.shipment.carrier}${
+                                dropShipOrder.shipment.trackingNumber
+                                  ? ` (${dropShipOrder.shipment.trackingNumber})`
+                                  : ""
+                              }`}
+                          </p>
+                        ) : (
+                          <div className="flex flex-wrap gap-2 items-center mt-4">
+                            {dropShipOrder.status === "OPEN" && (
+                              <Button
+                                variant="secondary"
+                                onClick={() =>
+                                  updateOrder(dropShipOrder.id, {
+                                    status: "ACKNOWLEDGED",
+                                  })
+                                }
+                              >
+                                Acknowledge
+                              </Button>
+                            )}
+                            <Input
+                              value={shipForms[dropShipOrder.id]?.carrier ?? ""}
+                              onChange={(e) =>
+                                setShipForm(
+                                  dropShipOrder.id,
+                                  "carrier",
+                                  e.target.value
+                                )
+                              }
+                              placeholder="Carrier"
+                            />
+                            <Input
+                              value={
+                                shipForms[dropShipOrder.id]?.trackingNumber ??
+                                ""
+                              }
+                              onChange={(e) =>
+                                setShipForm(
+                                  dropShipOrder.id,
+                                  "trackingNumber",
+                                  e.target.value
+                                )
+                              }
+                              placeholder="Tracking number"
+                            />
+                            <Button
+                              variant="primary"
+                              onClick={() => handleShip(dropShipOrder.id)}
+                            >
+                              Mark Shipped
+                            </Button>
+                          </div>
+                        )}
+                      </Card>
+                    );
+                  })}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <footer className={footerStyles.container}>
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col md:flex-row justify-between items-center">
+            <div className="mb-6 md:mb-0">
+              <h3 className={footerStyles.title}>B2B Commerce</h3>
+              <p className={footerStyles.subtitle}>
+                Professional Procurement Platform
+              </p>
+            </div>
+            <div className="text-center md:text-right">
+              <p className={footerStyles.copyright}>
+                © 2025 B2B Commerce. All rights reserved.
+              </p>
+              <p className={footerStyles.tagline}>
+                Streamlining business procurement
+              </p>
+            </div>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
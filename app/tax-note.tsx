@@ -0,0 +1,47 @@
+"use client";
+
+import Link from "next/link";
+import { TAX_COUNTRIES, getRegions } from "@/lib/tax-rates";
+
+/**
+ * Where the cart's tax estimate applies, or the buyer's tax exemption
+ * Used by the cart and checkout summaries
+ */
+
+// Tax estimate for the buyer's shipping location (see GET /api/cart)
+export interface TaxEstimate {
+  taxCents: number;
+  taxes: {
+    name: string;
+    jurisdiction: string;
+    rate: number;
+    amountCents: number;
+  }[];
+  location: { country: string; region: string | null };
+  exemptionNumber: string | null;
+}
+
+export function TaxNote({ tax }: { tax: TaxEstimate }) {
+  if (tax.exemptionNumber) {
+    return (
+      <p className="text-xs text-gray-500">
+        Tax exempt (certificate {tax.exemptionNumber})
+      </p>
+    );
+  }
+
+  const { country, region } = tax.location;
+  const countryName =
+    TAX_COUNTRIES.find((c) => c.code === country)?.name ?? country;
+  const regionName = getRegions(country).find((r) => r.code === region)?.name;
+
+  return (
+    <p className="text-xs text-gray-500">
+      Tax for shipping to {regionName ? `${regionName}, ` : ""}
+      {countryName}.{" "}
+      <Link href="/dashboard" className="underline">
+        Change
+      </Link>
+    </p>
+  );
+}
@@ -0,0 +1,68 @@
+// Postal code formats and address display, shared by the address book API,
+// order documents and the UI
+
+// Canada "A1A 1A1" and US ZIP "12345" / ZIP+4 "12345-6789"; other countries
+// only need a plausible code
+const POSTAL_CODE_FORMATS: Record<
+  string,
+  { pattern: RegExp; example: string }
+> = {
+  CA: {
+    pattern: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] \d[ABCEGHJ-NPRSTV-Z]\d$/,
+    example: "H2X 1Y4",
+  },
+  US: { pattern: /^\d{5}(-\d{4})?$/, example: "10001" },
+};
+const ANY_POSTAL_CODE = /^[A-Z0-9][A-Z0-9 -]{1,9}$/;
+
+// Uppercase, single spaces; Canadian codes get their space ("h2x1y4" -> "H2X 1Y4")
+export function normalizePostalCode(country: string, postalCode: string) {
+  const code = postalCode.trim().toUpperCase().replace(/\s+/g, " ");
+  if (country === "CA") {
+    const compact = code.replace(/ /g, "");
+    return compact.length === 6
+      ? `${compact.slice(0, 3)} ${compact.slice(3)}`
+      : code;
+  }
+  return code;
+}
+
+// Expects a normalized code
+export function isValidPostalCode(country: string, postalCode: string) {
+  const format = POSTAL_CODE_FORMATS[country];
+  return (format?.pattern ?? ANY_POSTAL_CODE).test(postalCode);
+}
+
+export function postalCodeExample(country: string) {
+  return POSTAL_CODE_FORMATS[country]?.example ?? null;
+}
+
+export type AddressLines = {
+  contactName: string | null;
+  company: string | null;
+  line1: string | null;
+  line2: string | null;
+  city: string | null;
+  region: string | null;
+  postalCode: string | null;
+  country: string | null;
+};
+
+// Mailing-label lines, e.g. ["Jane Smith", "Acme Inc.", "123 Main St",
+// "Montreal QC  H2X 1Y4", "CA"]
+export function formatAddressLines(address: AddressLines) {
+  const cityLine = [
+    [address.city, address.region].filter(Boolean).join(" "),
+    address.postalCode,
+  ]
+    .filter(Boolean)
+    .join("  ");
+  return [
+    address.contactName,
+    address.company,
+    address.line1,
+    address.line2,
+    cityLine,
+    address.country,
+  ].filter((line): line is string => !!line);
+}
@@ -0,0 +1,203 @@
+import type { Address, Prisma } from "@prisma/client";
+import type { z } from "zod";
+import type { addressSchema } from "@/lib/validations";
+import { getShippingLocation, type ShippingLocation } from "@/lib/shipping";
+
+export type AddressInput = z.infer<typeof addressSchema>;
+
+/**
+ * Create or update an address in a buyer's address book.
+ * A buyer has one default shipping and one default billing address: their
+ * first address becomes both, and a default moves by making another address
+ * the default.
+ *
+ * Throws ADDRESS_NOT_FOUND
+ */
+export async function saveAddress(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  data: AddressInput,
+  addressId?: string
+) {
+  const existing = addressId
+    ? await tx.address.findFirst({ where: { id: addressId, userId } })
+    : null;
+  if (addressId && !existing) throw new Error("ADDRESS_NOT_FOUND");
+
+  const otherAddresses = await tx.address.count({
+    where: { userId, ...(addressId && { id: { not: addressId } }) },
+  });
+  const isFirst = otherAddresses === 0;
+  const isDefaultShipping =
+    isFirst || !!existing?.isDefaultShipping || !!data.isDefaultShipping;
+  const isDefaultBilling =
+    isFirst || !!existing?.isDefaultBilling || !!data.isDefaultBilling;
+
+  if (isDefaultShipping) {
+    await tx.address.updateMany({
+      where: { userId, isDefaultShipping: true },
+      data: { isDefaultShipping: false },
+    });
+  }
+  if (isDefaultBilling) {
+    await tx.address.updateMany({
+      where: { userId, isDefaultBilling: true },
+      data: { isDefaultBilling: false },
+    });
+  }
+
+  const fields = { ...data, isDefaultShipping, isDefaultBilling };
+  return existing
+    ? tx.address.update({ where: { id: existing.id }, data: fields })
+    : tx.address.create({ data: { ...fields, userId } });
+}
+
+/**
+ * Remove an address from a buyer's address book. When it was a default, the
+ * most recently added remaining address takes over. Orders keep their copy.
+ *
+ * Throws ADDRESS_NOT_FOUND
+ */
+export async function deleteAddress(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  addressId: string
+) {
+  const address = await tx.address.findFirst({
+    where: { id: addressId, userId },
+  });
+  if (!address) throw new Error("ADDRESS_NOT_FOUND");
+
+  await tx.address.delete({ where: { id: address.id } });
+
+  if (address.isDefaultShipping || address.isDefaultBilling) {
+    const next = await tx.address.findFirst({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+    });
+    if (next) {
+      await tx.address.update({
+        where: { id: next.id },
+        data: {
+          ...(address.isDefaultShipping && { isDefaultShipping: true }),
+          ...(address.isDefaultBilling && { isDefaultBilling: true }),
+        },
+      });
+    }
+  }
+}
+
+/**
+ * The addresses an order ships and bills to: the given address book entries,
+ * or the buyer's defaults (billing falls back to the shipping address).
+ * `location` is where the order ships for tax and shipping rates; buyers
+ * without a shipping address use their profile location.
+ *
+ * Throws ADDRESS_NOT_FOUND
+ */
+export async function getOrderAddresses(
+  db: Prisma.TransactionClient,
+  userId: string,
+  ids: { shippingAddressId?: string; billingAddressId?: string } = {}
+): Promise<{
+  shipping: Address | null;
+  billing: Address | null;
+  location: ShippingLocation;
+}> {
+  const [user, addresses] = await Promise.all([
+    db.user.findUnique({
+      where: { id: userId },
+      select: { country: true, region: true, postalCode: true },
+    }),
+    db.address.findMany({ where: { userId } }),
+  ]);
+
+  const pick = (id: string | undefined, isDefault: (a: Address) => boolean) => {
+    if (!id) return addresses.find(isDefault) ?? null;
+    const address = addresses.find((a) => a.id === id);
+    if (!address) throw new Error("ADDRESS_NOT_FOUND");
+    return address;
+  };
+  const shipping = pick(ids.shippingAddressId, (a) => a.isDefaultShipping);
+  const billing =
+    pick(ids.billingAddressId, (a) => a.isDefaultBilling) ?? shipping;
+
+  const location = shipping
+    ? {
+        country: shipping.country,
+        region: shipping.region,
+        postalCode: shipping.postalCode,
+      }
+    : getShippingLocation(
+        user ?? { country: null, region: null, postalCode: null }
+      );
+
+  return { shipping, billing, location };
+}
+
+// Order columns holding the copy of its addresses (see getOrderAddresses)
+export function toOrderAddressFields(addresses: {
+  shipping: Address | null;
+  billing: Address | null;
+  location: ShippingLocation;
+}) {
+  const { shipping, billing, location } = addresses;
+  return {
+    shipToName: shipping?.contactName ?? null,
+    shipToCompany: shipping?.company ?? null,
+    shipToLine1: shipping?.line1 ?? null,
+    shipToLine2: shipping?.line2 ?? null,
+    shipToCity: shipping?.city ?? null,
+    shipToRegion: location.region,
+    shipToPostalCode: shipping?.postalCode ?? null,
+    shipToCountry: location.country,
+    shipToPhone: shipping?.phone ?? null,
+    billToName: billing?.contactName ?? null,
+    billToCompany: billing?.company ?? null,
+    billToLine1: billing?.line1 ?? null,
+    billToLine2: billing?.line2 ?? null,
+    billToCity: billing?.city ?? null,
+    billToRegion: billing?.region ?? null,
+    billToPostalCode: billing?.postalCode ?? null,
+    billToCountry: billing?.country ?? null,
+    billToPhone: billing?.phone ?? null,
+  };
+}
+
+type OrderAddressColumns = {
+  [K in keyof ReturnType<typeof toOrderAddressFields>]: string | null;
+};
+
+/**
+ * An order's copy of its ship-to and bill-to addresses, for display.
+ * null when the order has none (pickup, or placed before the address book).
+ */
+export function getOrderAddressSnapshot(order: OrderAddressColumns) {
+  const shipTo = order.shipToLine1
+    ? {
+        contactName: order.shipToName,
+        company: order.shipToCompany,
+        line1: order.shipToLine1,
+        line2: order.shipToLine2,
+        city: order.shipToCity,
+        region: order.shipToRegion,
+        postalCode: order.shipToPostalCode,
+        country: order.shipToCountry,
+        phone: order.shipToPhone,
+      }
+    : null;
+  const billTo = order.billToLine1
+    ? {
+        contactName: order.billToName,
+        company: order.billToCompany,
+        line1: order.billToLine1,
+        line2: order.billToLine2,
+        city: order.billToCity,
+        region: order.billToRegion,
+        postalCode: order.billToPostalCode,
+        country: order.billToCountry,
+        phone: order.billToPhone,
+      }
+    : null;
+  return { shipTo, billTo };
+}
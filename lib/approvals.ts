@@ -0,0 +1,82 @@
+import { Prisma } from "@prisma/client";
+import { transitionOrderStatus } from "@/lib/order-status";
+
+export type ApprovalDecision = "APPROVE" | "REJECT";
+
+// How long an order waits for approval, holding its stock, before it is
+// cancelled (see cancelExpiredOrders)
+export function getApprovalTtlHours() {
+  const hours = parseInt(process.env.APPROVAL_TTL_HOURS || "", 10);
+  return hours > 0 ? hours : 72;
+}
+
+// Company owners approve orders placed over a spending limit,
+// but never their own
+export function canApprove(
+  order: { buyerId: string; companyId: string | null },
+  approver: { id: string; ownedCompanyIds: string[] }
+) {
+  return (
+    !!order.companyId &&
+    order.buyerId !== approver.id &&
+    approver.ownedCompanyIds.includes(order.companyId)
+  );
+}
+
+/**
+ * Whether anyone can approve a member's orders: an owner of the company other
+ * than them. Orders of an owner who is the only one skip approval (see
+ * placeOrder).
+ */
+export async function hasApprover(
+  db: Prisma.TransactionClient,
+  companyId: string,
+  buyerId: string
+) {
+  const owners = await db.companyMember.count({
+    where: { companyId, role: "OWNER", userId: { not: buyerId } },
+  });
+  return owners > 0;
+}
+
+/**
+ * Approve (-> CREATED, ready for checkout) or reject (-> CANCELLED, stock
+ * restored) an order waiting for approval. The comment is kept in the
+ * order's status history.
+ *
+ * Throws ORDER_NOT_FOUND, NOT_PENDING_APPROVAL or NOT_APPROVER
+ */
+export async function decideApproval(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  approverId: string,
+  decision: ApprovalDecision,
+  comment?: string
+) {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    select: { id: true, status: true, buyerId: true, companyId: true },
+  });
+  if (!order) throw new Error("ORDER_NOT_FOUND");
+  if (order.status !== "PENDING_APPROVAL") {
+    throw new Error("NOT_PENDING_APPROVAL");
+  }
+
+  const owned = await tx.companyMember.findMany({
+    where: { userId: approverId, role: "OWNER" },
+    select: { companyId: true },
+  });
+  const approver = {
+    id: approverId,
+    ownedCompanyIds: owned.map((m) => m.companyId),
+  };
+  if (!canApprove(order, approver)) throw new Error("NOT_APPROVER");
+
+  const label = decision === "APPROVE" ? "Approved" : "Rejected";
+  return transitionOrderStatus(
+    tx,
+    orderId,
+    decision === "APPROVE" ? "CREATED" : "CANCELLED",
+    { actorId: approverId, note: comment ? `${label}: ${comment}` : label }
+  );
+}
@@ -1,5 +1,6 @@
 import { getAuth } from "@clerk/nextjs/server";
 import { NextRequest } from "next/server";
+import { CompanyRole } from "@prisma/client";
 import prisma from "@/lib/prisma";
 
 // get clerk user id from request
@@ -34,3 +35,53 @@ export async function requireAdmin(req: Request) {
 
   return user;
 }
+
+// require a supplier portal user from request: a SUPPLIER user linked to a
+// supplier
+export async function requireSupplier(req: Request) {
+  const clerkId = await getClerkUserId(req);
+  if (!clerkId) throw new Error("UNAUTHORIZED");
+
+  const user = await prisma.user.findUnique({ where: { clerkId } });
+  if (!user || user.role !== "SUPPLIER" || !user.supplierId) {
+    throw new Error("UNAUTHORIZED");
+  }
+
+  return { ...user, supplierId: user.supplierId };
+}
+
+export type ActiveCompany = {
+  id: string;
+  name: string;
+  role: CompanyRole;
+};
+
+// resolve the company a user is acting for on this request:
+// "x-company-id" header if the user is a member, else the user's saved active
+// company, else their oldest membership; null for users without a company
+export async function getActiveCompany(
+  req: Request,
+  user: { id: string; activeCompanyId: string | null }
+): Promise<ActiveCompany | null> {
+  const memberships = await prisma.companyMember.findMany({
+    where: { userId: user.id },
+    include: { company: { select: { id: true, name: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+  if (memberships.length === 0) return null;
+
+  const requestedId = req.headers.get("x-company-id") ?? user.activeCompanyId;
+  const membership =
+    memberships.find((m) => m.companyId === requestedId) ?? memberships[0];
+
+  return {
+    id: membership.company.id,
+    name: membership.company.name,
+    role: membership.role,
+  };
+}
+
+// viewers can read company data but not buy or edit
+export function canPurchase(company: ActiveCompany | null) {
+  return !company || company.role !== "VIEWER";
+}
@@ -0,0 +1,88 @@
+import { Prisma } from "@prisma/client";
+import type { ActiveCompany } from "@/lib/auth";
+
+// Orders / saved lists the user can see: their own, plus their company's
+export function ownedByScope(
+  userId: string,
+  company: ActiveCompany | null
+): { OR: { buyerId?: string; companyId?: string }[] } {
+  return {
+    OR: [{ buyerId: userId }, ...(company ? [{ companyId: company.id }] : [])],
+  };
+}
+
+export function isOwnedBy(
+  record: { buyerId: string; companyId: string | null },
+  userId: string,
+  company: ActiveCompany | null
+) {
+  return (
+    record.buyerId === userId ||
+    (!!company && !!record.companyId && record.companyId === company.id)
+  );
+}
+
+// The company's shared cart, or the user's personal cart
+export function cartScope(
+  userId: string,
+  company: ActiveCompany | null
+): Prisma.CartWhereInput {
+  return company
+    ? { companyId: company.id }
+    : { buyerId: userId, companyId: null };
+}
+
+export async function findOrCreateCart(
+  db: Prisma.TransactionClient,
+  userId: string,
+  company: ActiveCompany | null
+) {
+  const cart = await db.cart.findFirst({ where: cartScope(userId, company) });
+  if (cart) return cart;
+
+  return db.cart.create({
+    data: { buyerId: userId, companyId: company?.id ?? null },
+  });
+}
+
+// Owners of a record can always edit it; company members need purchasing rights
+export function canEdit(
+  record: { buyerId: string; companyId: string | null },
+  userId: string,
+  company: ActiveCompany | null
+) {
+  return (
+    record.buyerId === userId ||
+    (isOwnedBy(record, userId, company) && company?.role !== "VIEWER")
+  );
+}
+
+export async function getMembership(
+  db: Prisma.TransactionClient,
+  companyId: string,
+  userId: string
+) {
+  return db.companyMember.findUnique({
+    where: { companyId_userId: { companyId, userId } },
+  });
+}
+
+// Per-order spending limit for a member: their own limit, else the company
+// default for purchasers; owners are unlimited unless given a limit
+export async function getSpendingLimitCents(
+  db: Prisma.TransactionClient,
+  companyId: string,
+  userId: string
+): Promise<number | null> {
+  const membership = await db.companyMember.findUnique({
+    where: { companyId_userId: { companyId, userId } },
+    include: { company: { select: { purchaserSpendingLimitCents: true } } },
+  });
+  if (!membership) return null;
+  if (membership.spendingLimitCents !== null) {
+    return membership.spendingLimitCents;
+  }
+  return membership.role === "PURCHASER"
+    ? membership.company.purchaserSpendingLimitCents
+    : null;
+}
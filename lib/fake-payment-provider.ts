@@ -0,0 +1,331 @@
+import Stripe from "stripe";
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type {
+  PaymentProvider,
+  ProviderCheckoutSession,
+} from "@/lib/payment-providers";
+
+// In-process payment provider for local runs and tests (PAYMENT_PROVIDER=
+// "fake", see lib/payment-providers.ts). Checkout sessions live in memory
+// and their checkout page (/checkout/fake/[sessionId]) lets the buyer pay,
+// have the card declined, or pay by bank transfer, which settles (or fails)
+// later. Each outcome produces the webhook events Stripe would send, in
+// Stripe's format, for the webhook handler to apply (see
+// simulateFakeCheckout); nothing leaves the process.
+
+type FakeSession = {
+  id: string;
+  orderId: string;
+  buyerId: string;
+  amountCents: number;
+  successUrl: string;
+  cancelUrl: string;
+  url: string;
+  expiresAt: Date | null;
+  status: "open" | "complete" | "expired";
+  paymentStatus: "paid" | "unpaid";
+  paymentIntentId: string | null; // from the buyer's first payment attempt
+  // bank transfers complete the session unpaid until they settle
+  settlement: "PENDING" | "SETTLED" | "FAILED" | null;
+};
+
+type FakeRefund = {
+  id: string;
+  paymentIntentId: string;
+  amountCents: number;
+  reason: string | null;
+  idempotencyKey: string;
+};
+
+// What the buyer does on the fake checkout page, or the bank afterwards
+export type FakeCheckoutOutcome =
+  | "PAY" // card payment succeeds
+  | "DECLINE" // card declined, the session stays open for another try
+  | "PAY_LATER" // bank transfer, completes the session unpaid
+  | "SETTLE" // the bank transfer arrives
+  | "FAIL_SETTLEMENT" // the bank transfer fails
+  | "EXPIRE"; // the session expires unpaid
+
+type FakePaymentStore = {
+  sessions: Map<string, FakeSession>;
+  refunds: FakeRefund[];
+};
+
+// Kept on globalThis so that every route shares it (like lib/prisma.ts)
+declare global {
+  var __fakePayments: FakePaymentStore | undefined;
+}
+
+const store: FakePaymentStore = (global.__fakePayments ??= {
+  sessions: new Map(),
+  refunds: [],
+});
+
+const webhookSecret = process.env.FAKE_WEBHOOK_SECRET || "whsec_fake";
+
+function toCheckoutSession(session: FakeSession): ProviderCheckoutSession {
+  return {
+    id: session.id,
+    url: session.status === "open" ? session.url : null,
+    paymentStatus: session.paymentStatus,
+    paymentIntentId: session.paymentIntentId,
+    orderId: session.orderId,
+  };
+}
+
+function findSession(id: string) {
+  const session = store.sessions.get(id);
+  if (!session) throw new Error("FAKE_SESSION_NOT_FOUND");
+  return session;
+}
+
+// Signature of a fake webhook request body, sent as the stripe-signature
+// header (e.g. to post simulated events to /api/webhooks/stripe)
+export function signFakeWebhook(body: string) {
+  return createHmac("sha256", webhookSecret).update(body).digest("hex");
+}
+
+export const fakePaymentProvider: PaymentProvider = {
+  name: "fake",
+
+  async createCheckoutSession(input) {
+    const id = `cs_fake_${randomUUID()}`;
+    const session: FakeSession = {
+      id,
+      orderId: input.orderId,
+      buyerId: input.buyerId,
+      amountCents: input.amountCents,
+      successUrl: input.successUrl.replace("{CHECKOUT_SESSION_ID}", id),
+      cancelUrl: input.cancelUrl,
+      url: `${new URL(input.successUrl).origin}/checkout/fake/${id}`,
+      expiresAt: input.expiresAt,
+      status: "open",
+      paymentStatus: "unpaid",
+      paymentIntentId: null,
+      settlement: null,
+    };
+    store.sessions.set(id, session);
+    return toCheckoutSession(session);
+  },
+
+  async retrieveCheckoutSession(id) {
+    return toCheckoutSession(findSession(id));
+  },
+
+  async findCheckoutSessionByPaymentIntent(paymentIntentId) {
+    for (const session of store.sessions.values()) {
+      if (session.paymentIntentId === paymentIntentId) {
+        return toCheckoutSession(session);
+      }
+    }
+    return null;
+  },
+
+  async createRefund(paymentIntentId, amountCents, options) {
+    const existing = store.refunds.find(
+      (refund) => refund.idempotencyKey === options.idempotencyKey
+    );
+    if (existing) return existing.id;
+
+    const session = Array.from(store.sessions.values()).find(
+      (session) =>
+        session.paymentIntentId === paymentIntentId &&
+        session.paymentStatus === "paid"
+    );
+    if (!session) throw new Error("FAKE_PAYMENT_NOT_FOUND");
+    const refundedCents = store.refunds
+      .filter((refund) => refund.paymentIntentId === paymentIntentId)
+      .reduce((sum, refund) => sum + refund.amountCents, 0);
+    if (refundedCents + amountCents > session.amountCents) {
+      throw new Error("FAKE_REFUND_EXCEEDS_PAYMENT");
+    }
+
+    const refund: FakeRefund = {
+      id: `re_fake_${randomUUID()}`,
+      paymentIntentId,
+      amountCents,
+      reason: options.metadata.reason ?? null,
+      idempotencyKey: options.idempotencyKey,
+    };
+    store.refunds.push(refund);
+    return refund.id;
+  },
+
+  async listRefunds(paymentIntentId) {
+    return store.refunds
+      .filter((refund) => refund.paymentIntentId === paymentIntentId)
+      .map((refund) => ({
+        id: refund.id,
+        amountCents: refund.amountCents,
+        status: "succeeded",
+        reason: refund.reason,
+      }));
+  },
+
+  constructWebhookEvent(body, signature) {
+    const expected = Buffer.from(signFakeWebhook(body));
+    const received = Buffer.from(signature);
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      throw new Error("Invalid fake webhook signature");
+    }
+    return JSON.parse(body) as Stripe.Event;
+  },
+};
+
+// A webhook event as Stripe sends it, with the fields the webhook handler
+// reads
+function toEvent(type: string, object: Record<string, unknown>) {
+  return {
+    id: `evt_fake_${randomUUID()}`,
+    object: "event",
+    type,
+    created: Math.floor(Date.now() / 1000),
+    livemode: false,
+    data: { object },
+  } as unknown as Stripe.Event;
+}
+
+function sessionEvent(type: string, session: FakeSession) {
+  return toEvent(type, {
+    id: session.id,
+    object: "checkout.session",
+    status: session.status,
+    payment_status: session.paymentStatus,
+    payment_intent: session.paymentIntentId,
+    amount_total: session.amountCents,
+    metadata: { orderId: session.orderId, buyerId: session.buyerId },
+  });
+}
+
+function paymentIntentEvent(
+  type: string,
+  session: FakeSession,
+  error?: string
+) {
+  const succeeded = type === "payment_intent.succeeded";
+  return toEvent(type, {
+    id: session.paymentIntentId,
+    object: "payment_intent",
+    status: succeeded ? "succeeded" : "requires_payment_method",
+    amount: session.amountCents,
+    amount_received: succeeded ? session.amountCents : 0,
+    metadata: { orderId: session.orderId },
+    last_payment_error: error ? { message: error } : null,
+  });
+}
+
+/**
+ * Apply an outcome to a fake checkout session and return the webhook events
+ * Stripe would send for it, to be delivered to the webhook handler, and
+ * where the buyer goes next (null to stay on the checkout page).
+ *
+ * Throws FAKE_SESSION_NOT_FOUND or FAKE_OUTCOME_NOT_ALLOWED:<outcome>
+ */
+export function simulateFakeCheckout(
+  sessionId: string,
+  outcome: FakeCheckoutOutcome
+) {
+  const session = findSession(sessionId);
+  const notAllowed = new Error(`FAKE_OUTCOME_NOT_ALLOWED:${outcome}`);
+
+  // Payment attempts of a session share its payment intent
+  const startPayment = () => {
+    if (session.status !== "open") throw notAllowed;
+    session.paymentIntentId ??= `pi_fake_${randomUUID()}`;
+  };
+
+  switch (outcome) {
+    case "PAY": {
+      startPayment();
+      session.status = "complete";
+      session.paymentStatus = "paid";
+      return {
+        events: [
+          paymentIntentEvent("payment_intent.succeeded", session),
+          sessionEvent("checkout.session.completed", session),
+        ],
+        redirectUrl: session.successUrl,
+      };
+    }
+
+    case "DECLINE": {
+      startPayment();
+      return {
+        events: [
+          paymentIntentEvent(
+            "payment_intent.payment_failed",
+            session,
+            "Your card was declined."
+          ),
+        ],
+        redirectUrl: null,
+      };
+    }
+
+    case "PAY_LATER": {
+      startPayment();
+      session.status = "complete";
+      session.settlement = "PENDING";
+      return {
+        events: [sessionEvent("checkout.session.completed", session)],
+        redirectUrl: session.successUrl,
+      };
+    }
+
+    case "SETTLE": {
+      if (session.settlement !== "PENDING") throw notAllowed;
+      session.settlement = "SETTLED";
+      session.paymentStatus = "paid";
+      return {
+        events: [
+          paymentIntentEvent("payment_intent.succeeded", session),
+          sessionEvent("checkout.session.async_payment_succeeded", session),
+        ],
+        redirectUrl: null,
+      };
+    }
+
+    case "FAIL_SETTLEMENT": {
+      if (session.settlement !== "PENDING") throw notAllowed;
+      session.settlement = "FAILED";
+      return {
+        events: [
+          paymentIntentEvent(
+            "payment_intent.payment_failed",
+            session,
+            "The bank transfer failed."
+          ),
+          sessionEvent("checkout.session.async_payment_failed", session),
+        ],
+        redirectUrl: null,
+      };
+    }
+
+    case "EXPIRE": {
+      if (session.status !== "open") throw notAllowed;
+      session.status = "expired";
+      return {
+        events: [sessionEvent("checkout.session.expired", session)],
+        redirectUrl: session.cancelUrl,
+      };
+    }
+  }
+}
+
+// A fake checkout session as its checkout page shows it
+export function getFakeCheckoutSession(sessionId: string) {
+  const session = findSession(sessionId);
+  return {
+    id: session.id,
+    orderId: session.orderId,
+    amountCents: session.amountCents,
+    status: session.status,
+    paymentStatus: session.paymentStatus,
+    settlement: session.settlement,
+    expiresAt: session.expiresAt,
+    cancelUrl: session.cancelUrl,
+  };
+}
@@ -0,0 +1,568 @@
+import { InventoryMovementReason, Prisma } from "@prisma/client";
+import type { ShippingLocation } from "@/lib/shipping";
+import {
+  allocateStock,
+  getDefaultWarehouse,
+  rankWarehouses,
+} from "@/lib/warehouses";
+
+// Platform stock held for unpaid orders. Platform stock is held per
+// warehouse, one Inventory row per product and warehouse. Inventory.quantity
+// is the stock on hand and Inventory.reserved the part of it held by ACTIVE
+// reservations: placing an order reserves its lines at the warehouses they
+// are allocated to, paying commits them (they leave on-hand stock) and
+// cancelling releases them. Drop-ship suppliers hold their own stock (one
+// SUPPLIER Inventory row per product and supplier, ownerId the supplier),
+// which orders fall back to once platform stock runs out. Products that
+// allow backorders can be ordered beyond their stock: the missing units are
+// backordered on the order line and allocated as stock is received.
+//
+// Every change to Inventory.quantity or Inventory.reserved goes through this
+// module, which records it in the InventoryMovement ledger.
+
+// What caused a movement: the order or document it belongs to, and the user
+// who made it (null for system changes)
+export type MovementSource = {
+  referenceId?: string | null;
+  actorId?: string | null;
+  note?: string | null;
+};
+
+// Apply a change to an inventory and append it to the ledger
+async function recordMovement(
+  tx: Prisma.TransactionClient,
+  inventoryId: string,
+  reason: InventoryMovementReason,
+  { delta = 0, reservedDelta = 0 }: { delta?: number; reservedDelta?: number },
+  source: MovementSource = {}
+) {
+  const inventory = await tx.inventory.update({
+    where: { id: inventoryId },
+    data: {
+      quantity: { increment: delta },
+      reserved: { increment: reservedDelta },
+    },
+  });
+  await tx.inventoryMovement.create({
+    data: {
+      inventoryId,
+      productId: inventory.productId,
+      reason,
+      delta,
+      reservedDelta,
+      quantityAfter: inventory.quantity,
+      reservedAfter: inventory.reserved,
+      referenceId: source.referenceId ?? null,
+      actorId: source.actorId ?? null,
+      note: source.note ?? null,
+    },
+  });
+  return inventory;
+}
+
+// A product's stock at a warehouse (the default warehouse when none is given)
+export type StockLocation = { productId: string; warehouseId?: string };
+
+// Throws WAREHOUSE_NOT_FOUND
+async function getPlatformInventory(
+  tx: Prisma.TransactionClient,
+  { productId, warehouseId }: StockLocation
+) {
+  const warehouse = warehouseId
+    ? await tx.warehouse.findUnique({ where: { id: warehouseId } })
+    : await getDefaultWarehouse(tx);
+  if (!warehouse) throw new Error("WAREHOUSE_NOT_FOUND");
+
+  return tx.inventory.upsert({
+    where: {
+      productId_warehouseId: { productId, warehouseId: warehouse.id },
+    },
+    update: {},
+    create: { productId, ownerType: "PLATFORM", warehouseId: warehouse.id },
+  });
+}
+
+// How long a CREATED order holds its stock before it must be paid
+export function getReservationTtlMinutes() {
+  const minutes = parseInt(process.env.RESERVATION_TTL_MINUTES || "", 10);
+  return minutes > 0 ? minutes : 60;
+}
+
+export function getReservationExpiry(from = new Date()) {
+  return new Date(from.getTime() + getReservationTtlMinutes() * 60_000);
+}
+
+// What buyers can still order
+export function availableStock(
+  inventory: { quantity: number; reserved: number } | null | undefined
+) {
+  return inventory ? Math.max(inventory.quantity - inventory.reserved, 0) : 0;
+}
+
+// What buyers can order from active drop-ship suppliers on top of platform
+// stock, per product id
+export async function getSupplierStock(
+  db: Prisma.TransactionClient,
+  productIds: string[]
+) {
+  const inventories = await db.inventory.findMany({
+    where: {
+      productId: { in: productIds },
+      ownerType: "SUPPLIER",
+      supplier: { isActive: true },
+    },
+    select: { productId: true, quantity: true, reserved: true },
+  });
+  const stock = new Map<string, number>();
+  for (const inventory of inventories) {
+    stock.set(
+      inventory.productId,
+      (stock.get(inventory.productId) ?? 0) + availableStock(inventory)
+    );
+  }
+  return stock;
+}
+
+// Note of the RECEIPT a new product's initial stock is recorded with: a
+// product whose only history it is can still be deleted
+export const INITIAL_STOCK_NOTE = "Initial stock";
+
+// Platform inventory rows with their warehouse, for summarizeStock
+export const platformStockSelect = {
+  where: { ownerType: "PLATFORM" },
+  select: {
+    quantity: true,
+    reserved: true,
+    threshold: true,
+    warehouse: {
+      select: { id: true, code: true, name: true, isActive: true },
+    },
+  },
+  orderBy: { warehouse: { priority: "asc" } },
+} satisfies Prisma.Product$inventoriesArgs;
+
+/**
+ * A product's platform stock across warehouses, with a per-warehouse
+ * breakdown. Stock at inactive warehouses is on hand but cannot be ordered.
+ */
+export function summarizeStock(
+  inventories: {
+    quantity: number;
+    reserved: number;
+    threshold?: number | null;
+    warehouse: {
+      id: string;
+      code: string;
+      name: string;
+      isActive: boolean;
+    } | null;
+  }[]
+) {
+  const locations = inventories
+    .filter((inventory) => inventory.warehouse)
+    .map((inventory) => ({
+      warehouseId: inventory.warehouse!.id,
+      code: inventory.warehouse!.code,
+      name: inventory.warehouse!.name,
+      isActive: inventory.warehouse!.isActive,
+      quantity: inventory.quantity,
+      reserved: inventory.reserved,
+      available: inventory.warehouse!.isActive ? availableStock(inventory) : 0,
+      threshold: inventory.threshold ?? null,
+    }));
+
+  return {
+    currentStock: locations.reduce((sum, l) => sum + l.quantity, 0),
+    reservedStock: locations.reduce((sum, l) => sum + l.reserved, 0),
+    availableStock: locations.reduce((sum, l) => sum + l.available, 0),
+    locations,
+  };
+}
+
+/**
+ * Put stock received for a product on hand at a warehouse (RECEIPT), e.g. a
+ * new product's initial stock or a purchase order delivery, then allocate it
+ * to the product's backorders (see allocateBackorders).
+ *
+ * Throws WAREHOUSE_NOT_FOUND
+ */
+export async function receiveStock(
+  tx: Prisma.TransactionClient,
+  location: StockLocation,
+  quantity: number,
+  source: MovementSource = {}
+) {
+  const inventory = await getPlatformInventory(tx, location);
+  if (quantity === 0) return inventory;
+  await recordMovement(
+    tx,
+    inventory.id,
+    "RECEIPT",
+    { delta: quantity },
+    source
+  );
+  await allocateBackorders(tx, inventory.id, { actorId: source.actorId });
+  return tx.inventory.findUniqueOrThrow({ where: { id: inventory.id } });
+}
+
+/**
+ * Put returned goods back on hand at a warehouse (RETURN), then allocate them
+ * to the product's backorders (see allocateBackorders).
+ *
+ * Throws WAREHOUSE_NOT_FOUND
+ */
+export async function returnStock(
+  tx: Prisma.TransactionClient,
+  location: StockLocation,
+  quantity: number,
+  source: MovementSource = {}
+) {
+  const inventory = await getPlatformInventory(tx, location);
+  if (quantity === 0) return inventory;
+  await recordMovement(tx, inventory.id, "RETURN", { delta: quantity }, source);
+  await allocateBackorders(tx, inventory.id, { actorId: source.actorId });
+  return tx.inventory.findUniqueOrThrow({ where: { id: inventory.id } });
+}
+
+/**
+ * Allocate what is available of a product at an active warehouse to its
+ * backordered order lines, oldest order first. Unpaid orders reserve the
+ * units (RESERVATION; orders that can be paid get a new payment window),
+ * paid orders take them off hand at once (SALE). Cancelled orders are
+ * skipped. Returns the number of units allocated.
+ */
+export async function allocateBackorders(
+  tx: Prisma.TransactionClient,
+  inventoryId: string,
+  source: MovementSource = {}
+) {
+  const inventory = await tx.inventory.findUniqueOrThrow({
+    where: { id: inventoryId },
+    include: { warehouse: { select: { isActive: true } } },
+  });
+  if (inventory.ownerType !== "PLATFORM" || !inventory.warehouse?.isActive) {
+    return 0;
+  }
+
+  const lines = await tx.orderLine.findMany({
+    where: {
+      productId: inventory.productId,
+      backorderedQuantity: { gt: 0 },
+      order: { status: { in: ["PENDING_APPROVAL", "CREATED", "PAID"] } },
+    },
+    include: { order: { select: { status: true } } },
+    orderBy: [{ order: { createdAt: "asc" } }, { id: "asc" }],
+  });
+
+  let available = availableStock(inventory);
+  let allocated = 0;
+  for (const line of lines) {
+    const quantity = Math.min(line.backorderedQuantity, available);
+    if (quantity <= 0) break;
+
+    // Guard against the line being allocated concurrently
+    const { count } = await tx.orderLine.updateMany({
+      where: { id: line.id, backorderedQuantity: { gte: quantity } },
+      data: { backorderedQuantity: { decrement: quantity } },
+    });
+    if (count === 0) continue;
+
+    const paid = line.order.status === "PAID";
+    await recordMovement(
+      tx,
+      inventoryId,
+      paid ? "SALE" : "RESERVATION",
+      paid ? { delta: -quantity } : { reservedDelta: quantity },
+      { ...source, referenceId: line.orderId, note: "Backorder allocated" }
+    );
+    await tx.stockReservation.create({
+      data: {
+        orderId: line.orderId,
+        orderLineId: line.id,
+        inventoryId,
+        quantity,
+        status: paid ? "COMMITTED" : "ACTIVE",
+        expiresAt:
+          line.order.status === "CREATED" ? getReservationExpiry() : null,
+      },
+    });
+    available -= quantity;
+    allocated += quantity;
+  }
+  return allocated;
+}
+
+/**
+ * Set a product's on-hand stock at a warehouse after a count (ADJUSTMENT).
+ * Records nothing when the stock is unchanged.
+ *
+ * Throws WAREHOUSE_NOT_FOUND or STOCK_BELOW_RESERVED:<reserved>
+ */
+export async function adjustStock(
+  tx: Prisma.TransactionClient,
+  location: StockLocation,
+  quantity: number,
+  source: MovementSource = {}
+) {
+  const inventory = await getPlatformInventory(tx, location);
+  // Stock held by unpaid orders must stay on hand
+  if (quantity < inventory.reserved) {
+    throw new Error(`STOCK_BELOW_RESERVED:${inventory.reserved}`);
+  }
+  if (quantity === inventory.quantity) return inventory;
+  return recordMovement(
+    tx,
+    inventory.id,
+    "ADJUSTMENT",
+    { delta: quantity - inventory.quantity },
+    source
+  );
+}
+
+/**
+ * Set the stock a drop-ship supplier has of a product (ADJUSTMENT), adding
+ * the product to the supplier's catalog if needed. Records nothing when the
+ * stock is unchanged.
+ *
+ * Throws STOCK_BELOW_RESERVED:<reserved>
+ */
+export async function setSupplierStock(
+  tx: Prisma.TransactionClient,
+  { productId, supplierId }: { productId: string; supplierId: string },
+  quantity: number,
+  source: MovementSource = {}
+) {
+  const inventory = await tx.inventory.upsert({
+    where: { productId_ownerId: { productId, ownerId: supplierId } },
+    update: {},
+    create: { productId, ownerType: "SUPPLIER", ownerId: supplierId },
+  });
+  if (quantity < inventory.reserved) {
+    throw new Error(`STOCK_BELOW_RESERVED:${inventory.reserved}`);
+  }
+  if (quantity === inventory.quantity) return inventory;
+  return recordMovement(
+    tx,
+    inventory.id,
+    "ADJUSTMENT",
+    { delta: quantity - inventory.quantity },
+    source
+  );
+}
+
+/**
+ * Reserve stock for an order's lines (RESERVATION), at the warehouses
+ * nearest to where the order ships, then at active drop-ship suppliers (by
+ * name) once platform stock runs out (see allocateStock). Lines of products
+ * that allow backorders take whatever stock there is. Returns, per line,
+ * the reservations to create with the order (see placeOrder): one per
+ * warehouse or supplier the line is filled from.
+ *
+ * Throws STOCK_INSUFFICIENT:<productName>
+ */
+export async function reserveStock(
+  tx: Prisma.TransactionClient,
+  lines: { productId: string; productName: string; quantity: number }[],
+  location: ShippingLocation,
+  source: MovementSource = {}
+) {
+  const warehouses = rankWarehouses(
+    await tx.warehouse.findMany({ where: { isActive: true } }),
+    location
+  );
+  const [inventories, suppliers, products] = await Promise.all([
+    tx.inventory.findMany({
+      where: {
+        productId: { in: lines.map((line) => line.productId) },
+        OR: [
+          {
+            ownerType: "PLATFORM",
+            warehouseId: { in: warehouses.map((w) => w.id) },
+          },
+          { ownerType: "SUPPLIER", supplier: { isActive: true } },
+        ],
+      },
+    }),
+    tx.supplier.findMany({
+      where: { isActive: true },
+      orderBy: { name: "asc" },
+      select: { id: true },
+    }),
+    tx.product.findMany({
+      where: { id: { in: lines.map((line) => line.productId) } },
+      select: { id: true, allowBackorder: true },
+    }),
+  ]);
+
+  const backorderable = new Set(
+    products.filter((p) => p.allowBackorder).map((p) => p.id)
+  );
+  const allocations = allocateStock(
+    lines.map((line) => ({
+      ...line,
+      allowBackorder: backorderable.has(line.productId),
+    })),
+    inventories.map((inventory) => ({
+      inventoryId: inventory.id,
+      productId: inventory.productId,
+      locationId:
+        inventory.ownerType === "SUPPLIER"
+          ? inventory.ownerId!
+          : inventory.warehouseId!,
+      available: availableStock(inventory),
+    })),
+    warehouses.map((w) => w.id),
+    suppliers.map((s) => s.id)
+  );
+
+  for (const allocation of allocations.flat()) {
+    await recordMovement(
+      tx,
+      allocation.inventoryId,
+      "RESERVATION",
+      { reservedDelta: allocation.quantity },
+      source
+    );
+  }
+
+  return allocations.map((lineAllocations) =>
+    lineAllocations.map(({ inventoryId, quantity }) => ({
+      inventoryId,
+      quantity,
+    }))
+  );
+}
+
+// Start the payment window of reservations held without one (orders that
+// were waiting for approval)
+export async function startReservationClock(
+  tx: Prisma.TransactionClient,
+  orderId: string
+) {
+  await tx.stockReservation.updateMany({
+    where: { orderId, status: "ACTIVE", expiresAt: null },
+    data: { expiresAt: getReservationExpiry() },
+  });
+}
+
+// The order was paid: its reserved stock leaves on-hand inventory (SALE)
+export async function commitReservations(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  actorId?: string | null
+) {
+  const reservations = await tx.stockReservation.findMany({
+    where: { orderId, status: "ACTIVE" },
+  });
+  for (const reservation of reservations) {
+    await recordMovement(
+      tx,
+      reservation.inventoryId,
+      "SALE",
+      { delta: -reservation.quantity, reservedDelta: -reservation.quantity },
+      { referenceId: orderId, actorId }
+    );
+  }
+  await tx.stockReservation.updateMany({
+    where: { orderId, status: "ACTIVE" },
+    data: { status: "COMMITTED" },
+  });
+}
+
+// The order was cancelled: its reserved stock can be ordered again (CANCEL)
+export async function releaseReservations(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  actorId?: string | null
+) {
+  const reservations = await tx.stockReservation.findMany({
+    where: { orderId, status: "ACTIVE" },
+  });
+  for (const reservation of reservations) {
+    await recordMovement(
+      tx,
+      reservation.inventoryId,
+      "CANCEL",
+      { reservedDelta: -reservation.quantity },
+      { referenceId: orderId, actorId }
+    );
+  }
+  await tx.stockReservation.updateMany({
+    where: { orderId, status: "ACTIVE" },
+    data: { status: "RELEASED" },
+  });
+}
+
+/**
+ * Units of a paid order line refunded before they shipped go back on hand
+ * where they were taken from (REFUND), newest reservation first, only at
+ * inventories matching `where` (e.g. a supplier's stock). The line's
+ * committed reservations shrink by the units restocked, which are then
+ * allocated to backorders (see allocateBackorders). Returns the number of
+ * units restocked.
+ */
+export async function restockRefundedUnits(
+  tx: Prisma.TransactionClient,
+  orderLineId: string,
+  quantity: number,
+  where: Prisma.InventoryWhereInput,
+  source: MovementSource = {}
+) {
+  const reservations = await tx.stockReservation.findMany({
+    where: { orderLineId, status: "COMMITTED", inventory: where },
+    orderBy: { createdAt: "desc" },
+  });
+
+  let remaining = quantity;
+  for (const reservation of reservations) {
+    const units = Math.min(reservation.quantity, remaining);
+    if (units <= 0) break;
+
+    await recordMovement(
+      tx,
+      reservation.inventoryId,
+      "REFUND",
+      { delta: units },
+      source
+    );
+    await tx.stockReservation.update({
+      where: { id: reservation.id },
+      data:
+        units === reservation.quantity
+          ? { status: "RELEASED" }
+          : { quantity: { decrement: units } },
+    });
+    await allocateBackorders(tx, reservation.inventoryId, {
+      actorId: source.actorId,
+    });
+    remaining -= units;
+  }
+  return quantity - remaining;
+}
+
+// Keep an order's stock held until at least `until` (e.g. while a checkout
+// session for it can still be paid)
+export async function extendReservations(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  until: Date
+) {
+  await tx.stockReservation.updateMany({
+    where: { orderId, status: "ACTIVE", expiresAt: { lt: until } },
+    data: { expiresAt: until },
+  });
+}
+
+// When an unpaid order's stock is released unless it is paid (null: no
+// active reservation, or waiting for approval)
+export async function getReservationExpiresAt(
+  db: Prisma.TransactionClient,
+  orderId: string
+) {
+  const reservation = await db.stockReservation.findFirst({
+    where: { orderId, status: "ACTIVE", expiresAt: { not: null } },
+    orderBy: { expiresAt: "asc" },
+    select: { expiresAt: true },
+  });
+  return reservation?.expiresAt ?? null;
+}
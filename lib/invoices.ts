@@ -0,0 +1,241 @@
+import { Prisma } from "@prisma/client";
+import { transitionOrderStatus } from "@/lib/order-status";
+
+// e.g. 42 -> "INV-000042"
+export function formatInvoiceNumber(invoiceNumber: number) {
+  return `INV-${String(invoiceNumber).padStart(6, "0")}`;
+}
+
+/**
+ * Give an order the next invoice number, unless it already has one.
+ * Numbers are sequential without gaps: the counter row stays locked until the
+ * transaction commits, so concurrent callers are serialized.
+ */
+export async function assignInvoiceNumber(
+  tx: Prisma.TransactionClient,
+  orderId: string
+) {
+  // Lock the counter first, then read the order, so two requests for the
+  // same order cannot both take a number
+  await tx.counter.upsert({
+    where: { name: "invoice" },
+    create: { name: "invoice" },
+    update: { value: { increment: 0 } },
+  });
+
+  const order = await tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: { invoiceNumber: true },
+  });
+  if (order.invoiceNumber !== null) return order.invoiceNumber;
+
+  const counter = await tx.counter.update({
+    where: { name: "invoice" },
+    data: { value: { increment: 1 } },
+  });
+  await tx.order.update({
+    where: { id: orderId },
+    data: { invoiceNumber: counter.value },
+  });
+  return counter.value;
+}
+
+// An open invoice past its due date
+export function isOverdue(
+  invoice: { status: string; dueAt: Date | string },
+  now = new Date()
+) {
+  return invoice.status === "OPEN" && new Date(invoice.dueAt) < now;
+}
+
+/**
+ * Net terms and open balance of a company's account.
+ * availableCreditCents is null when the company has no credit limit.
+ */
+export async function getCreditAccount(
+  db: Prisma.TransactionClient,
+  companyId: string
+) {
+  const company = await db.company.findUnique({
+    where: { id: companyId },
+    select: { paymentTermsDays: true, creditLimitCents: true },
+  });
+  if (!company) return null;
+
+  const open = await db.invoice.aggregate({
+    where: { companyId, status: "OPEN" },
+    _sum: { amountCents: true, paidCents: true },
+  });
+  const openBalanceCents =
+    (open._sum.amountCents ?? 0) - (open._sum.paidCents ?? 0);
+
+  return {
+    paymentTermsDays: company.paymentTermsDays,
+    creditLimitCents: company.creditLimitCents,
+    openBalanceCents,
+    availableCreditCents:
+      company.creditLimitCents === null
+        ? null
+        : Math.max(company.creditLimitCents - openBalanceCents, 0),
+  };
+}
+
+/**
+ * Place a CREATED order on its company's account instead of paying by card.
+ * Issues an invoice due after the company's payment terms and releases the
+ * order for fulfillment (-> PAID); the order itself is paid once the invoice is.
+ * Refused while a card payment of the order is pending (an open checkout
+ * session, or a payment settling), which could still be paid.
+ *
+ * Throws ORDER_NOT_FOUND, ORDER_NOT_PAYABLE:<status>, PAYMENT_PENDING,
+ * NO_CREDIT_TERMS or CREDIT_LIMIT_EXCEEDED:<availableCents>
+ */
+export async function chargeOrderToAccount(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  actorId: string
+) {
+  const order = await tx.order.findUnique({ where: { id: orderId } });
+  if (!order) throw new Error("ORDER_NOT_FOUND");
+  if (order.status !== "CREATED") {
+    throw new Error(`ORDER_NOT_PAYABLE:${order.status}`);
+  }
+  const pendingPayments = await tx.payment.count({
+    where: {
+      orderId,
+      status: "PENDING",
+      OR: [
+        { expiresAt: null },
+        { expiresAt: { gt: new Date() } },
+        { paymentIntentId: { not: null } },
+      ],
+    },
+  });
+  if (pendingPayments > 0) throw new Error("PAYMENT_PENDING");
+
+  const account = order.companyId
+    ? await getCreditAccount(tx, order.companyId)
+    : null;
+  if (!order.companyId || !account || account.paymentTermsDays === null) {
+    throw new Error("NO_CREDIT_TERMS");
+  }
+  if (
+    account.availableCreditCents !== null &&
+    order.totalCents > account.availableCreditCents
+  ) {
+    throw new Error(`CREDIT_LIMIT_EXCEEDED:${account.availableCreditCents}`);
+  }
+
+  const dueAt = new Date();
+  dueAt.setDate(dueAt.getDate() + account.paymentTermsDays);
+
+  const invoice = await tx.invoice.create({
+    data: {
+      orderId,
+      companyId: order.companyId,
+      amountCents: order.totalCents,
+      dueAt,
+    },
+  });
+
+  await tx.order.update({
+    where: { id: orderId },
+    data: { paymentMethod: "ON_ACCOUNT", paymentStatus: "INVOICED" },
+  });
+  await assignInvoiceNumber(tx, orderId);
+
+  await transitionOrderStatus(tx, orderId, "PAID", {
+    actorId,
+    note: `Placed on account (Net ${
+      account.paymentTermsDays
+    }), invoice due ${dueAt.toISOString().slice(0, 10)}`,
+  });
+
+  return invoice;
+}
+
+/**
+ * Record a payment received against an open invoice.
+ * When the invoice is paid in full it is closed and its order marked as paid.
+ *
+ * Throws INVOICE_NOT_FOUND, INVOICE_NOT_OPEN or AMOUNT_EXCEEDS_BALANCE:<balanceCents>
+ */
+export async function recordInvoicePayment(
+  tx: Prisma.TransactionClient,
+  invoiceId: string,
+  data: {
+    amountCents: number;
+    method: string;
+    reference?: string;
+    receivedAt?: Date;
+    actorId?: string | null;
+  }
+) {
+  const invoice = await tx.invoice.findUnique({ where: { id: invoiceId } });
+  if (!invoice) throw new Error("INVOICE_NOT_FOUND");
+  if (invoice.status !== "OPEN") throw new Error("INVOICE_NOT_OPEN");
+
+  const balanceCents = invoice.amountCents - invoice.paidCents;
+  if (data.amountCents > balanceCents) {
+    throw new Error(`AMOUNT_EXCEEDS_BALANCE:${balanceCents}`);
+  }
+
+  await tx.invoicePayment.create({
+    data: {
+      invoiceId,
+      amountCents: data.amountCents,
+      method: data.method,
+      reference: data.reference,
+      receivedAt: data.receivedAt,
+      recordedById: data.actorId ?? null,
+    },
+  });
+
+  const paidInFull = data.amountCents === balanceCents;
+  const paidAt = data.receivedAt ?? new Date();
+
+  if (paidInFull) {
+    await tx.order.update({
+      where: { id: invoice.orderId },
+      data: { paymentStatus: "PAID", paidAt },
+    });
+  }
+
+  return tx.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      paidCents: { increment: data.amountCents },
+      ...(paidInFull && { status: "PAID", paidAt }),
+    },
+    include: { payments: { orderBy: { receivedAt: "asc" } } },
+  });
+}
+
+/**
+ * Take a refund of an order on account off its invoice. An invoice left with
+ * nothing to pay is closed: VOID when nothing was paid on it, PAID otherwise
+ * (what was paid above the new amount is paid back outside the platform).
+ * Does nothing for orders without an invoice.
+ */
+export async function creditInvoice(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  amountCents: number
+) {
+  const invoice = await tx.invoice.findUnique({ where: { orderId } });
+  if (!invoice) return null;
+
+  const credited = Math.max(invoice.amountCents - amountCents, 0);
+  const settled = invoice.status === "OPEN" && invoice.paidCents >= credited;
+
+  return tx.invoice.update({
+    where: { id: invoice.id },
+    data: {
+      amountCents: credited,
+      ...(settled &&
+        (invoice.paidCents === 0
+          ? { status: "VOID" }
+          : { status: "PAID", paidAt: new Date() })),
+    },
+  });
+}
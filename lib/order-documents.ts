@@ -0,0 +1,448 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib";
+import { Prisma } from "@prisma/client";
+import { formatInvoiceNumber } from "@/lib/invoices";
+import { getOrderTaxes } from "@/lib/tax";
+import { formatTaxLabel } from "@/lib/tax-rates";
+import { formatShippingMethod } from "@/lib/shipping-methods";
+import { formatAddressLines } from "@/lib/address-format";
+import { getOrderAddressSnapshot } from "@/lib/addresses";
+
+// Invoice and packing slip PDFs, drawn with the built-in PDF fonts so they
+// render without network access or an external service
+
+// Order data needed by both documents
+export const orderDocumentInclude = {
+  lines: {
+    include: {
+      product: { select: { name: true, sku: true, unit: true } },
+      shipmentItems: { select: { shipmentId: true, quantity: true } },
+      taxes: true,
+    },
+  },
+  shippingTaxes: true,
+  buyer: {
+    select: {
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+      company: true,
+      address: true,
+    },
+  },
+  company: { select: { name: true } },
+  invoice: { select: { issuedAt: true, dueAt: true } },
+  shipments: {
+    select: {
+      id: true,
+      carrier: true,
+      trackingNumber: true,
+      shippedAt: true,
+    },
+    orderBy: { shippedAt: "asc" },
+  },
+} satisfies Prisma.OrderInclude;
+
+export type DocumentOrder = Prisma.OrderGetPayload<{
+  include: typeof orderDocumentInclude;
+}>;
+
+// Seller details from the environment (see .env.example)
+function getSeller() {
+  return {
+    name: process.env.INVOICE_SELLER_NAME || "B2B Commerce",
+    address: (process.env.INVOICE_SELLER_ADDRESS || "")
+      .split("|")
+      .map((line) => line.trim())
+      .filter(Boolean),
+    gstNumber: process.env.GST_REGISTRATION_NUMBER,
+    qstNumber: process.env.QST_REGISTRATION_NUMBER,
+  };
+}
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const RIGHT = PAGE_WIDTH - MARGIN;
+
+const formatMoney = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+type Column = {
+  header: string;
+  x: number; // left edge, or right edge when align is "right"
+  width: number;
+  align?: "right";
+};
+
+// Small cursor-based writer: keeps track of the current page and line,
+// and starts a new page when the next row would not fit
+async function createWriter() {
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const supported = new Set(regular.getCharacterSet());
+
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  // Standard fonts only cover Latin-1; replace anything else
+  const clean = (text: string) =>
+    Array.from(text)
+      .map((char) => (supported.has(char.codePointAt(0)!) ? char : "?"))
+      .join("");
+
+  const fit = (text: string, font: PDFFont, size: number, width: number) => {
+    let result = clean(text);
+    if (font.widthOfTextAtSize(result, size) <= width) return result;
+    while (
+      result.length > 0 &&
+      font.widthOfTextAtSize(`${result}...`, size) > width
+    ) {
+      result = result.slice(0, -1);
+    }
+    return `${result}...`;
+  };
+
+  const draw = (
+    text: string,
+    x: number,
+    options: {
+      size?: number;
+      bold?: boolean;
+      align?: "right";
+      width?: number;
+      color?: number;
+    } = {}
+  ) => {
+    const size = options.size ?? 10;
+    const font = options.bold ? bold : regular;
+    const value = fit(text, font, size, options.width ?? RIGHT - x);
+    const textWidth = font.widthOfTextAtSize(value, size);
+    page.drawText(value, {
+      x: options.align === "right" ? x - textWidth : x,
+      y,
+      size,
+      font,
+      color: rgb(options.color ?? 0, options.color ?? 0, options.color ?? 0),
+    });
+  };
+
+  const newPage = () => {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const moveDown = (points: number) => {
+    y -= points;
+  };
+
+  const rule = () => {
+    page.drawLine({
+      start: { x: MARGIN, y: y + 10 },
+      end: { x: RIGHT, y: y + 10 },
+      thickness: 0.5,
+      color: rgb(0.6, 0.6, 0.6),
+    });
+  };
+
+  const tableHeader = (columns: Column[]) => {
+    for (const column of columns) {
+      draw(column.header, column.x, {
+        bold: true,
+        size: 9,
+        align: column.align,
+        width: column.width,
+      });
+    }
+    moveDown(6);
+    rule();
+    moveDown(10);
+  };
+
+  const tableRow = (columns: Column[], values: string[]) => {
+    if (y < MARGIN + 20) {
+      newPage();
+      tableHeader(columns);
+    }
+    columns.forEach((column, i) =>
+      draw(values[i] ?? "", column.x, {
+        size: 9,
+        align: column.align,
+        width: column.width,
+      })
+    );
+    moveDown(14);
+  };
+
+  return {
+    draw,
+    moveDown,
+    rule,
+    tableHeader,
+    tableRow,
+    // Keep a block of `height` points on one page
+    ensureSpace: (height: number) => {
+      if (y - height < MARGIN) newPage();
+    },
+    save: () => doc.save(),
+  };
+}
+
+type Writer = Awaited<ReturnType<typeof createWriter>>;
+
+function drawSellerHeader(writer: Writer, title: string) {
+  const seller = getSeller();
+  writer.draw(seller.name, MARGIN, { size: 16, bold: true });
+  writer.draw(title, RIGHT, { size: 18, bold: true, align: "right" });
+  writer.moveDown(18);
+  for (const line of seller.address) {
+    writer.draw(line, MARGIN, { size: 9 });
+    writer.moveDown(12);
+  }
+  if (seller.gstNumber) {
+    writer.draw(`GST/HST Reg. No.: ${seller.gstNumber}`, MARGIN, { size: 9 });
+    writer.moveDown(12);
+  }
+  if (seller.qstNumber) {
+    writer.draw(`QST Reg. No.: ${seller.qstNumber}`, MARGIN, { size: 9 });
+    writer.moveDown(12);
+  }
+  writer.moveDown(12);
+}
+
+// Document details on the left, party (bill to / ship to) on the right.
+// The party is the order's copy of that address; orders placed before the
+// address book fall back to the buyer's profile.
+function drawParties(
+  writer: Writer,
+  details: [string, string][],
+  partyTitle: "BILL TO" | "SHIP TO",
+  order: DocumentOrder
+) {
+  const { shipTo, billTo } = getOrderAddressSnapshot(order);
+  const address = partyTitle === "BILL TO" ? billTo : shipTo;
+  const buyerName = [order.buyer.firstName, order.buyer.lastName]
+    .filter(Boolean)
+    .join(" ");
+  const party = (
+    address
+      ? [
+          ...formatAddressLines(address),
+          address.phone ?? order.buyer.phone,
+          order.buyer.email,
+        ]
+      : [
+          order.company?.name ?? order.buyer.company,
+          buyerName,
+          ...(order.buyer.address ?? "").split(/\r?\n/),
+          order.buyer.phone,
+          order.buyer.email,
+        ]
+  ).filter((line): line is string => !!line && line.trim() !== "");
+
+  const partyX = 340;
+  writer.draw(partyTitle, partyX, { bold: true, size: 9, color: 0.4 });
+  writer.moveDown(14);
+
+  const rows = Math.max(details.length, party.length);
+  for (let i = 0; i < rows; i++) {
+    if (details[i]) {
+      writer.draw(`${details[i][0]}:`, MARGIN, { size: 9, bold: true });
+      writer.draw(details[i][1], MARGIN + 90, { size: 9, width: 190 });
+    }
+    if (party[i]) {
+      writer.draw(party[i], partyX, { size: 9, width: RIGHT - partyX });
+    }
+    writer.moveDown(13);
+  }
+  writer.moveDown(20);
+}
+
+/**
+ * Invoice PDF: seller and tax registration numbers, bill-to, lines, and the
+ * subtotal / shipping / taxes (as charged on the order) / total breakdown.
+ * The order must already have an invoice number (see assignInvoiceNumber).
+ */
+export async function renderInvoicePdf(order: DocumentOrder) {
+  if (order.invoiceNumber === null) {
+    throw new Error("ORDER_NOT_INVOICED");
+  }
+
+  const writer = await createWriter();
+  drawSellerHeader(writer, "INVOICE");
+
+  const issuedAt = order.invoice?.issuedAt ?? order.paidAt ?? order.createdAt;
+  const details: [string, string][] = [
+    ["Invoice No.", formatInvoiceNumber(order.invoiceNumber)],
+    ["Invoice date", formatDate(issuedAt)],
+    ["Order", order.id],
+  ];
+  if (order.poNumber) details.push(["PO number", order.poNumber]);
+  details.push(
+    order.invoice
+      ? ["Payment due", formatDate(order.invoice.dueAt)]
+      : [
+          "Payment",
+          order.paidAt ? `Paid by card ${formatDate(order.paidAt)}` : "Card",
+        ]
+  );
+  drawParties(writer, details, "BILL TO", order);
+
+  const columns: Column[] = [
+    { header: "SKU", x: MARGIN, width: 85 },
+    { header: "Description", x: 140, width: 210 },
+    { header: "Qty", x: 400, width: 45, align: "right" },
+    { header: "Unit Price", x: 480, width: 75, align: "right" },
+    { header: "Amount", x: RIGHT, width: 75, align: "right" },
+  ];
+  writer.tableHeader(columns);
+  for (const line of order.lines) {
+    writer.tableRow(columns, [
+      line.product.sku ?? "",
+      line.product.name,
+      `${line.quantity}${line.product.unit ? ` ${line.product.unit}` : ""}`,
+      formatMoney(line.unitPriceCents),
+      formatMoney(line.unitPriceCents * line.quantity),
+    ]);
+  }
+  writer.moveDown(4);
+  writer.rule();
+  writer.moveDown(6);
+
+  const totals: [string, number][] = [
+    ["Subtotal", order.subtotalCents],
+    [
+      order.shippingMethod
+        ? `Shipping (${formatShippingMethod(order.shippingMethod)})`
+        : "Shipping",
+      order.shippingCents,
+    ],
+    ...getOrderTaxes(order).map((tax): [string, number] => [
+      formatTaxLabel(tax),
+      tax.amountCents,
+    ]),
+  ];
+  writer.ensureSpace(14 * (totals.length + 2));
+  for (const [label, cents] of totals) {
+    writer.draw(label, 400, { size: 10 });
+    writer.draw(formatMoney(cents), RIGHT, { size: 10, align: "right" });
+    writer.moveDown(14);
+  }
+  writer.moveDown(2);
+  writer.draw("Total", 400, { size: 11, bold: true });
+  writer.draw(formatMoney(order.totalCents), RIGHT, {
+    size: 11,
+    bold: true,
+    align: "right",
+  });
+  writer.moveDown(30);
+
+  if (order.taxExemptionNumber) {
+    writer.ensureSpace(30);
+    writer.draw(`Tax exempt: certificate ${order.taxExemptionNumber}`, MARGIN, {
+      size: 9,
+      color: 0.3,
+    });
+    writer.moveDown(14);
+  }
+  if (order.notes) {
+    writer.ensureSpace(30);
+    writer.draw(`Notes: ${order.notes.replace(/\s+/g, " ")}`, MARGIN, {
+      size: 9,
+      color: 0.3,
+    });
+    writer.moveDown(14);
+  }
+  writer.draw("Thank you for your business.", MARGIN, { size: 9, color: 0.3 });
+
+  return writer.save();
+}
+
+/**
+ * Packing slip PDF: ship-to and quantities, without prices.
+ * With a shipmentId, only that shipment's items are listed.
+ *
+ * Throws SHIPMENT_NOT_FOUND
+ */
+export async function renderPackingSlipPdf(
+  order: DocumentOrder,
+  shipmentId?: string
+) {
+  const shipment = shipmentId
+    ? order.shipments.find((s) => s.id === shipmentId)
+    : undefined;
+  if (shipmentId && !shipment) throw new Error("SHIPMENT_NOT_FOUND");
+
+  const writer = await createWriter();
+  drawSellerHeader(writer, "PACKING SLIP");
+
+  const details: [string, string][] = [
+    ["Order", order.id],
+    ["Order date", formatDate(order.createdAt)],
+  ];
+  if (order.poNumber) details.push(["PO number", order.poNumber]);
+  if (order.shippingMethod) {
+    details.push(["Ship via", formatShippingMethod(order.shippingMethod)]);
+  }
+  if (shipment) {
+    details.push(["Shipped", formatDate(shipment.shippedAt)]);
+    details.push([
+      "Carrier",
+      `${shipment.carrier}${
+        shipment.trackingNumber ? ` ${shipment.trackingNumber}` : ""
+      }`,
+    ]);
+  }
+  drawParties(writer, details, "SHIP TO", order);
+
+  const columns: Column[] = shipment
+    ? [
+        { header: "SKU", x: MARGIN, width: 100 },
+        { header: "Description", x: 155, width: 300 },
+        { header: "Qty", x: RIGHT, width: 60, align: "right" },
+      ]
+    : [
+        { header: "SKU", x: MARGIN, width: 100 },
+        { header: "Description", x: 155, width: 230 },
+        { header: "Ordered", x: 440, width: 50, align: "right" },
+        { header: "Shipped", x: 500, width: 50, align: "right" },
+        { header: "To Ship", x: RIGHT, width: 50, align: "right" },
+      ];
+  writer.tableHeader(columns);
+
+  for (const line of order.lines) {
+    const shipped = line.shipmentItems.reduce((sum, i) => sum + i.quantity, 0);
+    if (shipment) {
+      const quantity = line.shipmentItems
+        .filter((item) => item.shipmentId === shipment.id)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      if (quantity === 0) continue;
+      writer.tableRow(columns, [
+        line.product.sku ?? "",
+        line.product.name,
+        String(quantity),
+      ]);
+    } else {
+      writer.tableRow(columns, [
+        line.product.sku ?? "",
+        line.product.name,
+        String(line.quantity),
+        String(shipped),
+        // Refunded units no longer ship
+        String(Math.max(line.quantity - line.refundedQuantity - shipped, 0)),
+      ]);
+    }
+  }
+  writer.moveDown(20);
+
+  if (order.notes) {
+    writer.ensureSpace(30);
+    writer.draw(`Notes: ${order.notes.replace(/\s+/g, " ")}`, MARGIN, {
+      size: 9,
+      color: 0.3,
+    });
+  }
+
+  return writer.save();
+}
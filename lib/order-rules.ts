@@ -0,0 +1,102 @@
+// Ordering rules (MOQ, order multiple, pack size), shared by the API and the UI
+
+export type OrderRules = {
+  minOrderQuantity: number;
+  orderMultiple: number;
+  packSize: number;
+};
+
+export type QuantityViolation = {
+  code: "BELOW_MINIMUM" | "NOT_ORDER_MULTIPLE" | "NOT_FULL_PACK";
+  message: string;
+};
+
+// Per-line error returned by the cart, saved-list and order endpoints
+export type LineError = {
+  productId: string;
+  sku: string | null;
+  productName: string;
+  quantity: number;
+  suggestedQuantity: number;
+  violations: QuantityViolation[];
+  line?: number; // CSV row number, for imports
+};
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+// Smallest quantity increment that satisfies both the multiple and the pack size
+export function quantityStep(rules: OrderRules) {
+  const { orderMultiple, packSize } = rules;
+  return (orderMultiple * packSize) / gcd(orderMultiple, packSize);
+}
+
+// Smallest valid quantity at or above the requested one
+export function nearestValidQuantity(rules: OrderRules, quantity: number) {
+  const step = quantityStep(rules);
+  const target = Math.max(quantity, rules.minOrderQuantity, 1);
+  return Math.ceil(target / step) * step;
+}
+
+export function checkQuantity(rules: OrderRules, quantity: number) {
+  const violations: QuantityViolation[] = [];
+  if (quantity < rules.minOrderQuantity) {
+    violations.push({
+      code: "BELOW_MINIMUM",
+      message: `Minimum order quantity is ${rules.minOrderQuantity}`,
+    });
+  }
+  if (quantity % rules.orderMultiple !== 0) {
+    violations.push({
+      code: "NOT_ORDER_MULTIPLE",
+      message: `Must be ordered in multiples of ${rules.orderMultiple}`,
+    });
+  }
+  if (quantity % rules.packSize !== 0) {
+    violations.push({
+      code: "NOT_FULL_PACK",
+      message: `Sold in packs of ${rules.packSize}`,
+    });
+  }
+  return violations;
+}
+
+/**
+ * Check each line against its product's ordering rules
+ * Returns one LineError per line that breaks a rule (empty when all are valid)
+ */
+export function validateOrderLines(
+  lines: {
+    product: OrderRules & { id: string; sku: string | null; name: string };
+    quantity: number;
+    line?: number;
+  }[]
+) {
+  const errors: LineError[] = [];
+  for (const { product, quantity, line } of lines) {
+    const violations = checkQuantity(product, quantity);
+    if (violations.length === 0) continue;
+    errors.push({
+      productId: product.id,
+      sku: product.sku,
+      productName: product.name,
+      quantity,
+      suggestedQuantity: nearestValidQuantity(product, quantity),
+      violations,
+      ...(line !== undefined && { line }),
+    });
+  }
+  return errors;
+}
+
+// Short label for product pages, e.g. "Min 10 · Multiples of 5 · Pack of 12"
+export function describeOrderRules(rules: OrderRules) {
+  return [
+    rules.minOrderQuantity > 1 && `Min ${rules.minOrderQuantity}`,
+    rules.orderMultiple > 1 && `Multiples of ${rules.orderMultiple}`,
+    rules.packSize > 1 && `Pack of ${rules.packSize}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
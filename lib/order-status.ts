@@ -0,0 +1,118 @@
+import { OrderStatus, Prisma } from "@prisma/client";
+import {
+  commitReservations,
+  releaseReservations,
+  startReservationClock,
+} from "@/lib/inventory";
+import { createDropShipOrders } from "@/lib/suppliers";
+
+// Order fulfillment state machine: status -> statuses it may move to.
+// A paid order is only cancelled once all of its units are refunded (see
+// lib/refunds.ts).
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING_APPROVAL: ["CREATED", "CANCELLED"],
+  CREATED: ["PAID", "CANCELLED"],
+  PAID: ["SHIPPED", "CANCELLED"],
+  SHIPPED: ["DELIVERED"],
+  DELIVERED: [],
+  CANCELLED: [],
+};
+
+// Status changes an admin can make by hand (PUT /api/admin/orders/[id]/status
+// and bulk-status). Approval, payment and shipping only happen through their
+// own flows (lib/approvals.ts, lib/payments.ts and lib/invoices.ts,
+// lib/shipments.ts), which record the decision, payment or shipment.
+export const MANUAL_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING_APPROVAL: ["CANCELLED"],
+  CREATED: ["CANCELLED"],
+  PAID: ["CANCELLED"],
+  SHIPPED: ["DELIVERED"],
+  DELIVERED: [],
+  CANCELLED: [],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Move an order to a new status inside a transaction.
+ * Rejects illegal transitions, settles the order's stock reservations
+ * (see lib/inventory.ts): approval starts their payment window, payment
+ * commits them (sending units taken from supplier stock to the suppliers as
+ * drop-ship orders, see lib/suppliers.ts) and cancellation releases them.
+ * Records who made the change in OrderStatusChange. A manual change (by an
+ * admin, by hand) is limited to MANUAL_STATUS_TRANSITIONS.
+ *
+ * Throws ORDER_NOT_FOUND, INVALID_TRANSITION:<from>:<to> or
+ * ORDER_NOT_REFUNDED (cancelling a paid order with units not refunded)
+ */
+export async function transitionOrderStatus(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  toStatus: OrderStatus,
+  {
+    actorId,
+    note,
+    manual,
+  }: { actorId?: string | null; note?: string; manual?: boolean } = {}
+) {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: { lines: { select: { quantity: true, refundedQuantity: true } } },
+  });
+  if (!order) throw new Error("ORDER_NOT_FOUND");
+
+  const allowed = manual
+    ? MANUAL_STATUS_TRANSITIONS[order.status].includes(toStatus)
+    : canTransition(order.status, toStatus);
+  if (!allowed) {
+    throw new Error(`INVALID_TRANSITION:${order.status}:${toStatus}`);
+  }
+  if (
+    order.status === "PAID" &&
+    toStatus === "CANCELLED" &&
+    order.lines.some((line) => line.refundedQuantity < line.quantity)
+  ) {
+    throw new Error("ORDER_NOT_REFUNDED");
+  }
+
+  // Guard against a concurrent transition from the same status.
+  // Orders on account are only paid once their invoice is (see lib/invoices).
+  const { count } = await tx.order.updateMany({
+    where: { id: orderId, status: order.status },
+    data: {
+      status: toStatus,
+      ...(toStatus === "PAID" &&
+        !order.paidAt &&
+        order.paymentMethod === "CARD" && { paidAt: new Date() }),
+    },
+  });
+  if (count === 0) {
+    throw new Error(`INVALID_TRANSITION:${order.status}:${toStatus}`);
+  }
+
+  if (toStatus === "CREATED") {
+    await startReservationClock(tx, orderId);
+  } else if (toStatus === "PAID") {
+    await commitReservations(tx, orderId, actorId);
+    await createDropShipOrders(tx, orderId);
+  } else if (toStatus === "CANCELLED") {
+    await releaseReservations(tx, orderId, actorId);
+  }
+
+  await tx.orderStatusChange.create({
+    data: {
+      orderId,
+      fromStatus: order.status,
+      toStatus,
+      changedById: actorId ?? null,
+      note,
+    },
+  });
+
+  return tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: { lines: { include: { product: true } } },
+  });
+}
@@ -0,0 +1,236 @@
+import { randomUUID } from "crypto";
+import { Prisma, PrismaClient, ShippingMethod } from "@prisma/client";
+import { calculateOrderTotal } from "@/lib/utils";
+import { getSpendingLimitCents } from "@/lib/company";
+import { calculateOrderTax, calculateShippingTax } from "@/lib/tax";
+import { getShippingOptions, selectShippingOption } from "@/lib/shipping";
+import { getOrderAddresses, toOrderAddressFields } from "@/lib/addresses";
+import { getReservationExpiry, reserveStock } from "@/lib/inventory";
+import { transitionOrderStatus } from "@/lib/order-status";
+import { getApprovalTtlHours, hasApprover } from "@/lib/approvals";
+
+export type OrderLineInput = {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPriceCents: number;
+};
+
+/**
+ * Create an order from priced lines inside a transaction.
+ * Reserves stock for every line at the warehouses nearest to the ship-to
+ * location, then at drop-ship suppliers (held until the order is paid, or for
+ * RESERVATION_TTL_MINUTES once it can be paid, see lib/inventory.ts);
+ * what cannot be reserved of products that allow backorders is backordered
+ * on its line. Copies the ship-to and bill-to
+ * addresses (the buyer's defaults when none are given, see lib/addresses.ts),
+ * adds tax at the ship-to location (stored per line and on shipping, see
+ * lib/tax.ts) and shipping for the chosen method (the first delivery method offered when none
+ * is given, see lib/shipping.ts), and starts
+ * the order as PENDING_APPROVAL when it is over the buyer's company spending
+ * limit and another owner of the company can approve it (CREATED
+ * otherwise). Only pickup orders can be placed without a
+ * shipping address.
+ *
+ * Throws STOCK_INSUFFICIENT:<productName>, ADDRESS_NOT_FOUND,
+ * SHIPPING_ADDRESS_REQUIRED or SHIPPING_METHOD_UNAVAILABLE[:<method>]
+ */
+export async function placeOrder(
+  tx: Prisma.TransactionClient,
+  data: {
+    buyerId: string;
+    companyId: string | null;
+    lines: OrderLineInput[];
+    poNumber?: string;
+    notes?: string;
+    shippingMethod?: ShippingMethod;
+    shippingAddressId?: string;
+    billingAddressId?: string;
+  }
+) {
+  const addresses = await getOrderAddresses(tx, data.buyerId, data);
+
+  // Stock comes from the warehouses nearest to the ship-to location, then
+  // from drop-ship suppliers. The ledger entries of the reservations
+  // reference the order.
+  const orderId = randomUUID();
+  const reservations = await reserveStock(tx, data.lines, addresses.location, {
+    referenceId: orderId,
+    actorId: data.buyerId,
+  });
+  const totalCents = data.lines.reduce(
+    (sum, line) => sum + line.quantity * line.unitPriceCents,
+    0
+  );
+
+  // Calculate tax and shipping
+  const tax = await calculateOrderTax(tx, {
+    companyId: data.companyId,
+    lines: data.lines,
+    location: addresses.location,
+  });
+  const shipping = await getShippingOptions(tx, {
+    lines: data.lines,
+    location: addresses.location,
+  });
+  const shippingOption = selectShippingOption(
+    shipping.options,
+    data.shippingMethod
+  );
+  if (shippingOption.method !== "PICKUP" && !addresses.shipping) {
+    throw new Error("SHIPPING_ADDRESS_REQUIRED");
+  }
+  const shippingTax = calculateShippingTax(
+    tax.shippingComponents,
+    shippingOption.priceCents
+  );
+  const {
+    taxCents,
+    shippingCents,
+    totalCents: finalTotal,
+  } = calculateOrderTotal(
+    totalCents,
+    tax.taxCents + shippingTax.taxCents,
+    shippingOption.priceCents
+  );
+
+  const spendingLimitCents = data.companyId
+    ? await getSpendingLimitCents(tx, data.companyId, data.buyerId)
+    : null;
+  const needsApproval =
+    spendingLimitCents !== null &&
+    finalTotal > spendingLimitCents &&
+    (await hasApprover(tx, data.companyId!, data.buyerId));
+
+  // Create order with tax and shipping
+  return tx.order.create({
+    data: {
+      id: orderId,
+      buyerId: data.buyerId,
+      companyId: data.companyId,
+      status: needsApproval ? "PENDING_APPROVAL" : "CREATED",
+      poNumber: data.poNumber,
+      notes: data.notes,
+      ...toOrderAddressFields(addresses),
+      taxExemptionNumber: tax.exemptionNumber,
+      subtotalCents: totalCents,
+      taxCents,
+      shippingMethod: shippingOption.method,
+      shippingWeightGrams: shipping.weightGrams,
+      shippingCents,
+      totalCents: finalTotal,
+      shippingTaxes: { create: shippingTax.taxes },
+      lines: {
+        create: data.lines.map((line, i) => ({
+          productId: line.productId,
+          quantity: line.quantity,
+          backorderedQuantity:
+            line.quantity -
+            reservations[i].reduce((sum, r) => sum + r.quantity, 0),
+          unitPriceCents: line.unitPriceCents,
+          taxClass: tax.lines[i].taxClass,
+          taxCents: tax.lines[i].taxCents,
+          taxes: { create: tax.lines[i].taxes },
+          // The payment window starts once the order is approved
+          reservations: {
+            create: reservations[i].map((reservation) => ({
+              ...reservation,
+              orderId,
+              expiresAt: needsApproval ? null : getReservationExpiry(),
+            })),
+          },
+        })),
+      },
+    },
+    include: { lines: { include: { product: true } } },
+  });
+}
+
+/**
+ * Cancel CREATED orders that were not paid before their stock reservation
+ * expired, and PENDING_APPROVAL orders not approved within
+ * APPROVAL_TTL_HOURS, releasing the stock. Each order is cancelled in its
+ * own transaction; orders paid or approved in the meantime are skipped, and
+ * so are orders whose payment is still pending: an open checkout session
+ * (cancelled when it expires, see recordCheckoutExpired) or a payment
+ * waiting to settle, e.g. a bank transfer (until it fails).
+ * Returns the IDs of the cancelled orders.
+ */
+export async function cancelExpiredOrders(db: PrismaClient) {
+  const now = new Date();
+  const [unpaid, unapproved] = await Promise.all([
+    db.order.findMany({
+      where: {
+        status: "CREATED",
+        reservations: {
+          some: { status: "ACTIVE", expiresAt: { lt: now } },
+        },
+        payments: {
+          none: {
+            status: "PENDING",
+            OR: [
+              { expiresAt: null },
+              { expiresAt: { gt: now } },
+              { paymentIntentId: { not: null } },
+            ],
+          },
+        },
+      },
+      select: { id: true, status: true },
+    }),
+    db.order.findMany({
+      where: {
+        status: "PENDING_APPROVAL",
+        createdAt: {
+          lt: new Date(now.getTime() - getApprovalTtlHours() * 3_600_000),
+        },
+      },
+      select: { id: true, status: true },
+    }),
+  ]);
+
+  const cancelled: string[] = [];
+  for (const { id, status } of [...unpaid, ...unapproved]) {
+    try {
+      const expired = await db.$transaction(async (tx) => {
+        const order = await tx.order.findUnique({
+          where: { id },
+          select: { status: true },
+        });
+        if (order?.status !== status) return false;
+        await transitionOrderStatus(tx, id, "CANCELLED", {
+          note:
+            status === "CREATED"
+              ? "Not paid in time, reserved stock released"
+              : "Not approved in time, reserved stock released",
+        });
+        return true;
+      });
+      if (expired) cancelled.push(id);
+    } catch (error) {
+      const err = error as { message?: string };
+      if (!err.message?.startsWith("INVALID_TRANSITION")) throw error;
+    }
+  }
+  return cancelled;
+}
+
+/**
+ * Record a card payment on a CREATED order (-> PAID, committing its reserved
+ * stock). An order that is no longer CREATED is left as it is.
+ * Returns false when the order can no longer be paid by this payment: it was
+ * cancelled (e.g. after its reservation expired), or already paid by another
+ * payment or placed on account.
+ */
+export async function markOrderPaid(
+  tx: Prisma.TransactionClient,
+  orderId: string
+) {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    select: { status: true },
+  });
+  if (order?.status !== "CREATED") return false;
+  await transitionOrderStatus(tx, orderId, "PAID", { note: "Paid by card" });
+  return true;
+}
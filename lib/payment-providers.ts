@@ -0,0 +1,93 @@
+import Stripe from "stripe";
+import { createStripePaymentProvider } from "@/lib/stripe-payment-provider";
+import { fakePaymentProvider } from "@/lib/fake-payment-provider";
+
+// Payment providers take the card payments of lib/payments.ts: a hosted
+// checkout page per payment attempt, refunds, and webhook events in Stripe's
+// event format (applied by lib/stripe-webhooks.ts). PAYMENT_PROVIDER picks
+// one: "stripe" (the default) or "fake", an in-process provider that needs
+// no keys or network, to run the order-to-paid flow locally (see
+// lib/fake-payment-provider.ts).
+
+export type PaymentProviderName = "stripe" | "fake";
+
+export type CheckoutLineItem = {
+  name: string;
+  description?: string;
+  metadata?: Record<string, string | null>;
+  unitAmountCents: number;
+  quantity: number;
+};
+
+export type CheckoutSessionInput = {
+  orderId: string;
+  buyerId: string;
+  customerEmail?: string;
+  lineItems: CheckoutLineItem[];
+  amountCents: number; // total of the line items
+  // where the buyer goes once paid, with {CHECKOUT_SESSION_ID} replaced
+  successUrl: string;
+  cancelUrl: string;
+  expiresAt: Date | null;
+};
+
+// A checkout session as the provider reports it
+export type ProviderCheckoutSession = {
+  id: string;
+  url: string | null; // the checkout page, while the session is open
+  paymentStatus: "paid" | "unpaid" | "no_payment_required";
+  paymentIntentId: string | null; // once the buyer pays
+  orderId: string | null;
+};
+
+export type ProviderRefund = {
+  id: string;
+  amountCents: number;
+  status: string | null; // e.g. "pending", "succeeded", "failed"
+  reason: string | null;
+};
+
+export type PaymentProvider = {
+  name: PaymentProviderName;
+  createCheckoutSession(
+    input: CheckoutSessionInput
+  ): Promise<ProviderCheckoutSession>;
+  retrieveCheckoutSession(id: string): Promise<ProviderCheckoutSession>;
+  // The checkout session a payment intent was paid in, if any
+  findCheckoutSessionByPaymentIntent(
+    paymentIntentId: string
+  ): Promise<ProviderCheckoutSession | null>;
+  // Refund (part of) a payment; a retry with the same idempotency key
+  // returns the same refund. Returns the refund id.
+  createRefund(
+    paymentIntentId: string,
+    amountCents: number,
+    options: { metadata: Record<string, string>; idempotencyKey: string }
+  ): Promise<string>;
+  listRefunds(paymentIntentId: string): Promise<ProviderRefund[]>;
+  // Verify a webhook request and parse its event (throws when the
+  // signature does not match)
+  constructWebhookEvent(body: string, signature: string): Stripe.Event;
+};
+
+let stripePaymentProvider: PaymentProvider | undefined;
+
+/**
+ * The payment provider named, or the one PAYMENT_PROVIDER configures
+ * (Stripe by default). The fake provider is never used in production.
+ *
+ * Throws UNKNOWN_PAYMENT_PROVIDER:<name>
+ */
+export function getPaymentProvider(
+  name: string = process.env.PAYMENT_PROVIDER || "stripe"
+): PaymentProvider {
+  if (name === "stripe") {
+    // Created on first use, so that other providers need no Stripe keys
+    stripePaymentProvider ??= createStripePaymentProvider();
+    return stripePaymentProvider;
+  }
+  if (name === "fake" && process.env.NODE_ENV !== "production") {
+    return fakePaymentProvider;
+  }
+  throw new Error(`UNKNOWN_PAYMENT_PROVIDER:${name}`);
+}
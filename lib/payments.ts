@@ -0,0 +1,491 @@
+import { Payment, Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { markOrderPaid } from "@/lib/orders";
+import { transitionOrderStatus } from "@/lib/order-status";
+import { recordRefund } from "@/lib/refunds";
+import { getOrderTaxes } from "@/lib/tax";
+import { formatShippingMethod } from "@/lib/shipping-methods";
+import { formatTaxLabel } from "@/lib/tax-rates";
+import { CheckoutLineItem, getPaymentProvider } from "@/lib/payment-providers";
+
+// Card payments through a hosted checkout page of the payment provider
+// (Stripe, or the fake provider when running locally, see
+// lib/payment-providers.ts). Every checkout session is a Payment attempt on
+// its order, which keeps the payment intent once the buyer pays. The webhook
+// (see lib/stripe-webhooks.ts) and the payment-status check both mark an
+// order paid through recordPaymentSucceeded, so its stock is committed once
+// and its payment status never moves back: a paid order stays paid and a
+// refunded one stays refunded.
+
+// Payment statuses a late payment event must not overwrite
+const REFUNDED_PAYMENT_STATUSES = ["PARTIALLY_REFUNDED", "REFUNDED"];
+
+// A payment, as far as it is known: the payment intent only exists once the
+// buyer pays
+export type PaymentRef = {
+  checkoutSessionId?: string | null;
+  paymentIntentId?: string | null;
+};
+
+// Order include for createCheckoutSession: what the session charges for
+export const checkoutOrderInclude = {
+  lines: { include: { product: true, taxes: true } },
+  shippingTaxes: true,
+  buyer: true,
+} satisfies Prisma.OrderInclude;
+
+type CheckoutOrder = Prisma.OrderGetPayload<{
+  include: typeof checkoutOrderInclude;
+}>;
+
+/**
+ * Open a checkout session for an order with the payment provider, charging
+ * its lines, taxes and shipping, and record it as a PENDING payment attempt.
+ * The buyer comes back to the order page once paid. Stripe sessions last 30
+ * minutes to 24 hours.
+ *
+ * Throws CHECKOUT_SESSION_FAILED when the provider returns no checkout page
+ */
+export async function createCheckoutSession(
+  order: CheckoutOrder,
+  options: { origin: string; expiresAt: Date | null }
+) {
+  const lineItems: CheckoutLineItem[] = order.lines.map((line) => ({
+    name: line.product.name,
+    description: line.product.description || undefined,
+    metadata: {
+      productId: line.product.id,
+      sku: line.product.sku,
+    },
+    unitAmountCents: line.unitPriceCents,
+    quantity: line.quantity,
+  }));
+
+  // Add a line item per tax (e.g. GST and QST)
+  for (const tax of getOrderTaxes(order)) {
+    if (tax.amountCents === 0) continue;
+    lineItems.push({
+      name: formatTaxLabel(tax),
+      unitAmountCents: tax.amountCents,
+      quantity: 1,
+    });
+  }
+
+  // Add shipping line item
+  if (order.shippingCents > 0) {
+    lineItems.push({
+      name: order.shippingMethod
+        ? `Shipping (${formatShippingMethod(order.shippingMethod)})`
+        : "Shipping",
+      unitAmountCents: order.shippingCents,
+      quantity: 1,
+    });
+  }
+
+  const provider = getPaymentProvider();
+  const session = await provider.createCheckoutSession({
+    orderId: order.id,
+    buyerId: order.buyerId,
+    customerEmail: order.buyer?.email || undefined,
+    lineItems,
+    amountCents: order.totalCents,
+    successUrl: `${options.origin}/orders/${order.id}?session_id={CHECKOUT_SESSION_ID}`,
+    cancelUrl: `${options.origin}/checkout?canceled=true`,
+    expiresAt: options.expiresAt,
+  });
+  if (!session.url) throw new Error("CHECKOUT_SESSION_FAILED");
+
+  await prisma.payment.create({
+    data: {
+      orderId: order.id,
+      provider: provider.name,
+      amountCents: order.totalCents,
+      checkoutSessionId: session.id,
+      expiresAt: options.expiresAt,
+    },
+  });
+
+  return { url: session.url, sessionId: session.id };
+}
+
+/**
+ * The order's checkout session that is still open, so that the buyer pays
+ * in it rather than in a new one: an order with several open sessions could
+ * be paid twice. Null when the order has none.
+ *
+ * Throws PAYMENT_PENDING when a payment of the order is still settling (e.g.
+ * a bank transfer)
+ */
+export async function getOpenCheckoutSession(orderId: string) {
+  const pending = await prisma.payment.findMany({
+    where: { orderId, status: "PENDING", checkoutSessionId: { not: null } },
+    orderBy: { createdAt: "desc" },
+  });
+  if (pending.some((payment) => payment.paymentIntentId)) {
+    throw new Error("PAYMENT_PENDING");
+  }
+
+  for (const payment of pending) {
+    const session = await getPaymentProvider(
+      payment.provider
+    ).retrieveCheckoutSession(payment.checkoutSessionId!);
+    if (session.url) return { url: session.url, sessionId: session.id };
+  }
+  return null;
+}
+
+// The attempt a payment belongs to: by payment intent, then checkout
+// session, then the order's latest attempt without a payment intent yet
+async function findPaymentAttempt(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  ref: PaymentRef
+) {
+  if (ref.paymentIntentId) {
+    const payment = await tx.payment.findUnique({
+      where: { paymentIntentId: ref.paymentIntentId },
+    });
+    if (payment) return payment;
+  }
+  if (ref.checkoutSessionId) {
+    return tx.payment.findUnique({
+      where: { checkoutSessionId: ref.checkoutSessionId },
+    });
+  }
+  return tx.payment.findFirst({
+    where: {
+      orderId,
+      status: { in: ["PENDING", "FAILED"] },
+      paymentIntentId: null,
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+// Whether a successful attempt is the payment of its order, rather than one
+// received after the order was paid (e.g. a second checkout session) or
+// could no longer be paid. The order's payment is its first.
+async function isOrderPayment(tx: Prisma.TransactionClient, payment: Payment) {
+  const order = await tx.order.findUnique({
+    where: { id: payment.orderId },
+    select: { paymentMethod: true, paidAt: true },
+  });
+  if (order?.paymentMethod !== "CARD" || !order.paidAt) return false;
+  const first = await tx.payment.findFirst({
+    where: { orderId: payment.orderId, status: "SUCCEEDED" },
+    orderBy: { paidAt: "asc" },
+    select: { id: true },
+  });
+  return first?.id === payment.id;
+}
+
+/**
+ * Record a successful card payment: its attempt SUCCEEDED (recorded if it
+ * was not, e.g. paid outside checkout), the order PAID with its reserved
+ * stock committed (see markOrderPaid) and its payment status PAID, unless it
+ * was refunded since. Recording the same payment again changes nothing.
+ *
+ * A payment for an order that can no longer be paid (e.g. cancelled after
+ * its reservation expired, already paid by another checkout session or
+ * placed on account) leaves the order as it is and is refunded (see
+ * refundUnpayablePayment).
+ */
+export async function recordPaymentSucceeded(
+  orderId: string,
+  ref: PaymentRef & { amountCents?: number }
+) {
+  // A payment intent reported on its own (payment_intent.succeeded) is
+  // matched to the checkout session it was paid in, not to the order's
+  // latest attempt, in case the order has several
+  if (ref.paymentIntentId && !ref.checkoutSessionId) {
+    const session =
+      await getPaymentProvider().findCheckoutSessionByPaymentIntent(
+        ref.paymentIntentId
+      );
+    ref = { ...ref, checkoutSessionId: session?.id };
+  }
+
+  const unpayable = await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      select: { totalCents: true },
+    });
+    if (!order) {
+      console.error(`[Payments] Payment received for unknown order ${orderId}`);
+      return null;
+    }
+
+    const existing = await findPaymentAttempt(tx, orderId, ref);
+    if (existing?.status === "REFUNDED") return null;
+    if (existing?.status === "SUCCEEDED") {
+      // Recorded before, e.g. by both the webhook and the payment-status
+      // check. Only its payment intent can be new, which an unpayable
+      // payment waits for to be refunded.
+      if (!ref.paymentIntentId || existing.paymentIntentId) return null;
+      const payment = await tx.payment.update({
+        where: { id: existing.id },
+        data: { paymentIntentId: ref.paymentIntentId },
+      });
+      return (await isOrderPayment(tx, payment)) ? null : payment;
+    }
+
+    const paid = await markOrderPaid(tx, orderId);
+
+    const paidAt = new Date();
+    const data = {
+      status: "SUCCEEDED" as const,
+      failureReason: null,
+      ...(ref.paymentIntentId && { paymentIntentId: ref.paymentIntentId }),
+    };
+    const payment = existing
+      ? await tx.payment.update({
+          where: { id: existing.id },
+          data: { ...data, paidAt: existing.paidAt ?? paidAt },
+        })
+      : await tx.payment.create({
+          data: {
+            ...data,
+            orderId,
+            amountCents: ref.amountCents ?? order.totalCents,
+            checkoutSessionId: ref.checkoutSessionId,
+            paidAt,
+          },
+        });
+
+    if (!paid) {
+      console.error(
+        `[Payments] Payment received for unpayable order ${orderId}, refunding it`
+      );
+      return payment;
+    }
+
+    await tx.order.updateMany({
+      where: { id: orderId, paidAt: null },
+      data: { paidAt },
+    });
+    await tx.order.updateMany({
+      where: {
+        id: orderId,
+        OR: [
+          { paymentStatus: null },
+          { paymentStatus: { notIn: REFUNDED_PAYMENT_STATUSES } },
+        ],
+      },
+      data: { paymentStatus: "PAID" },
+    });
+    return null;
+  });
+
+  if (unpayable) await refundUnpayablePayment(unpayable);
+}
+
+// Give back a payment captured for an order that could no longer be paid.
+// Without its payment intent yet, the payment is refunded when the event
+// carrying it arrives. A failed refund fails the webhook event, so that it
+// is retried (or replayed by an admin); the idempotency key keeps a retry
+// from refunding twice.
+async function refundUnpayablePayment(payment: Payment) {
+  if (!payment.paymentIntentId) return;
+
+  await getPaymentProvider(payment.provider).createRefund(
+    payment.paymentIntentId,
+    payment.amountCents,
+    {
+      metadata: {
+        orderId: payment.orderId,
+        reason: "Order could no longer be paid",
+      },
+      idempotencyKey: `unpayable-payment-${payment.id}`,
+    }
+  );
+  await prisma.payment.updateMany({
+    where: { id: payment.id, status: "SUCCEEDED" },
+    data: { status: "REFUNDED" },
+  });
+}
+
+/**
+ * Record a checkout completed with a payment that settles later (e.g. a bank
+ * transfer): its attempt stays PENDING with the payment intent, so that the
+ * order is not cancelled while the payment settles (see cancelExpiredOrders).
+ */
+export async function recordPaymentPending(orderId: string, ref: PaymentRef) {
+  if (!ref.paymentIntentId) return;
+  await prisma.$transaction(async (tx) => {
+    const payment = await findPaymentAttempt(tx, orderId, ref);
+    if (payment?.status !== "PENDING") return;
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: { paymentIntentId: ref.paymentIntentId },
+    });
+  });
+}
+
+/**
+ * Record a failed card payment attempt. The buyer can still pay with another
+ * card, so only an unpaid order shows PAYMENT_FAILED: a late event does not
+ * undo a payment.
+ */
+export async function recordPaymentFailed(
+  orderId: string,
+  ref: PaymentRef & { reason?: string | null }
+) {
+  await prisma.$transaction(async (tx) => {
+    const payment = await findPaymentAttempt(tx, orderId, ref);
+    if (payment) {
+      await tx.payment.updateMany({
+        where: { id: payment.id, status: { in: ["PENDING", "FAILED"] } },
+        data: {
+          status: "FAILED",
+          failureReason: ref.reason ?? null,
+          ...(ref.paymentIntentId && { paymentIntentId: ref.paymentIntentId }),
+        },
+      });
+    }
+
+    await tx.order.updateMany({
+      where: {
+        id: orderId,
+        status: { in: ["PENDING_APPROVAL", "CREATED"] },
+        paidAt: null,
+      },
+      data: { paymentStatus: "PAYMENT_FAILED" },
+    });
+  });
+}
+
+/**
+ * Expire the payment attempt of a checkout session that expired unpaid, and
+ * cancel the order, releasing its reserved stock, unless the buyer has since
+ * started another checkout session for it.
+ */
+export async function recordCheckoutExpired(
+  orderId: string,
+  checkoutSessionId: string
+) {
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.payment.updateMany({
+      where: { checkoutSessionId, status: { in: ["PENDING", "FAILED"] } },
+      data: { status: "EXPIRED" },
+    });
+    if (count === 0) return;
+
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      select: {
+        status: true,
+        payments: {
+          where: { status: { in: ["PENDING", "SUCCEEDED"] } },
+          select: { id: true },
+        },
+      },
+    });
+    if (order?.status === "CREATED" && order.payments.length === 0) {
+      await transitionOrderStatus(tx, orderId, "CANCELLED", {
+        note: "Checkout session expired, reserved stock released",
+      });
+    }
+  });
+}
+
+/**
+ * Check the order's latest checkout session with its payment provider, in
+ * case the webhook is late or was missed, and record the payment if the
+ * session was paid.
+ * Returns the session's payment status ("paid", "unpaid" or
+ * "no_payment_required"), or null when the order has no checkout session.
+ */
+export async function reconcilePayment(orderId: string) {
+  const payment = await prisma.payment.findFirst({
+    where: { orderId, checkoutSessionId: { not: null } },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!payment?.checkoutSessionId) return null;
+
+  const session = await getPaymentProvider(
+    payment.provider
+  ).retrieveCheckoutSession(payment.checkoutSessionId);
+  if (session.paymentStatus === "paid") {
+    await recordPaymentSucceeded(orderId, {
+      checkoutSessionId: session.id,
+      paymentIntentId: session.paymentIntentId,
+    });
+  }
+  return session.paymentStatus;
+}
+
+/**
+ * The card payment of an order (its first successful attempt, see
+ * isOrderPayment), with its payment intent, looked up from its checkout
+ * session if the webhook has not recorded it yet. Null when the order has no
+ * card payment to refund.
+ */
+export async function getOrderPayment(orderId: string) {
+  const payment = await prisma.payment.findFirst({
+    where: { orderId, status: "SUCCEEDED" },
+    orderBy: { paidAt: "asc" },
+  });
+  if (!payment || payment.paymentIntentId) return payment;
+  if (!payment.checkoutSessionId) return null;
+
+  const session = await getPaymentProvider(
+    payment.provider
+  ).retrieveCheckoutSession(payment.checkoutSessionId);
+  if (!session.paymentIntentId) return null;
+  return prisma.payment.update({
+    where: { id: payment.id },
+    data: { paymentIntentId: session.paymentIntentId },
+  });
+}
+
+/**
+ * Refund (part of) a card payment with its provider and return the refund
+ * id. The idempotency key makes a retry after a failed update return the
+ * same refund instead of refunding twice.
+ */
+export async function refundPayment(
+  payment: Payment,
+  amountCents: number,
+  options: { metadata: Record<string, string>; idempotencyKey: string }
+) {
+  if (!payment.paymentIntentId) throw new Error("PAYMENT_NOT_CAPTURED");
+  return getPaymentProvider(payment.provider).createRefund(
+    payment.paymentIntentId,
+    amountCents,
+    options
+  );
+}
+
+/**
+ * Record the refunds of a payment not recorded yet, e.g. made in the Stripe
+ * dashboard (see lib/refunds.ts)
+ */
+export async function syncPaymentRefunds(paymentIntentId: string) {
+  const payment = await prisma.payment.findUnique({
+    where: { paymentIntentId },
+    select: { orderId: true, provider: true, status: true },
+  });
+  // Refunded because its order could no longer be paid: not an order refund
+  if (payment?.status === "REFUNDED") return;
+  const provider = getPaymentProvider(payment?.provider);
+  // The payment intent is not recorded yet if the payment webhook was missed
+  const orderId =
+    payment?.orderId ??
+    (await provider.findCheckoutSessionByPaymentIntent(paymentIntentId))
+      ?.orderId;
+  if (!orderId) {
+    console.error(`[Payments] Refund for unknown payment ${paymentIntentId}`);
+    return;
+  }
+
+  for (const refund of await provider.listRefunds(paymentIntentId)) {
+    if (refund.status !== "succeeded" && refund.status !== "pending") continue;
+    await prisma.$transaction((tx) =>
+      recordRefund(tx, orderId, {
+        amountCents: refund.amountCents,
+        stripeRefundId: refund.id,
+        reason: refund.reason ?? "Refunded in Stripe",
+      })
+    );
+  }
+}
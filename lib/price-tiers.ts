@@ -0,0 +1,49 @@
+// Volume pricing helpers, shared by the pricing resolver and the UI
+
+export type PriceTier = { minQuantity: number; priceCents: number };
+
+function sortTiers(tiers: PriceTier[]) {
+  return [...tiers].sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+// Unit price at a quantity: the highest tier reached, else the base price
+export function tierUnitPrice(
+  basePriceCents: number,
+  tiers: PriceTier[],
+  quantity: number
+) {
+  let priceCents = basePriceCents;
+  for (const tier of sortTiers(tiers)) {
+    if (quantity >= tier.minQuantity) priceCents = tier.priceCents;
+  }
+  return priceCents;
+}
+
+// The next tier with a lower unit price, for "add N more to save" hints
+export function nextTier(
+  basePriceCents: number,
+  tiers: PriceTier[],
+  quantity: number
+) {
+  const current = tierUnitPrice(basePriceCents, tiers, quantity);
+  const next = sortTiers(tiers).find(
+    (tier) => tier.minQuantity > quantity && tier.priceCents < current
+  );
+  if (!next) return null;
+  return {
+    addQuantity: next.minQuantity - quantity,
+    priceCents: next.priceCents,
+    savingsCents: (current - next.priceCents) * next.minQuantity,
+  };
+}
+
+// Rows for a tier table: 1–9 at base price, 10–49, 50+ ...
+export function tierTable(basePriceCents: number, tiers: PriceTier[]) {
+  const sorted = sortTiers(tiers).filter((tier) => tier.minQuantity > 1);
+  const starts = [{ minQuantity: 1, priceCents: basePriceCents }, ...sorted];
+  return starts.map((tier, i) => ({
+    minQuantity: tier.minQuantity,
+    maxQuantity: i + 1 < starts.length ? starts[i + 1].minQuantity - 1 : null,
+    priceCents: tier.priceCents,
+  }));
+}
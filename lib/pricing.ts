@@ -0,0 +1,86 @@
+import { Prisma } from "@prisma/client";
+import { tierUnitPrice } from "@/lib/price-tiers";
+
+// Who is buying, and when: selects the price lists that apply
+export type PricingContext = {
+  buyerId: string;
+  companyId: string | null;
+  at?: Date;
+};
+
+// A product being priced, at the quantity in the cart or order (default 1)
+type PricedProduct = { id: string; priceCents: number; quantity?: number };
+
+/**
+ * Resolve the unit price of each product for a buyer.
+ * A contract price from the buyer's own price list wins over their
+ * company's; among lists of the same kind the one that started most
+ * recently wins. Products without a contract price use their volume tier
+ * for the quantity, falling back to Product.priceCents.
+ *
+ * Returns productId -> unit price in cents
+ */
+export async function resolveUnitPrices(
+  db: Prisma.TransactionClient,
+  products: PricedProduct[],
+  { buyerId, companyId, at = new Date() }: PricingContext
+): Promise<Map<string, number>> {
+  const prices = new Map(products.map((p) => [p.id, p.priceCents]));
+  if (products.length === 0) return prices;
+
+  const productIds = products.map((p) => p.id);
+  const [lists, tiers] = await Promise.all([
+    db.priceList.findMany({
+      where: {
+        OR: [{ buyerId }, ...(companyId ? [{ companyId }] : [])],
+        AND: [
+          { OR: [{ validFrom: null }, { validFrom: { lte: at } }] },
+          { OR: [{ validTo: null }, { validTo: { gte: at } }] },
+        ],
+      },
+      include: { items: { where: { productId: { in: productIds } } } },
+    }),
+    db.productPriceTier.findMany({
+      where: { productId: { in: productIds } },
+    }),
+  ]);
+
+  for (const product of products) {
+    prices.set(
+      product.id,
+      tierUnitPrice(
+        product.priceCents,
+        tiers.filter((tier) => tier.productId === product.id),
+        product.quantity ?? 1
+      )
+    );
+  }
+
+  // Most specific first: buyer lists, then company lists, newest start first
+  const ranked = lists.sort(
+    (a, b) =>
+      Number(!a.buyerId) - Number(!b.buyerId) ||
+      (b.validFrom?.getTime() ?? 0) - (a.validFrom?.getTime() ?? 0) ||
+      b.createdAt.getTime() - a.createdAt.getTime()
+  );
+
+  const contracted = new Set<string>();
+  for (const list of ranked) {
+    for (const item of list.items) {
+      if (contracted.has(item.productId)) continue;
+      prices.set(item.productId, item.priceCents);
+      contracted.add(item.productId);
+    }
+  }
+
+  return prices;
+}
+
+export async function resolveUnitPrice(
+  db: Prisma.TransactionClient,
+  product: PricedProduct,
+  context: PricingContext
+) {
+  const prices = await resolveUnitPrices(db, [product], context);
+  return prices.get(product.id) ?? product.priceCents;
+}
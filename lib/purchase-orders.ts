@@ -0,0 +1,388 @@
+import { Prisma, PurchaseOrderStatus } from "@prisma/client";
+import { receiveStock } from "@/lib/inventory";
+
+// Replenishment: purchase orders to suppliers for stock delivered to a
+// warehouse. A purchase order is drafted (possibly from the reorder
+// suggestions), ordered, then received in one or more deliveries; each
+// delivery puts the stock on hand as a RECEIPT movement referencing the
+// purchase order.
+
+export type PurchaseOrderLineInput = {
+  productId: string;
+  quantity: number;
+  unitCostCents: number;
+};
+
+// e.g. 42 -> "PO-000042"
+export function formatPurchaseOrderNumber(number: number) {
+  return `PO-${String(number).padStart(6, "0")}`;
+}
+
+// Purchase orders whose stock is still expected
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  "ORDERED",
+  "PARTIALLY_RECEIVED",
+];
+
+// What a purchase order shows admins: supplier, destination and products
+export const purchaseOrderInclude = {
+  supplier: { select: { id: true, name: true } },
+  warehouse: { select: { id: true, code: true, name: true } },
+  createdBy: { select: { email: true } },
+  lines: {
+    include: { product: { select: { id: true, sku: true, name: true } } },
+    orderBy: { product: { name: "asc" } },
+  },
+} satisfies Prisma.PurchaseOrderInclude;
+
+// Status -> statuses it may move to by hand (receiving moves ORDERED and
+// PARTIALLY_RECEIVED orders forward, see receivePurchaseOrder)
+const PURCHASE_ORDER_TRANSITIONS: Record<
+  PurchaseOrderStatus,
+  PurchaseOrderStatus[]
+> = {
+  DRAFT: ["ORDERED", "CANCELLED"],
+  ORDERED: ["CANCELLED"],
+  PARTIALLY_RECEIVED: ["CANCELLED"],
+  RECEIVED: [],
+  CANCELLED: [],
+};
+
+/**
+ * Units of each product still expected at a warehouse from open purchase
+ * orders, by product id
+ */
+export async function getOnOrderQuantities(
+  db: Prisma.TransactionClient,
+  warehouseId: string,
+  productIds?: string[]
+) {
+  const lines = await db.purchaseOrderLine.findMany({
+    where: {
+      purchaseOrder: {
+        warehouseId,
+        status: { in: OPEN_PURCHASE_ORDER_STATUSES },
+      },
+      ...(productIds && { productId: { in: productIds } }),
+    },
+    select: { productId: true, quantity: true, receivedQuantity: true },
+  });
+
+  const onOrder = new Map<string, number>();
+  for (const line of lines) {
+    onOrder.set(
+      line.productId,
+      (onOrder.get(line.productId) ?? 0) +
+        Math.max(line.quantity - line.receivedQuantity, 0)
+    );
+  }
+  return onOrder;
+}
+
+/**
+ * What to reorder for a warehouse: its low-stock products (on hand at or
+ * below the location's low-stock level, or the product's) with enough to
+ * bring them back to twice that level, less what is already on order.
+ * Products already covered by open purchase orders are left out.
+ */
+export async function getReorderSuggestions(
+  db: Prisma.TransactionClient,
+  warehouseId: string
+) {
+  const inventories = await db.inventory.findMany({
+    where: { ownerType: "PLATFORM", warehouseId },
+    include: {
+      product: {
+        select: { id: true, sku: true, name: true, lowThreshold: true },
+      },
+    },
+  });
+  const lowStock = inventories.filter(
+    (inventory) =>
+      inventory.quantity <=
+      (inventory.threshold ?? inventory.product.lowThreshold)
+  );
+  const onOrder = await getOnOrderQuantities(
+    db,
+    warehouseId,
+    lowStock.map((inventory) => inventory.productId)
+  );
+
+  return lowStock
+    .map((inventory) => {
+      const threshold = inventory.threshold ?? inventory.product.lowThreshold;
+      const expected = onOrder.get(inventory.productId) ?? 0;
+      return {
+        productId: inventory.productId,
+        sku: inventory.product.sku,
+        name: inventory.product.name,
+        currentStock: inventory.quantity,
+        lowThreshold: threshold,
+        onOrder: expected,
+        suggestedQuantity: Math.max(
+          threshold * 2 - inventory.quantity - expected,
+          0
+        ),
+      };
+    })
+    .filter((suggestion) => suggestion.suggestedQuantity > 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Every line must be for an existing product
+async function checkProducts(
+  tx: Prisma.TransactionClient,
+  lines: PurchaseOrderLineInput[]
+) {
+  const count = await tx.product.count({
+    where: { id: { in: lines.map((line) => line.productId) } },
+  });
+  if (count !== new Set(lines.map((line) => line.productId)).size) {
+    throw new Error("PRODUCT_NOT_FOUND");
+  }
+}
+
+/**
+ * Draft a purchase order, with the next purchase order number.
+ *
+ * Throws SUPPLIER_NOT_FOUND, WAREHOUSE_NOT_FOUND or PRODUCT_NOT_FOUND
+ */
+export async function createPurchaseOrder(
+  tx: Prisma.TransactionClient,
+  data: {
+    supplierId: string;
+    warehouseId: string;
+    lines: PurchaseOrderLineInput[];
+    notes?: string | null;
+    expectedAt?: Date | null;
+    actorId?: string | null;
+  }
+) {
+  const [supplier, warehouse] = await Promise.all([
+    tx.supplier.findUnique({ where: { id: data.supplierId } }),
+    tx.warehouse.findUnique({ where: { id: data.warehouseId } }),
+  ]);
+  if (!supplier) throw new Error("SUPPLIER_NOT_FOUND");
+  if (!warehouse) throw new Error("WAREHOUSE_NOT_FOUND");
+  await checkProducts(tx, data.lines);
+
+  // The counter row stays locked until the transaction commits, so numbers
+  // are sequential without gaps
+  const counter = await tx.counter.upsert({
+    where: { name: "purchaseOrder" },
+    create: { name: "purchaseOrder", value: 1 },
+    update: { value: { increment: 1 } },
+  });
+
+  return tx.purchaseOrder.create({
+    data: {
+      number: counter.value,
+      supplierId: data.supplierId,
+      warehouseId: data.warehouseId,
+      notes: data.notes,
+      expectedAt: data.expectedAt,
+      createdById: data.actorId ?? null,
+      lines: { create: data.lines },
+    },
+    include: purchaseOrderInclude,
+  });
+}
+
+/**
+ * Edit a DRAFT purchase order. Sending lines replaces all of them.
+ *
+ * Throws PURCHASE_ORDER_NOT_FOUND, PURCHASE_ORDER_NOT_EDITABLE:<status>,
+ * SUPPLIER_NOT_FOUND, WAREHOUSE_NOT_FOUND or PRODUCT_NOT_FOUND
+ */
+export async function updatePurchaseOrder(
+  tx: Prisma.TransactionClient,
+  id: string,
+  data: {
+    supplierId?: string;
+    warehouseId?: string;
+    lines?: PurchaseOrderLineInput[];
+    notes?: string | null;
+    expectedAt?: Date | null;
+  }
+) {
+  const purchaseOrder = await tx.purchaseOrder.findUnique({ where: { id } });
+  if (!purchaseOrder) throw new Error("PURCHASE_ORDER_NOT_FOUND");
+  if (purchaseOrder.status !== "DRAFT") {
+    throw new Error(`PURCHASE_ORDER_NOT_EDITABLE:${purchaseOrder.status}`);
+  }
+  if (
+    data.supplierId &&
+    !(await tx.supplier.findUnique({ where: { id: data.supplierId } }))
+  ) {
+    throw new Error("SUPPLIER_NOT_FOUND");
+  }
+  if (
+    data.warehouseId &&
+    !(await tx.warehouse.findUnique({ where: { id: data.warehouseId } }))
+  ) {
+    throw new Error("WAREHOUSE_NOT_FOUND");
+  }
+  if (data.lines) await checkProducts(tx, data.lines);
+
+  const { lines, ...fields } = data;
+  return tx.purchaseOrder.update({
+    where: { id },
+    data: {
+      ...fields,
+      ...(lines && { lines: { deleteMany: {}, create: lines } }),
+    },
+    include: purchaseOrderInclude,
+  });
+}
+
+/**
+ * Order a DRAFT purchase order from its supplier (-> ORDERED), or cancel a
+ * purchase order whose stock has not all been received (-> CANCELLED; what
+ * was received stays on hand).
+ *
+ * Throws PURCHASE_ORDER_NOT_FOUND, EMPTY_PURCHASE_ORDER or
+ * INVALID_TRANSITION:<from>:<to>
+ */
+export async function transitionPurchaseOrder(
+  tx: Prisma.TransactionClient,
+  id: string,
+  toStatus: "ORDERED" | "CANCELLED"
+) {
+  const purchaseOrder = await tx.purchaseOrder.findUnique({
+    where: { id },
+    include: { _count: { select: { lines: true } } },
+  });
+  if (!purchaseOrder) throw new Error("PURCHASE_ORDER_NOT_FOUND");
+  if (!PURCHASE_ORDER_TRANSITIONS[purchaseOrder.status].includes(toStatus)) {
+    throw new Error(`INVALID_TRANSITION:${purchaseOrder.status}:${toStatus}`);
+  }
+  if (toStatus === "ORDERED" && purchaseOrder._count.lines === 0) {
+    throw new Error("EMPTY_PURCHASE_ORDER");
+  }
+
+  // Guard against a concurrent change from the same status
+  const { count } = await tx.purchaseOrder.updateMany({
+    where: { id, status: purchaseOrder.status },
+    data: {
+      status: toStatus,
+      ...(toStatus === "ORDERED" && { orderedAt: new Date() }),
+    },
+  });
+  if (count === 0) {
+    throw new Error(`INVALID_TRANSITION:${purchaseOrder.status}:${toStatus}`);
+  }
+
+  return tx.purchaseOrder.findUniqueOrThrow({
+    where: { id },
+    include: purchaseOrderInclude,
+  });
+}
+
+/**
+ * Receive a (possibly partial) delivery of an ORDERED or PARTIALLY_RECEIVED
+ * purchase order: each line's quantity is put on hand at the purchase
+ * order's warehouse (RECEIPT). When no items are given, everything still
+ * expected is received. The purchase order becomes RECEIVED once every line
+ * is, PARTIALLY_RECEIVED otherwise. A line is only incremented while the
+ * quantity still fits, so that concurrent receipts cannot over-receive it.
+ *
+ * Throws PURCHASE_ORDER_NOT_FOUND, PURCHASE_ORDER_NOT_RECEIVABLE:<status>,
+ * INVALID_LINE:<lineId>, QUANTITY_EXCEEDED:<productName> or
+ * NOTHING_TO_RECEIVE
+ */
+export async function receivePurchaseOrder(
+  tx: Prisma.TransactionClient,
+  id: string,
+  data: {
+    items?: { lineId: string; quantity: number }[];
+    note?: string | null;
+    actorId?: string | null;
+  }
+) {
+  const purchaseOrder = await tx.purchaseOrder.findUnique({
+    where: { id },
+    include: { lines: { include: { product: { select: { name: true } } } } },
+  });
+  if (!purchaseOrder) throw new Error("PURCHASE_ORDER_NOT_FOUND");
+  if (!OPEN_PURCHASE_ORDER_STATUSES.includes(purchaseOrder.status)) {
+    throw new Error(`PURCHASE_ORDER_NOT_RECEIVABLE:${purchaseOrder.status}`);
+  }
+
+  const linesById = new Map(purchaseOrder.lines.map((line) => [line.id, line]));
+  const items =
+    data.items ??
+    purchaseOrder.lines.map((line) => ({
+      lineId: line.id,
+      quantity: line.quantity - line.receivedQuantity,
+    }));
+
+  const toReceive = new Map<string, number>();
+  for (const item of items) {
+    const line = linesById.get(item.lineId);
+    if (!line) throw new Error(`INVALID_LINE:${item.lineId}`);
+    if (item.quantity <= 0) continue;
+
+    const quantity = (toReceive.get(line.id) ?? 0) + item.quantity;
+    if (line.receivedQuantity + quantity > line.quantity) {
+      throw new Error(`QUANTITY_EXCEEDED:${line.product.name}`);
+    }
+    toReceive.set(line.id, quantity);
+  }
+  if (toReceive.size === 0) throw new Error("NOTHING_TO_RECEIVE");
+
+  const reference = formatPurchaseOrderNumber(purchaseOrder.number);
+  for (const [lineId, quantity] of toReceive) {
+    const line = linesById.get(lineId)!;
+    const { count } = await tx.purchaseOrderLine.updateMany({
+      where: {
+        id: lineId,
+        receivedQuantity: { lte: line.quantity - quantity },
+      },
+      data: { receivedQuantity: { increment: quantity } },
+    });
+    if (count === 0) throw new Error(`QUANTITY_EXCEEDED:${line.product.name}`);
+    await receiveStock(
+      tx,
+      { productId: line.productId, warehouseId: purchaseOrder.warehouseId },
+      quantity,
+      {
+        referenceId: purchaseOrder.id,
+        actorId: data.actorId,
+        note: data.note ? `${reference}: ${data.note}` : reference,
+      }
+    );
+  }
+
+  // Lock the purchase order, then read its lines again: a concurrent
+  // receipt may have received other lines since
+  await tx.purchaseOrder.update({
+    where: { id },
+    data: { status: "PARTIALLY_RECEIVED" },
+  });
+  const lines = await tx.purchaseOrderLine.findMany({
+    where: { purchaseOrderId: id },
+    select: { quantity: true, receivedQuantity: true },
+  });
+  const fullyReceived = lines.every(
+    (line) => line.receivedQuantity >= line.quantity
+  );
+  return tx.purchaseOrder.update({
+    where: { id },
+    data: fullyReceived ? { status: "RECEIVED", receivedAt: new Date() } : {},
+    include: purchaseOrderInclude,
+  });
+}
+
+// Ordered and received units and value of a purchase order
+export function summarizePurchaseOrder(
+  lines: { quantity: number; receivedQuantity: number; unitCostCents: number }[]
+) {
+  return {
+    orderedUnits: lines.reduce((sum, line) => sum + line.quantity, 0),
+    receivedUnits: lines.reduce((sum, line) => sum + line.receivedQuantity, 0),
+    totalCents: lines.reduce(
+      (sum, line) => sum + line.quantity * line.unitCostCents,
+      0
+    ),
+  };
+}
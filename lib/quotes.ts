@@ -0,0 +1,142 @@
+import { Prisma, ShippingMethod } from "@prisma/client";
+import { placeOrder } from "@/lib/orders";
+import { validateOrderLines } from "@/lib/order-rules";
+
+export type QuoteResponse =
+  | {
+      action: "QUOTE";
+      lines: { lineId: string; unitPriceCents: number }[];
+      expiresAt: Date;
+      adminNotes?: string;
+    }
+  | { action: "DECLINE"; adminNotes?: string };
+
+// Quoted prices past their expiry can no longer be accepted
+export async function expireQuotes(db: Prisma.TransactionClient) {
+  await db.quote.updateMany({
+    where: { status: "QUOTED", expiresAt: { lt: new Date() } },
+    data: { status: "EXPIRED" },
+  });
+}
+
+/**
+ * Price a requested quote (-> QUOTED) or decline it (-> DECLINED).
+ * A quote that is already QUOTED can be revised until the buyer accepts it.
+ * Every line needs a price, either in this response or from a previous one.
+ *
+ * Throws QUOTE_NOT_FOUND, QUOTE_NOT_OPEN:<status>, INVALID_LINE:<lineId>
+ * or MISSING_LINE_PRICE:<productName>
+ */
+export async function respondToQuote(
+  tx: Prisma.TransactionClient,
+  quoteId: string,
+  adminId: string,
+  response: QuoteResponse
+) {
+  const quote = await tx.quote.findUnique({
+    where: { id: quoteId },
+    include: { lines: { include: { product: { select: { name: true } } } } },
+  });
+  if (!quote) throw new Error("QUOTE_NOT_FOUND");
+  if (quote.status !== "REQUESTED" && quote.status !== "QUOTED") {
+    throw new Error(`QUOTE_NOT_OPEN:${quote.status}`);
+  }
+
+  if (response.action === "QUOTE") {
+    const prices = new Map(
+      quote.lines.map((line) => [line.id, line.quotedUnitPriceCents])
+    );
+    for (const { lineId, unitPriceCents } of response.lines) {
+      if (!prices.has(lineId)) throw new Error(`INVALID_LINE:${lineId}`);
+      prices.set(lineId, unitPriceCents);
+    }
+    const unpriced = quote.lines.find((line) => prices.get(line.id) == null);
+    if (unpriced) {
+      throw new Error(`MISSING_LINE_PRICE:${unpriced.product.name}`);
+    }
+
+    for (const { lineId, unitPriceCents } of response.lines) {
+      await tx.quoteLine.update({
+        where: { id: lineId },
+        data: { quotedUnitPriceCents: unitPriceCents },
+      });
+    }
+  }
+
+  return tx.quote.update({
+    where: { id: quoteId },
+    data: {
+      status: response.action === "QUOTE" ? "QUOTED" : "DECLINED",
+      adminNotes: response.adminNotes,
+      expiresAt: response.action === "QUOTE" ? response.expiresAt : null,
+      respondedById: adminId,
+      respondedAt: new Date(),
+    },
+    include: { lines: { include: { product: true } } },
+  });
+}
+
+/**
+ * Accept a quoted quote: creates the order at the quoted prices (reserving
+ * stock like a cart order) and links it to the quote.
+ *
+ * Quantities are re-checked against the products' ordering rules, which may
+ * have changed since the quote was requested.
+ *
+ * Throws QUOTE_NOT_FOUND, QUOTE_NOT_QUOTED:<status>, QUOTE_EXPIRED,
+ * ORDER_RULES_VIOLATED:<productName>, STOCK_INSUFFICIENT:<productName>, ADDRESS_NOT_FOUND,
+ * SHIPPING_ADDRESS_REQUIRED or SHIPPING_METHOD_UNAVAILABLE[:<method>]
+ */
+export async function acceptQuote(
+  tx: Prisma.TransactionClient,
+  quoteId: string,
+  buyerId: string,
+  data: {
+    poNumber?: string;
+    notes?: string;
+    shippingMethod?: ShippingMethod;
+    shippingAddressId?: string;
+    billingAddressId?: string;
+  } = {}
+) {
+  const quote = await tx.quote.findUnique({
+    where: { id: quoteId },
+    include: { lines: { include: { product: true } } },
+  });
+  if (!quote) throw new Error("QUOTE_NOT_FOUND");
+  if (quote.status !== "QUOTED") {
+    throw new Error(`QUOTE_NOT_QUOTED:${quote.status}`);
+  }
+  if (quote.expiresAt && quote.expiresAt < new Date()) {
+    throw new Error("QUOTE_EXPIRED");
+  }
+  const [lineError] = validateOrderLines(quote.lines);
+  if (lineError) {
+    throw new Error(`ORDER_RULES_VIOLATED:${lineError.productName}`);
+  }
+
+  const order = await placeOrder(tx, {
+    buyerId,
+    companyId: quote.companyId,
+    poNumber: data.poNumber,
+    notes: data.notes,
+    shippingMethod: data.shippingMethod,
+    shippingAddressId: data.shippingAddressId,
+    billingAddressId: data.billingAddressId,
+    lines: quote.lines.map((line) => ({
+      productId: line.productId,
+      productName: line.product.name,
+      quantity: line.quantity,
+      unitPriceCents: line.quotedUnitPriceCents!,
+    })),
+  });
+
+  // Guard against accepting the same quote twice concurrently
+  const { count } = await tx.quote.updateMany({
+    where: { id: quoteId, status: "QUOTED" },
+    data: { status: "ACCEPTED", orderId: order.id },
+  });
+  if (count === 0) throw new Error(`QUOTE_NOT_QUOTED:${quote.status}`);
+
+  return order;
+}
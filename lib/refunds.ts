@@ -0,0 +1,295 @@
+import { Prisma } from "@prisma/client";
+import { restockRefundedUnits } from "@/lib/inventory";
+import { cancelDropShipUnits } from "@/lib/suppliers";
+import { getShippedQuantities } from "@/lib/shipments";
+import { transitionOrderStatus } from "@/lib/order-status";
+import { calculateRefundCents } from "@/lib/returns";
+import { creditInvoice } from "@/lib/invoices";
+
+// Refunds of paid orders. An admin refunds an amount, units that have not
+// shipped yet (put back in stock, they no longer ship) or the whole order,
+// which cancels it. Card payments are refunded through Stripe; refunds of
+// orders on account are taken off their invoice, paid or not. A refund is
+// recorded once per Stripe refund, so refunds of approved returns (see
+// lib/returns.ts) and refunds made in the Stripe dashboard (charge.refunded
+// webhook) count toward the order's refunded amount too.
+
+export type RefundLineInput = { orderLineId: string; quantity: number };
+
+export type RefundRequest = {
+  // units not shipped yet, refunded with their share of the line's tax
+  lines?: RefundLineInput[];
+  // refunded instead of the lines' price (e.g. to include shipping)
+  amountCents?: number;
+  // refund every unit and what is left of the payment, cancelling the order
+  cancel?: boolean;
+};
+
+// e.g. PARTIALLY_REFUNDED until the whole total is refunded
+export function getRefundPaymentStatus(order: {
+  totalCents: number;
+  refundedCents: number;
+}) {
+  return order.refundedCents >= order.totalCents
+    ? "REFUNDED"
+    : "PARTIALLY_REFUNDED";
+}
+
+// Order line include for getRefundableQuantities
+export const refundableLineInclude = {
+  shipmentItems: { select: { quantity: true } },
+} satisfies Prisma.OrderLineInclude;
+
+// Units of each order line neither shipped nor refunded, by order line id
+export function getRefundableQuantities(
+  lines: {
+    id: string;
+    quantity: number;
+    refundedQuantity: number;
+    shipmentItems: { quantity: number }[];
+  }[]
+) {
+  const shipped = getShippedQuantities(lines);
+  return new Map(
+    lines.map((line) => [
+      line.id,
+      line.quantity - line.refundedQuantity - (shipped.get(line.id) ?? 0),
+    ])
+  );
+}
+
+async function findRefundableOrder(
+  db: Prisma.TransactionClient,
+  orderId: string
+) {
+  const order = await db.order.findUnique({
+    where: { id: orderId },
+    include: {
+      lines: {
+        include: {
+          ...refundableLineInclude,
+          product: { select: { name: true } },
+        },
+      },
+    },
+  });
+  if (!order) throw new Error("ORDER_NOT_FOUND");
+  return order;
+}
+
+// Units to refund per order line id; a line's units can only be refunded
+// once and not after they shipped
+function getUnitsToRefund(
+  order: Awaited<ReturnType<typeof findRefundableOrder>>,
+  lines: RefundLineInput[]
+) {
+  const refundable = getRefundableQuantities(order.lines);
+  const linesById = new Map(order.lines.map((line) => [line.id, line]));
+
+  const toRefund = new Map<string, number>();
+  for (const item of lines) {
+    const line = linesById.get(item.orderLineId);
+    if (!line) throw new Error(`INVALID_LINE:${item.orderLineId}`);
+    if (item.quantity <= 0) continue;
+
+    const quantity = (toRefund.get(line.id) ?? 0) + item.quantity;
+    if (quantity > (refundable.get(line.id) ?? 0)) {
+      throw new Error(`QUANTITY_EXCEEDED:${line.product.name}`);
+    }
+    toRefund.set(line.id, quantity);
+  }
+  return toRefund;
+}
+
+/**
+ * Work out a refund of a paid order, or an order on account, before it is
+ * issued: the units and the amount to refund. Without lines or an amount, what is left of the payment
+ * is refunded. Cancelling refunds every unit and what is left of the
+ * payment, and is only possible while the order is PAID and nothing shipped.
+ *
+ * Throws ORDER_NOT_FOUND, ORDER_NOT_PAID, ORDER_NOT_CANCELLABLE:<status>,
+ * INVALID_LINE:<lineId>, QUANTITY_EXCEEDED:<productName>,
+ * AMOUNT_EXCEEDED:<refundableCents> or NOTHING_TO_REFUND
+ */
+export async function prepareRefund(
+  db: Prisma.TransactionClient,
+  orderId: string,
+  request: RefundRequest
+) {
+  const order = await findRefundableOrder(db, orderId);
+  // Orders on account are invoiced, and refundable, before they are paid
+  if (!order.paidAt && order.paymentMethod !== "ON_ACCOUNT") {
+    throw new Error("ORDER_NOT_PAID");
+  }
+
+  const linesById = new Map(order.lines.map((line) => [line.id, line]));
+  const refundableCents = order.totalCents - order.refundedCents;
+
+  let toRefund: Map<string, number>;
+  let amountCents: number;
+  if (request.cancel) {
+    const shipped = getShippedQuantities(order.lines);
+    if (
+      order.status !== "PAID" ||
+      order.lines.some((line) => (shipped.get(line.id) ?? 0) > 0)
+    ) {
+      throw new Error(`ORDER_NOT_CANCELLABLE:${order.status}`);
+    }
+    toRefund = new Map(
+      Array.from(getRefundableQuantities(order.lines)).filter(
+        ([, quantity]) => quantity > 0
+      )
+    );
+    amountCents = refundableCents;
+  } else {
+    toRefund = getUnitsToRefund(order, request.lines ?? []);
+    amountCents =
+      request.amountCents ??
+      (toRefund.size > 0
+        ? calculateRefundCents(
+            Array.from(toRefund, ([lineId, quantity]) => ({
+              quantity,
+              orderLine: linesById.get(lineId)!,
+            }))
+          )
+        : refundableCents);
+  }
+
+  if (amountCents > refundableCents) {
+    throw new Error(`AMOUNT_EXCEEDED:${refundableCents}`);
+  }
+  if (amountCents <= 0 && toRefund.size === 0) {
+    throw new Error("NOTHING_TO_REFUND");
+  }
+
+  return {
+    order,
+    amountCents,
+    lines: Array.from(toRefund, ([orderLineId, quantity]) => ({
+      orderLineId,
+      quantity,
+    })),
+  };
+}
+
+/**
+ * Record a refund of a paid order (see prepareRefund), once per Stripe
+ * refund. Refunded units no longer ship: backordered units first, then units
+ * on drop-ship orders (back to the suppliers' stock, see cancelDropShipUnits),
+ * then units put back on hand at warehouses (REFUND, see
+ * restockRefundedUnits). The order's refunded amount and payment status are
+ * updated, an order on account has its invoice credited (see creditInvoice),
+ * and a PAID order left with nothing to ship moves to SHIPPED, or to
+ * CANCELLED when none of it shipped.
+ *
+ * A Stripe refund the charge.refunded webhook recorded first (it can arrive
+ * before the admin's request completes) is not counted twice, but the
+ * admin's lines are still refunded.
+ *
+ * Throws ORDER_NOT_FOUND, INVALID_LINE:<lineId> or
+ * QUANTITY_EXCEEDED:<productName>
+ */
+export async function recordRefund(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  data: {
+    amountCents: number;
+    stripeRefundId?: string | null;
+    reason?: string | null;
+    lines?: RefundLineInput[];
+    actorId?: string | null;
+  }
+) {
+  const order = await findRefundableOrder(tx, orderId);
+  const toRefund = getUnitsToRefund(order, data.lines ?? []);
+
+  const existing = data.stripeRefundId
+    ? await tx.orderRefund.findUnique({
+        where: { stripeRefundId: data.stripeRefundId },
+      })
+    : null;
+  let refund = existing;
+  if (existing) {
+    // Only a refund synced from Stripe is claimed by the admin who issued it
+    const { count } = data.actorId
+      ? await tx.orderRefund.updateMany({
+          where: { id: existing.id, createdById: null },
+          data: { createdById: data.actorId, reason: data.reason },
+        })
+      : { count: 0 };
+    if (count === 0) return existing;
+  } else {
+    refund = await tx.orderRefund.create({
+      data: {
+        orderId,
+        amountCents: data.amountCents,
+        stripeRefundId: data.stripeRefundId ?? null,
+        reason: data.reason,
+        createdById: data.actorId ?? null,
+      },
+    });
+    await tx.order.update({
+      where: { id: orderId },
+      data: { refundedCents: { increment: data.amountCents } },
+    });
+    if (order.paymentMethod === "ON_ACCOUNT") {
+      await creditInvoice(tx, orderId, data.amountCents);
+    }
+  }
+
+  const source = { referenceId: orderId, actorId: data.actorId };
+  for (const line of order.lines) {
+    const quantity = toRefund.get(line.id) ?? 0;
+    if (quantity === 0) continue;
+
+    // Backordered units were never taken from stock
+    const backordered = Math.min(line.backorderedQuantity, quantity);
+    let units = quantity - backordered;
+    units -= await cancelDropShipUnits(tx, line.id, units, source);
+    await restockRefundedUnits(
+      tx,
+      line.id,
+      units,
+      { ownerType: "PLATFORM" },
+      source
+    );
+
+    await tx.orderLine.update({
+      where: { id: line.id },
+      data: {
+        backorderedQuantity: { decrement: backordered },
+        refundedQuantity: { increment: quantity },
+      },
+    });
+  }
+
+  const refunded = await findRefundableOrder(tx, orderId);
+  if (refunded.refundedCents > 0) {
+    await tx.order.update({
+      where: { id: orderId },
+      data: { paymentStatus: getRefundPaymentStatus(refunded) },
+    });
+  }
+
+  const nothingToShip = Array.from(
+    getRefundableQuantities(refunded.lines).values()
+  ).every((quantity) => quantity <= 0);
+  if (refunded.status === "PAID" && nothingToShip) {
+    const allRefunded = refunded.lines.every(
+      (line) => line.refundedQuantity >= line.quantity
+    );
+    await transitionOrderStatus(
+      tx,
+      orderId,
+      allRefunded ? "CANCELLED" : "SHIPPED",
+      {
+        actorId: data.actorId,
+        note: allRefunded
+          ? "All items refunded"
+          : "Items not shipped were refunded",
+      }
+    );
+  }
+
+  return tx.orderRefund.findUniqueOrThrow({ where: { id: refund!.id } });
+}
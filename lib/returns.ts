@@ -0,0 +1,289 @@
+import {
+  OrderStatus,
+  Prisma,
+  ReturnDisposition,
+  ReturnStatus,
+} from "@prisma/client";
+import { returnStock } from "@/lib/inventory";
+import { getShippedQuantities } from "@/lib/shipments";
+
+// Returns (RMA): a buyer returns shipped units of an order with a reason. An
+// admin approves the return, which refunds the units and their tax (through
+// Stripe for orders paid by card), or rejects it. Once the goods arrive each
+// line is restocked at a warehouse, as a RETURN movement referencing the
+// return, or scrapped.
+
+export type ReturnLineInput = { orderLineId: string; quantity: number };
+
+export type ReturnResponse =
+  | { action: "APPROVE"; adminNotes?: string; refundId?: string | null }
+  | { action: "REJECT"; adminNotes?: string };
+
+// e.g. 42 -> "RMA-000042"
+export function formatReturnNumber(number: number) {
+  return `RMA-${String(number).padStart(6, "0")}`;
+}
+
+// Orders with shipped units that can be returned
+export const RETURNABLE_ORDER_STATUSES: OrderStatus[] = [
+  "PAID",
+  "SHIPPED",
+  "DELIVERED",
+];
+
+// Returns whose units can no longer be returned again (all but rejected)
+const COUNTED_RETURN_STATUSES: ReturnStatus[] = [
+  "REQUESTED",
+  "APPROVED",
+  "RECEIVED",
+];
+
+// What a return shows: the returned order lines with their product
+export const returnInclude = {
+  requestedBy: { select: { firstName: true, lastName: true, email: true } },
+  respondedBy: { select: { email: true } },
+  warehouse: { select: { id: true, code: true, name: true } },
+  lines: {
+    include: {
+      orderLine: {
+        include: { product: { select: { id: true, sku: true, name: true } } },
+      },
+    },
+  },
+} satisfies Prisma.ReturnRequestInclude;
+
+// Order line include for getReturnableQuantities: shipped units and units
+// in returns that were not rejected
+export const returnableLineInclude = {
+  shipmentItems: { select: { quantity: true } },
+  returnLines: {
+    where: { returnRequest: { status: { in: COUNTED_RETURN_STATUSES } } },
+    select: { quantity: true },
+  },
+} satisfies Prisma.OrderLineInclude;
+
+// Shipped units of each order line not already returned, by order line id
+export function getReturnableQuantities(
+  lines: {
+    id: string;
+    quantity: number;
+    shipmentItems: { quantity: number }[];
+    returnLines: { quantity: number }[];
+  }[]
+) {
+  const shipped = getShippedQuantities(lines);
+  return new Map(
+    lines.map((line) => [
+      line.id,
+      (shipped.get(line.id) ?? 0) -
+        line.returnLines.reduce((sum, item) => sum + item.quantity, 0),
+    ])
+  );
+}
+
+// Amount refunded for returned units: their price and their share of the
+// line's tax (shipping is not refunded)
+export function calculateRefundCents(
+  lines: {
+    quantity: number;
+    orderLine: { quantity: number; unitPriceCents: number; taxCents: number };
+  }[]
+) {
+  return lines.reduce(
+    (sum, { quantity, orderLine }) =>
+      sum +
+      quantity * orderLine.unitPriceCents +
+      Math.round((orderLine.taxCents * quantity) / orderLine.quantity),
+    0
+  );
+}
+
+// What approving a return refunds: its units and their tax, up to what is
+// left of the order's total after earlier refunds
+export function getReturnRefundCents(returnRequest: {
+  order: { totalCents: number; refundedCents: number };
+  lines: Parameters<typeof calculateRefundCents>[0];
+}) {
+  const { totalCents, refundedCents } = returnRequest.order;
+  return Math.min(
+    calculateRefundCents(returnRequest.lines),
+    Math.max(totalCents - refundedCents, 0)
+  );
+}
+
+/**
+ * Open a return for shipped units of an order (-> REQUESTED).
+ * A line's units can only be returned once; rejected returns free them again.
+ *
+ * Throws ORDER_NOT_FOUND, ORDER_NOT_RETURNABLE:<status>,
+ * INVALID_LINE:<lineId>, QUANTITY_EXCEEDED:<productName> or NOTHING_TO_RETURN
+ */
+export async function createReturn(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  data: { requestedById: string; reason: string; lines: ReturnLineInput[] }
+) {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: {
+      lines: {
+        include: {
+          ...returnableLineInclude,
+          product: { select: { name: true } },
+        },
+      },
+    },
+  });
+  if (!order) throw new Error("ORDER_NOT_FOUND");
+  if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+    throw new Error(`ORDER_NOT_RETURNABLE:${order.status}`);
+  }
+
+  const returnable = getReturnableQuantities(order.lines);
+  const linesById = new Map(order.lines.map((line) => [line.id, line]));
+
+  const toReturn = new Map<string, number>();
+  for (const item of data.lines) {
+    const line = linesById.get(item.orderLineId);
+    if (!line) throw new Error(`INVALID_LINE:${item.orderLineId}`);
+    if (item.quantity <= 0) continue;
+
+    const quantity = (toReturn.get(line.id) ?? 0) + item.quantity;
+    if (quantity > (returnable.get(line.id) ?? 0)) {
+      throw new Error(`QUANTITY_EXCEEDED:${line.product.name}`);
+    }
+    toReturn.set(line.id, quantity);
+  }
+  if (toReturn.size === 0) throw new Error("NOTHING_TO_RETURN");
+
+  // The counter row stays locked until the transaction commits, so numbers
+  // are sequential without gaps
+  const counter = await tx.counter.upsert({
+    where: { name: "return" },
+    create: { name: "return", value: 1 },
+    update: { value: { increment: 1 } },
+  });
+
+  return tx.returnRequest.create({
+    data: {
+      number: counter.value,
+      orderId,
+      requestedById: data.requestedById,
+      reason: data.reason,
+      lines: {
+        create: Array.from(toReturn, ([orderLineId, quantity]) => ({
+          orderLineId,
+          quantity,
+        })),
+      },
+    },
+    include: returnInclude,
+  });
+}
+
+/**
+ * Approve a requested return (-> APPROVED), recording its refund amount and
+ * the Stripe refund issued for it, if any, or reject it (-> REJECTED).
+ *
+ * Throws RETURN_NOT_FOUND or RETURN_NOT_OPEN:<status>
+ */
+export async function respondToReturn(
+  tx: Prisma.TransactionClient,
+  id: string,
+  adminId: string,
+  response: ReturnResponse
+) {
+  const returnRequest = await tx.returnRequest.findUnique({
+    where: { id },
+    include: {
+      order: { select: { totalCents: true, refundedCents: true } },
+      lines: { include: { orderLine: true } },
+    },
+  });
+  if (!returnRequest) throw new Error("RETURN_NOT_FOUND");
+
+  // Guard against a concurrent response
+  const approved = response.action === "APPROVE";
+  const { count } = await tx.returnRequest.updateMany({
+    where: { id, status: "REQUESTED" },
+    data: {
+      status: approved ? "APPROVED" : "REJECTED",
+      adminNotes: response.adminNotes,
+      refundCents: approved ? getReturnRefundCents(returnRequest) : 0,
+      refundId: approved ? (response.refundId ?? null) : null,
+      respondedById: adminId,
+      respondedAt: new Date(),
+    },
+  });
+  if (count === 0) {
+    throw new Error(`RETURN_NOT_OPEN:${returnRequest.status}`);
+  }
+
+  return tx.returnRequest.findUniqueOrThrow({
+    where: { id },
+    include: returnInclude,
+  });
+}
+
+/**
+ * Receive the goods of an approved return (-> RECEIVED). Each line is
+ * restocked (RESTOCK, the default) at the warehouse given, or the default
+ * warehouse, or scrapped (SCRAP).
+ *
+ * Throws RETURN_NOT_FOUND, RETURN_NOT_RECEIVABLE:<status>,
+ * INVALID_LINE:<lineId> or WAREHOUSE_NOT_FOUND
+ */
+export async function receiveReturn(
+  tx: Prisma.TransactionClient,
+  id: string,
+  data: {
+    warehouseId?: string;
+    lines?: { lineId: string; disposition: ReturnDisposition }[];
+    actorId?: string | null;
+  }
+) {
+  const returnRequest = await tx.returnRequest.findUnique({
+    where: { id },
+    include: { lines: { include: { orderLine: true } } },
+  });
+  if (!returnRequest) throw new Error("RETURN_NOT_FOUND");
+  if (returnRequest.status !== "APPROVED") {
+    throw new Error(`RETURN_NOT_RECEIVABLE:${returnRequest.status}`);
+  }
+
+  const dispositions = new Map<string, ReturnDisposition>();
+  for (const item of data.lines ?? []) {
+    if (!returnRequest.lines.some((line) => line.id === item.lineId)) {
+      throw new Error(`INVALID_LINE:${item.lineId}`);
+    }
+    dispositions.set(item.lineId, item.disposition);
+  }
+
+  let warehouseId: string | null = null;
+  for (const line of returnRequest.lines) {
+    const disposition = dispositions.get(line.id) ?? "RESTOCK";
+    if (disposition === "RESTOCK") {
+      const inventory = await returnStock(
+        tx,
+        { productId: line.orderLine.productId, warehouseId: data.warehouseId },
+        line.quantity,
+        {
+          referenceId: id,
+          actorId: data.actorId,
+          note: formatReturnNumber(returnRequest.number),
+        }
+      );
+      warehouseId = inventory.warehouseId;
+    }
+    await tx.returnLine.update({
+      where: { id: line.id },
+      data: { disposition },
+    });
+  }
+
+  return tx.returnRequest.update({
+    where: { id },
+    data: { status: "RECEIVED", warehouseId, receivedAt: new Date() },
+    include: returnInclude,
+  });
+}
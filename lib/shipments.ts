@@ -0,0 +1,211 @@
+import { Prisma } from "@prisma/client";
+import { transitionOrderStatus } from "@/lib/order-status";
+
+type LineWithShipments = {
+  id: string;
+  quantity: number;
+  shipmentItems: { quantity: number }[];
+};
+
+// Quantity already shipped per order line id
+export function getShippedQuantities(lines: LineWithShipments[]) {
+  return new Map(
+    lines.map((line) => [
+      line.id,
+      line.shipmentItems.reduce((sum, item) => sum + item.quantity, 0),
+    ])
+  );
+}
+
+// Order line include: the drop-ship lines its supplier has not shipped yet
+export const openDropShipLinesInclude = {
+  where: { dropShipOrder: { status: { in: ["OPEN", "ACKNOWLEDGED"] } } },
+  select: { dropShipOrderId: true, quantity: true },
+} satisfies Prisma.OrderLine$dropShipLinesArgs;
+
+// Units of a line left to drop-ship orders that have not shipped yet, except
+// the one given
+export function getDropShipQuantity(
+  line: { dropShipLines: { dropShipOrderId: string; quantity: number }[] },
+  exceptDropShipOrderId?: string
+) {
+  return line.dropShipLines
+    .filter((d) => d.dropShipOrderId !== exceptDropShipOrderId)
+    .reduce((sum, d) => sum + d.quantity, 0);
+}
+
+// Units of a line that can ship, once: allocated, not refunded, and not left
+// to another drop-ship order (its supplier ships them)
+function getShippableQuantity(
+  line: {
+    quantity: number;
+    backorderedQuantity: number;
+    refundedQuantity: number;
+    dropShipLines: { dropShipOrderId: string; quantity: number }[];
+  },
+  dropShipOrderId?: string
+) {
+  return (
+    line.quantity -
+    line.backorderedQuantity -
+    line.refundedQuantity -
+    getDropShipQuantity(line, dropShipOrderId)
+  );
+}
+
+/**
+ * Record a (possibly partial) shipment for a PAID order.
+ * Backordered units cannot ship until they are allocated, refunded units no
+ * longer ship, and units on a drop-ship order that has not shipped yet only
+ * ship with it (dropShipOrderId, see shipDropShipOrder). When no items are
+ * given, every line's remaining allocated quantity is shipped. Once every line is fully shipped the order moves to
+ * SHIPPED.
+ *
+ * Throws ORDER_NOT_FOUND, ORDER_NOT_SHIPPABLE:<status>, INVALID_LINE:<lineId>,
+ * QUANTITY_EXCEEDED:<productName> or NOTHING_TO_SHIP
+ */
+export async function createShipment(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  data: {
+    carrier: string;
+    trackingNumber?: string;
+    shippedAt?: Date;
+    items?: { orderLineId: string; quantity: number }[];
+    dropShipOrderId?: string;
+    actorId?: string | null;
+  }
+) {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: {
+      lines: {
+        include: {
+          product: { select: { name: true } },
+          shipmentItems: { select: { quantity: true } },
+          dropShipLines: openDropShipLinesInclude,
+        },
+      },
+    },
+  });
+  if (!order) throw new Error("ORDER_NOT_FOUND");
+  if (order.status !== "PAID") {
+    throw new Error(`ORDER_NOT_SHIPPABLE:${order.status}`);
+  }
+
+  const shipped = getShippedQuantities(order.lines);
+  const linesById = new Map(order.lines.map((line) => [line.id, line]));
+
+  const items =
+    data.items ??
+    order.lines.map((line) => ({
+      orderLineId: line.id,
+      quantity:
+        getShippableQuantity(line, data.dropShipOrderId) -
+        (shipped.get(line.id) ?? 0),
+    }));
+
+  const toShip = new Map<string, number>();
+  for (const item of items) {
+    const line = linesById.get(item.orderLineId);
+    if (!line) throw new Error(`INVALID_LINE:${item.orderLineId}`);
+    if (item.quantity <= 0) continue;
+
+    const quantity = (toShip.get(line.id) ?? 0) + item.quantity;
+    if (
+      (shipped.get(line.id) ?? 0) + quantity >
+      getShippableQuantity(line, data.dropShipOrderId)
+    ) {
+      throw new Error(`QUANTITY_EXCEEDED:${line.product.name}`);
+    }
+    toShip.set(line.id, quantity);
+  }
+  if (toShip.size === 0) throw new Error("NOTHING_TO_SHIP");
+
+  const shipment = await tx.shipment.create({
+    data: {
+      orderId,
+      carrier: data.carrier,
+      trackingNumber: data.trackingNumber,
+      shippedAt: data.shippedAt,
+      createdById: data.actorId ?? null,
+      items: {
+        create: Array.from(toShip, ([orderLineId, quantity]) => ({
+          orderLineId,
+          quantity,
+        })),
+      },
+    },
+    include: { items: true },
+  });
+
+  const fullyShipped = order.lines.every(
+    (line) =>
+      (shipped.get(line.id) ?? 0) + (toShip.get(line.id) ?? 0) >=
+      line.quantity - line.refundedQuantity
+  );
+  if (fullyShipped) {
+    await transitionOrderStatus(tx, orderId, "SHIPPED", {
+      actorId: data.actorId,
+      note: `All items shipped (${data.carrier}${
+        data.trackingNumber ? ` ${data.trackingNumber}` : ""
+      })`,
+    });
+  }
+
+  return shipment;
+}
+
+/**
+ * Record that a supplier shipped its drop-ship order to the buyer: the
+ * drop-ship order's lines become a shipment of the order (see createShipment)
+ * and the drop-ship order is SHIPPED.
+ *
+ * Throws DROP_SHIP_NOT_FOUND, DROP_SHIP_ALREADY_SHIPPED, DROP_SHIP_CANCELLED
+ * or any error of createShipment
+ */
+export async function shipDropShipOrder(
+  tx: Prisma.TransactionClient,
+  id: string,
+  data: {
+    supplierId: string;
+    carrier: string;
+    trackingNumber?: string;
+    actorId?: string | null;
+  }
+) {
+  const dropShipOrder = await tx.dropShipOrder.findUnique({
+    where: { id },
+    include: { lines: true },
+  });
+  if (!dropShipOrder || dropShipOrder.supplierId !== data.supplierId) {
+    throw new Error("DROP_SHIP_NOT_FOUND");
+  }
+  if (dropShipOrder.status === "SHIPPED") {
+    throw new Error("DROP_SHIP_ALREADY_SHIPPED");
+  }
+  if (dropShipOrder.status === "CANCELLED") {
+    throw new Error("DROP_SHIP_CANCELLED");
+  }
+
+  const shipment = await createShipment(tx, dropShipOrder.orderId, {
+    carrier: data.carrier,
+    trackingNumber: data.trackingNumber,
+    items: dropShipOrder.lines.map((line) => ({
+      orderLineId: line.orderLineId,
+      quantity: line.quantity,
+    })),
+    dropShipOrderId: id,
+    actorId: data.actorId,
+  });
+
+  return tx.dropShipOrder.update({
+    where: { id },
+    data: {
+      status: "SHIPPED",
+      shipmentId: shipment.id,
+      shippedAt: shipment.shippedAt,
+      acknowledgedAt: dropShipOrder.acknowledgedAt ?? shipment.shippedAt,
+    },
+  });
+}
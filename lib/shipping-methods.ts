@@ -0,0 +1,15 @@
+// Shipping methods, shared by the shipping engine, documents and the UI
+// (checkout picker, admin rate tables)
+
+export const SHIPPING_METHODS = [
+  { value: "GROUND", label: "Ground" },
+  { value: "EXPRESS", label: "Express" },
+  { value: "FREIGHT", label: "Freight (LTL pallet)" },
+  { value: "PICKUP", label: "Customer pickup" },
+] as const;
+
+export type ShippingMethodValue = (typeof SHIPPING_METHODS)[number]["value"];
+
+export function formatShippingMethod(method: string) {
+  return SHIPPING_METHODS.find((m) => m.value === method)?.label ?? method;
+}
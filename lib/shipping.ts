@@ -0,0 +1,195 @@
+import { Prisma, ShippingMethod } from "@prisma/client";
+import { DEFAULT_TAX_LOCATION } from "@/lib/tax";
+
+// Where an order ships to
+export type ShippingLocation = {
+  country: string;
+  region: string | null;
+  postalCode: string | null;
+};
+
+export type ShippingOption = {
+  method: ShippingMethod;
+  priceCents: number;
+  zoneName: string | null; // null for pickup
+};
+
+type ShippableProduct = {
+  weightGrams: number | null;
+  lengthCm: number | null;
+  widthCm: number | null;
+  heightCm: number | null;
+};
+
+type Zone = { country: string; regions: string[]; postalPrefixes: string[] };
+
+// Carrier volumetric divisor: 5000 cm³ bill as 1 kg
+const DIMENSIONAL_DIVISOR_CM3_PER_KG = 5000;
+
+// Delivery methods in the order they are offered; pickup comes last
+const DELIVERY_METHODS: ShippingMethod[] = ["GROUND", "EXPRESS", "FREIGHT"];
+
+// Ship-to location from a buyer's profile, for buyers without an address
+export function getShippingLocation(buyer: {
+  country: string | null;
+  region: string | null;
+  postalCode: string | null;
+}): ShippingLocation {
+  // Same default as tax: buyers without a location ship within Quebec
+  if (!buyer.country) return { ...DEFAULT_TAX_LOCATION, postalCode: null };
+  return {
+    country: buyer.country,
+    region: buyer.region,
+    postalCode: buyer.postalCode,
+  };
+}
+
+// Billable weight of one unit: actual or dimensional weight, whichever is more
+export function unitBillableWeightGrams(product: ShippableProduct) {
+  const actual = product.weightGrams ?? 0;
+  if (!product.lengthCm || !product.widthCm || !product.heightCm) {
+    return actual;
+  }
+  const dimensional = Math.ceil(
+    (product.lengthCm * product.widthCm * product.heightCm * 1000) /
+      DIMENSIONAL_DIVISOR_CM3_PER_KG
+  );
+  return Math.max(actual, dimensional);
+}
+
+const normalizePostalCode = (postalCode: string) =>
+  postalCode.replace(/\s+/g, "").toUpperCase();
+
+/**
+ * The most specific zone for a location: a postal code prefix match (longest
+ * prefix first), then a province/state match, then a country-wide zone.
+ * Zones limited to provinces/states also need the region to match.
+ */
+export function matchShippingZone<T extends Zone>(
+  zones: T[],
+  location: ShippingLocation
+): T | null {
+  const postalCode = location.postalCode
+    ? normalizePostalCode(location.postalCode)
+    : "";
+
+  let best: T | null = null;
+  let bestScore = -1;
+  for (const zone of zones) {
+    if (zone.country !== location.country) continue;
+    if (
+      zone.regions.length > 0 &&
+      (!location.region || !zone.regions.includes(location.region))
+    ) {
+      continue;
+    }
+
+    let score = zone.regions.length > 0 ? 1 : 0;
+    if (zone.postalPrefixes.length > 0) {
+      const prefixLength = Math.max(
+        0,
+        ...zone.postalPrefixes
+          .map(normalizePostalCode)
+          .filter((prefix) => postalCode.startsWith(prefix))
+          .map((prefix) => prefix.length)
+      );
+      if (prefixLength === 0) continue;
+      score = 100 + prefixLength;
+    }
+
+    if (score > bestScore) {
+      best = zone;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Shipping methods available for a buyer's lines, with their price.
+ * Delivery prices come from the rate table of the ship-to location's zone
+ * (see getOrderAddresses), by billable
+ * weight (a method without a rate for that weight is not offered); pickup is
+ * always available and free.
+ */
+export async function getShippingOptions(
+  db: Prisma.TransactionClient,
+  data: {
+    lines: { productId: string; quantity: number; unitPriceCents: number }[];
+    location: ShippingLocation;
+  }
+) {
+  const { location } = data;
+  const products = await db.product.findMany({
+    where: { id: { in: data.lines.map((line) => line.productId) } },
+    select: {
+      id: true,
+      weightGrams: true,
+      lengthCm: true,
+      widthCm: true,
+      heightCm: true,
+    },
+  });
+
+  const unitWeights = new Map(
+    products.map((p) => [p.id, unitBillableWeightGrams(p)])
+  );
+  const weightGrams = data.lines.reduce(
+    (sum, line) => sum + (unitWeights.get(line.productId) ?? 0) * line.quantity,
+    0
+  );
+  const subtotalCents = data.lines.reduce(
+    (sum, line) => sum + line.quantity * line.unitPriceCents,
+    0
+  );
+
+  const zones = await db.shippingZone.findMany({
+    where: { country: location.country },
+    include: { rates: true },
+  });
+  const zone = matchShippingZone(zones, location);
+
+  const options: ShippingOption[] = [];
+  for (const method of DELIVERY_METHODS) {
+    const rate = zone?.rates.find(
+      (r) =>
+        r.method === method &&
+        weightGrams >= r.minWeightGrams &&
+        (r.maxWeightGrams === null || weightGrams < r.maxWeightGrams)
+    );
+    if (!zone || !rate) continue;
+
+    const free =
+      rate.freeAboveCents !== null && subtotalCents >= rate.freeAboveCents;
+    options.push({
+      method,
+      priceCents: free ? 0 : rate.priceCents,
+      zoneName: zone.name,
+    });
+  }
+  options.push({ method: "PICKUP", priceCents: 0, zoneName: null });
+
+  return { options, weightGrams };
+}
+
+/**
+ * The option for the buyer's chosen method, or by default the first delivery
+ * method offered. Pickup is never chosen for the buyer.
+ *
+ * Throws SHIPPING_METHOD_UNAVAILABLE:<method>, or SHIPPING_METHOD_UNAVAILABLE
+ * when no method is given and nothing delivers to the buyer
+ */
+export function selectShippingOption(
+  options: ShippingOption[],
+  method?: ShippingMethod
+) {
+  if (!method) {
+    const delivery = options.find((o) => o.method !== "PICKUP");
+    if (!delivery) throw new Error("SHIPPING_METHOD_UNAVAILABLE");
+    return delivery;
+  }
+
+  const option = options.find((o) => o.method === method);
+  if (!option) throw new Error(`SHIPPING_METHOD_UNAVAILABLE:${method}`);
+  return option;
+}
@@ -0,0 +1,112 @@
+import Stripe from "stripe";
+import type {
+  PaymentProvider,
+  ProviderCheckoutSession,
+} from "@/lib/payment-providers";
+
+// Stripe Checkout payment provider (see lib/payment-providers.ts)
+
+export function getPaymentIntentId(
+  paymentIntent: string | Stripe.PaymentIntent | null
+) {
+  return typeof paymentIntent === "string"
+    ? paymentIntent
+    : (paymentIntent?.id ?? null);
+}
+
+function toCheckoutSession(
+  session: Stripe.Checkout.Session
+): ProviderCheckoutSession {
+  return {
+    id: session.id,
+    url: session.url,
+    paymentStatus: session.payment_status,
+    paymentIntentId: getPaymentIntentId(session.payment_intent),
+    orderId: session.metadata?.orderId ?? null,
+  };
+}
+
+export function createStripePaymentProvider(): PaymentProvider {
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+    apiVersion: "2025-11-17.clover",
+  });
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET!;
+
+  return {
+    name: "stripe",
+
+    async createCheckoutSession(input) {
+      const session = await stripe.checkout.sessions.create({
+        payment_method_types: ["card"],
+        line_items: input.lineItems.map((item) => ({
+          price_data: {
+            currency: "usd",
+            product_data: {
+              name: item.name,
+              description: item.description,
+              metadata: item.metadata,
+            },
+            unit_amount: item.unitAmountCents,
+          },
+          quantity: item.quantity,
+        })),
+        mode: "payment",
+        success_url: input.successUrl,
+        cancel_url: input.cancelUrl,
+        customer_email: input.customerEmail,
+        metadata: {
+          orderId: input.orderId,
+          buyerId: input.buyerId,
+        },
+        // So that payment intent events can be matched to the order
+        payment_intent_data: { metadata: { orderId: input.orderId } },
+        billing_address_collection: "required",
+        ...(input.expiresAt && {
+          expires_at: Math.floor(input.expiresAt.getTime() / 1000),
+        }),
+      });
+      return toCheckoutSession(session);
+    },
+
+    async retrieveCheckoutSession(id) {
+      return toCheckoutSession(await stripe.checkout.sessions.retrieve(id));
+    },
+
+    async findCheckoutSessionByPaymentIntent(paymentIntentId) {
+      const sessions = await stripe.checkout.sessions.list({
+        payment_intent: paymentIntentId,
+        limit: 1,
+      });
+      return sessions.data[0] ? toCheckoutSession(sessions.data[0]) : null;
+    },
+
+    async createRefund(paymentIntentId, amountCents, options) {
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          amount: amountCents,
+          metadata: options.metadata,
+        },
+        { idempotencyKey: options.idempotencyKey }
+      );
+      return refund.id;
+    },
+
+    async listRefunds(paymentIntentId) {
+      const refunds = await stripe.refunds.list({
+        payment_intent: paymentIntentId,
+        limit: 100,
+      });
+      return refunds.data.map((refund) => ({
+        id: refund.id,
+        amountCents: refund.amount,
+        status: refund.status,
+        reason: refund.metadata?.reason ?? refund.reason ?? null,
+      }));
+    },
+
+    constructWebhookEvent(body, signature) {
+      return stripe.webhooks.constructEvent(body, signature, webhookSecret);
+    },
+  };
+}
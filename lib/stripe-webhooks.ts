@@ -0,0 +1,212 @@
+import Stripe from "stripe";
+import { Prisma, WebhookEventStatus } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import {
+  recordCheckoutExpired,
+  recordPaymentFailed,
+  recordPaymentPending,
+  recordPaymentSucceeded,
+  syncPaymentRefunds,
+} from "@/lib/payments";
+import { getPaymentIntentId } from "@/lib/stripe-payment-provider";
+
+// Stripe webhook processing. Every event is logged in WebhookEvent under its
+// Stripe event id before it is applied, so a redelivered event is applied
+// once. Stripe retries events that failed (the endpoint answers 500) and an
+// admin can replay them. Events can also arrive out of order (e.g. a failed
+// payment attempt reported after the payment succeeded), which the payment
+// transitions (see lib/payments.ts) never let move an order's payment back.
+
+// An attempt still PROCESSING after this long was interrupted
+const ABANDONED_AFTER_MS = 5 * 60 * 1000;
+
+export type WebhookEventResult =
+  | Exclude<WebhookEventStatus, "PROCESSING">
+  | "DUPLICATE" // already processed
+  | "IN_PROGRESS"; // another delivery is processing it
+
+/**
+ * Log a verified Stripe event and apply it, unless it was already processed
+ * or is being processed. An event that failed before is applied again.
+ */
+export async function handleStripeEvent(
+  event: Stripe.Event
+): Promise<WebhookEventResult> {
+  try {
+    await prisma.webhookEvent.create({
+      data: {
+        id: event.id,
+        type: event.type,
+        payload: event as unknown as Prisma.InputJsonValue,
+      },
+    });
+  } catch (error) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2002"
+    ) {
+      throw error;
+    }
+    // Seen before: only retry it if it failed or its attempt was interrupted
+    if (!(await claimWebhookEvent(event.id))) {
+      const existing = await prisma.webhookEvent.findUniqueOrThrow({
+        where: { id: event.id },
+        select: { status: true },
+      });
+      return existing.status === "PROCESSING" ? "IN_PROGRESS" : "DUPLICATE";
+    }
+  }
+
+  const { status } = await processWebhookEvent(event);
+  return status as WebhookEventResult;
+}
+
+/**
+ * Apply a FAILED event again from its logged payload (or one whose attempt
+ * was interrupted). Returns the updated event.
+ *
+ * Throws WEBHOOK_EVENT_NOT_FOUND or WEBHOOK_EVENT_NOT_REPLAYABLE:<status>
+ */
+export async function replayWebhookEvent(id: string) {
+  const webhookEvent = await prisma.webhookEvent.findUnique({ where: { id } });
+  if (!webhookEvent) throw new Error("WEBHOOK_EVENT_NOT_FOUND");
+  if (!(await claimWebhookEvent(id))) {
+    throw new Error(`WEBHOOK_EVENT_NOT_REPLAYABLE:${webhookEvent.status}`);
+  }
+
+  return processWebhookEvent(webhookEvent.payload as unknown as Stripe.Event);
+}
+
+// Take a failed or interrupted event for another attempt; false when it was
+// processed, or another attempt is running
+async function claimWebhookEvent(id: string) {
+  const { count } = await prisma.webhookEvent.updateMany({
+    where: {
+      id,
+      OR: [
+        { status: "FAILED" },
+        {
+          status: "PROCESSING",
+          updatedAt: { lt: new Date(Date.now() - ABANDONED_AFTER_MS) },
+        },
+      ],
+    },
+    data: { status: "PROCESSING", attempts: { increment: 1 }, error: null },
+  });
+  return count > 0;
+}
+
+// Apply a claimed event and record the outcome
+async function processWebhookEvent(event: Stripe.Event) {
+  try {
+    const handled = await applyStripeEvent(event);
+    return await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        status: handled ? "PROCESSED" : "IGNORED",
+        processedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error(
+      `[Webhook] Processing ${event.type} ${event.id} failed:`,
+      error
+    );
+    return prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        status: "FAILED",
+        error: (error instanceof Error ? error.message : String(error)).slice(
+          0,
+          1000
+        ),
+      },
+    });
+  }
+}
+
+// Apply an event to its order (see lib/payments.ts); false for event types
+// that are not handled
+async function applyStripeEvent(event: Stripe.Event) {
+  switch (event.type) {
+    case "checkout.session.completed":
+    case "checkout.session.async_payment_succeeded": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const orderId = session.metadata?.orderId;
+
+      // A completed session may still wait for an asynchronous payment
+      if (!orderId) return true;
+      const ref = {
+        checkoutSessionId: session.id,
+        paymentIntentId: getPaymentIntentId(session.payment_intent),
+      };
+      if (
+        event.type === "checkout.session.async_payment_succeeded" ||
+        session.payment_status === "paid"
+      ) {
+        await recordPaymentSucceeded(orderId, ref);
+      } else {
+        await recordPaymentPending(orderId, ref);
+      }
+      return true;
+    }
+
+    case "payment_intent.succeeded": {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      const orderId = paymentIntent.metadata.orderId;
+
+      if (orderId) {
+        await recordPaymentSucceeded(orderId, {
+          paymentIntentId: paymentIntent.id,
+          amountCents: paymentIntent.amount_received,
+        });
+      }
+      return true;
+    }
+
+    case "payment_intent.payment_failed": {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      const orderId = paymentIntent.metadata.orderId;
+
+      if (orderId) {
+        await recordPaymentFailed(orderId, {
+          paymentIntentId: paymentIntent.id,
+          reason: paymentIntent.last_payment_error?.message,
+        });
+      }
+      return true;
+    }
+
+    case "checkout.session.async_payment_failed": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const orderId = session.metadata?.orderId;
+
+      if (orderId) {
+        await recordPaymentFailed(orderId, {
+          checkoutSessionId: session.id,
+          paymentIntentId: getPaymentIntentId(session.payment_intent),
+        });
+      }
+      return true;
+    }
+
+    case "checkout.session.expired": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const orderId = session.metadata?.orderId;
+
+      if (orderId) await recordCheckoutExpired(orderId, session.id);
+      return true;
+    }
+
+    case "charge.refunded": {
+      const charge = event.data.object as Stripe.Charge;
+      const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+
+      if (paymentIntentId) await syncPaymentRefunds(paymentIntentId);
+      return true;
+    }
+
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,168 @@
+import { Prisma } from "@prisma/client";
+import { MovementSource, restockRefundedUnits } from "@/lib/inventory";
+
+// Drop-ship suppliers hold their own stock (SUPPLIER inventory, see
+// lib/inventory.ts). Units of an order taken from a supplier's stock are
+// shipped by the supplier: once the order is paid, each supplier gets a
+// drop-ship order (purchase order) for its lines, which it acknowledges and
+// ships from the supplier portal (see shipDropShipOrder in lib/shipments.ts).
+
+/**
+ * Send a paid order's drop-shipped units to their suppliers: one drop-ship
+ * order per supplier whose stock the order's committed reservations hold,
+ * with the quantity of each line. Returns the created drop-ship orders.
+ */
+export async function createDropShipOrders(
+  tx: Prisma.TransactionClient,
+  orderId: string
+) {
+  const reservations = await tx.stockReservation.findMany({
+    where: {
+      orderId,
+      status: "COMMITTED",
+      orderLineId: { not: null },
+      inventory: { ownerType: "SUPPLIER" },
+    },
+    include: { inventory: { select: { ownerId: true } } },
+  });
+
+  // Quantity per supplier and order line
+  const bySupplier = new Map<string, Map<string, number>>();
+  for (const reservation of reservations) {
+    const supplierId = reservation.inventory.ownerId!;
+    const lines = bySupplier.get(supplierId) ?? new Map<string, number>();
+    lines.set(
+      reservation.orderLineId!,
+      (lines.get(reservation.orderLineId!) ?? 0) + reservation.quantity
+    );
+    bySupplier.set(supplierId, lines);
+  }
+
+  const created = [];
+  for (const [supplierId, lines] of bySupplier) {
+    created.push(
+      await tx.dropShipOrder.create({
+        data: {
+          orderId,
+          supplierId,
+          lines: {
+            create: Array.from(lines, ([orderLineId, quantity]) => ({
+              orderLineId,
+              quantity,
+            })),
+          },
+        },
+      })
+    );
+  }
+  return created;
+}
+
+/**
+ * A supplier accepts a drop-ship order (OPEN -> ACKNOWLEDGED).
+ *
+ * Throws DROP_SHIP_NOT_FOUND or DROP_SHIP_NOT_OPEN:<status>
+ */
+export async function acknowledgeDropShipOrder(
+  tx: Prisma.TransactionClient,
+  id: string,
+  supplierId: string
+) {
+  const dropShipOrder = await tx.dropShipOrder.findUnique({ where: { id } });
+  if (!dropShipOrder || dropShipOrder.supplierId !== supplierId) {
+    throw new Error("DROP_SHIP_NOT_FOUND");
+  }
+  if (dropShipOrder.status !== "OPEN") {
+    throw new Error(`DROP_SHIP_NOT_OPEN:${dropShipOrder.status}`);
+  }
+
+  return tx.dropShipOrder.update({
+    where: { id },
+    data: { status: "ACKNOWLEDGED", acknowledgedAt: new Date() },
+  });
+}
+
+/**
+ * Take units of an order line refunded before they shipped off the line's
+ * drop-ship orders that have not shipped yet, putting them back in the
+ * suppliers' stock (see restockRefundedUnits). A drop-ship order left without
+ * units is CANCELLED. Returns the number of units taken off.
+ */
+export async function cancelDropShipUnits(
+  tx: Prisma.TransactionClient,
+  orderLineId: string,
+  quantity: number,
+  source: MovementSource = {}
+) {
+  const dropShipLines = await tx.dropShipOrderLine.findMany({
+    where: {
+      orderLineId,
+      quantity: { gt: 0 },
+      dropShipOrder: { status: { in: ["OPEN", "ACKNOWLEDGED"] } },
+    },
+    include: { dropShipOrder: { select: { supplierId: true } } },
+  });
+
+  let remaining = quantity;
+  for (const line of dropShipLines) {
+    if (remaining <= 0) break;
+
+    const units = await restockRefundedUnits(
+      tx,
+      orderLineId,
+      Math.min(line.quantity, remaining),
+      { ownerType: "SUPPLIER", ownerId: line.dropShipOrder.supplierId },
+      source
+    );
+    if (units === 0) continue;
+
+    await tx.dropShipOrderLine.update({
+      where: { id: line.id },
+      data: { quantity: { decrement: units } },
+    });
+    const unitsLeft = await tx.dropShipOrderLine.count({
+      where: { dropShipOrderId: line.dropShipOrderId, quantity: { gt: 0 } },
+    });
+    if (unitsLeft === 0) {
+      await tx.dropShipOrder.update({
+        where: { id: line.dropShipOrderId },
+        data: { status: "CANCELLED" },
+      });
+    }
+    remaining -= units;
+  }
+  return quantity - remaining;
+}
+
+// What a drop-ship order shows its supplier and admins: the order's ship-to
+// address and the products to ship
+export const dropShipOrderInclude = {
+  supplier: { select: { id: true, name: true } },
+  order: {
+    select: {
+      id: true,
+      status: true,
+      poNumber: true,
+      shippingMethod: true,
+      shipToName: true,
+      shipToCompany: true,
+      shipToLine1: true,
+      shipToLine2: true,
+      shipToCity: true,
+      shipToRegion: true,
+      shipToPostalCode: true,
+      shipToCountry: true,
+      shipToPhone: true,
+    },
+  },
+  lines: {
+    include: {
+      orderLine: {
+        select: {
+          product: { select: { id: true, sku: true, name: true } },
+        },
+      },
+    },
+  },
+  shipment: { select: { carrier: true, trackingNumber: true } },
+} satisfies Prisma.DropShipOrderInclude;
@@ -0,0 +1,112 @@
+// Tax jurisdictions we ship to, shared by the tax engine and the UI
+// (province/state pickers). The rates themselves are in the TaxRate table,
+// kept by admins (see lib/tax.ts); as fractions: 0.05 = 5%.
+
+export type TaxComponent = {
+  name: string; // label on invoices, e.g. "GST" or "NY sales tax"
+  jurisdiction: string; // "CA", "CA-QC", "US-NY", ...
+  rate: number;
+};
+
+// Provinces and territories of Canada
+const CANADA: Record<string, string> = {
+  AB: "Alberta",
+  BC: "British Columbia",
+  MB: "Manitoba",
+  NB: "New Brunswick",
+  NL: "Newfoundland and Labrador",
+  NS: "Nova Scotia",
+  NT: "Northwest Territories",
+  NU: "Nunavut",
+  ON: "Ontario",
+  PE: "Prince Edward Island",
+  QC: "Quebec",
+  SK: "Saskatchewan",
+  YT: "Yukon",
+};
+
+// States of the United States, with the District of Columbia
+const UNITED_STATES: Record<string, string> = {
+  AL: "Alabama",
+  AK: "Alaska",
+  AZ: "Arizona",
+  AR: "Arkansas",
+  CA: "California",
+  CO: "Colorado",
+  CT: "Connecticut",
+  DE: "Delaware",
+  DC: "District of Columbia",
+  FL: "Florida",
+  GA: "Georgia",
+  HI: "Hawaii",
+  ID: "Idaho",
+  IL: "Illinois",
+  IN: "Indiana",
+  IA: "Iowa",
+  KS: "Kansas",
+  KY: "Kentucky",
+  LA: "Louisiana",
+  ME: "Maine",
+  MD: "Maryland",
+  MA: "Massachusetts",
+  MI: "Michigan",
+  MN: "Minnesota",
+  MS: "Mississippi",
+  MO: "Missouri",
+  MT: "Montana",
+  NE: "Nebraska",
+  NV: "Nevada",
+  NH: "New Hampshire",
+  NJ: "New Jersey",
+  NM: "New Mexico",
+  NY: "New York",
+  NC: "North Carolina",
+  ND: "North Dakota",
+  OH: "Ohio",
+  OK: "Oklahoma",
+  OR: "Oregon",
+  PA: "Pennsylvania",
+  RI: "Rhode Island",
+  SC: "South Carolina",
+  SD: "South Dakota",
+  TN: "Tennessee",
+  TX: "Texas",
+  UT: "Utah",
+  VT: "Vermont",
+  VA: "Virginia",
+  WA: "Washington",
+  WV: "West Virginia",
+  WI: "Wisconsin",
+  WY: "Wyoming",
+};
+
+// Province/state names by country code, to validate addresses against
+export const TAX_REGIONS: Record<string, Record<string, string>> = {
+  CA: CANADA,
+  US: UNITED_STATES,
+};
+
+// Countries we ship to with their provinces/states, for address forms
+export const TAX_COUNTRIES = [
+  { code: "CA", name: "Canada" },
+  { code: "US", name: "United States" },
+];
+
+export function getRegions(country: string) {
+  return Object.entries(TAX_REGIONS[country] ?? {}).map(([code, name]) => ({
+    code,
+    name,
+  }));
+}
+
+// e.g. "QST (9.975%)"
+export function formatTaxLabel(tax: { name: string; rate: number }) {
+  return `${tax.name} (${Number((tax.rate * 100).toFixed(4))}%)`;
+}
+
+// Category tax classes (TaxClass enum), for admin forms
+export const TAX_CLASSES = [
+  { value: "STANDARD", label: "Standard (taxed)" },
+  { value: "ZERO_RATED", label: "Zero-rated (0%)" },
+  { value: "EXEMPT", label: "Exempt" },
+] as const;
@@ -0,0 +1,204 @@
+import { Prisma, TaxClass } from "@prisma/client";
+import type { TaxComponent } from "@/lib/tax-rates";
+
+// Where an order ships to: ISO country code and province/state code
+export type TaxLocation = { country: string; region: string | null };
+
+// Buyers without a shipping location are taxed at our home province
+export const DEFAULT_TAX_LOCATION: TaxLocation = {
+  country: "CA",
+  region: "QC",
+};
+
+export type LineTax = TaxComponent & {
+  taxableCents: number;
+  amountCents: number;
+};
+
+// A tax charged at a location, and whether it also applies to shipping
+export type TaxRateComponent = TaxComponent & { taxShipping: boolean };
+
+type TaxableLine = { amountCents: number; taxClass: TaxClass };
+
+/**
+ * Taxes charged at a location, from the TaxRate table: the rates of its
+ * province/state when it has any, else the country-wide rates (e.g. GST
+ * alone). None where no rates are set up, e.g. exports.
+ */
+export async function getTaxComponents(
+  db: Prisma.TransactionClient,
+  location: TaxLocation
+): Promise<TaxRateComponent[]> {
+  const rates = await db.taxRate.findMany({
+    where: {
+      country: location.country,
+      OR: [{ region: null }, { region: location.region }],
+    },
+    orderBy: [{ jurisdiction: "asc" }, { name: "asc" }],
+  });
+
+  const regional = rates.filter((rate) => rate.region !== null);
+  return (regional.length > 0 ? regional : rates).map((rate) => ({
+    name: rate.name,
+    jurisdiction: rate.jurisdiction,
+    rate: rate.rate,
+    taxShipping: rate.taxShipping,
+  }));
+}
+
+// Totals per tax (e.g. GST and QST), for order summaries and invoices
+export function summarizeTaxes(
+  taxes: Pick<LineTax, "name" | "jurisdiction" | "rate" | "amountCents">[]
+) {
+  const totals = new Map<string, TaxComponent & { amountCents: number }>();
+  for (const tax of taxes) {
+    const key = `${tax.jurisdiction}:${tax.name}`;
+    const total = totals.get(key);
+    if (total) {
+      total.amountCents += tax.amountCents;
+    } else {
+      totals.set(key, {
+        name: tax.name,
+        jurisdiction: tax.jurisdiction,
+        rate: tax.rate,
+        amountCents: tax.amountCents,
+      });
+    }
+  }
+  return Array.from(totals.values());
+}
+
+// Tax totals of a stored order, on its lines and shipping. Orders placed
+// before taxes were stored per line were all charged Quebec's combined
+// GST + QST.
+export function getOrderTaxes(order: {
+  taxCents: number;
+  lines: { taxes: Parameters<typeof summarizeTaxes>[0] }[];
+  shippingTaxes: Parameters<typeof summarizeTaxes>[0];
+}) {
+  const taxes = summarizeTaxes([
+    ...order.lines.flatMap((line) => line.taxes),
+    ...order.shippingTaxes,
+  ]);
+  if (taxes.length === 0 && order.taxCents > 0) {
+    return [
+      {
+        name: "GST + QST",
+        jurisdiction: "CA-QC",
+        rate: 0.14975,
+        amountCents: order.taxCents,
+      },
+    ];
+  }
+  return taxes;
+}
+
+// Charge each tax on an amount, rounded per tax
+function applyTaxes(components: TaxRateComponent[], amountCents: number) {
+  return components.map((component): LineTax => ({
+    name: component.name,
+    jurisdiction: component.jurisdiction,
+    rate: component.rate,
+    taxableCents: amountCents,
+    amountCents: Math.round(amountCents * component.rate),
+  }));
+}
+
+/**
+ * Tax each line at the given rates, rounded per line and tax.
+ * Only STANDARD lines are taxed. Shipping follows the goods: it is taxed,
+ * at the rates that apply to shipping, only when some line is.
+ */
+export function calculateTax(
+  lines: TaxableLine[],
+  components: TaxRateComponent[]
+) {
+  const lineTaxes = lines.map((line) => {
+    const taxes =
+      line.taxClass === "STANDARD"
+        ? applyTaxes(components, line.amountCents)
+        : [];
+    return {
+      taxClass: line.taxClass,
+      taxes,
+      taxCents: taxes.reduce((sum, tax) => sum + tax.amountCents, 0),
+    };
+  });
+
+  return {
+    lines: lineTaxes,
+    taxes: summarizeTaxes(lineTaxes.flatMap((line) => line.taxes)),
+    taxCents: lineTaxes.reduce((sum, line) => sum + line.taxCents, 0),
+    shippingComponents: lines.some((line) => line.taxClass === "STANDARD")
+      ? components.filter((component) => component.taxShipping)
+      : [],
+  };
+}
+
+/**
+ * Tax on an order's shipping price, at the shipping rates returned by
+ * calculateOrderTax (none for exempt buyers, or when no line is taxed)
+ */
+export function calculateShippingTax(
+  shippingComponents: TaxRateComponent[],
+  shippingCents: number
+) {
+  const taxes =
+    shippingCents > 0 ? applyTaxes(shippingComponents, shippingCents) : [];
+  return {
+    taxes,
+    taxCents: taxes.reduce((sum, tax) => sum + tax.amountCents, 0),
+  };
+}
+
+/**
+ * Tax a buyer's cart or order lines at their ship-to location (see
+ * getOrderAddresses): the exemption certificate comes from their company,
+ * the tax class from each product's category and the rates from the
+ * TaxRate table; exempt buyers (with a certificate number) pay no tax at
+ * all. Lines are returned in the same order; shipping is taxed with
+ * calculateShippingTax once its price is known.
+ */
+export async function calculateOrderTax(
+  db: Prisma.TransactionClient,
+  data: {
+    companyId: string | null;
+    lines: { productId: string; quantity: number; unitPriceCents: number }[];
+    location: TaxLocation;
+  }
+) {
+  const [company, products] = await Promise.all([
+    data.companyId
+      ? db.company.findUnique({
+          where: { id: data.companyId },
+          select: { taxExemptionNumber: true },
+        })
+      : null,
+    db.product.findMany({
+      where: { id: { in: data.lines.map((line) => line.productId) } },
+      select: { id: true, category: { select: { taxClass: true } } },
+    }),
+  ]);
+
+  const taxClasses = new Map(
+    products.map((p) => [p.id, p.category?.taxClass ?? "STANDARD"])
+  );
+  const location: TaxLocation = {
+    country: data.location.country,
+    region: data.location.region,
+  };
+  const exemptionNumber = company?.taxExemptionNumber ?? null;
+  const components = exemptionNumber
+    ? []
+    : await getTaxComponents(db, location);
+
+  const tax = calculateTax(
+    data.lines.map((line) => ({
+      amountCents: line.quantity * line.unitPriceCents,
+      taxClass: taxClasses.get(line.productId) ?? "STANDARD",
+    })),
+    components
+  );
+
+  return { ...tax, location, exemptionNumber };
+}
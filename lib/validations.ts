@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { TAX_REGIONS } from "@/lib/tax-rates";
+import { isValidPostalCode, normalizePostalCode } from "@/lib/address-format";
 
 // Schemas for validating various inputs
 export const csvRowSchema = z.object({
@@ -22,6 +24,117 @@ export const orderSchema = z.object({
   notes: z.string().optional(),
 });
 
+// Volume price tiers: unit price from minQuantity up (base price below the first tier)
+export const priceTiersSchema = z
+  .array(
+    z.object({
+      minQuantity: z.number().int().min(2),
+      priceCents: z.number().int().positive(),
+    })
+  )
+  .max(20)
+  .refine(
+    (tiers) => new Set(tiers.map((t) => t.minQuantity)).size === tiers.length,
+    { message: "Each tier needs a different minimum quantity" }
+  );
+
+// Purchase order lines: quantity ordered and unit cost, one line per product
+export const purchaseOrderLinesSchema = z
+  .array(
+    z.object({
+      productId: z.string().min(1),
+      quantity: z.number().int().positive(),
+      unitCostCents: z.number().int().nonnegative().default(0),
+    })
+  )
+  .min(1)
+  .max(200)
+  .refine(
+    (lines) => new Set(lines.map((l) => l.productId)).size === lines.length,
+    { message: "Each product can only appear on one line" }
+  );
+
+// Shipping rate table of a zone: price per method and weight band
+// [minWeightGrams, maxWeightGrams); pickup is always free and has no rates
+export const shippingRatesSchema = z
+  .array(
+    z
+      .object({
+        method: z.enum(["GROUND", "EXPRESS", "FREIGHT"]),
+        minWeightGrams: z.number().int().nonnegative().default(0),
+        maxWeightGrams: z.number().int().positive().nullable().optional(),
+        priceCents: z.number().int().nonnegative(),
+        freeAboveCents: z.number().int().positive().nullable().optional(),
+      })
+      .refine(
+        (r) => r.maxWeightGrams == null || r.maxWeightGrams > r.minWeightGrams,
+        {
+          message: "maxWeightGrams must be above minWeightGrams",
+        }
+      )
+  )
+  .max(100);
+
+// Tax charged at a ship-to location: country-wide (no region) or for one of
+// its provinces/states; rate as a fraction, 0.05 = 5%
+export const taxRateSchema = z
+  .object({
+    country: z.string().regex(/^[A-Z]{2}$/),
+    region: z
+      .string()
+      .regex(/^[A-Z]{2}$/)
+      .nullable()
+      .optional()
+      .default(null),
+    name: z.string().trim().min(1),
+    jurisdiction: z.string().trim().min(1),
+    rate: z.number().min(0).max(1),
+    taxShipping: z.boolean().optional().default(false),
+  })
+  .refine(
+    (r) =>
+      !r.region ||
+      !TAX_REGIONS[r.country] ||
+      r.region in TAX_REGIONS[r.country],
+    { message: "Unknown province or state", path: ["region"] }
+  );
+
+// Address book entry; the postal code is normalized, then checked against the
+// country's format, and CA/US addresses need a known province or state
+export const addressSchema = z
+  .object({
+    label: z.string().max(50).optional().nullable(),
+    contactName: z.string().min(1).max(100),
+    company: z.string().max(100).optional().nullable(),
+    phone: z.string().max(30).optional().nullable(),
+    line1: z.string().min(1).max(200),
+    line2: z.string().max(200).optional().nullable(),
+    city: z.string().min(1).max(100),
+    region: z
+      .string()
+      .regex(/^[A-Z]{2}$/)
+      .optional()
+      .nullable(),
+    postalCode: z.string().min(1).max(12),
+    country: z.string().regex(/^[A-Z]{2}$/),
+    isDefaultShipping: z.boolean().optional(),
+    isDefaultBilling: z.boolean().optional(),
+  })
+  .transform((address) => ({
+    ...address,
+    postalCode: normalizePostalCode(address.country, address.postalCode),
+  }))
+  .refine((a) => isValidPostalCode(a.country, a.postalCode), {
+    message: "Invalid postal code for this country",
+    path: ["postalCode"],
+  })
+  .refine(
+    (a) =>
+      !TAX_REGIONS[a.country] ||
+      (!!a.region && a.region in TAX_REGIONS[a.country]),
+    { message: "Unknown province or state", path: ["region"] }
+  );
+
 export const addCartItemSchema = z.object({
   productId: z.string().optional(),
   sku: z.string().optional(),
@@ -0,0 +1,143 @@
+import type { Prisma, Warehouse } from "@prisma/client";
+import type { ShippingLocation } from "@/lib/shipping";
+
+type WarehouseLocation = Pick<
+  Warehouse,
+  "id" | "code" | "country" | "region" | "postalCode" | "priority"
+>;
+
+// Units of an order line taken from a warehouse, or from a supplier's stock
+export type StockAllocation = {
+  inventoryId: string;
+  locationId: string; // warehouse or supplier id
+  quantity: number;
+};
+
+const normalizePostalCode = (postalCode: string | null) =>
+  (postalCode ?? "").replace(/\s+/g, "").toUpperCase();
+
+/**
+ * How near a warehouse is to a ship-to location, without geocoding: other
+ * countries are farthest, then the longer the shared postal code prefix the
+ * nearer, then the same province/state.
+ */
+export function warehouseProximity(
+  warehouse: WarehouseLocation,
+  location: ShippingLocation
+) {
+  if (warehouse.country !== location.country) return 0;
+
+  const from = normalizePostalCode(warehouse.postalCode);
+  const to = normalizePostalCode(location.postalCode);
+  let shared = 0;
+  while (shared < from.length && from[shared] === to[shared]) shared++;
+
+  const sameRegion = !!warehouse.region && warehouse.region === location.region;
+  return 1 + (sameRegion ? 1 : 0) + shared * 2;
+}
+
+// Warehouses nearest first; equally near ones by priority, then code
+export function rankWarehouses<T extends WarehouseLocation>(
+  warehouses: T[],
+  location: ShippingLocation
+): T[] {
+  return [...warehouses].sort(
+    (a, b) =>
+      warehouseProximity(b, location) - warehouseProximity(a, location) ||
+      a.priority - b.priority ||
+      a.code.localeCompare(b.code)
+  );
+}
+
+// The warehouse stock goes to when none is given: the first active one
+export async function getDefaultWarehouse(db: Prisma.TransactionClient) {
+  return db.warehouse.findFirst({
+    where: { isActive: true },
+    orderBy: [{ priority: "asc" }, { code: "asc" }],
+  });
+}
+
+/**
+ * Decide where each order line is filled from, given the warehouses nearest
+ * first, the suppliers to fall back to and the available stock at each. The
+ * whole order ships from the nearest warehouse that can fill every line;
+ * otherwise each line comes from the nearest warehouse that can fill it, and
+ * lines no single warehouse can fill are split across warehouses, nearest
+ * first, then across suppliers once platform stock runs out. What is still
+ * missing of a line that allows backorders is left unallocated.
+ * Returns the allocations of each line, in line order.
+ *
+ * Throws STOCK_INSUFFICIENT:<productName>
+ */
+export function allocateStock(
+  lines: {
+    productId: string;
+    productName: string;
+    quantity: number;
+    allowBackorder?: boolean;
+  }[],
+  stock: {
+    inventoryId: string;
+    productId: string;
+    locationId: string;
+    available: number;
+  }[],
+  warehouseIds: string[],
+  supplierIds: string[] = []
+): StockAllocation[][] {
+  // Stock left per product and location as lines are allocated
+  const remaining = new Map(
+    stock.map((s) => [`${s.productId}:${s.locationId}`, { ...s }])
+  );
+  const availableAt = (productId: string, locationId: string) =>
+    remaining.get(`${productId}:${locationId}`)?.available ?? 0;
+
+  const take = (
+    productId: string,
+    locationId: string,
+    quantity: number
+  ): StockAllocation => {
+    const row = remaining.get(`${productId}:${locationId}`)!;
+    row.available -= quantity;
+    return { inventoryId: row.inventoryId, locationId, quantity };
+  };
+
+  // Units wanted per product (a product may appear on several lines)
+  const wanted = new Map<string, number>();
+  for (const line of lines) {
+    wanted.set(
+      line.productId,
+      (wanted.get(line.productId) ?? 0) + line.quantity
+    );
+  }
+
+  const single = warehouseIds.find((warehouseId) =>
+    [...wanted].every(
+      ([productId, quantity]) => availableAt(productId, warehouseId) >= quantity
+    )
+  );
+  if (single) {
+    return lines.map((line) => [take(line.productId, single, line.quantity)]);
+  }
+
+  return lines.map((line) => {
+    const whole = warehouseIds.find(
+      (warehouseId) => availableAt(line.productId, warehouseId) >= line.quantity
+    );
+    if (whole) return [take(line.productId, whole, line.quantity)];
+
+    const allocations: StockAllocation[] = [];
+    let left = line.quantity;
+    for (const locationId of [...warehouseIds, ...supplierIds]) {
+      const quantity = Math.min(left, availableAt(line.productId, locationId));
+      if (quantity <= 0) continue;
+      allocations.push(take(line.productId, locationId, quantity));
+      left -= quantity;
+      if (left === 0) break;
+    }
+    if (left > 0 && !line.allowBackorder) {
+      throw new Error(`STOCK_INSUFFICIENT:${line.productName}`);
+    }
+    return allocations;
+  });
+}
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'PENDING_APPROVAL' BEFORE 'CREATED';
+
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN     "purchaserSpendingLimitCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "CompanyMember" ADD COLUMN     "spendingLimitCents" INTEGER;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "PriceList" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "buyerId" TEXT,
+    "companyId" TEXT,
+    "validFrom" TIMESTAMP(3),
+    "validTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PriceList_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PriceListItem" (
+    "id" TEXT NOT NULL,
+    "priceListId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "priceCents" INTEGER NOT NULL,
+
+    CONSTRAINT "PriceListItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PriceList_buyerId_idx" ON "PriceList"("buyerId");
+
+-- CreateIndex
+CREATE INDEX "PriceList_companyId_idx" ON "PriceList"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceListItem_priceListId_productId_key" ON "PriceListItem"("priceListId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "PriceList" ADD CONSTRAINT "PriceList_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceList" ADD CONSTRAINT "PriceList_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceListItem" ADD CONSTRAINT "PriceListItem_priceListId_fkey" FOREIGN KEY ("priceListId") REFERENCES "PriceList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceListItem" ADD CONSTRAINT "PriceListItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
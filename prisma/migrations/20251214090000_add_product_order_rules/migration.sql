@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "minOrderQuantity" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "orderMultiple" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "packSize" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "QuoteStatus" AS ENUM ('REQUESTED', 'QUOTED', 'ACCEPTED', 'DECLINED', 'EXPIRED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "Quote" (
+    "id" TEXT NOT NULL,
+    "buyerId" TEXT NOT NULL,
+    "companyId" TEXT,
+    "status" "QuoteStatus" NOT NULL DEFAULT 'REQUESTED',
+    "notes" TEXT,
+    "adminNotes" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "respondedById" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "orderId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Quote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "QuoteLine" (
+    "id" TEXT NOT NULL,
+    "quoteId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "listUnitPriceCents" INTEGER NOT NULL,
+    "quotedUnitPriceCents" INTEGER,
+
+    CONSTRAINT "QuoteLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Quote_orderId_key" ON "Quote"("orderId");
+
+-- CreateIndex
+CREATE INDEX "Quote_buyerId_idx" ON "Quote"("buyerId");
+
+-- CreateIndex
+CREATE INDEX "Quote_companyId_idx" ON "Quote"("companyId");
+
+-- CreateIndex
+CREATE INDEX "Quote_status_idx" ON "Quote"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuoteLine_quoteId_productId_key" ON "QuoteLine"("quoteId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "Quote" ADD CONSTRAINT "Quote_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quote" ADD CONSTRAINT "Quote_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quote" ADD CONSTRAINT "Quote_respondedById_fkey" FOREIGN KEY ("respondedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Quote" ADD CONSTRAINT "Quote_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuoteLine" ADD CONSTRAINT "QuoteLine_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "Quote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuoteLine" ADD CONSTRAINT "QuoteLine_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "TaxClass" AS ENUM ('STANDARD', 'ZERO_RATED', 'EXEMPT');
+
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN     "taxExemptionNumber" TEXT;
+
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "taxClass" "TaxClass" NOT NULL DEFAULT 'STANDARD';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "country" TEXT,
+ADD COLUMN     "region" TEXT;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shipToCountry" TEXT,
+ADD COLUMN     "shipToRegion" TEXT,
+ADD COLUMN     "taxExemptionNumber" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrderLine" ADD COLUMN     "taxClass" "TaxClass" NOT NULL DEFAULT 'STANDARD',
+ADD COLUMN     "taxCents" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "OrderLineTax" (
+    "id" TEXT NOT NULL,
+    "orderLineId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "jurisdiction" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "taxableCents" INTEGER NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+
+    CONSTRAINT "OrderLineTax_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderLineTax_orderLineId_idx" ON "OrderLineTax"("orderLineId");
+
+-- AddForeignKey
+ALTER TABLE "OrderLineTax" ADD CONSTRAINT "OrderLineTax_orderLineId_fkey" FOREIGN KEY ("orderLineId") REFERENCES "OrderLine"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
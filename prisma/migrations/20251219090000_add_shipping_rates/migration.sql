@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "ShippingMethod" AS ENUM ('GROUND', 'EXPRESS', 'FREIGHT', 'PICKUP');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "heightCm" INTEGER,
+ADD COLUMN     "lengthCm" INTEGER,
+ADD COLUMN     "weightGrams" INTEGER,
+ADD COLUMN     "widthCm" INTEGER;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "postalCode" TEXT;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingMethod" "ShippingMethod",
+ADD COLUMN     "shippingWeightGrams" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ShippingZone" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "regions" TEXT[],
+    "postalPrefixes" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShippingZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingRate" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "method" "ShippingMethod" NOT NULL,
+    "minWeightGrams" INTEGER NOT NULL DEFAULT 0,
+    "maxWeightGrams" INTEGER,
+    "priceCents" INTEGER NOT NULL,
+    "freeAboveCents" INTEGER,
+
+    CONSTRAINT "ShippingRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShippingZone_country_idx" ON "ShippingZone"("country");
+
+-- CreateIndex
+CREATE INDEX "ShippingRate_zoneId_idx" ON "ShippingRate"("zoneId");
+
+-- AddForeignKey
+ALTER TABLE "ShippingRate" ADD CONSTRAINT "ShippingRate_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Keep the previous flat rate for Canada ($10 ground, free from $100)
+INSERT INTO "ShippingZone" ("id", "name", "country", "regions", "postalPrefixes", "updatedAt")
+VALUES ('default-canada', 'Canada', 'CA', '{}', '{}', CURRENT_TIMESTAMP);
+
+INSERT INTO "ShippingRate" ("id", "zoneId", "method", "minWeightGrams", "maxWeightGrams", "priceCents", "freeAboveCents")
+VALUES ('default-canada-ground', 'default-canada', 'GROUND', 0, NULL, 1000, 10000);
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "billToCity" TEXT,
+ADD COLUMN     "billToCompany" TEXT,
+ADD COLUMN     "billToCountry" TEXT,
+ADD COLUMN     "billToLine1" TEXT,
+ADD COLUMN     "billToLine2" TEXT,
+ADD COLUMN     "billToName" TEXT,
+ADD COLUMN     "billToPhone" TEXT,
+ADD COLUMN     "billToPostalCode" TEXT,
+ADD COLUMN     "billToRegion" TEXT,
+ADD COLUMN     "shipToCity" TEXT,
+ADD COLUMN     "shipToCompany" TEXT,
+ADD COLUMN     "shipToLine1" TEXT,
+ADD COLUMN     "shipToLine2" TEXT,
+ADD COLUMN     "shipToName" TEXT,
+ADD COLUMN     "shipToPhone" TEXT,
+ADD COLUMN     "shipToPostalCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "Address" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "label" TEXT,
+    "contactName" TEXT NOT NULL,
+    "company" TEXT,
+    "phone" TEXT,
+    "line1" TEXT NOT NULL,
+    "line2" TEXT,
+    "city" TEXT NOT NULL,
+    "region" TEXT,
+    "postalCode" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "isDefaultShipping" BOOLEAN NOT NULL DEFAULT false,
+    "isDefaultBilling" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Address_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Address_userId_idx" ON "Address"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Address" ADD CONSTRAINT "Address_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "ReservationStatus" AS ENUM ('ACTIVE', 'COMMITTED', 'RELEASED');
+
+-- AlterTable
+ALTER TABLE "Inventory" ADD COLUMN     "reserved" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "StockReservation" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "inventoryId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "status" "ReservationStatus" NOT NULL DEFAULT 'ACTIVE',
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StockReservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockReservation_orderId_idx" ON "StockReservation"("orderId");
+
+-- CreateIndex
+CREATE INDEX "StockReservation_status_expiresAt_idx" ON "StockReservation"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "StockReservation" ADD CONSTRAINT "StockReservation_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockReservation" ADD CONSTRAINT "StockReservation_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "Inventory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Unpaid orders used to take their stock off on-hand inventory when placed:
+-- put it back on hand and hold it with a reservation instead. CREATED orders
+-- get a fresh one-hour payment window.
+INSERT INTO "StockReservation" ("id", "orderId", "inventoryId", "quantity", "expiresAt", "updatedAt")
+SELECT gen_random_uuid()::text, o."id", i."id", l."quantity",
+       CASE WHEN o."status" = 'CREATED' THEN CURRENT_TIMESTAMP + INTERVAL '1 hour' END,
+       CURRENT_TIMESTAMP
+FROM "OrderLine" l
+JOIN "Order" o ON o."id" = l."orderId"
+JOIN LATERAL (
+    SELECT "id" FROM "Inventory"
+    WHERE "productId" = l."productId" AND "ownerType" = 'PLATFORM'
+    LIMIT 1
+) i ON true
+WHERE o."status" IN ('CREATED', 'PENDING_APPROVAL');
+
+UPDATE "Inventory" i
+SET "quantity" = i."quantity" + r."held",
+    "reserved" = i."reserved" + r."held"
+FROM (
+    SELECT "inventoryId", SUM("quantity") AS "held"
+    FROM "StockReservation"
+    GROUP BY "inventoryId"
+) r
+WHERE r."inventoryId" = i."id";
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "InventoryMovementReason" AS ENUM ('RESERVATION', 'SALE', 'CANCEL', 'ADJUSTMENT', 'RECEIPT', 'RETURN');
+
+-- CreateTable
+CREATE TABLE "InventoryMovement" (
+    "id" TEXT NOT NULL,
+    "inventoryId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "reason" "InventoryMovementReason" NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "reservedDelta" INTEGER NOT NULL DEFAULT 0,
+    "quantityAfter" INTEGER NOT NULL,
+    "reservedAfter" INTEGER NOT NULL,
+    "referenceId" TEXT,
+    "actorId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InventoryMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryMovement_productId_createdAt_idx" ON "InventoryMovement"("productId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "InventoryMovement_inventoryId_idx" ON "InventoryMovement"("inventoryId");
+
+-- AddForeignKey
+ALTER TABLE "InventoryMovement" ADD CONSTRAINT "InventoryMovement_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "Inventory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryMovement" ADD CONSTRAINT "InventoryMovement_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryMovement" ADD CONSTRAINT "InventoryMovement_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Start every existing inventory's ledger with its current stock so that
+-- the running totals of later movements match Inventory
+INSERT INTO "InventoryMovement" ("id", "inventoryId", "productId", "reason", "delta", "reservedDelta", "quantityAfter", "reservedAfter", "note")
+SELECT gen_random_uuid()::text, i."id", i."productId", 'ADJUSTMENT',
+       i."quantity", i."reserved", i."quantity", i."reserved", 'Opening balance'
+FROM "Inventory" i;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "Warehouse" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "region" TEXT,
+    "postalCode" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Warehouse_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Warehouse_code_key" ON "Warehouse"("code");
+
+-- AlterTable
+ALTER TABLE "Inventory" ADD COLUMN     "warehouseId" TEXT;
+
+-- Existing platform stock is held at a single main warehouse (in Quebec,
+-- like the default tax and shipping location); rename it and add the others
+-- from the admin
+INSERT INTO "Warehouse" ("id", "code", "name", "country", "region", "updatedAt")
+VALUES (gen_random_uuid()::text, 'MAIN', 'Main warehouse', 'CA', 'QC', CURRENT_TIMESTAMP);
+
+UPDATE "Inventory"
+SET "warehouseId" = (SELECT "id" FROM "Warehouse" WHERE "code" = 'MAIN')
+WHERE "ownerType" = 'PLATFORM';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Inventory_productId_warehouseId_key" ON "Inventory"("productId", "warehouseId");
+
+-- AddForeignKey
+ALTER TABLE "Inventory" ADD CONSTRAINT "Inventory_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "Warehouse"("id") ON DELETE SET NULL ON UPDATE CASCADE;
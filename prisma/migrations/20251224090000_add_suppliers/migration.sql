@@ -0,0 +1,91 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'SUPPLIER';
+
+-- CreateEnum
+CREATE TYPE "DropShipStatus" AS ENUM ('OPEN', 'ACKNOWLEDGED', 'SHIPPED');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "supplierId" TEXT;
+
+-- AlterTable
+ALTER TABLE "StockReservation" ADD COLUMN     "orderLineId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Supplier" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "phone" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Supplier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DropShipOrder" (
+    "id" TEXT NOT NULL,
+    "supplierId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "status" "DropShipStatus" NOT NULL DEFAULT 'OPEN',
+    "shipmentId" TEXT,
+    "acknowledgedAt" TIMESTAMP(3),
+    "shippedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DropShipOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DropShipOrderLine" (
+    "id" TEXT NOT NULL,
+    "dropShipOrderId" TEXT NOT NULL,
+    "orderLineId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "DropShipOrderLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Supplier_name_key" ON "Supplier"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DropShipOrder_shipmentId_key" ON "DropShipOrder"("shipmentId");
+
+-- CreateIndex
+CREATE INDEX "DropShipOrder_supplierId_status_idx" ON "DropShipOrder"("supplierId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DropShipOrder_orderId_supplierId_key" ON "DropShipOrder"("orderId", "supplierId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DropShipOrderLine_dropShipOrderId_orderLineId_key" ON "DropShipOrderLine"("dropShipOrderId", "orderLineId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Inventory_productId_ownerId_key" ON "Inventory"("productId", "ownerId");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Inventory" ADD CONSTRAINT "Inventory_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Supplier"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockReservation" ADD CONSTRAINT "StockReservation_orderLineId_fkey" FOREIGN KEY ("orderLineId") REFERENCES "OrderLine"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DropShipOrder" ADD CONSTRAINT "DropShipOrder_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "Supplier"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DropShipOrder" ADD CONSTRAINT "DropShipOrder_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DropShipOrder" ADD CONSTRAINT "DropShipOrder_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "Shipment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DropShipOrderLine" ADD CONSTRAINT "DropShipOrderLine_dropShipOrderId_fkey" FOREIGN KEY ("dropShipOrderId") REFERENCES "DropShipOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DropShipOrderLine" ADD CONSTRAINT "DropShipOrderLine_orderLineId_fkey" FOREIGN KEY ("orderLineId") REFERENCES "OrderLine"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
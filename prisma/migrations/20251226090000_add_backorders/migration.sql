@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "allowBackorder" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "OrderLine" ADD COLUMN     "backorderedQuantity" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,36 @@
+-- AlterEnum
+ALTER TYPE "DropShipStatus" ADD VALUE 'CANCELLED';
+
+-- AlterEnum
+ALTER TYPE "InventoryMovementReason" ADD VALUE 'REFUND';
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "refundedCents" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "OrderLine" ADD COLUMN     "refundedQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "OrderRefund" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "stripeRefundId" TEXT,
+    "reason" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderRefund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderRefund_stripeRefundId_key" ON "OrderRefund"("stripeRefundId");
+
+-- CreateIndex
+CREATE INDEX "OrderRefund_orderId_idx" ON "OrderRefund"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "OrderRefund" ADD CONSTRAINT "OrderRefund_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderRefund" ADD CONSTRAINT "OrderRefund_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "PaymentAttemptStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "status" "PaymentAttemptStatus" NOT NULL DEFAULT 'PENDING',
+    "amountCents" INTEGER NOT NULL,
+    "checkoutSessionId" TEXT,
+    "paymentIntentId" TEXT,
+    "failureReason" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_checkoutSessionId_key" ON "Payment"("checkoutSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_paymentIntentId_key" ON "Payment"("paymentIntentId");
+
+-- CreateIndex
+CREATE INDEX "Payment_orderId_idx" ON "Payment"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Order.paymentIntentId held the checkout session id (cs_...) until the
+-- webhook replaced it with the payment intent id (pi_...): keep it as the
+-- order's payment attempt
+INSERT INTO "Payment" ("id", "orderId", "status", "amountCents", "checkoutSessionId", "paymentIntentId", "paidAt", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, o."id",
+       CASE
+         WHEN o."paidAt" IS NOT NULL THEN 'SUCCEEDED'
+         WHEN o."paymentStatus" = 'PAYMENT_FAILED' THEN 'FAILED'
+         WHEN o."status" = 'CANCELLED' THEN 'EXPIRED'
+         ELSE 'PENDING'
+       END::"PaymentAttemptStatus",
+       o."totalCents",
+       CASE WHEN o."paymentIntentId" LIKE 'cs\_%' THEN o."paymentIntentId" END,
+       CASE WHEN o."paymentIntentId" NOT LIKE 'cs\_%' THEN o."paymentIntentId" END,
+       o."paidAt", o."createdAt", CURRENT_TIMESTAMP
+FROM "Order" o
+WHERE o."paymentIntentId" IS NOT NULL AND o."paymentMethod" = 'CARD';
+
+-- AlterTable
+ALTER TABLE "Order" DROP COLUMN "paymentIntentId";
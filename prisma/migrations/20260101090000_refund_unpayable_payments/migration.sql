@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "PaymentAttemptStatus" ADD VALUE 'REFUNDED';
@@ -0,0 +1,102 @@
+-- CreateTable
+CREATE TABLE "TaxRate" (
+    "id" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "region" TEXT,
+    "name" TEXT NOT NULL,
+    "jurisdiction" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "taxShipping" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderShippingTax" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "jurisdiction" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "taxableCents" INTEGER NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+
+    CONSTRAINT "OrderShippingTax_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaxRate_country_region_idx" ON "TaxRate"("country", "region");
+
+-- CreateIndex
+CREATE INDEX "OrderShippingTax_orderId_idx" ON "OrderShippingTax"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "OrderShippingTax" ADD CONSTRAINT "OrderShippingTax_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Start from the rates that were built in: GST across Canada, replaced by
+-- GST + PST/RST/QST or by HST in the provinces that have them, all charged on
+-- shipping too; US statewide base rates, not charged on shipping
+INSERT INTO "TaxRate" ("id", "country", "region", "name", "jurisdiction", "rate", "taxShipping", "updatedAt")
+VALUES
+    ('default-ca-gst', 'CA', NULL, 'GST', 'CA', 0.05, true, CURRENT_TIMESTAMP),
+    ('default-ca-bc-gst', 'CA', 'BC', 'GST', 'CA', 0.05, true, CURRENT_TIMESTAMP),
+    ('default-ca-bc-pst', 'CA', 'BC', 'PST', 'CA-BC', 0.07, true, CURRENT_TIMESTAMP),
+    ('default-ca-mb-gst', 'CA', 'MB', 'GST', 'CA', 0.05, true, CURRENT_TIMESTAMP),
+    ('default-ca-mb-rst', 'CA', 'MB', 'RST', 'CA-MB', 0.07, true, CURRENT_TIMESTAMP),
+    ('default-ca-nb-hst', 'CA', 'NB', 'HST', 'CA-NB', 0.15, true, CURRENT_TIMESTAMP),
+    ('default-ca-nl-hst', 'CA', 'NL', 'HST', 'CA-NL', 0.15, true, CURRENT_TIMESTAMP),
+    ('default-ca-ns-hst', 'CA', 'NS', 'HST', 'CA-NS', 0.14, true, CURRENT_TIMESTAMP),
+    ('default-ca-on-hst', 'CA', 'ON', 'HST', 'CA-ON', 0.13, true, CURRENT_TIMESTAMP),
+    ('default-ca-pe-hst', 'CA', 'PE', 'HST', 'CA-PE', 0.15, true, CURRENT_TIMESTAMP),
+    ('default-ca-qc-gst', 'CA', 'QC', 'GST', 'CA', 0.05, true, CURRENT_TIMESTAMP),
+    ('default-ca-qc-qst', 'CA', 'QC', 'QST', 'CA-QC', 0.09975, true, CURRENT_TIMESTAMP),
+    ('default-ca-sk-gst', 'CA', 'SK', 'GST', 'CA', 0.05, true, CURRENT_TIMESTAMP),
+    ('default-ca-sk-pst', 'CA', 'SK', 'PST', 'CA-SK', 0.06, true, CURRENT_TIMESTAMP),
+    ('default-us-al', 'US', 'AL', 'AL sales tax', 'US-AL', 0.04, false, CURRENT_TIMESTAMP),
+    ('default-us-az', 'US', 'AZ', 'AZ sales tax', 'US-AZ', 0.056, false, CURRENT_TIMESTAMP),
+    ('default-us-ar', 'US', 'AR', 'AR sales tax', 'US-AR', 0.065, false, CURRENT_TIMESTAMP),
+    ('default-us-ca', 'US', 'CA', 'CA sales tax', 'US-CA', 0.0725, false, CURRENT_TIMESTAMP),
+    ('default-us-co', 'US', 'CO', 'CO sales tax', 'US-CO', 0.029, false, CURRENT_TIMESTAMP),
+    ('default-us-ct', 'US', 'CT', 'CT sales tax', 'US-CT', 0.0635, false, CURRENT_TIMESTAMP),
+    ('default-us-dc', 'US', 'DC', 'DC sales tax', 'US-DC', 0.06, false, CURRENT_TIMESTAMP),
+    ('default-us-fl', 'US', 'FL', 'FL sales tax', 'US-FL', 0.06, false, CURRENT_TIMESTAMP),
+    ('default-us-ga', 'US', 'GA', 'GA sales tax', 'US-GA', 0.04, false, CURRENT_TIMESTAMP),
+    ('default-us-hi', 'US', 'HI', 'HI sales tax', 'US-HI', 0.04, false, CURRENT_TIMESTAMP),
+    ('default-us-id', 'US', 'ID', 'ID sales tax', 'US-ID', 0.06, false, CURRENT_TIMESTAMP),
+    ('default-us-il', 'US', 'IL', 'IL sales tax', 'US-IL', 0.0625, false, CURRENT_TIMESTAMP),
+    ('default-us-in', 'US', 'IN', 'IN sales tax', 'US-IN', 0.07, false, CURRENT_TIMESTAMP),
+    ('default-us-ia', 'US', 'IA', 'IA sales tax', 'US-IA', 0.06, false, CURRENT_TIMESTAMP),
+    ('default-us-ks', 'US', 'KS', 'KS sales tax', 'US-KS', 0.065, false, CURRENT_TIMESTAMP),
+    ('default-us-ky', 'US', 'KY', 'KY sales tax', 'US-KY', 0.06, false, CURRENT_TIMESTAMP),
+    ('default-us-la', 'US', 'LA', 'LA sales tax', 'US-LA', 0.05, false, CURRENT_TIMESTAMP),
+    ('default-us-me', 'US', 'ME', 'ME sales tax', 'US-ME', 0.055, false, CURRENT_TIMESTAMP),
+    ('default-us-md', 'US', 'MD', 'MD sales tax', 'US-MD', 0.06, false, CURRENT_TIMESTAMP),
+    ('default-us-ma', 'US', 'MA', 'MA sales tax', 'US-MA', 0.0625, false, CURRENT_TIMESTAMP),
+    ('default-us-mi', 'US', 'MI', 'MI sales tax', 'US-MI', 0.06, false, CURRENT_TIMESTAMP),
+    ('default-us-mn', 'US', 'MN', 'MN sales tax', 'US-MN', 0.06875, false, CURRENT_TIMESTAMP),
+    ('default-us-ms', 'US', 'MS', 'MS sales tax', 'US-MS', 0.07, false, CURRENT_TIMESTAMP),
+    ('default-us-mo', 'US', 'MO', 'MO sales tax', 'US-MO', 0.04225, false, CURRENT_TIMESTAMP),
+    ('default-us-ne', 'US', 'NE', 'NE sales tax', 'US-NE', 0.055, false, CURRENT_TIMESTAMP),
+    ('default-us-nv', 'US', 'NV', 'NV sales tax', 'US-NV', 0.0685, false, CURRENT_TIMESTAMP),
+    ('default-us-nj', 'US', 'NJ', 'NJ sales tax', 'US-NJ', 0.06625, false, CURRENT_TIMESTAMP),
+    ('default-us-nm', 'US', 'NM', 'NM sales tax', 'US-NM', 0.04875, false, CURRENT_TIMESTAMP),
+    ('default-us-ny', 'US', 'NY', 'NY sales tax', 'US-NY', 0.04, false, CURRENT_TIMESTAMP),
+    ('default-us-nc', 'US', 'NC', 'NC sales tax', 'US-NC', 0.0475, false, CURRENT_TIMESTAMP),
+    ('default-us-nd', 'US', 'ND', 'ND sales tax', 'US-ND', 0.05, false, CURRENT_TIMESTAMP),
+    ('default-us-oh', 'US', 'OH', 'OH sales tax', 'US-OH', 0.0575, false, CURRENT_TIMESTAMP),
+    ('default-us-ok', 'US', 'OK', 'OK sales tax', 'US-OK', 0.045, false, CURRENT_TIMESTAMP),
+    ('default-us-pa', 'US', 'PA', 'PA sales tax', 'US-PA', 0.06, false, CURRENT_TIMESTAMP),
+    ('default-us-ri', 'US', 'RI', 'RI sales tax', 'US-RI', 0.07, false, CURRENT_TIMESTAMP),
+    ('default-us-sc', 'US', 'SC', 'SC sales tax', 'US-SC', 0.06, false, CURRENT_TIMESTAMP),
+    ('default-us-sd', 'US', 'SD', 'SD sales tax', 'US-SD', 0.042, false, CURRENT_TIMESTAMP),
+    ('default-us-tn', 'US', 'TN', 'TN sales tax', 'US-TN', 0.07, false, CURRENT_TIMESTAMP),
+    ('default-us-tx', 'US', 'TX', 'TX sales tax', 'US-TX', 0.0625, false, CURRENT_TIMESTAMP),
+    ('default-us-ut', 'US', 'UT', 'UT sales tax', 'US-UT', 0.0485, false, CURRENT_TIMESTAMP),
+    ('default-us-vt', 'US', 'VT', 'VT sales tax', 'US-VT', 0.06, false, CURRENT_TIMESTAMP),
+    ('default-us-va', 'US', 'VA', 'VA sales tax', 'US-VA', 0.053, false, CURRENT_TIMESTAMP),
+    ('default-us-wa', 'US', 'WA', 'WA sales tax', 'US-WA', 0.065, false, CURRENT_TIMESTAMP),
+    ('default-us-wv', 'US', 'WV', 'WV sales tax', 'US-WV', 0.06, false, CURRENT_TIMESTAMP),
+    ('default-us-wi', 'US', 'WI', 'WI sales tax', 'US-WI', 0.05, false, CURRENT_TIMESTAMP),
+    ('default-us-wy', 'US', 'WY', 'WY sales tax', 'US-WY', 0.04, false, CURRENT_TIMESTAMP);
@@ -61,6 +61,7 @@ async function seedOrders() {
             (products[3]?.priceCents || 12999) * 2
         ),
         taxCents: 7487,
+        shippingMethod: "GROUND",
         shippingCents: 1000,
         totalCents: Math.round(
           (products[0]?.priceCents || 15999) * 1 +
@@ -100,6 +101,7 @@ async function seedOrders() {
             (products[6]?.priceCents || 2499) * 10
         ),
         taxCents: 24960,
+        shippingMethod: "GROUND",
         shippingCents: 0,
         totalCents: Math.round(
           (products[1]?.priceCents || 8999) * 5 +
@@ -109,7 +111,6 @@ async function seedOrders() {
         ),
         notes: "Safety equipment order - team PPE package",
         paymentStatus: "PAID",
-        paymentIntentId: "pi_seed_order2_safety_equipment",
         paidAt: new Date("2024-12-02T15:30:00Z"),
         lines: {
           create: [
@@ -133,6 +134,15 @@ async function seedOrders() {
       },
       include: { lines: true },
     });
+    await prisma.payment.create({
+      data: {
+        orderId: order2.id,
+        status: "SUCCEEDED",
+        amountCents: order2.totalCents,
+        paymentIntentId: "pi_seed_order2_safety_equipment",
+        paidAt: order2.paidAt,
+      },
+    });
     console.log(`✅ Created Order 2: ${order2.id} (PO: ${order2.poNumber})`);
 
     // Create test orders for buyer 2
@@ -151,6 +161,7 @@ async function seedOrders() {
             (products[9]?.priceCents || 599) * 20
         ),
         taxCents: 14580,
+        shippingMethod: "GROUND",
         shippingCents: 2000,
         totalCents: Math.round(
           (products[0]?.priceCents || 15999) * 2 +
@@ -202,6 +213,7 @@ async function seedOrders() {
               (products[10]?.priceCents || 1299) * 15
           ),
           taxCents: 7095,
+          shippingMethod: "GROUND",
           shippingCents: 0,
           totalCents: Math.round(
             (products[8]?.priceCents || 45999) * 1 +
@@ -210,7 +222,6 @@ async function seedOrders() {
           ),
           notes: "Generator and lumber supply for field setup",
           paymentStatus: "PAID",
-          paymentIntentId: "pi_seed_order4_generator_lumber",
           paidAt: new Date("2024-12-01T09:15:00Z"),
           lines: {
             create: [
@@ -229,6 +240,15 @@ async function seedOrders() {
         },
         include: { lines: true },
       });
+      await prisma.payment.create({
+        data: {
+          orderId: order4.id,
+          status: "SUCCEEDED",
+          amountCents: order4.totalCents,
+          paymentIntentId: "pi_seed_order4_generator_lumber",
+          paidAt: order4.paidAt,
+        },
+      });
       console.log(`✅ Created Order 4: ${order4.id} (PO: ${order4.poNumber})`);
     }
 
@@ -1,5 +1,6 @@
 import "dotenv/config";
 import { PrismaClient } from "@prisma/client";
+import { receiveStock, setSupplierStock } from "@/lib/inventory";
 
 const prisma = new PrismaClient();
 
@@ -8,7 +9,7 @@ const prisma = new PrismaClient();
  *
  * This script will:
  * - Delete all existing categories, products, inventories, orders, and order lines
- * - Create fresh seed data from scratch
+ * - Create fresh seed data from scratch, including shipping zones and rates
  *
  * NOTE: This WILL delete all Order data! Run this before seed:orders if you want a clean slate
  * NOTE: This does NOT affect the User table, so user data is preserved
@@ -21,12 +22,30 @@ async function main() {
     // Delete dependent data first, then parent data
     console.log("🗑️  Cleaning up existing catalog and order data...");
     await prisma.cartItem.deleteMany({}); // CartItem depends on Product
+    await prisma.dropShipOrder.deleteMany({}); // DropShipOrder (and its lines) depends on Order and OrderLine
+    await prisma.returnRequest.deleteMany({}); // ReturnRequest (and its lines) depends on Order and OrderLine
+    await prisma.shipmentItem.deleteMany({}); // ShipmentItem depends on OrderLine
+    await prisma.shipment.deleteMany({}); // Shipment depends on Order
+    await prisma.orderLineTax.deleteMany({}); // OrderLineTax depends on OrderLine
     await prisma.orderLine.deleteMany({}); // OrderLine depends on Product
+    await prisma.orderShippingTax.deleteMany({}); // OrderShippingTax depends on Order
+    await prisma.orderStatusChange.deleteMany({}); // OrderStatusChange depends on Order
     await prisma.savedListItem.deleteMany({}); // SavedListItem depends on Product
+    await prisma.priceListItem.deleteMany({}); // PriceListItem depends on Product
+    await prisma.quote.deleteMany({}); // Quote (and its lines) depends on Order and Product
+    await prisma.invoicePayment.deleteMany({}); // InvoicePayment depends on Invoice
+    await prisma.invoice.deleteMany({}); // Invoice depends on Order
+    await prisma.stockReservation.deleteMany({}); // StockReservation depends on Order and Inventory
+    await prisma.orderRefund.deleteMany({}); // OrderRefund depends on Order
+    await prisma.payment.deleteMany({}); // Payment depends on Order
     await prisma.order.deleteMany({}); // Order depends on User
-    await prisma.inventory.deleteMany({}); // Inventory depends on Product
+    await prisma.purchaseOrder.deleteMany({}); // PurchaseOrder (and its lines) depends on Supplier, Warehouse and Product
+    await prisma.inventoryMovement.deleteMany({}); // InventoryMovement depends on Inventory and Product
+    await prisma.inventory.deleteMany({}); // Inventory depends on Product, Warehouse and Supplier
+    await prisma.warehouse.deleteMany({}); // Warehouse has no dependencies
     await prisma.product.deleteMany({}); // Product depends on Category
     await prisma.category.deleteMany({}); // Category has no dependencies
+    await prisma.shippingZone.deleteMany({}); // ShippingZone (and its rates) has no dependencies
     console.log("✅ Catalog and order data cleaned");
 
     // Create categories
@@ -54,6 +73,10 @@ async function main() {
           "Heavy-duty power drill for professional construction and maintenance work. Features variable speed control and ergonomic design.",
         priceCents: 15999,
         unit: "pcs",
+        weightGrams: 2500,
+        lengthCm: 35,
+        widthCm: 30,
+        heightCm: 12,
         categoryId: categories[1].id,
       },
       {
@@ -63,6 +86,10 @@ async function main() {
           "High-torque impact driver with brushless motor technology. Perfect for driving large fasteners and bolts.",
         priceCents: 12999,
         unit: "pcs",
+        weightGrams: 1800,
+        lengthCm: 25,
+        widthCm: 22,
+        heightCm: 10,
         categoryId: categories[1].id,
       },
       {
@@ -72,6 +99,10 @@ async function main() {
           "7.25-inch circular saw with laser guide for precision cutting. Includes 6 saw blades for various materials.",
         priceCents: 18999,
         unit: "pcs",
+        weightGrams: 4800,
+        lengthCm: 45,
+        widthCm: 35,
+        heightCm: 25,
         categoryId: categories[1].id,
       },
 
@@ -83,6 +114,10 @@ async function main() {
           "Complete safety harness system with protective gear for fall prevention. Meets all OSHA standards.",
         priceCents: 8999,
         unit: "set",
+        weightGrams: 2200,
+        lengthCm: 40,
+        widthCm: 30,
+        heightCm: 15,
         categoryId: categories[2].id,
       },
       {
@@ -92,6 +127,10 @@ async function main() {
           "ANSI Z89.1 compliant hard hat with suspension system for maximum comfort during extended use.",
         priceCents: 2499,
         unit: "pcs",
+        weightGrams: 450,
+        lengthCm: 30,
+        widthCm: 25,
+        heightCm: 18,
         categoryId: categories[2].id,
       },
       {
@@ -101,6 +140,10 @@ async function main() {
           "ANSI/ISEA 107-2015 Class 2 compliant safety vest with reflective strips. Available in multiple sizes.",
         priceCents: 1999,
         unit: "pcs",
+        weightGrams: 200,
+        lengthCm: 30,
+        widthCm: 25,
+        heightCm: 3,
         categoryId: categories[2].id,
       },
 
@@ -112,6 +155,10 @@ async function main() {
           "Portable LED work light with 5000K color temperature for bright, daylight-like illumination on jobsites.",
         priceCents: 3999,
         unit: "pcs",
+        weightGrams: 1200,
+        lengthCm: 25,
+        widthCm: 20,
+        heightCm: 15,
         categoryId: categories[3].id,
       },
       {
@@ -121,6 +168,10 @@ async function main() {
           "Professional digital multimeter with automatic range selection. Measures voltage, current, and resistance.",
         priceCents: 4999,
         unit: "pcs",
+        weightGrams: 500,
+        lengthCm: 20,
+        widthCm: 12,
+        heightCm: 6,
         categoryId: categories[3].id,
       },
       {
@@ -130,6 +181,10 @@ async function main() {
           "Portable 5000W gasoline generator with electric start. Ideal for construction sites and emergency backup.",
         priceCents: 45999,
         unit: "pcs",
+        weightGrams: 75000,
+        lengthCm: 70,
+        widthCm: 55,
+        heightCm: 55,
         categoryId: categories[3].id,
       },
 
@@ -141,6 +196,10 @@ async function main() {
           "Ready-to-use concrete mix. Just add water. Perfect for setting posts, laying foundations, and repairs.",
         priceCents: 599,
         unit: "bag",
+        weightGrams: 22700,
+        lengthCm: 60,
+        widthCm: 40,
+        heightCm: 12,
         categoryId: categories[4].id,
       },
       {
@@ -150,6 +209,10 @@ async function main() {
           "Grade A pressure-treated lumber. Ideal for framing, decking, and general construction projects.",
         priceCents: 1299,
         unit: "pcs",
+        weightGrams: 5400,
+        lengthCm: 244,
+        widthCm: 9,
+        heightCm: 4,
         categoryId: categories[4].id,
       },
 
@@ -161,6 +224,10 @@ async function main() {
           "Canvas tool bag with 16 pockets and reinforced handles. Keeps tools organized and portable.",
         priceCents: 2999,
         unit: "pcs",
+        weightGrams: 1500,
+        lengthCm: 45,
+        widthCm: 25,
+        heightCm: 25,
         categoryId: categories[0].id,
       },
     ];
@@ -171,20 +238,173 @@ async function main() {
 
     console.log("✅ Created 12 products:");
 
-    // Create inventory for each product
+    // Warehouses: orders ship from the nearest one that has the stock
+    const [montreal, toronto] = await Promise.all([
+      prisma.warehouse.create({
+        data: {
+          code: "MTL",
+          name: "Montreal",
+          country: "CA",
+          region: "QC",
+          postalCode: "H2X 1Y4",
+        },
+      }),
+      prisma.warehouse.create({
+        data: {
+          code: "TOR",
+          name: "Toronto",
+          country: "CA",
+          region: "ON",
+          postalCode: "M5V 2T6",
+          priority: 1,
+        },
+      }),
+    ]);
+
+    console.log("✅ Created 2 warehouses (Montreal, Toronto)");
+
+    // Create inventory for each product at both warehouses
     await Promise.all(
       products.map((product) =>
-        prisma.inventory.create({
-          data: {
-            productId: product.id,
-            ownerType: "PLATFORM",
-            quantity: 150,
-          },
+        prisma.$transaction(async (tx) => {
+          await receiveStock(
+            tx,
+            { productId: product.id, warehouseId: montreal.id },
+            100,
+            { note: "Initial stock" }
+          );
+          await receiveStock(
+            tx,
+            { productId: product.id, warehouseId: toronto.id },
+            50,
+            { note: "Initial stock" }
+          );
         })
       )
     );
 
     console.log("✅ Created inventory for all products");
+
+    // Drop-ship supplier: orders fall back to its stock once platform stock
+    // runs out. Kept across seeds so that its portal users stay linked.
+    const supplier = await prisma.supplier.upsert({
+      where: { name: "Laurentian Industrial Supply" },
+      update: {},
+      create: {
+        name: "Laurentian Industrial Supply",
+        email: "orders@laurentian-supply.example",
+      },
+    });
+    await prisma.$transaction(async (tx) => {
+      for (const product of products.slice(0, 4)) {
+        await setSupplierStock(
+          tx,
+          { productId: product.id, supplierId: supplier.id },
+          500,
+          { note: "Initial stock" }
+        );
+      }
+    });
+
+    console.log("✅ Created drop-ship supplier stock for 4 products");
+
+    // Shipping zones: the most specific zone for the buyer's address applies
+    // (postal prefix, then province/state, then country). Weights in grams.
+    const shippingZonesData = [
+      {
+        name: "Greater Montreal",
+        country: "CA",
+        regions: ["QC"],
+        postalPrefixes: ["H"],
+        rates: [
+          {
+            method: "GROUND" as const,
+            maxWeightGrams: 30000,
+            priceCents: 800,
+            freeAboveCents: 10000,
+          },
+          {
+            method: "GROUND" as const,
+            minWeightGrams: 30000,
+            maxWeightGrams: 150000,
+            priceCents: 3500,
+          },
+          {
+            method: "EXPRESS" as const,
+            maxWeightGrams: 30000,
+            priceCents: 1500,
+          },
+          {
+            method: "FREIGHT" as const,
+            minWeightGrams: 30000,
+            priceCents: 9500,
+          },
+        ],
+      },
+      {
+        name: "Canada",
+        country: "CA",
+        regions: [],
+        postalPrefixes: [],
+        rates: [
+          {
+            method: "GROUND" as const,
+            maxWeightGrams: 30000,
+            priceCents: 1000,
+            freeAboveCents: 10000,
+          },
+          {
+            method: "GROUND" as const,
+            minWeightGrams: 30000,
+            maxWeightGrams: 150000,
+            priceCents: 4500,
+          },
+          {
+            method: "EXPRESS" as const,
+            maxWeightGrams: 30000,
+            priceCents: 2500,
+          },
+          {
+            method: "FREIGHT" as const,
+            minWeightGrams: 30000,
+            priceCents: 15000,
+          },
+        ],
+      },
+      {
+        name: "United States",
+        country: "US",
+        regions: [],
+        postalPrefixes: [],
+        rates: [
+          {
+            method: "GROUND" as const,
+            maxWeightGrams: 30000,
+            priceCents: 2000,
+          },
+          {
+            method: "EXPRESS" as const,
+            maxWeightGrams: 30000,
+            priceCents: 4500,
+          },
+          {
+            method: "FREIGHT" as const,
+            minWeightGrams: 30000,
+            priceCents: 25000,
+          },
+        ],
+      },
+    ];
+
+    await Promise.all(
+      shippingZonesData.map(({ rates, ...zone }) =>
+        prisma.shippingZone.create({
+          data: { ...zone, rates: { create: rates } },
+        })
+      )
+    );
+
+    console.log("✅ Created 3 shipping zones");
     console.log("✨ Seeding complete!");
   } catch (error) {
     console.error("❌ Seeding failed:", error);